@@ -4,7 +4,7 @@ import tsparser from '@typescript-eslint/parser';
 export default [
   {
     files: ['src/**/*.ts'],
-    ignores: ['src/**/*.test.ts'],
+    ignores: ['src/**/*.test.ts', 'src/testing/**'],
     languageOptions: {
       parser: tsparser,
       parserOptions: {
@@ -23,7 +23,7 @@ export default [
     },
   },
   {
-    files: ['src/**/*.test.ts'],
+    files: ['src/**/*.test.ts', 'src/testing/**/*.ts'],
     languageOptions: {
       parser: tsparser,
       parserOptions: {
@@ -40,6 +40,8 @@ export function checkARCReadiness(
   if (!dkim.found) {
     canSign = false;
     issues.push({
+      code: 'ARC-NO-DKIM',
+      check: 'arc',
       severity: 'medium',
       message: 'DKIM not configured - cannot sign ARC headers',
       recommendation: 'Configure DKIM to enable ARC signing capability'
@@ -51,6 +53,8 @@ export function checkARCReadiness(
     );
     if (!hasStrongKey) {
       issues.push({
+        code: 'ARC-WEAK-DKIM-KEY',
+        check: 'arc',
         severity: 'low',
         message: 'DKIM keys should be 2048-bit RSA or ed25519 for ARC',
         recommendation: 'Upgrade DKIM keys to 2048-bit RSA or ed25519 for better ARC compatibility'
@@ -61,12 +65,16 @@ export function checkARCReadiness(
   // Check DMARC (recommended for ARC usage)
   if (!dmarc.found) {
     issues.push({
+      code: 'ARC-NO-DMARC',
+      check: 'arc',
       severity: 'low',
       message: 'DMARC not configured - ARC benefits are limited',
       recommendation: 'Configure DMARC to fully benefit from ARC authentication chain'
     });
   } else if (dmarc.policy === 'none') {
     issues.push({
+      code: 'ARC-DMARC-P-NONE',
+      check: 'arc',
       severity: 'info',
       message: 'DMARC policy is "none" - ARC can help when upgrading to stricter policy',
       recommendation: 'ARC preserves authentication when emails are forwarded'
@@ -76,6 +84,8 @@ export function checkARCReadiness(
   // Check SPF (supplementary)
   if (!spf.found) {
     issues.push({
+      code: 'ARC-NO-SPF',
+      check: 'arc',
       severity: 'info',
       message: 'SPF not configured - ARC can help preserve SPF results across forwards',
       recommendation: 'Configure SPF for complete email authentication'
@@ -87,6 +97,8 @@ export function checkARCReadiness(
 
   if (ready && issues.length === 0) {
     issues.push({
+      code: 'ARC-READY',
+      check: 'arc',
       severity: 'info',
       message: 'Domain is ARC-ready',
       recommendation: 'Your email infrastructure can participate in ARC chains'
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { validateSvgTinyPs } from './bimi-svg.js';
+
+const svg = (attributes: string, content: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" ${attributes}>${content}</svg>`;
+
+const VALID = svg('version="1.2" baseProfile="tiny-ps" viewBox="0 0 100 100"', '<title>Example</title><circle cx="50" cy="50" r="40" fill="#c00"/>');
+
+const codes = (source: string) => validateSvgTinyPs(source).issues.map(i => i.code);
+
+describe('validateSvgTinyPs', () => {
+  it('accepts a minimal SVG Tiny PS logo', () => {
+    expect(validateSvgTinyPs(VALID)).toEqual({ title: 'Example', baseProfile: 'tiny-ps', version: '1.2', viewBox: '0 0 100 100', issues: [] });
+  });
+
+  it('requires the tiny-ps profile, a title and a square canvas', () => {
+    expect(codes(svg('version="1.1" viewBox="0 0 200 100" x="0"', '<rect width="10" height="10"/>'))).toEqual([
+      'BIMI-SVG-PROFILE',
+      'BIMI-SVG-VERSION',
+      'BIMI-SVG-NO-TITLE',
+      'BIMI-SVG-ROOT-POSITION',
+      'BIMI-SVG-NOT-SQUARE',
+    ]);
+    expect(codes(svg('version="1.2" baseProfile="tiny-ps" width="64" height="64"', '<title>Example</title>'))).toEqual([]);
+    expect(codes(svg('version="1.2" baseProfile="tiny-ps"', '<title>Example</title>'))).toEqual(['BIMI-SVG-NO-DIMENSIONS']);
+  });
+
+  it('rejects scripts, animations, raster images and external references', () => {
+    const content = [
+      '<title>Example</title>',
+      '<script>alert(1)</script>',
+      '<g onclick="x()"><animate attributeName="r" to="10"/></g>',
+      '<image xlink:href="data:image/png;base64,AAAA" width="10" height="10"/>',
+      '<use xlink:href="https://cdn.example/shapes.svg#logo"/>',
+      '<rect fill="url(#grad)" width="1" height="1"/>',
+    ].join('');
+
+    expect(codes(svg('xmlns:xlink="http://www.w3.org/1999/xlink" version="1.2" baseProfile="tiny-ps" viewBox="0 0 100 100"', content))).toEqual([
+      'BIMI-SVG-SCRIPT',
+      'BIMI-SVG-ANIMATION',
+      'BIMI-SVG-RASTER',
+      'BIMI-SVG-EXTERNAL-REF',
+    ]);
+    expect(codes(svg('version="1.2" baseProfile="tiny-ps" viewBox="0 0 100 100"', '<title>Example</title><style>@import url(https://x.example/a.css);</style>')))
+      .toEqual(['BIMI-SVG-EXTERNAL-REF']);
+  });
+
+  it('reports documents that are not SVG', () => {
+    expect(codes('<svg><title>unclosed</svg>')).toEqual(['BIMI-SVG-INVALID']);
+    expect(validateSvgTinyPs('<html><body/></html>').issues[0].message).toBe('BIMI logo root element is <html>, not <svg>');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * BIMI logo validation against the SVG Tiny Portable/Secure profile
+ * (draft-svg-tiny-ps-abrotman): SVG Tiny 1.2 with baseProfile="tiny-ps",
+ * a <title>, and nothing that runs code, moves or loads other resources.
+ */
+
+import type { Issue } from '../types.js';
+import { parseXml } from '../utils/xml.js';
+import type { XmlElement } from '../utils/xml.js';
+
+export interface SvgTinyPsResult {
+  title?: string;
+  baseProfile?: string;
+  version?: string;
+  viewBox?: string;
+  issues: Issue[];
+}
+
+const ANIMATION_ELEMENTS = new Set(['animate', 'animateColor', 'animateMotion', 'animateTransform', 'set', 'discard']);
+// Elements outside the profile that can embed content or run code
+const FORBIDDEN_ELEMENTS = new Set(['foreignObject', 'video', 'audio', 'iframe', 'handler', 'listener']);
+
+/**
+ * Width and height of the root element, from viewBox or width/height
+ */
+function dimensions(svg: XmlElement): [number, number] | undefined {
+  const viewBox = svg.attributes.viewBox?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox?.length === 4 && viewBox.every(Number.isFinite)) {
+    return [viewBox[2], viewBox[3]];
+  }
+  const width = parseFloat(svg.attributes.width ?? '');
+  const height = parseFloat(svg.attributes.height ?? '');
+  return Number.isFinite(width) && Number.isFinite(height) ? [width, height] : undefined;
+}
+
+function* descendants(element: XmlElement): Generator<XmlElement> {
+  for (const child of element.children) {
+    yield child;
+    yield* descendants(child);
+  }
+}
+
+/**
+ * Validate an SVG document against SVG Tiny PS. Each violation is reported
+ * once, with the first offending element or attribute as evidence.
+ */
+export function validateSvgTinyPs(svg: string, logoUrl?: string): SvgTinyPsResult {
+  const issues: Issue[] = [];
+  const reported = new Set<string>();
+  const add = (code: string, severity: Issue['severity'], message: string, recommendation: string, value?: string) => {
+    if (reported.has(code)) return;
+    reported.add(code);
+    issues.push({ code, check: 'bimi', severity, message, recommendation, evidence: { tag: 'l', name: logoUrl, value } });
+  };
+
+  let root: XmlElement;
+  try {
+    root = parseXml(svg);
+  } catch (err) {
+    add('BIMI-SVG-INVALID', 'high', `BIMI logo is not well-formed XML: ${(err as Error).message}`, 'Export the logo as SVG Tiny PS from your design tool');
+    return { issues };
+  }
+  if (root.name !== 'svg') {
+    add('BIMI-SVG-INVALID', 'high', `BIMI logo root element is <${root.name}>, not <svg>`, 'Export the logo as SVG Tiny PS from your design tool', root.name);
+    return { issues };
+  }
+
+  const { baseProfile, version, viewBox } = root.attributes;
+  const title = root.children.find(child => child.name === 'title')?.text.trim() || undefined;
+
+  if (baseProfile !== 'tiny-ps') {
+    add('BIMI-SVG-PROFILE', 'high', `BIMI logo baseProfile is ${baseProfile ? `"${baseProfile}"` : 'missing'}, expected "tiny-ps"`,
+      'Set baseProfile="tiny-ps" on the <svg> element and remove features outside the profile', baseProfile);
+  }
+  if (version !== '1.2') {
+    add('BIMI-SVG-VERSION', 'medium', `BIMI logo SVG version is ${version ? `"${version}"` : 'missing'}, expected "1.2"`,
+      'Set version="1.2" on the <svg> element', version);
+  }
+  if (!title) {
+    add('BIMI-SVG-NO-TITLE', 'high', 'BIMI logo has no <title>', 'Add a <title> with the brand name as the first child of <svg>');
+  }
+  if (root.attributes.x !== undefined || root.attributes.y !== undefined) {
+    add('BIMI-SVG-ROOT-POSITION', 'medium', 'BIMI logo <svg> element has x= or y= attributes', 'Remove x and y from the <svg> element');
+  }
+
+  const size = dimensions(root);
+  if (!size) {
+    add('BIMI-SVG-NO-DIMENSIONS', 'medium', 'BIMI logo has no viewBox (or width and height)', 'Add a square viewBox, e.g. viewBox="0 0 100 100"');
+  } else if (size[0] !== size[1]) {
+    add('BIMI-SVG-NOT-SQUARE', 'medium', `BIMI logo is not square (${size[0]}×${size[1]})`,
+      'Use a square viewBox; mailbox providers crop logos to a circle or square', `${size[0]}x${size[1]}`);
+  }
+
+  for (const element of [root, ...descendants(root)]) {
+    if (element.name === 'script') {
+      add('BIMI-SVG-SCRIPT', 'high', 'BIMI logo contains a <script> element', 'Remove all scripts from the logo', element.name);
+    } else if (ANIMATION_ELEMENTS.has(element.name)) {
+      add('BIMI-SVG-ANIMATION', 'high', `BIMI logo contains an animation (<${element.name}>)`, 'Remove animation elements; BIMI logos are static', element.name);
+    } else if (element.name === 'image') {
+      add('BIMI-SVG-RASTER', 'high', 'BIMI logo embeds an <image>', 'Redraw the logo as vector shapes; raster images are not allowed', element.attributes.href?.slice(0, 60));
+    } else if (FORBIDDEN_ELEMENTS.has(element.name)) {
+      add('BIMI-SVG-FORBIDDEN-ELEMENT', 'high', `BIMI logo contains <${element.name}>, which SVG Tiny PS does not allow`, `Remove the <${element.name}> element`, element.name);
+    }
+
+    for (const [name, value] of Object.entries(element.attributes)) {
+      if (/^on/i.test(name)) {
+        add('BIMI-SVG-SCRIPT', 'high', `BIMI logo has an event handler (${name}=)`, 'Remove all scripts and event handler attributes from the logo', name);
+      }
+      if (name === 'href' && !value.startsWith('#') && element.name !== 'image') {
+        add('BIMI-SVG-EXTERNAL-REF', 'high', `BIMI logo references an external resource (${value.slice(0, 60)})`,
+          'Inline everything the logo uses; only same-document references (#id) are allowed', value);
+      }
+      const url = /url\(\s*['"]?([^'")\s]+)/i.exec(value)?.[1];
+      if (url && !url.startsWith('#')) {
+        add('BIMI-SVG-EXTERNAL-REF', 'high', `BIMI logo references an external resource (${url.slice(0, 60)})`,
+          'Inline everything the logo uses; only same-document references (#id) are allowed', url);
+      }
+    }
+
+    if (element.name === 'style' && /@import|url\(\s*['"]?(?!#)/i.test(element.text)) {
+      add('BIMI-SVG-EXTERNAL-REF', 'high', 'BIMI logo stylesheet loads an external resource', 'Remove @import and url() references from <style>', element.text.trim().slice(0, 60));
+    }
+  }
+
+  return { title, baseProfile, version, viewBox, issues };
+}
@@ -0,0 +1,207 @@
+import crypto from 'node:crypto';
+import zlib from 'node:zlib';
+import { describe, it, expect } from 'vitest';
+import { checkMarkCertificate, parsePemCertificates, readLogotype, readMarkType } from './bimi-vmc.js';
+
+// Minimal DER encoder for building test certificates
+const der = (tag: number, ...content: Buffer[]): Buffer => {
+  const body = Buffer.concat(content);
+  const length = body.length < 0x80
+    ? Buffer.from([body.length])
+    : body.length < 0x100 ? Buffer.from([0x81, body.length]) : Buffer.from([0x82, body.length >> 8, body.length & 0xff]);
+  return Buffer.concat([Buffer.from([tag]), length, body]);
+};
+const seq = (...content: Buffer[]) => der(0x30, ...content);
+const set = (...content: Buffer[]) => der(0x31, ...content);
+const int = (value: number) => der(0x02, Buffer.from([value]));
+const octets = (value: Buffer) => der(0x04, value);
+const utf8 = (value: string) => der(0x0c, Buffer.from(value, 'utf-8'));
+const ia5 = (value: string) => der(0x16, Buffer.from(value, 'latin1'));
+const time = (date: Date) => der(0x17, Buffer.from(date.toISOString().replace(/\D/g, '').slice(2, 14) + 'Z'));
+const oid = (dotted: string) => {
+  const [a, b, ...rest] = dotted.split('.').map(Number);
+  const bytes = [a * 40 + b];
+  for (const arc of rest) {
+    const encoded = [arc & 0x7f];
+    for (let v = arc >> 7; v > 0; v >>= 7) encoded.unshift((v & 0x7f) | 0x80);
+    bytes.push(...encoded);
+  }
+  return der(0x06, Buffer.from(bytes));
+};
+const extension = (id: string, value: Buffer) => seq(oid(id), octets(value));
+
+const ECDSA_SHA256 = seq(oid('1.2.840.10045.4.3.2'));
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" version="1.2" baseProfile="tiny-ps" viewBox="0 0 64 64"><title>Example</title></svg>';
+const SVG_SHA256 = crypto.createHash('sha256').update(SVG).digest('hex');
+const NOW = new Date('2026-06-01T00:00:00Z');
+
+interface Party {
+  name: string;
+  key: crypto.KeyPairKeyObjectResult;
+  markType?: string;
+}
+
+const party = (name: string, markType?: string): Party => ({ name, key: crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }), markType });
+
+const name = (subject: Party) => seq(
+  set(seq(oid('2.5.4.3'), utf8(subject.name))),
+  ...(subject.markType ? [set(seq(oid('1.3.6.1.4.1.53087.1.13'), utf8(subject.markType)))] : [])
+);
+
+/**
+ * Logotype extension value with the SVG as a gzipped data: URI
+ */
+const logotype = (svg: string, hashed: string = svg) => {
+  const uri = `data:image/svg+xml;base64,${zlib.gzipSync(svg).toString('base64')}`;
+  const hash = crypto.createHash('sha256').update(hashed).digest();
+  const details = seq(ia5('image/svg+xml'), seq(seq(seq(oid('2.16.840.1.101.3.4.2.1')), octets(hash))), seq(ia5(uri)));
+  return seq(der(0xa2, der(0xa0, seq(seq(details)))));
+};
+
+interface CertOptions {
+  ca?: boolean;
+  notBefore?: Date;
+  notAfter?: Date;
+  eku?: string;
+  sans?: string[];
+  logo?: Buffer;
+}
+
+const certificate = (subject: Party, issuer: Party, options: CertOptions = {}): string => {
+  const extensions = [
+    ...(options.ca ? [extension('2.5.29.19', seq(der(0x01, Buffer.from([0xff]))))] : []),
+    ...(options.eku ? [extension('2.5.29.37', seq(oid(options.eku)))] : []),
+    ...(options.sans ? [extension('2.5.29.17', seq(...options.sans.map(san => der(0x82, Buffer.from(san)))))] : []),
+    ...(options.logo ? [extension('1.3.6.1.5.5.7.1.12', options.logo)] : []),
+  ];
+  const tbs = seq(
+    der(0xa0, int(2)),
+    int(Math.floor(Math.random() * 100) + 1),
+    ECDSA_SHA256,
+    name(issuer),
+    seq(time(options.notBefore ?? new Date('2026-01-01T00:00:00Z')), time(options.notAfter ?? new Date('2027-01-01T00:00:00Z'))),
+    name(subject),
+    subject.key.publicKey.export({ type: 'spki', format: 'der' }),
+    ...(extensions.length ? [der(0xa3, seq(...extensions))] : [])
+  );
+  const signature = crypto.sign('sha256', tbs, issuer.key.privateKey);
+  const cert = seq(tbs, ECDSA_SHA256, der(0x03, Buffer.from([0]), signature));
+  return `-----BEGIN CERTIFICATE-----\n${cert.toString('base64').match(/.{1,64}/g)!.join('\n')}\n-----END CERTIFICATE-----\n`;
+};
+
+const root = party('Example Mark Root');
+const intermediate = party('Example Mark CA');
+const ROOT = certificate(root, root, { ca: true });
+const INTERMEDIATE = certificate(intermediate, root, { ca: true });
+const BIMI_EKU = '1.3.6.1.5.5.7.3.31';
+
+const leaf = (options: CertOptions = {}, markType = 'Registered Mark') =>
+  certificate(party('Example Inc.', markType), intermediate, { eku: BIMI_EKU, sans: ['example.com'], logo: logotype(SVG), ...options });
+
+const check = (pem: string, logoSha256?: string, trustAnchors = parsePemCertificates(ROOT)) =>
+  checkMarkCertificate(pem, { domain: 'example.com', selector: 'default', logoSha256, trustAnchors, now: NOW });
+
+const codes = (pem: string, logoSha256?: string) => check(pem, logoSha256).issues.map(i => i.code);
+
+describe('readMarkType and readLogotype', () => {
+  it('read the mark type attribute and the embedded logo', () => {
+    const [cert] = parsePemCertificates(leaf());
+
+    expect(readMarkType(cert)).toBe('Registered Mark');
+    expect(readLogotype(cert)).toMatchObject({ mediaType: 'image/svg+xml', hashAlgorithm: 'sha256', hashValid: true });
+    expect(readLogotype(cert)?.data?.toString()).toBe(SVG);
+  });
+
+  it('return undefined for certificates without them', () => {
+    const [cert] = parsePemCertificates(ROOT);
+
+    expect(readMarkType(cert)).toBeUndefined();
+    expect(readLogotype(cert)).toBeUndefined();
+  });
+});
+
+describe('checkMarkCertificate', () => {
+  it('accepts a valid VMC chain whose logo matches l=', () => {
+    const result = check(leaf() + INTERMEDIATE + ROOT, SVG_SHA256);
+
+    expect(result.issues).toEqual([]);
+    expect(result.certificate).toMatchObject({
+      type: 'VMC',
+      markType: 'Registered Mark',
+      subject: 'CN=Example Inc., 1.3.6.1.4.1.53087.1.13=Registered Mark',
+      issuer: 'CN=Example Mark CA',
+      validTo: '2027-01-01T00:00:00.000Z',
+      daysToExpiry: 214,
+      sans: ['example.com'],
+      chainLength: 3,
+      chainValid: true,
+      logoSha256: SVG_SHA256,
+      logoMatches: true,
+    });
+  });
+
+  it('distinguishes CMCs by mark type', () => {
+    expect(check(leaf({}, 'Prior Use Mark') + INTERMEDIATE).certificate?.type).toBe('CMC');
+    expect(check(leaf({}, 'Modified Registered Mark') + INTERMEDIATE).certificate?.type).toBe('CMC');
+  });
+
+  it('reports a broken chain', () => {
+    const other = party('Other CA');
+    const result = check(leaf() + certificate(other, other, { ca: true }));
+
+    expect(result.certificate?.chainValid).toBe(false);
+    expect(result.issues.map(i => i.code)).toContain('BIMI-VMC-CHAIN-INVALID');
+  });
+
+  it('accepts chains that omit the trust anchor', () => {
+    expect(check(leaf() + INTERMEDIATE).certificate?.chainValid).toBe(true);
+  });
+
+  it('reports chains that do not end at a trust anchor', () => {
+    const other = party('Other Root');
+    const self = party('Example Inc.', 'Registered Mark');
+    const homeMade = certificate(self, self, { eku: BIMI_EKU, sans: ['example.com'], logo: logotype(SVG) });
+
+    const unknown = check(leaf() + INTERMEDIATE, undefined, parsePemCertificates(certificate(other, other, { ca: true })));
+    const lone = check(homeMade, undefined, []);
+    const unchecked = check(leaf() + INTERMEDIATE + ROOT, undefined, []);
+
+    expect(unknown.certificate?.chainValid).toBe(false);
+    expect(unknown.issues.find(i => i.code === 'BIMI-VMC-UNTRUSTED')?.severity).toBe('high');
+    expect(lone.certificate?.chainValid).toBe(false);
+    expect(lone.issues.find(i => i.code === 'BIMI-VMC-UNTRUSTED')).toMatchObject({ severity: 'high', message: 'BIMI certificate is self-signed' });
+    expect(unchecked.certificate?.chainValid).toBe(false);
+    expect(unchecked.issues.find(i => i.code === 'BIMI-VMC-UNTRUSTED')?.severity).toBe('low');
+  });
+
+  it('reports validity dates', () => {
+    expect(codes(leaf({ notAfter: new Date('2026-06-20T00:00:00Z') }) + INTERMEDIATE)).toContain('BIMI-VMC-EXPIRING');
+    expect(codes(leaf({ notAfter: new Date('2026-05-01T00:00:00Z') }) + INTERMEDIATE)).toContain('BIMI-VMC-EXPIRED');
+    expect(codes(leaf({ notBefore: new Date('2026-07-01T00:00:00Z') }) + INTERMEDIATE)).toContain('BIMI-VMC-NOT-YET-VALID');
+    expect(check(leaf({ notAfter: new Date('2026-05-01T00:00:00Z') })).certificate?.daysToExpiry).toBe(-31);
+  });
+
+  it('requires the BIMI EKU and a SAN covering the domain', () => {
+    expect(codes(leaf({ eku: '1.3.6.1.5.5.7.3.1' }) + INTERMEDIATE)).toContain('BIMI-VMC-NO-EKU');
+    expect(codes(leaf({ sans: ['other.example'] }) + INTERMEDIATE)).toContain('BIMI-VMC-SAN-MISMATCH');
+    expect(codes(leaf({ sans: ['default._bimi.example.com'] }) + INTERMEDIATE)).not.toContain('BIMI-VMC-SAN-MISMATCH');
+  });
+
+  it('compares the embedded logo with l=', () => {
+    const other = crypto.createHash('sha256').update('<svg/>').digest('hex');
+
+    expect(codes(leaf() + INTERMEDIATE, other)).toContain('BIMI-VMC-LOGO-MISMATCH');
+    expect(check(leaf() + INTERMEDIATE).certificate?.logoMatches).toBeUndefined();
+    expect(codes(leaf({ logo: logotype(SVG, '<svg/>') }) + INTERMEDIATE)).toContain('BIMI-VMC-LOGO-HASH-INVALID');
+    expect(codes(certificate(party('Example Inc.', 'Registered Mark'), intermediate, { eku: BIMI_EKU, sans: ['example.com'] }) + INTERMEDIATE)).toContain('BIMI-VMC-NO-LOGO');
+  });
+
+  it('reports certificates without a mark type', () => {
+    expect(codes(certificate(party('Example Inc.'), intermediate, { eku: BIMI_EKU, sans: ['example.com'], logo: logotype(SVG) }) + INTERMEDIATE)).toEqual(['BIMI-VMC-NO-MARK-TYPE']);
+  });
+
+  it('rejects content that is not a PEM certificate', () => {
+    expect(codes(SVG)).toEqual(['BIMI-VMC-INVALID']);
+    expect(codes('-----BEGIN CERTIFICATE-----\nAAAA\n-----END CERTIFICATE-----')).toEqual(['BIMI-VMC-INVALID']);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * BIMI mark certificate validation
+ *
+ * The a= tag points to a PEM chain whose leaf is a Verified Mark Certificate
+ * (VMC) or Common Mark Certificate (CMC): an X.509 certificate with the BIMI
+ * EKU and the logo embedded as an RFC 3709 logotype. The chain must be
+ * signed through to one of the given trust anchors (the roots of the mark
+ * verifying authorities); none are bundled, so without them every chain is
+ * reported as unverified.
+ */
+
+import crypto, { X509Certificate } from 'node:crypto';
+import zlib from 'node:zlib';
+import type { BIMICertificate, Issue } from '../types.js';
+import { DER_TAG, decodeOid, derContextChild, parseDer } from '../utils/der.js';
+import type { DerNode } from '../utils/der.js';
+import { organizationalDomain } from '../utils/domain.js';
+import {
+  BIMI_CERT_EXPIRY_WARN_DAYS,
+  BIMI_CMC_MARK_TYPES,
+  BIMI_EKU_OID,
+  BIMI_MARK_TYPE_OID,
+  LOGOTYPE_EXTENSION_OID,
+} from '../constants.js';
+
+export interface MarkCertificateOptions {
+  domain: string;
+  selector: string;
+  logoSha256?: string; // Hex SHA-256 of the l= SVG, when it was fetched
+  trustAnchors?: X509Certificate[]; // Mark verifying authority roots
+  now?: Date;
+}
+
+export interface Logotype {
+  mediaType: string;
+  hashAlgorithm?: string;  // node:crypto name, undefined when unsupported
+  hash: Buffer;            // logotypeHash
+  data?: Buffer;           // Content of a data: logotypeURI, gunzipped
+  hashValid?: boolean;     // logotypeHash matches the embedded data
+}
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  '1.3.14.3.2.26': 'sha1',
+  '2.16.840.1.101.3.4.2.1': 'sha256',
+  '2.16.840.1.101.3.4.2.2': 'sha384',
+  '2.16.840.1.101.3.4.2.3': 'sha512',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * All certificates of a PEM bundle, in file order
+ */
+export function parsePemCertificates(pem: string): X509Certificate[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? [];
+  return blocks.map(block => new X509Certificate(block));
+}
+
+/**
+ * TBSCertificate of a certificate, parsed from its DER encoding
+ */
+function tbsCertificate(cert: X509Certificate): DerNode {
+  return parseDer(cert.raw).children[0];
+}
+
+/**
+ * Value (OCTET STRING content) of an extension, undefined when absent
+ */
+function extensionValue(cert: X509Certificate, oid: string): Buffer | undefined {
+  const extensions = derContextChild(tbsCertificate(cert), 3)?.children[0]?.children ?? [];
+  const extension = extensions.find(ext => ext.children[0]?.tag === DER_TAG.OID && decodeOid(ext.children[0].content) === oid);
+  return extension?.children[extension.children.length - 1].content;
+}
+
+/**
+ * The BIMI markType subject attribute, e.g. "Registered Mark"
+ */
+export function readMarkType(cert: X509Certificate): string | undefined {
+  const tbs = tbsCertificate(cert);
+  // version [0] is optional; then serial, signature, issuer, validity, subject
+  const subject = tbs.children[(derContextChild(tbs, 0) ? 1 : 0) + 4];
+  for (const rdn of subject?.children ?? []) {
+    for (const attribute of rdn.children) {
+      const [type, value] = attribute.children;
+      if (type?.tag === DER_TAG.OID && decodeOid(type.content) === BIMI_MARK_TYPE_OID) {
+        return value?.content.toString('utf-8');
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The subject logotype (RFC 3709 §4.1): the first image of the direct
+ * subjectLogo, with the data of a data: URI decoded
+ */
+export function readLogotype(cert: X509Certificate): Logotype | undefined {
+  const value = extensionValue(cert, LOGOTYPE_EXTENSION_OID);
+  if (!value) return undefined;
+
+  // LogotypeExtn: subjectLogo [2] EXPLICIT LogotypeInfo; direct [0] IMPLICIT LogotypeData
+  const direct = derContextChild(derContextChild(parseDer(value), 2), 0);
+  const details = direct?.children.find(child => child.tagClass === 'universal' && child.tag === DER_TAG.SEQUENCE)?.children[0]?.children[0];
+  const [mediaType, hashes, uris] = details?.children ?? [];
+  const [algorithm, hash] = hashes?.children[0]?.children ?? [];
+  if (!mediaType || !hash) return undefined;
+
+  const logotype: Logotype = {
+    mediaType: mediaType.content.toString('latin1'),
+    hashAlgorithm: HASH_ALGORITHMS[decodeOid(algorithm?.children[0]?.content ?? Buffer.alloc(0))],
+    hash: hash.content,
+  };
+
+  const uri = uris?.children[0]?.content.toString('latin1');
+  const data = uri ? /^data:([^,]*?)(;base64)?,(.*)$/s.exec(uri) : null;
+  if (data) {
+    const raw = data[2] ? Buffer.from(data[3], 'base64') : Buffer.from(decodeURIComponent(data[3]), 'latin1');
+    const gzipped = raw[0] === 0x1f && raw[1] === 0x8b;
+    logotype.data = gzipped ? zlib.gunzipSync(raw) : raw;
+    if (logotype.hashAlgorithm) {
+      // Issuers hash either the URI's content or the uncompressed SVG
+      logotype.hashValid = [raw, logotype.data].some(bytes => crypto.createHash(logotype.hashAlgorithm!).update(bytes).digest().equals(logotype.hash));
+    }
+  }
+  return logotype;
+}
+
+/**
+ * Whether cert names issuer as its issuer and carries its signature
+ */
+function signedBy(cert: X509Certificate, issuer: X509Certificate): boolean {
+  return cert.checkIssued(issuer) && cert.verify(issuer.publicKey);
+}
+
+/**
+ * DNS names in the subjectAltName extension
+ */
+function dnsNames(cert: X509Certificate): string[] {
+  return (cert.subjectAltName ?? '')
+    .split(/,\s*/)
+    .filter(entry => entry.startsWith('DNS:'))
+    .map(entry => entry.slice(4).toLowerCase());
+}
+
+/**
+ * Validate a VMC/CMC PEM chain for <selector>._bimi.<domain>
+ */
+export function checkMarkCertificate(pem: string, options: MarkCertificateOptions): { certificate?: BIMICertificate; issues: Issue[] } {
+  const issues: Issue[] = [];
+  const bimiName = `${options.selector}._bimi.${options.domain}`;
+  const evidence = { tag: 'a', name: bimiName };
+  const add = (code: string, severity: Issue['severity'], message: string, recommendation: string, value?: string) =>
+    issues.push({ code, check: 'bimi', severity, message, recommendation, evidence: { ...evidence, value } });
+
+  let chain: X509Certificate[];
+  try {
+    chain = parsePemCertificates(pem);
+  } catch (err) {
+    add('BIMI-VMC-INVALID', 'high', `BIMI certificate could not be parsed: ${(err as Error).message}`, 'Publish the PEM chain issued by your mark verifying authority');
+    return { issues };
+  }
+  if (chain.length === 0) {
+    add('BIMI-VMC-INVALID', 'high', 'BIMI certificate URL does not serve a PEM certificate', 'Publish the PEM chain issued by your mark verifying authority');
+    return { issues };
+  }
+
+  const leaf = chain[0];
+  const now = options.now ?? new Date();
+  const validFrom = new Date(leaf.validFrom);
+  const validTo = new Date(leaf.validTo);
+  const daysToExpiry = Math.floor((validTo.getTime() - now.getTime()) / DAY_MS);
+
+  // Each certificate must be issued and signed by the next one
+  let chainValid = true;
+  for (let i = 0; i < chain.length; i++) {
+    const issuer = chain[i + 1] ?? (chain[i].checkIssued(chain[i]) ? chain[i] : undefined);
+    if (issuer && !signedBy(chain[i], issuer)) {
+      chainValid = false;
+      add('BIMI-VMC-CHAIN-INVALID', 'high', `BIMI certificate ${i + 1} of ${chain.length} (${chain[i].subject.split('\n').join(', ')}) is not signed by the next certificate`,
+        'Serve the mark certificate first, followed by its intermediates in issuing order');
+      break;
+    }
+  }
+
+  // ...and the last one must be, or be signed by, a trust anchor
+  const top = chain[chain.length - 1];
+  const anchors = options.trustAnchors ?? [];
+  if (chainValid && !anchors.some(anchor => anchor.fingerprint256 === top.fingerprint256 || signedBy(top, anchor))) {
+    chainValid = false;
+    const selfSigned = chain.length === 1 && leaf.checkIssued(leaf);
+    if (selfSigned || anchors.length > 0) {
+      add('BIMI-VMC-UNTRUSTED', 'high', selfSigned
+        ? 'BIMI certificate is self-signed'
+        : `BIMI certificate chain does not end at a known mark verifying authority root (${top.issuer.split('\n').join(', ')})`,
+      'Use a VMC or CMC issued by a mark verifying authority recognized by the BIMI Group', top.issuer.split('\n').join(', '));
+    } else {
+      add('BIMI-VMC-UNTRUSTED', 'low', 'BIMI certificate chain was not checked against mark verifying authority roots',
+        'Pass the roots of the BIMI mark verifying authorities with --bimi-roots');
+    }
+  }
+
+  if (now < validFrom) {
+    add('BIMI-VMC-NOT-YET-VALID', 'high', `BIMI certificate is not valid until ${validFrom.toISOString().slice(0, 10)}`, 'Publish the certificate once it is valid', leaf.validFrom);
+  } else if (daysToExpiry < 0) {
+    add('BIMI-VMC-EXPIRED', 'high', `BIMI certificate expired on ${validTo.toISOString().slice(0, 10)}`, 'Renew the mark certificate; mailbox providers stop showing the logo', leaf.validTo);
+  } else if (daysToExpiry <= BIMI_CERT_EXPIRY_WARN_DAYS) {
+    add('BIMI-VMC-EXPIRING', 'medium', `BIMI certificate expires in ${daysToExpiry} day(s)`, 'Renew the mark certificate before it expires', leaf.validTo);
+  }
+  for (const cert of chain.slice(1)) {
+    if (new Date(cert.validTo) < now) {
+      add('BIMI-VMC-EXPIRED', 'high', `BIMI intermediate certificate ${cert.subject.split('\n').join(', ')} has expired`, 'Serve the current intermediate certificates from your mark verifying authority', cert.validTo);
+    }
+  }
+
+  if (!leaf.keyUsage?.includes(BIMI_EKU_OID)) {
+    add('BIMI-VMC-NO-EKU', 'high', 'BIMI certificate lacks the BIMI extended key usage (1.3.6.1.5.5.7.3.31)', 'Use a VMC or CMC issued for BIMI, not a TLS or S/MIME certificate');
+  }
+
+  const sans = dnsNames(leaf);
+  const covered = [bimiName, options.domain, organizationalDomain(options.domain)].map(name => name.toLowerCase());
+  if (!sans.some(san => covered.includes(san))) {
+    add('BIMI-VMC-SAN-MISMATCH', 'high', `BIMI certificate does not cover ${bimiName} (SANs: ${sans.join(', ') || 'none'})`,
+      `Request a certificate whose subjectAltName includes ${options.domain}`, sans.join(','));
+  }
+
+  const markType = readMarkType(leaf);
+  const type = markType ? (BIMI_CMC_MARK_TYPES.includes(markType) ? 'CMC' : 'VMC') : undefined;
+  if (!markType) {
+    add('BIMI-VMC-NO-MARK-TYPE', 'low', 'BIMI certificate has no markType attribute, so it is neither a recognizable VMC nor CMC', 'Use a certificate issued under the BIMI Group guidelines');
+  }
+
+  let logotype: Logotype | undefined;
+  try {
+    logotype = readLogotype(leaf);
+  } catch (err) {
+    add('BIMI-VMC-LOGO-INVALID', 'high', `BIMI certificate logotype could not be decoded: ${(err as Error).message}`, 'Ask your mark verifying authority to reissue the certificate');
+  }
+  const logoSha256 = logotype?.data ? crypto.createHash('sha256').update(logotype.data).digest('hex') : undefined;
+  if (!logotype?.data) {
+    if (!issues.some(i => i.code === 'BIMI-VMC-LOGO-INVALID')) {
+      add('BIMI-VMC-NO-LOGO', 'high', 'BIMI certificate has no embedded logotype (RFC 3709)', 'Use a mark certificate that embeds the SVG logo');
+    }
+  } else if (logotype.hashValid === false) {
+    add('BIMI-VMC-LOGO-HASH-INVALID', 'high', `BIMI certificate logotype does not match its own ${logotype.hashAlgorithm} hash`, 'Ask your mark verifying authority to reissue the certificate');
+  }
+  const logoMatches = logoSha256 && options.logoSha256 ? logoSha256 === options.logoSha256 : undefined;
+  if (logoMatches === false) {
+    add('BIMI-VMC-LOGO-MISMATCH', 'high', 'BIMI logo (l=) differs from the logo embedded in the certificate', 'Serve exactly the SVG that was certified at the l= URL', logoSha256);
+  }
+
+  return {
+    certificate: {
+      type,
+      markType,
+      subject: leaf.subject.split('\n').join(', '),
+      issuer: leaf.issuer.split('\n').join(', '),
+      validFrom: validFrom.toISOString(),
+      validTo: validTo.toISOString(),
+      daysToExpiry,
+      sans,
+      chainLength: chain.length,
+      chainValid,
+      logoSha256,
+      logoMatches,
+    },
+    issues,
+  };
+}
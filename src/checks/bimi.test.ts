@@ -1,3 +1,4 @@
+import { createHash } from 'node:crypto';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { cachedResolveTxt } from '../utils/dns.js';
 import { checkBIMI } from './bimi.js';
@@ -10,9 +11,18 @@ vi.mock('../utils/dns.js', async () => {
   };
 });
 
+const LOGO = '<svg xmlns="http://www.w3.org/2000/svg" version="1.2" baseProfile="tiny-ps" viewBox="0 0 64 64"><title>Example</title><path d="M0 0h64v64H0z"/></svg>';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const svgResponse = (body: string, contentType = 'image/svg+xml', status = 200) =>
+  new Response(body, { status, headers: { 'Content-Type': contentType } });
+
 describe('checkBIMI', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    mockFetch.mockImplementation(async () => svgResponse(LOGO));
   });
 
   it('detects valid BIMI record with logo and VMC', async () => {
@@ -81,4 +91,89 @@ describe('checkBIMI', () => {
     expect(result.found).toBe(true);
     expect(result.issues.some(i => i.message.includes('missing logo'))).toBe(true);
   });
+
+  it('fetches and validates the logo', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue(['v=BIMI1; l=https://example.com/logo.svg']);
+
+    const result = await checkBIMI('example.com', { timeout: 1000 });
+
+    expect(mockFetch).toHaveBeenCalledWith('https://example.com/logo.svg', expect.objectContaining({ signal: expect.any(AbortSignal) }));
+    expect(result.logo).toEqual({ contentType: 'image/svg+xml', size: LOGO.length, title: 'Example', baseProfile: 'tiny-ps', viewBox: '0 0 64 64', svgTinyPs: true, sha256: createHash('sha256').update(LOGO).digest('hex') });
+    expect(result.issues.filter(i => i.code.startsWith('BIMI-LOGO') || i.code.startsWith('BIMI-SVG'))).toEqual([]);
+  });
+
+  it('reports the content type, size and each SVG Tiny PS violation', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue(['v=BIMI1; l=https://example.com/logo.svg']);
+    const large = LOGO.replace('baseProfile="tiny-ps"', 'baseProfile="tiny"').replace('</svg>', `<script>x()</script><!--${'x'.repeat(40000)}--></svg>`);
+    mockFetch.mockResolvedValue(svgResponse(large, 'text/plain'));
+
+    const result = await checkBIMI('example.com');
+
+    expect(result.logo?.svgTinyPs).toBe(false);
+    expect(result.issues.map(i => i.code)).toEqual(expect.arrayContaining([
+      'BIMI-LOGO-CONTENT-TYPE',
+      'BIMI-LOGO-TOO-LARGE',
+      'BIMI-SVG-PROFILE',
+      'BIMI-SVG-SCRIPT',
+    ]));
+  });
+
+  it('reports logos that cannot be fetched', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue(['v=BIMI1; l=https://example.com/logo.svg']);
+    mockFetch.mockResolvedValueOnce(svgResponse('', 'text/html', 404));
+
+    const missing = await checkBIMI('example.com');
+    mockFetch.mockRejectedValueOnce(Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' }));
+    const slow = await checkBIMI('example.com');
+
+    expect(missing.issues.find(i => i.code === 'BIMI-LOGO-FETCH-FAILED')?.message).toBe('BIMI logo could not be fetched (HTTP 404)');
+    expect(slow.issues.some(i => i.code === 'BIMI-LOGO-TIMEOUT')).toBe(true);
+    expect(slow.logo).toBeUndefined();
+  });
+
+  it('fetches the a= certificate and reports failures', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue(['v=BIMI1; l=https://example.com/logo.svg; a=https://example.com/vmc.pem']);
+
+    const notPem = await checkBIMI('example.com');
+    mockFetch.mockResolvedValueOnce(svgResponse(LOGO)).mockResolvedValueOnce(svgResponse('', 'text/html', 404));
+    const missing = await checkBIMI('example.com');
+    mockFetch.mockResolvedValueOnce(svgResponse(LOGO)).mockRejectedValueOnce(Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' }));
+    const slow = await checkBIMI('example.com');
+
+    expect(mockFetch).toHaveBeenCalledWith('https://example.com/vmc.pem', expect.objectContaining({ signal: expect.any(AbortSignal) }));
+    expect(notPem.issues.find(i => i.code === 'BIMI-VMC-INVALID')?.message).toBe('BIMI certificate URL does not serve a PEM certificate');
+    expect(missing.issues.find(i => i.code === 'BIMI-VMC-FETCH-FAILED')?.message).toBe('BIMI certificate could not be fetched (HTTP 404)');
+    expect(slow.issues.some(i => i.code === 'BIMI-VMC-TIMEOUT')).toBe(true);
+    expect(slow.certificate).toBeUndefined();
+  });
+
+  it('fetches the logo and the certificate in parallel', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue(['v=BIMI1; l=https://example.com/logo.svg; a=https://example.com/vmc.pem']);
+    let release!: () => void;
+    mockFetch.mockImplementationOnce(() => new Promise(resolve => { release = () => resolve(svgResponse(LOGO)); }));
+
+    const pending = checkBIMI('example.com');
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    release();
+    const result = await pending;
+
+    expect(result.logo?.svgTinyPs).toBe(true);
+    expect(result.issues.some(i => i.code === 'BIMI-VMC-INVALID')).toBe(true);
+  });
+
+  it('does not fetch the certificate when fetching is disabled', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue(['v=BIMI1; l=https://example.com/logo.svg; a=https://example.com/vmc.pem']);
+
+    await checkBIMI('example.com', { fetchLogo: false });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('does not fetch non-HTTPS logos', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue(['v=BIMI1; l=http://example.com/logo.svg']);
+
+    await checkBIMI('example.com');
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
 });
@@ -5,18 +5,27 @@
  * Requires valid DMARC with p=quarantine or p=reject.
  */
 
-import type { BIMIResult, Issue } from '../types.js';
+import crypto from 'node:crypto';
+import type { BIMICertificate, BIMILogo, BIMIResult, Issue } from '../types.js';
 import { cachedResolveTxt, filterRecordsByPrefix } from '../utils/dns.js';
 import { extractTag } from '../utils/parser.js';
-import { DNS_PREFIX, COMMON_BIMI_SELECTORS } from '../constants.js';
+import { validateSvgTinyPs } from './bimi-svg.js';
+import { checkMarkCertificate, parsePemCertificates } from './bimi-vmc.js';
+import { DNS_PREFIX, COMMON_BIMI_SELECTORS, DEFAULT_HTTP_TIMEOUT_MS, BIMI_LOGO_MAX_BYTES, BIMI_LOGO_FETCH_LIMIT_BYTES, BIMI_CERT_FETCH_LIMIT_BYTES } from '../constants.js';
 
 export interface BIMIOptions {
   selectors?: string[];
+  timeout?: number;    // Logo fetch timeout in milliseconds
+  fetchLogo?: boolean; // Fetch and validate the logo and certificate (default true)
+  trustAnchors?: string; // PEM roots of the mark verifying authorities
+  now?: Date;          // Reference time for certificate validity
 }
 
 const NO_BIMI_RESULT: BIMIResult = {
   found: false,
   issues: [{
+    code: 'BIMI-MISSING',
+    check: 'bimi',
     severity: 'info',
     message: 'No BIMI record found',
     recommendation: 'Consider adding BIMI to display your brand logo in email clients'
@@ -30,7 +39,7 @@ export async function checkBIMI(domain: string, options: BIMIOptions = {}): Prom
   // Try each selector until we find a BIMI record
   for (const selector of selectors) {
     const bimiDomain = `${selector}._bimi.${domain}`;
-    const result = await checkBIMISelector(domain, selector, bimiDomain);
+    const result = await checkBIMISelector(domain, selector, bimiDomain, options);
     if (result.found) {
       return result;
     }
@@ -39,7 +48,7 @@ export async function checkBIMI(domain: string, options: BIMIOptions = {}): Prom
   return NO_BIMI_RESULT;
 }
 
-async function checkBIMISelector(domain: string, selector: string, bimiDomain: string): Promise<BIMIResult> {
+async function checkBIMISelector(domain: string, selector: string, bimiDomain: string, options: BIMIOptions): Promise<BIMIResult> {
   const issues: Issue[] = [];
 
   const txtRecords = await cachedResolveTxt(bimiDomain);
@@ -51,13 +60,17 @@ async function checkBIMISelector(domain: string, selector: string, bimiDomain: s
 
   if (bimiRecords.length > 1) {
     issues.push({
+      code: 'BIMI-MULTIPLE-RECORDS',
+      check: 'bimi',
       severity: 'medium',
       message: `Multiple BIMI records found (${bimiRecords.length})`,
-      recommendation: 'Only one BIMI record should exist'
+      recommendation: 'Only one BIMI record should exist',
+      evidence: { name: bimiDomain, record: bimiRecords.join('\n'), value: `${bimiRecords.length}` }
     });
   }
 
   const record = bimiRecords[0];
+  const evidence = { name: bimiDomain, record };
   const version = extractTag(record, 'v');
   const logoUrl = extractTag(record, 'l');
   const certificateUrl = extractTag(record, 'a');
@@ -65,31 +78,66 @@ async function checkBIMISelector(domain: string, selector: string, bimiDomain: s
   // Validate version tag
   if (!version) {
     issues.push({
+      code: 'BIMI-NO-VERSION',
+      check: 'bimi',
       severity: 'high',
       message: 'BIMI record missing version tag (v=)',
-      recommendation: 'Add v=BIMI1 at the start of the BIMI record'
+      recommendation: 'Add v=BIMI1 at the start of the BIMI record',
+      evidence: { ...evidence, tag: 'v' }
     });
   } else if (version.toUpperCase() !== 'BIMI1') {
     issues.push({
+      code: 'BIMI-INVALID-VERSION',
+      check: 'bimi',
       severity: 'medium',
       message: `Unexpected BIMI version: "${version}" (expected BIMI1)`,
-      recommendation: 'Use v=BIMI1 for the version tag'
+      recommendation: 'Use v=BIMI1 for the version tag',
+      evidence: { ...evidence, tag: 'v', value: version }
     });
   }
 
-  // Validate logo URL
+  // Validate logo URL; the logo and the certificate are fetched in parallel,
+  // so that together they take no longer than the check timeout
+  const timeout = options.timeout || DEFAULT_HTTP_TIMEOUT_MS;
+  const fetching = options.fetchLogo !== false;
   validateLogoUrl(logoUrl, issues);
+  const logoIssues: Issue[] = [];
+  const logoFetch = logoUrl?.startsWith('https://') && fetching
+    ? checkLogo(logoUrl, timeout, logoIssues)
+    : Promise.resolve(undefined);
 
   // Check VMC certificate (optional but recommended)
+  const certificateIssues: Issue[] = [];
+  let certificateFetch: Promise<string | undefined> = Promise.resolve(undefined);
   if (!certificateUrl) {
     issues.push({
+      code: 'BIMI-NO-VMC',
+      check: 'bimi',
       severity: 'low',
       message: 'No VMC (Verified Mark Certificate) specified',
-      recommendation: 'Consider obtaining a VMC for broader email client support'
+      recommendation: 'Consider obtaining a VMC for broader email client support',
+      evidence: { ...evidence, tag: 'a' }
     });
   } else {
-    // Validate certificate URL format
+    // Validate certificate URL format before fetching the certificate
+    const urlIssues = issues.length;
     validateCertificateUrl(certificateUrl, issues);
+    const usableUrl = !issues.slice(urlIssues).some(i => i.code === 'BIMI-VMC-NOT-HTTPS' || i.code === 'BIMI-VMC-INVALID-URL');
+    if (usableUrl && fetching) {
+      certificateFetch = fetchCertificate(certificateUrl, timeout, certificateIssues);
+    }
+  }
+
+  const [logo, pem] = await Promise.all([logoFetch, certificateFetch]);
+  issues.push(...logoIssues, ...certificateIssues);
+
+  // The certificate's embedded logo is compared with the l= logo once both are in
+  let certificate: BIMICertificate | undefined;
+  if (pem !== undefined) {
+    const trustAnchors = options.trustAnchors ? parsePemCertificates(options.trustAnchors) : undefined;
+    const checked = checkMarkCertificate(pem, { domain, selector, logoSha256: logo?.sha256, trustAnchors, now: options.now });
+    certificate = checked.certificate;
+    issues.push(...checked.issues);
   }
 
   return {
@@ -98,6 +146,8 @@ async function checkBIMISelector(domain: string, selector: string, bimiDomain: s
     version,
     logoUrl,
     certificateUrl,
+    logo,
+    certificate,
     issues
   };
 }
@@ -105,22 +155,186 @@ async function checkBIMISelector(domain: string, selector: string, bimiDomain: s
 function validateLogoUrl(logoUrl: string | undefined, issues: Issue[]): void {
   if (!logoUrl) {
     issues.push({
+      code: 'BIMI-NO-LOGO',
+      check: 'bimi',
       severity: 'high',
       message: 'BIMI record missing logo URL (l=)',
-      recommendation: 'Add l= tag with URL to your SVG logo'
+      recommendation: 'Add l= tag with URL to your SVG logo',
+      evidence: { tag: 'l' }
     });
   } else if (!logoUrl.startsWith('https://')) {
     issues.push({
+      code: 'BIMI-LOGO-NOT-HTTPS',
+      check: 'bimi',
       severity: 'high',
       message: 'BIMI logo URL must use HTTPS',
-      recommendation: 'Update logo URL to use HTTPS'
+      recommendation: 'Update logo URL to use HTTPS',
+      evidence: { tag: 'l', value: logoUrl }
     });
   } else if (!logoUrl.toLowerCase().endsWith('.svg')) {
     issues.push({
+      code: 'BIMI-LOGO-NOT-SVG',
+      check: 'bimi',
       severity: 'medium',
       message: 'BIMI logo should be SVG Tiny PS format',
-      recommendation: 'Use SVG Tiny PS format for maximum compatibility'
+      recommendation: 'Use SVG Tiny PS format for maximum compatibility',
+      evidence: { tag: 'l', value: logoUrl }
+    });
+  }
+}
+
+/**
+ * Read a response body, giving up after `limit` bytes
+ */
+async function readLimited(response: Response, limit: number): Promise<Buffer | undefined> {
+  if (!response.body) return Buffer.from(await response.arrayBuffer());
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response.body) {
+    size += chunk.length;
+    if (size > limit) return undefined;
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetch the logo and validate its transport, type, size and SVG Tiny PS profile
+ */
+async function checkLogo(logoUrl: string, timeout: number, issues: Issue[]): Promise<BIMILogo | undefined> {
+  const evidence = { tag: 'l', name: logoUrl };
+  let response: Response;
+  let body: Buffer | undefined;
+  try {
+    response = await fetch(logoUrl, { signal: AbortSignal.timeout(timeout) });
+    if (!response.ok) {
+      issues.push({
+        code: 'BIMI-LOGO-FETCH-FAILED',
+        check: 'bimi',
+        severity: 'high',
+        message: `BIMI logo could not be fetched (HTTP ${response.status})`,
+        recommendation: 'Ensure the l= URL serves the logo without authentication or redirects to error pages',
+        evidence: { ...evidence, value: `${response.status}` }
+      });
+      return undefined;
+    }
+    body = await readLimited(response, BIMI_LOGO_FETCH_LIMIT_BYTES);
+  } catch (err) {
+    const error = err as Error;
+    const timedOut = error.name === 'TimeoutError' || error.message.includes('timeout');
+    issues.push({
+      code: timedOut ? 'BIMI-LOGO-TIMEOUT' : 'BIMI-LOGO-FETCH-FAILED',
+      check: 'bimi',
+      severity: 'high',
+      message: timedOut ? 'BIMI logo fetch timed out' : `BIMI logo could not be fetched: ${error.message}`,
+      recommendation: timedOut ? `Ensure the logo URL responds within ${timeout / 1000} seconds` : 'Ensure the l= URL is reachable over HTTPS with a valid certificate',
+      evidence: { ...evidence, value: error.message }
+    });
+    return undefined;
+  }
+
+  // fetch() follows redirects; the final location must still be HTTPS
+  if (response.url && !response.url.startsWith('https://')) {
+    issues.push({
+      code: 'BIMI-LOGO-NOT-HTTPS',
+      check: 'bimi',
+      severity: 'high',
+      message: 'BIMI logo URL redirects to a non-HTTPS location',
+      recommendation: 'Serve the logo over HTTPS without redirecting to HTTP',
+      evidence: { ...evidence, value: response.url }
+    });
+  }
+
+  const contentType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || undefined;
+  if (contentType !== 'image/svg+xml') {
+    issues.push({
+      code: 'BIMI-LOGO-CONTENT-TYPE',
+      check: 'bimi',
+      severity: 'medium',
+      message: `BIMI logo is served as ${contentType ?? 'no content type'}, expected image/svg+xml`,
+      recommendation: 'Configure the web server to send Content-Type: image/svg+xml',
+      evidence: { ...evidence, value: contentType }
+    });
+  }
+
+  if (!body) {
+    issues.push({
+      code: 'BIMI-LOGO-TOO-LARGE',
+      check: 'bimi',
+      severity: 'high',
+      message: `BIMI logo is larger than ${BIMI_LOGO_FETCH_LIMIT_BYTES / 1024} KB`,
+      recommendation: `Simplify the logo to under ${BIMI_LOGO_MAX_BYTES / 1024} KB`,
+      evidence
+    });
+    return { contentType, svgTinyPs: false };
+  }
+  if (body.length > BIMI_LOGO_MAX_BYTES) {
+    issues.push({
+      code: 'BIMI-LOGO-TOO-LARGE',
+      check: 'bimi',
+      severity: 'medium',
+      message: `BIMI logo is ${Math.ceil(body.length / 1024)} KB, above the recommended ${BIMI_LOGO_MAX_BYTES / 1024} KB`,
+      recommendation: 'Simplify paths or remove metadata; some mailbox providers reject larger logos',
+      evidence: { ...evidence, value: `${body.length}` }
+    });
+  }
+
+  const svg = validateSvgTinyPs(body.toString('utf-8'), logoUrl);
+  issues.push(...svg.issues);
+  return {
+    contentType,
+    size: body.length,
+    title: svg.title,
+    baseProfile: svg.baseProfile,
+    viewBox: svg.viewBox,
+    svgTinyPs: svg.issues.length === 0,
+    sha256: crypto.createHash('sha256').update(body).digest('hex')
+  };
+}
+
+/**
+ * Download the PEM chain at a=
+ */
+async function fetchCertificate(certificateUrl: string, timeout: number, issues: Issue[]): Promise<string | undefined> {
+  const evidence = { tag: 'a', value: certificateUrl };
+  try {
+    const response = await fetch(certificateUrl, { signal: AbortSignal.timeout(timeout) });
+    if (!response.ok) {
+      issues.push({
+        code: 'BIMI-VMC-FETCH-FAILED',
+        check: 'bimi',
+        severity: 'high',
+        message: `BIMI certificate could not be fetched (HTTP ${response.status})`,
+        recommendation: 'Ensure the a= URL serves the PEM certificate chain',
+        evidence
+      });
+      return undefined;
+    }
+    const body = await readLimited(response, BIMI_CERT_FETCH_LIMIT_BYTES);
+    if (!body) {
+      issues.push({
+        code: 'BIMI-VMC-INVALID',
+        check: 'bimi',
+        severity: 'high',
+        message: `BIMI certificate is larger than ${BIMI_CERT_FETCH_LIMIT_BYTES / 1024} KB`,
+        recommendation: 'Ensure the a= URL serves the PEM certificate chain',
+        evidence
+      });
+      return undefined;
+    }
+    return body.toString('latin1');
+  } catch (err) {
+    const error = err as Error;
+    const timedOut = error.name === 'TimeoutError' || error.message.includes('timeout');
+    issues.push({
+      code: timedOut ? 'BIMI-VMC-TIMEOUT' : 'BIMI-VMC-FETCH-FAILED',
+      check: 'bimi',
+      severity: 'high',
+      message: timedOut ? 'BIMI certificate fetch timed out' : `BIMI certificate could not be fetched: ${error.message}`,
+      recommendation: timedOut ? `Ensure the certificate URL responds within ${timeout / 1000} seconds` : 'Ensure the a= URL is reachable over HTTPS with a valid certificate',
+      evidence: { ...evidence, value: error.message }
     });
+    return undefined;
   }
 }
 
@@ -128,9 +342,12 @@ function validateCertificateUrl(certificateUrl: string, issues: Issue[]): void {
   // VMC certificate URL must use HTTPS
   if (!certificateUrl.startsWith('https://')) {
     issues.push({
+      code: 'BIMI-VMC-NOT-HTTPS',
+      check: 'bimi',
       severity: 'high',
       message: 'BIMI VMC certificate URL must use HTTPS',
-      recommendation: 'Update certificate URL to use HTTPS'
+      recommendation: 'Update certificate URL to use HTTPS',
+      evidence: { tag: 'a', value: certificateUrl }
     });
     return;
   }
@@ -140,9 +357,12 @@ function validateCertificateUrl(certificateUrl: string, issues: Issue[]): void {
     new URL(certificateUrl);
   } catch {
     issues.push({
+      code: 'BIMI-VMC-INVALID-URL',
+      check: 'bimi',
       severity: 'high',
       message: `Invalid BIMI VMC certificate URL format: "${certificateUrl}"`,
-      recommendation: 'Use a valid HTTPS URL for the VMC certificate'
+      recommendation: 'Use a valid HTTPS URL for the VMC certificate',
+      evidence: { tag: 'a', value: certificateUrl }
     });
     return;
   }
@@ -151,9 +371,12 @@ function validateCertificateUrl(certificateUrl: string, issues: Issue[]): void {
   const urlLower = certificateUrl.toLowerCase();
   if (!urlLower.endsWith('.pem') && !urlLower.endsWith('.crt') && !urlLower.endsWith('.cer')) {
     issues.push({
+      code: 'BIMI-VMC-UNUSUAL-EXTENSION',
+      check: 'bimi',
       severity: 'low',
       message: 'BIMI VMC certificate URL does not have typical certificate extension (.pem, .crt, .cer)',
-      recommendation: 'Ensure the URL points to a valid VMC certificate file'
+      recommendation: 'Ensure the URL points to a valid VMC certificate file',
+      evidence: { tag: 'a', value: certificateUrl }
     });
   }
 }
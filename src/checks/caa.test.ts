@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkCAA, parseIssueValue, isValidIodef, describeIssuer, caaLookupNames } from './caa.js';
+import { cachedResolveCaa } from '../utils/dns.js';
+import type { CaaRecord } from '../utils/dns.js';
+
+vi.mock('../utils/dns.js', async () => {
+  const actual = await vi.importActual<typeof import('../utils/dns.js')>('../utils/dns.js');
+  return {
+    ...actual,
+    cachedResolveCaa: vi.fn()
+  };
+});
+
+function mockTree(tree: Record<string, CaaRecord[]>): void {
+  vi.mocked(cachedResolveCaa).mockImplementation(async (name) => tree[name] ?? []);
+}
+
+const caa = (tag: string, value: string, flags = 0): CaaRecord => ({ flags, tag, value });
+const codes = (issues: { code: string }[]) => issues.map(i => i.code);
+
+describe('checkCAA', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should report the issuer set', async () => {
+    mockTree({
+      'example.com': [
+        caa('issue', 'letsencrypt.org'),
+        caa('issue', 'pki.goog; cansignhttpexchanges=yes'),
+        caa('iodef', 'mailto:security@example.com'),
+      ],
+    });
+
+    const result = await checkCAA('example.com');
+
+    expect(result.found).toBe(true);
+    expect(result.name).toBe('example.com');
+    expect(result.issuers).toEqual(['letsencrypt.org', 'pki.goog']);
+    expect(result.wildcardIssuers).toEqual(['letsencrypt.org', 'pki.goog']);
+    expect(result.iodef).toEqual(['mailto:security@example.com']);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should use issuewild for wildcard certificates', async () => {
+    mockTree({
+      'example.com': [caa('issue', 'letsencrypt.org'), caa('issuewild', ';')],
+    });
+
+    const result = await checkCAA('example.com');
+
+    expect(result.issuers).toEqual(['letsencrypt.org']);
+    expect(result.wildcardIssuers).toEqual([]);
+  });
+
+  it('should climb the tree to the closest CAA RRset', async () => {
+    mockTree({ 'example.com': [caa('issue', 'digicert.com')] });
+
+    const result = await checkCAA('www.shop.example.com');
+
+    expect(result.name).toBe('example.com');
+    expect(result.issuers).toEqual(['digicert.com']);
+    expect(codes(result.issues)).toEqual(['CAA-INHERITED']);
+    expect(vi.mocked(cachedResolveCaa).mock.calls.map(c => c[0])).toEqual([
+      'www.shop.example.com',
+      'shop.example.com',
+      'example.com',
+    ]);
+  });
+
+  it('should stop at the first non-empty RRset', async () => {
+    mockTree({
+      'shop.example.com': [caa('issue', 'letsencrypt.org')],
+      'example.com': [caa('issue', 'digicert.com')],
+    });
+
+    const result = await checkCAA('shop.example.com');
+
+    expect(result.issuers).toEqual(['letsencrypt.org']);
+    expect(cachedResolveCaa).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report missing CAA', async () => {
+    mockTree({});
+
+    const result = await checkCAA('example.com');
+
+    expect(result.found).toBe(false);
+    expect(result.issues[0]).toMatchObject({ code: 'CAA-MISSING', severity: 'low', evidence: { name: 'example.com' } });
+    expect(cachedResolveCaa).toHaveBeenCalledWith('com');
+  });
+
+  it('should flag unknown critical tags', async () => {
+    mockTree({
+      'example.com': [caa('issue', 'letsencrypt.org'), caa('tbs', 'unknown', 128), caa('isue', 'typo')],
+    });
+
+    const result = await checkCAA('example.com');
+
+    expect(codes(result.issues)).toEqual(['CAA-UNKNOWN-CRITICAL', 'CAA-UNKNOWN-TAG']);
+    expect(result.issues[0]).toMatchObject({ severity: 'high', evidence: { tag: 'tbs' } });
+    expect(result.records[1].critical).toBe(true);
+  });
+
+  it('should not flag critical known tags', async () => {
+    mockTree({ 'example.com': [caa('issue', 'letsencrypt.org', 128)] });
+
+    const result = await checkCAA('example.com');
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should flag malformed iodef URLs', async () => {
+    mockTree({
+      'example.com': [caa('issue', 'letsencrypt.org'), caa('iodef', 'security@example.com')],
+    });
+
+    const result = await checkCAA('example.com');
+
+    expect(result.issues[0]).toMatchObject({ code: 'CAA-IODEF-INVALID', evidence: { tag: 'iodef', value: 'security@example.com' } });
+  });
+
+  it('should flag malformed issue values and grant nothing for them', async () => {
+    mockTree({
+      'example.com': [caa('issue', 'lets encrypt'), caa('issue', 'digicert.com')],
+    });
+
+    const result = await checkCAA('example.com');
+
+    expect(result.issuers).toEqual(['digicert.com']);
+    expect(codes(result.issues)).toEqual(['CAA-ISSUE-MALFORMED']);
+  });
+
+  it('should note when no issue tag restricts issuance', async () => {
+    mockTree({ 'example.com': [caa('iodef', 'https://example.com/caa')] });
+
+    const result = await checkCAA('example.com');
+
+    expect(result.issuers).toBeUndefined();
+    expect(codes(result.issues)).toEqual(['CAA-NO-ISSUE-TAG']);
+  });
+
+  it('should note when issuance is forbidden', async () => {
+    mockTree({ 'example.com': [caa('issue', ';')] });
+
+    const result = await checkCAA('example.com');
+
+    expect(result.issuers).toEqual([]);
+    expect(codes(result.issues)).toEqual(['CAA-ISSUANCE-FORBIDDEN']);
+  });
+
+  it('should report lookup failures', async () => {
+    vi.mocked(cachedResolveCaa).mockRejectedValue(Object.assign(new Error('queryCaa ESERVFAIL example.com'), { code: 'ESERVFAIL' }));
+
+    const result = await checkCAA('example.com');
+
+    expect(result.found).toBe(false);
+    expect(codes(result.issues)).toEqual(['CAA-QUERY-FAILED']);
+  });
+});
+
+describe('CAA helpers', () => {
+  it('parses issue values with parameters', () => {
+    expect(parseIssueValue('LetsEncrypt.org; accounturi=https://acme/1; validationmethods=dns-01')).toEqual({
+      issuer: 'letsencrypt.org',
+      parameters: { accounturi: 'https://acme/1', validationmethods: 'dns-01' },
+      valid: true,
+    });
+    expect(parseIssueValue(';')).toEqual({ issuer: '', parameters: {}, valid: true });
+    expect(parseIssueValue('ca.example; =oops').valid).toBe(false);
+    expect(parseIssueValue('-bad.example').valid).toBe(false);
+  });
+
+  it('validates iodef URLs', () => {
+    expect(isValidIodef('mailto:security@example.com')).toBe(true);
+    expect(isValidIodef('https://example.com/report')).toBe(true);
+    expect(isValidIodef('mailto:nobody')).toBe(false);
+    expect(isValidIodef('ftp://example.com/')).toBe(false);
+    expect(isValidIodef('not a url')).toBe(false);
+  });
+
+  it('names known CAs', () => {
+    expect(describeIssuer('letsencrypt.org')).toBe("letsencrypt.org (Let's Encrypt)");
+    expect(describeIssuer('ca.example')).toBe('ca.example');
+  });
+
+  it('lists lookup names from the domain up', () => {
+    expect(caaLookupNames('a.b.example.com')).toEqual(['a.b.example.com', 'b.example.com', 'example.com', 'com']);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * CAA (Certification Authority Authorization) record checker
+ *
+ * CAA records (RFC 8659) list the certificate authorities allowed to issue
+ * certificates for a domain. CAs look for the closest CAA RRset by climbing
+ * from the domain towards the root.
+ */
+
+import type { Issue, CAAResult, CAARecord } from '../types.js';
+import { cachedResolveCaa } from '../utils/dns.js';
+import type { CaaRecord } from '../utils/dns.js';
+import { CAA_ISSUERS, KNOWN_CAA_TAGS } from '../constants.js';
+
+// Issuer Critical flag (RFC 8659 §4.1)
+const CAA_CRITICAL_FLAG = 0x80;
+
+// issuer-domain-name (RFC 8659 §4.2)
+const ISSUER_DOMAIN_PATTERN = /^[a-z0-9]+(?:-*[a-z0-9]+)*(?:\.[a-z0-9]+(?:-*[a-z0-9]+)*)*$/i;
+
+export interface CAAIssueValue {
+  issuer: string; // Empty when issuance is forbidden (";")
+  parameters: Record<string, string>;
+  valid: boolean;
+}
+
+/**
+ * Parse an issue/issuewild property value: issuer-domain-name [; tag=value]*
+ */
+export function parseIssueValue(value: string): CAAIssueValue {
+  const [issuerPart, ...paramParts] = value.split(';');
+  const issuer = issuerPart.trim().toLowerCase();
+  const parameters: Record<string, string> = {};
+  let valid = issuer === '' || ISSUER_DOMAIN_PATTERN.test(issuer);
+
+  for (const part of paramParts) {
+    const param = part.trim();
+    if (!param) continue;
+    const eq = param.indexOf('=');
+    const key = eq > 0 ? param.slice(0, eq).trim() : '';
+    if (!/^[a-z0-9]+$/i.test(key)) {
+      valid = false;
+      continue;
+    }
+    parameters[key.toLowerCase()] = param.slice(eq + 1).trim();
+  }
+
+  return { issuer, parameters, valid };
+}
+
+/**
+ * Whether an iodef value is a usable mailto:, http: or https: URL (RFC 8659 §4.4)
+ */
+export function isValidIodef(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol === 'mailto:') {
+    return /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(decodeURIComponent(url.pathname));
+  }
+  return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.length > 0;
+}
+
+/**
+ * Display name of an issuer domain, e.g. "letsencrypt.org (Let's Encrypt)"
+ */
+export function describeIssuer(issuer: string): string {
+  const ca = CAA_ISSUERS[issuer.toLowerCase()];
+  return ca ? `${issuer} (${ca})` : issuer;
+}
+
+/**
+ * Candidate owner names for the CAA lookup, closest first (RFC 8659 §3)
+ */
+export function caaLookupNames(domain: string): string[] {
+  const labels = domain.replace(/\.$/, '').split('.');
+  return labels.map((_, i) => labels.slice(i).join('.'));
+}
+
+export async function checkCAA(domain: string): Promise<CAAResult> {
+  const issues: Issue[] = [];
+
+  // Find the relevant RRset: the first non-empty one climbing the tree
+  let name: string | undefined;
+  let rawRecords: CaaRecord[] = [];
+  for (const candidate of caaLookupNames(domain)) {
+    try {
+      rawRecords = await cachedResolveCaa(candidate);
+    } catch (err) {
+      issues.push({
+        code: 'CAA-QUERY-FAILED',
+        check: 'caa',
+        severity: 'medium',
+        message: `CAA lookup failed for ${candidate}: ${(err as Error).message}`,
+        recommendation: 'CAs refuse to issue when the CAA lookup fails; make sure the authoritative servers answer CAA queries',
+        evidence: { name: candidate }
+      });
+      return { found: false, records: [], iodef: [], issues };
+    }
+    if (rawRecords.length > 0) {
+      name = candidate;
+      break;
+    }
+  }
+
+  if (!name) {
+    issues.push({
+      code: 'CAA-MISSING',
+      check: 'caa',
+      severity: 'low',
+      message: 'No CAA records found - any certificate authority may issue certificates',
+      recommendation: 'Add CAA records (e.g., 0 issue "letsencrypt.org") to restrict which CAs may issue certificates',
+      evidence: { name: domain }
+    });
+    return { found: false, records: [], iodef: [], issues };
+  }
+
+  if (name !== domain) {
+    issues.push({
+      code: 'CAA-INHERITED',
+      check: 'caa',
+      severity: 'info',
+      message: `CAA records inherited from ${name}`,
+      evidence: { name }
+    });
+  }
+
+  const records: CAARecord[] = rawRecords.map(r => ({
+    flags: r.flags,
+    critical: (r.flags & CAA_CRITICAL_FLAG) !== 0,
+    tag: r.tag,
+    value: r.value,
+  }));
+
+  validateTags(name, records, issues);
+
+  const issuers = issuerSet(name, records.filter(r => r.tag === 'issue'), issues);
+  const wildcardIssuers = issuerSet(name, records.filter(r => r.tag === 'issuewild'), issues) ?? issuers;
+  const iodef = records.filter(r => r.tag === 'iodef').map(r => r.value);
+
+  for (const url of iodef) {
+    if (!isValidIodef(url)) {
+      issues.push({
+        code: 'CAA-IODEF-INVALID',
+        check: 'caa',
+        severity: 'medium',
+        message: `Invalid iodef URL: ${url}`,
+        recommendation: 'Use a mailto: address or an http(s) URL so CAs can report rejected requests',
+        evidence: { name, tag: 'iodef', value: url }
+      });
+    }
+  }
+
+  if (!issuers) {
+    issues.push({
+      code: 'CAA-NO-ISSUE-TAG',
+      check: 'caa',
+      severity: 'low',
+      message: 'CAA records do not contain an issue tag - any certificate authority may issue certificates',
+      recommendation: 'Add an issue tag naming the CAs you use',
+      evidence: { name }
+    });
+  } else if (issuers.length === 0 && (wildcardIssuers?.length ?? 0) === 0) {
+    issues.push({
+      code: 'CAA-ISSUANCE-FORBIDDEN',
+      check: 'caa',
+      severity: 'info',
+      message: 'CAA forbids certificate issuance by any CA',
+      evidence: { name }
+    });
+  }
+
+  return {
+    found: true,
+    name,
+    records,
+    issuers,
+    wildcardIssuers,
+    iodef,
+    issues
+  };
+}
+
+/**
+ * Flag unknown property tags. CAs must refuse to issue when a tag they do
+ * not understand carries the critical flag (RFC 8659 §4.1).
+ */
+function validateTags(name: string, records: CAARecord[], issues: Issue[]): void {
+  for (const record of records) {
+    if (KNOWN_CAA_TAGS.has(record.tag)) continue;
+
+    const text = `${record.flags} ${record.tag} "${record.value}"`;
+    if (record.critical) {
+      issues.push({
+        code: 'CAA-UNKNOWN-CRITICAL',
+        check: 'caa',
+        severity: 'high',
+        message: `Unknown CAA tag "${record.tag}" is marked critical - CAs will refuse to issue`,
+        recommendation: 'Remove the critical flag (128) or the record unless every CA you use supports this tag',
+        evidence: { name, record: text, tag: record.tag }
+      });
+    } else {
+      issues.push({
+        code: 'CAA-UNKNOWN-TAG',
+        check: 'caa',
+        severity: 'low',
+        message: `Unknown CAA tag "${record.tag}" will be ignored by CAs`,
+        recommendation: 'Check the tag for typos (issue, issuewild, iodef)',
+        evidence: { name, record: text, tag: record.tag }
+      });
+    }
+  }
+}
+
+/**
+ * Issuers permitted by a set of issue or issuewild records.
+ * Returns undefined when there are no such records (no restriction).
+ */
+function issuerSet(name: string, records: CAARecord[], issues: Issue[]): string[] | undefined {
+  if (records.length === 0) {
+    return undefined;
+  }
+
+  const issuers = new Set<string>();
+  for (const record of records) {
+    const parsed = parseIssueValue(record.value);
+    if (!parsed.valid) {
+      // A malformed value grants nothing (RFC 8659 §4.2)
+      issues.push({
+        code: 'CAA-ISSUE-MALFORMED',
+        check: 'caa',
+        severity: 'medium',
+        message: `Malformed CAA ${record.tag} value: "${record.value}"`,
+        recommendation: 'Use the form issuer-domain [; key=value], e.g. "letsencrypt.org" or ";" to forbid issuance',
+        evidence: { name, tag: record.tag, value: record.value }
+      });
+      continue;
+    }
+    if (parsed.issuer) {
+      issuers.add(parsed.issuer);
+    }
+  }
+  return [...issuers];
+}
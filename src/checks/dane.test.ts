@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkDANE, describeTLSA, tlsaName } from './dane.js';
+import { queryDns, RRTYPE } from '../utils/dns-wire.js';
+import { clearDnsCache } from '../utils/dns.js';
+import type { DnsMessage, TLSAData } from '../utils/dns-wire.js';
+
+// Mock the wire-protocol query, keep the parsing helpers
+vi.mock('../utils/dns-wire.js', async () => {
+  const actual = await vi.importActual('../utils/dns-wire.js');
+  return {
+    ...actual,
+    queryDns: vi.fn(),
+  };
+});
+
+const SHA256 = 'ab'.repeat(32);
+
+function tlsa(usage: number, selector: number, matchingType: number, certificateData = SHA256): TLSAData {
+  return { type: 'TLSA', usage, selector, matchingType, certificateData };
+}
+
+function mockResponse(records: TLSAData[], options: { rcode?: number; ad?: boolean } = {}): DnsMessage {
+  return {
+    id: 1,
+    flags: { qr: true, aa: false, tc: false, rd: true, ra: true, ad: options.ad ?? false, cd: false },
+    rcode: options.rcode ?? 0,
+    questions: [],
+    answers: records.map(data => ({ name: '_25._tcp.mx', type: RRTYPE.TLSA, class: 1, ttl: 300, rdata: Buffer.alloc(0), data })),
+    authorities: [],
+    additionals: [],
+  };
+}
+
+/**
+ * Mock TLSA answers per MX host; A lookups report the host's DNSSEC status
+ */
+function mockHosts(hosts: Record<string, { tlsa?: TLSAData[]; ad?: boolean; tlsaAd?: boolean; rcode?: number }>): void {
+  vi.mocked(queryDns).mockImplementation(async (name, type) => {
+    const host = name.replace(/^_25\._tcp\./, '');
+    const config = hosts[host] ?? {};
+    if (type === RRTYPE.TLSA) {
+      return mockResponse(config.tlsa ?? [], { ad: config.tlsaAd ?? config.ad, rcode: config.rcode });
+    }
+    return mockResponse([], { ad: config.ad });
+  });
+}
+
+const mx = (...hosts: string[]) => hosts.map((exchange, i) => ({ exchange, priority: (i + 1) * 10 }));
+const codes = (issues: { code: string }[]) => issues.map(i => i.code);
+
+describe('DANE Checker', () => {
+  beforeEach(() => {
+    vi.mocked(queryDns).mockReset();
+    clearDnsCache();
+  });
+
+  it('builds the SMTP TLSA owner name', () => {
+    expect(tlsaName('mx1.example.com.')).toBe('_25._tcp.mx1.example.com');
+  });
+
+  it('describes TLSA parameters', () => {
+    expect(describeTLSA(tlsa(3, 1, 1))).toBe('3 1 1 (DANE-EE SPKI SHA2-256)');
+    expect(describeTLSA(tlsa(4, 1, 1))).toBe('4 1 1 (usage 4 SPKI SHA2-256)');
+  });
+
+  it('should skip when there are no MX hosts or a Null MX', async () => {
+    expect(await checkDANE('example.com', [])).toMatchObject({ found: false, skipped: true });
+    expect(await checkDANE('example.com', mx('.'))).toMatchObject({ found: false, skipped: true });
+    expect(queryDns).not.toHaveBeenCalled();
+  });
+
+  it('should accept DANE-EE records on DNSSEC-signed MX hosts', async () => {
+    mockHosts({ 'mx1.example.com': { tlsa: [tlsa(3, 1, 1)], ad: true } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(result.found).toBe(true);
+    expect(result.hosts[0]).toMatchObject({ host: 'mx1.example.com', name: '_25._tcp.mx1.example.com', dnssec: true, usable: true });
+    expect(result.issues).toEqual([]);
+    expect(queryDns).toHaveBeenCalledWith('_25._tcp.mx1.example.com', RRTYPE.TLSA, expect.objectContaining({ dnssecOk: true }));
+  });
+
+  it('should report missing TLSA records', async () => {
+    mockHosts({ 'mx1.example.com': { ad: true } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(result.found).toBe(false);
+    expect(codes(result.issues)).toEqual(['DANE-MISSING']);
+  });
+
+  it('should report MX hosts without DNSSEC', async () => {
+    mockHosts({ 'mx1.example.com': { ad: true }, 'mx2.example.net': {} });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com', 'mx2.example.net'));
+
+    const issue = result.issues.find(i => i.code === 'DANE-MX-NOT-DNSSEC');
+    expect(issue?.evidence?.value).toBe('mx2.example.net');
+  });
+
+  it('should flag hosts missing TLSA when others have it', async () => {
+    mockHosts({
+      'mx1.example.com': { tlsa: [tlsa(3, 1, 1)], ad: true },
+      'mx2.example.com': { ad: true },
+    });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com', 'mx2.example.com'));
+
+    expect(result.found).toBe(true);
+    const issue = result.issues.find(i => i.code === 'DANE-PARTIAL');
+    expect(issue?.severity).toBe('medium');
+    expect(issue?.evidence?.value).toBe('mx2.example.com');
+  });
+
+  it('should flag TLSA records that are not DNSSEC-validated', async () => {
+    mockHosts({ 'mx1.example.com': { tlsa: [tlsa(3, 1, 1)] } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(result.hosts[0]).toMatchObject({ found: true, dnssec: false, usable: false });
+    expect(codes(result.issues)).toEqual(['DANE-TLSA-INSECURE']);
+  });
+
+  it('should not take the host address AD bit for the TLSA records', async () => {
+    mockHosts({ 'mx1.example.com': { tlsa: [tlsa(3, 1, 1)], ad: true, tlsaAd: false } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(result.hosts[0]).toMatchObject({ found: true, dnssec: false, usable: false });
+    expect(codes(result.issues)).toEqual(['DANE-TLSA-INSECURE']);
+  });
+
+  it('should not report a signed host without TLSA as insecure', async () => {
+    mockHosts({ 'mx1.example.com': { ad: true, tlsaAd: false } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(codes(result.issues)).toEqual(['DANE-MISSING']);
+  });
+
+  it('should treat PKIX usages as unusable for SMTP', async () => {
+    mockHosts({ 'mx1.example.com': { tlsa: [tlsa(1, 1, 1)], ad: true } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(result.hosts[0].usable).toBe(false);
+    expect(codes(result.issues)).toEqual(['DANE-TLSA-PKIX-USAGE', 'DANE-NO-USABLE-TLSA']);
+  });
+
+  it('should stay usable when one of several records is unusable', async () => {
+    mockHosts({ 'mx1.example.com': { tlsa: [tlsa(0, 0, 1), tlsa(2, 0, 1)], ad: true } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(result.hosts[0].usable).toBe(true);
+    expect(result.hosts[0].records.map(r => r.usable)).toEqual([false, true]);
+    expect(codes(result.issues)).toEqual(['DANE-TLSA-PKIX-USAGE']);
+  });
+
+  it.each([
+    [tlsa(4, 1, 1), 'DANE-TLSA-INVALID'],
+    [tlsa(3, 2, 1), 'DANE-TLSA-INVALID'],
+    [tlsa(3, 1, 3), 'DANE-TLSA-INVALID'],
+    [tlsa(3, 1, 1, 'abcd'), 'DANE-TLSA-DIGEST-LENGTH'],
+    [tlsa(3, 1, 2, SHA256), 'DANE-TLSA-DIGEST-LENGTH'],
+  ])('should reject malformed record %o', async (record, code) => {
+    mockHosts({ 'mx1.example.com': { tlsa: [record], ad: true } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(codes(result.issues)).toEqual([code, 'DANE-NO-USABLE-TLSA']);
+    expect(result.issues[0].evidence?.name).toBe('_25._tcp.mx1.example.com');
+  });
+
+  it('should note full certificate matching', async () => {
+    mockHosts({ 'mx1.example.com': { tlsa: [tlsa(3, 1, 0, '3082')], ad: true } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(result.hosts[0].usable).toBe(true);
+    expect(codes(result.issues)).toEqual(['DANE-TLSA-FULL-MATCH']);
+  });
+
+  it('should report SERVFAIL on the TLSA lookup', async () => {
+    mockHosts({ 'mx1.example.com': { rcode: 2 } });
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(result.hosts[0].error).toBe('SERVFAIL');
+    expect(result.issues.find(i => i.code === 'DANE-TLSA-SERVFAIL')?.severity).toBe('high');
+  });
+
+  it('should report query failures', async () => {
+    vi.mocked(queryDns).mockRejectedValue(new Error('DNS query timed out'));
+
+    const result = await checkDANE('example.com', mx('mx1.example.com'));
+
+    expect(result.hosts[0].error).toBe('DNS query timed out');
+    expect(codes(result.issues)).toEqual(['DANE-QUERY-FAILED', 'DANE-MISSING']);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * DANE (DNS-Based Authentication of Named Entities) checker for SMTP
+ *
+ * Looks up TLSA records at _25._tcp.<mx> for every inbound MX host and
+ * checks them against the SMTP profile in RFC 7672. TLSA records are only
+ * honoured by sending MTAs when the MX host's zone is DNSSEC-signed.
+ */
+
+import type { Issue, MXRecord, DANEResult, DANEHostResult, TLSARecord } from '../types.js';
+import { recordsOfType, rcodeName, RRTYPE } from '../utils/dns-wire.js';
+import type { DnsMessage, TLSAData } from '../utils/dns-wire.js';
+import { cachedQueryDns } from '../utils/dns.js';
+
+// TLSA certificate usages (RFC 6698 §2.1.1)
+export const TLSA_USAGES: Record<number, string> = {
+  0: 'PKIX-TA',
+  1: 'PKIX-EE',
+  2: 'DANE-TA',
+  3: 'DANE-EE',
+};
+
+// TLSA selectors (RFC 6698 §2.1.2)
+export const TLSA_SELECTORS: Record<number, string> = {
+  0: 'Cert',
+  1: 'SPKI',
+};
+
+// TLSA matching types (RFC 6698 §2.1.3) and expected digest length in bytes
+export const TLSA_MATCHING_TYPES: Record<number, { name: string; length?: number }> = {
+  0: { name: 'Full' },
+  1: { name: 'SHA2-256', length: 32 },
+  2: { name: 'SHA2-512', length: 64 },
+};
+
+export interface DANEOptions {
+  resolver?: string; // Validating DNS resolver (e.g., '8.8.8.8')
+}
+
+/**
+ * TLSA owner name for SMTP on port 25
+ */
+export function tlsaName(host: string): string {
+  return `_25._tcp.${host.replace(/\.$/, '')}`;
+}
+
+/**
+ * Human-readable TLSA parameters, e.g. "3 1 1 (DANE-EE SPKI SHA2-256)"
+ */
+export function describeTLSA(record: Pick<TLSARecord, 'usage' | 'selector' | 'matchingType'>): string {
+  const names = [
+    TLSA_USAGES[record.usage] ?? `usage ${record.usage}`,
+    TLSA_SELECTORS[record.selector] ?? `selector ${record.selector}`,
+    TLSA_MATCHING_TYPES[record.matchingType]?.name ?? `matching type ${record.matchingType}`,
+  ];
+  return `${record.usage} ${record.selector} ${record.matchingType} (${names.join(' ')})`;
+}
+
+export async function checkDANE(domain: string, mxRecords: MXRecord[], options: DANEOptions = {}): Promise<DANEResult> {
+  const resolver = options.resolver || '8.8.8.8';
+
+  // Null MX (RFC 7505) and an empty MX set leave nothing to protect
+  const hosts = [...new Set(
+    mxRecords
+      .map(r => r.exchange.replace(/\.$/, '').toLowerCase())
+      .filter(exchange => exchange.length > 0)
+  )];
+
+  if (hosts.length === 0) {
+    return { found: false, skipped: true, hosts: [], issues: [] };
+  }
+
+  const issues: Issue[] = [];
+  const results = await Promise.all(hosts.map(host => checkHost(host, resolver, issues)));
+
+  const withTLSA = results.filter(h => h.found);
+  const insecure = results.filter(h => !h.dnssec && !h.error);
+
+  if (withTLSA.length === 0) {
+    issues.push({
+      code: 'DANE-MISSING',
+      check: 'dane',
+      severity: 'info',
+      message: 'No TLSA records published for any MX host',
+      recommendation: 'Publish TLSA records at _25._tcp.<mx> to let sending servers authenticate your MX hosts (RFC 7672)',
+      evidence: { name: domain }
+    });
+  } else if (withTLSA.length < results.length) {
+    const missing = results.filter(h => !h.found).map(h => h.host);
+    issues.push({
+      code: 'DANE-PARTIAL',
+      check: 'dane',
+      severity: 'medium',
+      message: `TLSA records missing for ${missing.length} of ${results.length} MX hosts: ${missing.join(', ')}`,
+      recommendation: 'Publish TLSA records for every MX host - senders fall back to unauthenticated TLS on hosts without them',
+      evidence: { name: domain, value: missing.join(', ') }
+    });
+  }
+
+  // Hosts with TLSA but no DNSSEC are reported per host as DANE-TLSA-INSECURE
+  const unsigned = insecure.filter(h => !h.found);
+  if (unsigned.length > 0) {
+    issues.push({
+      code: 'DANE-MX-NOT-DNSSEC',
+      check: 'dane',
+      severity: 'low',
+      message: `MX hosts not protected by DNSSEC: ${unsigned.map(h => h.host).join(', ')}`,
+      recommendation: 'DANE requires the MX host zones to be DNSSEC-signed; sign them or move mail to a provider that supports DNSSEC',
+      evidence: { name: domain, value: unsigned.map(h => h.host).join(', ') }
+    });
+  }
+
+  return {
+    found: withTLSA.length > 0,
+    hosts: results,
+    issues
+  };
+}
+
+async function checkHost(host: string, resolver: string, issues: Issue[]): Promise<DANEHostResult> {
+  const name = tlsaName(host);
+  let tlsaResponse: DnsMessage;
+  let addressResponse: DnsMessage | undefined;
+
+  try {
+    [tlsaResponse, addressResponse] = await Promise.all([
+      cachedQueryDns(name, RRTYPE.TLSA, { server: resolver, dnssecOk: true }),
+      cachedQueryDns(host, RRTYPE.A, { server: resolver, dnssecOk: true }).catch(() => undefined),
+    ]);
+  } catch (err) {
+    const error = (err as Error).message;
+    issues.push({
+      code: 'DANE-QUERY-FAILED',
+      check: 'dane',
+      severity: 'low',
+      message: `TLSA query failed for ${host}: ${error}`,
+      recommendation: `Ensure the resolver ${resolver} is reachable over UDP/TCP port 53, or use --resolver`,
+      evidence: { name }
+    });
+    return { host, name, found: false, dnssec: false, usable: false, records: [], error };
+  }
+
+  // RFC 7672 §2.2.1: senders defer delivery when the TLSA lookup fails
+  if (rcodeName(tlsaResponse.rcode) === 'SERVFAIL') {
+    issues.push({
+      code: 'DANE-TLSA-SERVFAIL',
+      check: 'dane',
+      severity: 'high',
+      message: `TLSA lookup for ${host} returns SERVFAIL`,
+      recommendation: 'DANE-enabled senders will defer mail to this host; fix the DNSSEC signatures or delegation of its zone',
+      evidence: { name }
+    });
+    return { host, name, found: false, dnssec: false, usable: false, records: [], error: 'SERVFAIL' };
+  }
+
+  // Only the TLSA answer's AD bit covers the TLSA RRset, which can sit in a
+  // different zone than the host (CNAME, delegated _25._tcp)
+  const dnssec = tlsaResponse.flags.ad;
+  const records = recordsOfType(tlsaResponse.answers, 'TLSA').map(data => validateTLSA(name, data, issues));
+
+  if (records.length === 0) {
+    // A signed host address tells a missing TLSA record apart from an insecure host
+    return { host, name, found: false, dnssec: dnssec || (addressResponse?.flags.ad ?? false), usable: false, records };
+  }
+
+  if (!dnssec) {
+    issues.push({
+      code: 'DANE-TLSA-INSECURE',
+      check: 'dane',
+      severity: 'high',
+      message: `TLSA records for ${host} are not DNSSEC-validated and will be ignored by senders`,
+      recommendation: 'Sign the zone containing the MX host and its TLSA records with DNSSEC',
+      evidence: { name }
+    });
+  }
+
+  const usable = dnssec && records.some(r => r.usable);
+  if (dnssec && !usable) {
+    issues.push({
+      code: 'DANE-NO-USABLE-TLSA',
+      check: 'dane',
+      severity: 'high',
+      message: `No usable TLSA records for ${host}`,
+      recommendation: 'Publish a DANE-EE(3) or DANE-TA(2) TLSA record, e.g. "3 1 1" with the SHA-256 of the server public key',
+      evidence: { name }
+    });
+  }
+
+  return { host, name, found: true, dnssec, usable, records };
+}
+
+/**
+ * Validate one TLSA record against RFC 6698 and the SMTP profile in RFC 7672
+ */
+function validateTLSA(name: string, data: TLSAData, issues: Issue[]): TLSARecord {
+  const record = `${data.usage} ${data.selector} ${data.matchingType} ${data.certificateData}`;
+  const matching = TLSA_MATCHING_TYPES[data.matchingType];
+  let usable = true;
+
+  if (!(data.usage in TLSA_USAGES) || !(data.selector in TLSA_SELECTORS) || !matching) {
+    issues.push({
+      code: 'DANE-TLSA-INVALID',
+      check: 'dane',
+      severity: 'high',
+      message: `TLSA record has unknown parameters: ${describeTLSA(data)}`,
+      recommendation: 'Use usage 2 or 3, selector 0 or 1 and matching type 1 or 2',
+      evidence: { name, record }
+    });
+    usable = false;
+  } else if (matching.length !== undefined && data.certificateData.length !== matching.length * 2) {
+    issues.push({
+      code: 'DANE-TLSA-DIGEST-LENGTH',
+      check: 'dane',
+      severity: 'high',
+      message: `TLSA ${matching.name} digest is ${data.certificateData.length / 2} bytes, expected ${matching.length}`,
+      recommendation: 'Regenerate the TLSA record from the server certificate',
+      evidence: { name, record, value: data.certificateData }
+    });
+    usable = false;
+  }
+
+  // RFC 7672 §3.1.3: PKIX usages are not supported by SMTP clients
+  if (data.usage === 0 || data.usage === 1) {
+    issues.push({
+      code: 'DANE-TLSA-PKIX-USAGE',
+      check: 'dane',
+      severity: 'medium',
+      message: `TLSA usage ${TLSA_USAGES[data.usage]} (${data.usage}) is not used for SMTP`,
+      recommendation: 'Use DANE-EE(3) or DANE-TA(2); SMTP clients treat PKIX-TA(0) and PKIX-EE(1) records as unusable (RFC 7672 §3.1.3)',
+      evidence: { name, record }
+    });
+    usable = false;
+  }
+
+  if (usable && data.matchingType === 0) {
+    issues.push({
+      code: 'DANE-TLSA-FULL-MATCH',
+      check: 'dane',
+      severity: 'low',
+      message: 'TLSA record publishes the full certificate or key instead of a digest',
+      recommendation: 'Prefer matching type 1 (SHA-256) to keep responses small (RFC 7671 §10.1.2)',
+      evidence: { name, record }
+    });
+  }
+
+  return {
+    usage: data.usage,
+    selector: data.selector,
+    matchingType: data.matchingType,
+    certificateData: data.certificateData,
+    usable,
+  };
+}
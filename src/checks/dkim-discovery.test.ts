@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { cachedResolveTxt, cachedResolveMx } from '../utils/dns.js';
+import { harvestSelectors, patternSelectors, providerSelectors, discoverSelectors } from './dkim-discovery.js';
+
+vi.mock('../utils/dns.js', async () => {
+  const actual = await vi.importActual<typeof import('../utils/dns.js')>('../utils/dns.js');
+  return {
+    ...actual,
+    cachedResolveTxt: vi.fn(),
+    cachedResolveMx: vi.fn()
+  };
+});
+
+describe('harvestSelectors', () => {
+  it('reads selectors of the domain from signatures and authentication results', () => {
+    const headers = [
+      'Authentication-Results: mx.example.net; dkim=pass header.d=example.com header.s=ar1 header.b=abc;',
+      ' spf=pass smtp.mailfrom=example.com',
+      'DKIM-Signature: v=1; a=rsa-sha256; d=example.com;',
+      ' s=abcdefghijklmnopqrstuvwxyz012345; h=from; bh=x; b=y',
+      'DKIM-Signature: v=1; a=rsa-sha256; d=esp.example; s=esp; h=from; bh=x; b=y',
+    ].join('\r\n');
+
+    expect(harvestSelectors(headers, 'Example.com')).toEqual([
+      { selector: 'ar1', source: 'header', detail: 'Authentication-Results in sample headers' },
+      { selector: 'abcdefghijklmnopqrstuvwxyz012345', source: 'header', detail: 'Amazon SES Easy DKIM token, DKIM-Signature in sample headers' },
+    ]);
+  });
+});
+
+describe('patternSelectors', () => {
+  it('generates year, month and sequence selectors', () => {
+    const selectors = patternSelectors(new Date('2026-02-10T00:00:00Z'));
+
+    expect(selectors.slice(0, 9)).toEqual(['2026', 's2026', 'dkim2026', '2025', 's2025', 'dkim2025', '2024', 's2024', 'dkim2024']);
+    expect(selectors).toContain('202602');
+    expect(selectors).toContain('202503');
+    expect(selectors).not.toContain('202502');
+    expect(selectors).toContain('selector4');
+  });
+});
+
+describe('providerSelectors', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('infers providers from MX hosts and SPF includes', async () => {
+    vi.mocked(cachedResolveMx).mockResolvedValue([{ exchange: 'example-com.mail.protection.outlook.com', priority: 0 }]);
+    vi.mocked(cachedResolveTxt).mockResolvedValue(['v=spf1 include:servers.mcsv.net include:amazonses.com ~all']);
+
+    const { providers, candidates } = await providerSelectors('example.com');
+
+    expect(providers).toEqual(['Microsoft 365', 'Mailchimp', 'Amazon SES']);
+    expect(candidates.find(c => c.selector === 'selector1')?.detail).toBe('Microsoft 365 (MX example-com.mail.protection.outlook.com)');
+    expect(candidates.find(c => c.selector === 'k1')?.detail).toBe('Mailchimp (SPF include:servers.mcsv.net)');
+  });
+
+  it('tolerates DNS failures', async () => {
+    vi.mocked(cachedResolveMx).mockRejectedValue(new Error('SERVFAIL'));
+    vi.mocked(cachedResolveTxt).mockRejectedValue(new Error('SERVFAIL'));
+
+    expect(await providerSelectors('example.com')).toEqual({ providers: [], candidates: [] });
+  });
+});
+
+describe('discoverSelectors', () => {
+  it('keeps the most specific source of each selector', async () => {
+    vi.mocked(cachedResolveMx).mockResolvedValue([]);
+    vi.mocked(cachedResolveTxt).mockResolvedValue([]);
+
+    const { candidates } = await discoverSelectors('example.com', ['S1', 'google'], { sampleHeaders: 'DKIM-Signature: d=example.com; s=google\r\n' });
+
+    expect(candidates.filter(c => ['s1', 'google'].includes(c.selector.toLowerCase()))).toEqual([
+      { selector: 'google', source: 'header', detail: 'DKIM-Signature in sample headers' },
+      { selector: 'S1', source: 'configured' },
+    ]);
+  });
+});
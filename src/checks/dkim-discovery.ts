@@ -0,0 +1,144 @@
+/**
+ * DKIM selector discovery
+ *
+ * Selectors cannot be listed from DNS, so candidates are gathered from the
+ * sending providers a domain uses (MX hosts and SPF includes), date and
+ * sequence patterns, and the DKIM-Signature fields of sample messages.
+ */
+
+import type { DKIMSelectorSource } from '../types.js';
+import { cachedResolveMx, cachedResolveTxt, filterRecordsByPrefix } from '../utils/dns.js';
+import { parseSignatureTags } from '../utils/dkim-crypto.js';
+import {
+  COMMON_DKIM_SELECTORS,
+  DKIM_PROVIDER_SELECTORS,
+  DKIM_SEQUENCE_MAX,
+  DKIM_SEQUENCE_PREFIXES,
+  DNS_PREFIX,
+  SES_DKIM_TOKEN,
+} from '../constants.js';
+
+export interface SelectorCandidate {
+  selector: string;
+  source: DKIMSelectorSource;
+  detail?: string;
+}
+
+export interface SelectorDiscoveryOptions {
+  sampleHeaders?: string; // Raw header block(s), e.g. an .eml or mbox file
+  now?: Date;             // Reference date for date patterns
+}
+
+// When a selector has several sources, the most specific one is reported
+const SOURCE_PRIORITY: DKIMSelectorSource[] = ['header', 'configured', 'provider', 'common', 'pattern'];
+
+/**
+ * Selectors of domain's own signatures in sample headers: s= of each
+ * DKIM-Signature with d=<domain>, and header.s= of DKIM results in
+ * Authentication-Results.
+ */
+export function harvestSelectors(headers: string, domain: string): SelectorCandidate[] {
+  const target = domain.toLowerCase();
+  const candidates: SelectorCandidate[] = [];
+  const add = (selector: string | undefined, field: string) => {
+    if (!selector) return;
+    const token = SES_DKIM_TOKEN.test(selector) ? 'Amazon SES Easy DKIM token, ' : '';
+    candidates.push({ selector, source: 'header', detail: `${token}${field} in sample headers` });
+  };
+
+  const unfolded = headers.replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const signature = /^DKIM-Signature\s*:(.*)$/i.exec(line);
+    if (signature) {
+      const tags = parseSignatureTags(signature[1]);
+      if (tags.get('d')?.toLowerCase() === target) add(tags.get('s'), 'DKIM-Signature');
+      continue;
+    }
+    const results = /^(?:ARC-)?Authentication-Results\s*:(.*)$/i.exec(line);
+    if (!results) continue;
+    for (const part of results[1].split(';')) {
+      if (!/^\s*dkim=/i.test(part)) continue;
+      const d = /header\.d=([^\s;]+)/i.exec(part)?.[1];
+      if (d?.toLowerCase() === target) add(/header\.s=([^\s;]+)/i.exec(part)?.[1], 'Authentication-Results');
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Date and sequence selectors: the last three years (2026, s2026, dkim2026),
+ * the last twelve months (202610) and numbered prefixes (s1..s4, dkim1..dkim4)
+ */
+export function patternSelectors(now: Date = new Date()): string[] {
+  const year = now.getUTCFullYear();
+  const selectors: string[] = [];
+  for (let y = year; y > year - 3; y--) {
+    selectors.push(`${y}`, `s${y}`, `dkim${y}`);
+  }
+  for (let i = 0; i < 12; i++) {
+    const month = new Date(Date.UTC(year, now.getUTCMonth() - i, 1));
+    selectors.push(`${month.getUTCFullYear()}${String(month.getUTCMonth() + 1).padStart(2, '0')}`);
+  }
+  for (const prefix of DKIM_SEQUENCE_PREFIXES) {
+    for (let n = 1; n <= DKIM_SEQUENCE_MAX; n++) {
+      selectors.push(`${prefix}${n}`);
+    }
+  }
+  return selectors;
+}
+
+/**
+ * Selectors of the providers a domain sends or receives through, inferred
+ * from its MX hosts and top-level SPF includes
+ */
+export async function providerSelectors(domain: string): Promise<{ providers: string[]; candidates: SelectorCandidate[] }> {
+  const [mx, txt] = await Promise.all([
+    cachedResolveMx(domain).catch(() => []),
+    cachedResolveTxt(domain).catch(() => []),
+  ]);
+  const spf = filterRecordsByPrefix(txt, DNS_PREFIX.SPF)[0] ?? '';
+  const includes = [...spf.matchAll(/(?:^|\s)[+~?-]?(?:include:|redirect=)([^\s]+)/gi)].map(match => match[1].toLowerCase());
+
+  const providers: string[] = [];
+  const candidates: SelectorCandidate[] = [];
+  for (const provider of DKIM_PROVIDER_SELECTORS) {
+    const host = provider.mx ? mx.map(record => record.exchange.replace(/\.$/, '')).find(exchange => provider.mx!.test(exchange)) : undefined;
+    const include = provider.spf ? includes.find(name => provider.spf!.test(name)) : undefined;
+    if (!host && !include) continue;
+
+    const evidence = host ? `MX ${host}` : `SPF include:${include}`;
+    providers.push(provider.name);
+    for (const selector of provider.selectors) {
+      candidates.push({ selector, source: 'provider', detail: `${provider.name} (${evidence})` });
+    }
+  }
+  return { providers, candidates };
+}
+
+/**
+ * All selectors worth probing for a domain, deduplicated (case-insensitively)
+ * with the most specific source kept
+ */
+export async function discoverSelectors(
+  domain: string,
+  selectors: readonly string[],
+  options: SelectorDiscoveryOptions = {}
+): Promise<{ providers: string[]; candidates: SelectorCandidate[] }> {
+  const { providers, candidates: fromProviders } = await providerSelectors(domain);
+  const common: readonly string[] = COMMON_DKIM_SELECTORS;
+
+  const candidates = [
+    ...(options.sampleHeaders ? harvestSelectors(options.sampleHeaders, domain) : []),
+    ...selectors.map(selector => ({ selector, source: common.includes(selector) ? 'common' : 'configured' } as SelectorCandidate)),
+    ...fromProviders,
+    ...common.map(selector => ({ selector, source: 'common' } as SelectorCandidate)),
+    ...patternSelectors(options.now).map(selector => ({ selector, source: 'pattern' } as SelectorCandidate)),
+  ].sort((a, b) => SOURCE_PRIORITY.indexOf(a.source) - SOURCE_PRIORITY.indexOf(b.source));
+
+  const unique = new Map<string, SelectorCandidate>();
+  for (const candidate of candidates) {
+    const key = candidate.selector.toLowerCase();
+    if (!unique.has(key)) unique.set(key, candidate);
+  }
+  return { providers, candidates: [...unique.values()] };
+}
@@ -1,15 +1,26 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { cachedResolveTxt } from '../utils/dns.js';
+import crypto from 'node:crypto';
+import { cachedResolveTxt, cachedResolveMx, cachedNameExists } from '../utils/dns.js';
 import { checkDKIM } from './dkim.js';
 
 vi.mock('../utils/dns.js', async () => {
   const actual = await vi.importActual<typeof import('../utils/dns.js')>('../utils/dns.js');
   return {
     ...actual,
-    cachedResolveTxt: vi.fn()
+    cachedResolveTxt: vi.fn(),
+    cachedResolveMx: vi.fn(),
+    cachedNameExists: vi.fn()
   };
 });
 
+function rsaKey(modulusLength: number, publicExponent?: number): string {
+  return crypto.generateKeyPairSync('rsa', { modulusLength, publicExponent }).publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+}
+
+const RSA_2048 = rsaKey(2048);
+const RSA_1024 = rsaKey(1024);
+const ED25519 = Buffer.from(crypto.generateKeyPairSync('ed25519').publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('base64');
+
 describe('checkDKIM', () => {
   beforeEach(() => {
     vi.resetAllMocks();
@@ -18,9 +29,7 @@ describe('checkDKIM', () => {
   it('detects valid DKIM with RSA 2048-bit key', async () => {
     vi.mocked(cachedResolveTxt).mockImplementation(async (domain: string) => {
       if (domain === 'google._domainkey.example.com') {
-        // Simulated 2048-bit RSA key (256 bytes base64)
-        const key = 'A'.repeat(340);
-        return [`v=DKIM1; k=rsa; p=${key}`];
+        return [`v=DKIM1; k=rsa; p=${RSA_2048}`];
       }
       return [];
     });
@@ -36,7 +45,7 @@ describe('checkDKIM', () => {
   it('detects ed25519 key and treats as strong', async () => {
     vi.mocked(cachedResolveTxt).mockImplementation(async (domain: string) => {
       if (domain === 'default._domainkey.example.com') {
-        return [`v=DKIM1; k=ed25519; p=MCowBQYDK2VwAyEAtest`];
+        return [`v=DKIM1; k=ed25519; p=${ED25519}`];
       }
       return [];
     });
@@ -53,9 +62,7 @@ describe('checkDKIM', () => {
   it('warns on weak 1024-bit RSA key', async () => {
     vi.mocked(cachedResolveTxt).mockImplementation(async (domain: string) => {
       if (domain === 'selector1._domainkey.example.com') {
-        // Simulated 1024-bit RSA key (128 bytes base64)
-        const key = 'A'.repeat(170);
-        return [`v=DKIM1; k=rsa; p=${key}`];
+        return [`v=DKIM1; k=rsa; p=${RSA_1024}`];
       }
       return [];
     });
@@ -80,8 +87,7 @@ describe('checkDKIM', () => {
     vi.mocked(cachedResolveTxt).mockImplementation(async (domain: string) => {
       if (domain === 'google._domainkey.example.com' || 
           domain === 'selector1._domainkey.example.com') {
-        const key = 'A'.repeat(340);
-        return [`v=DKIM1; k=rsa; p=${key}`];
+        return [`v=DKIM1; k=rsa; p=${RSA_2048}`];
       }
       return [];
     });
@@ -90,6 +96,7 @@ describe('checkDKIM', () => {
     
     expect(result.found).toBe(true);
     expect(result.selectors.length).toBe(2);
+    expect(result.probedSelectors).toEqual(['google', 'selector1', 'nonexistent']);
   });
 
   it('detects revoked key (empty p=)', async () => {
@@ -107,4 +114,122 @@ describe('checkDKIM', () => {
     // Should have critical issue for revoked key
     expect(result.issues.some(i => i.severity === 'critical' && i.message.includes('revoked'))).toBe(true);
   });
+
+  it('reports the exact modulus size and public exponent', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue([`v=DKIM1; p=${rsaKey(1536, 3)}`]);
+
+    const result = await checkDKIM('example.com', ['sel']);
+
+    expect(result.selectors[0]).toMatchObject({ keyType: 'rsa', keyLength: 1536, publicExponent: 3 });
+    expect(result.selectors[0].keyFingerprint).toMatch(/^[A-Za-z0-9+/]{43}=$/);
+    expect(result.issues.map(i => i.code)).toEqual(['DKIM-RSA-EXPONENT', 'DKIM-RSA-1024']);
+  });
+
+  it('rejects malformed keys', async () => {
+    vi.mocked(cachedResolveTxt).mockImplementation(async (domain: string) => ({
+      'base64._domainkey.example.com': ['v=DKIM1; p=MIIB!not*base64'],
+      'der._domainkey.example.com': ['v=DKIM1; p=bm90IGEga2V5'],
+      'ed._domainkey.example.com': [`v=DKIM1; k=ed25519; p=MCowBQYDK2VwAyEA${ED25519}`],
+    } as Record<string, string[]>)[domain] ?? []);
+
+    const result = await checkDKIM('example.com', ['base64', 'der', 'ed']);
+
+    expect(result.selectors.map(s => [s.selector, s.keyLength, s.keyError])).toEqual([
+      ['base64', undefined, 'Public key (p=) is not valid base64'],
+      ['der', undefined, 'Public key (p=) is not a valid key'],
+      ['ed', undefined, 'Ed25519 key is 44 bytes, expected 32'],
+    ]);
+    expect(result.issues.filter(i => i.code === 'DKIM-KEY-INVALID')).toHaveLength(3);
+  });
+
+  it('flags testing mode, sha1-only keys, service types and granularity', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue([`v=DKIM1; k=ed25519; t=y; h=sha1; s=tlsrpt; g=alerts; p=${ED25519}`]);
+
+    const result = await checkDKIM('example.com', ['sel']);
+
+    expect(result.selectors[0]).toMatchObject({ testing: true, hashAlgorithms: ['sha1'], serviceTypes: ['tlsrpt'], granularity: 'alerts' });
+    expect(result.issues.map(i => [i.code, i.severity])).toEqual([
+      ['DKIM-TESTING', 'medium'],
+      ['DKIM-HASH-SHA1-ONLY', 'high'],
+      ['DKIM-SERVICE-TYPE', 'high'],
+      ['DKIM-GRANULARITY', 'low'],
+    ]);
+  });
+
+  it('flags selectors that publish the same key', async () => {
+    vi.mocked(cachedResolveTxt).mockImplementation(async (domain: string) =>
+      domain === 'c._domainkey.example.com' ? [`v=DKIM1; k=ed25519; p=${ED25519}`] : [`v=DKIM1; p=${RSA_2048}`]);
+
+    const result = await checkDKIM('example.com', ['a', 'b', 'c']);
+
+    expect(result.issues.filter(i => i.code === 'DKIM-KEY-REUSED').map(i => i.message)).toEqual(['DKIM selectors "a", "b" publish the same public key']);
+  });
+});
+
+describe('checkDKIM selector discovery', () => {
+  const KEY = `v=DKIM1; k=rsa; p=${RSA_2048}`;
+  const NOW = new Date('2026-10-19T12:00:00Z');
+
+  function zone(records: Record<string, string[]>, mx: string[] = []): void {
+    vi.mocked(cachedResolveTxt).mockImplementation(async (name: string) => records[name] ?? []);
+    vi.mocked(cachedResolveMx).mockResolvedValue(mx.map((exchange, i) => ({ exchange, priority: i * 10 })));
+    vi.mocked(cachedNameExists).mockResolvedValue(true);
+  }
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('finds provider, pattern and sample header selectors with their source', async () => {
+    zone({
+      'example.com': ['v=spf1 include:sendgrid.net -all'],
+      'google._domainkey.example.com': [KEY],
+      's1._domainkey.example.com': [KEY],
+      '202609._domainkey.example.com': [KEY],
+      'mail-2024._domainkey.example.com': [KEY],
+    }, ['aspmx.l.google.com.']);
+    const headers = 'DKIM-Signature: v=1; a=rsa-sha256; d=example.com; s=mail-2024;\r\n h=from; bh=x; b=y\r\n';
+
+    const result = await checkDKIM('example.com', ['default'], { discover: true, sampleHeaders: headers, now: NOW });
+
+    expect(result.found).toBe(true);
+    expect(Object.fromEntries(result.selectors.map(s => [s.selector, [s.source, s.sourceDetail]]))).toEqual({
+      'mail-2024': ['header', 'DKIM-Signature in sample headers'],
+      google: ['provider', 'Google Workspace (MX aspmx.l.google.com)'],
+      s1: ['provider', 'SendGrid (SPF include:sendgrid.net)'],
+      '202609': ['pattern', undefined],
+    });
+    expect(result.discovery).toMatchObject({ domainkeyExists: true, wildcard: false, providers: ['Google Workspace', 'SendGrid'] });
+  });
+
+  it('stops when _domainkey does not exist', async () => {
+    zone({});
+    vi.mocked(cachedNameExists).mockResolvedValue(false);
+
+    const result = await checkDKIM('example.com', undefined, { discover: true });
+
+    expect(cachedResolveTxt).not.toHaveBeenCalled();
+    expect(result.issues[0]).toMatchObject({ code: 'DKIM-MISSING', message: 'No DKIM records found: _domainkey.example.com does not exist' });
+  });
+
+  it('reports undiscovered selectors when _domainkey exists', async () => {
+    zone({});
+
+    const result = await checkDKIM('example.com', undefined, { discover: true, now: NOW });
+
+    expect(result.found).toBe(false);
+    expect(result.issues.map(i => [i.code, i.severity])).toEqual([['DKIM-SELECTORS-UNKNOWN', 'medium']]);
+  });
+
+  it('collapses guessed selectors matching a wildcard record', async () => {
+    vi.mocked(cachedResolveTxt).mockImplementation(async (name: string) => name.endsWith('._domainkey.example.com') ? [KEY] : []);
+    vi.mocked(cachedResolveMx).mockResolvedValue([]);
+    vi.mocked(cachedNameExists).mockResolvedValue(true);
+
+    const result = await checkDKIM('example.com', ['mysel'], { discover: true, now: NOW });
+
+    expect(result.selectors.map(s => [s.selector, s.source, s.wildcard])).toEqual([['mysel', 'configured', true]]);
+    expect(result.discovery?.wildcard).toBe(true);
+    expect(result.issues.some(i => i.code === 'DKIM-WILDCARD')).toBe(true);
+  });
 });
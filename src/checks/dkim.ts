@@ -3,94 +3,162 @@
  */
 
 import crypto from 'node:crypto';
-import type { DKIMResult, DKIMSelector, Issue } from '../types.js';
-import { cachedResolveTxt } from '../utils/dns.js';
+import type { DKIMDiscovery, DKIMResult, DKIMSelector, Issue } from '../types.js';
+import { cachedResolveTxt, cachedNameExists } from '../utils/dns.js';
 import { extractTag, parseRecordTags } from '../utils/parser.js';
+import { keyFingerprint, parseDkimPublicKey } from '../utils/dkim-crypto.js';
+import { discoverSelectors } from './dkim-discovery.js';
+import type { SelectorCandidate, SelectorDiscoveryOptions } from './dkim-discovery.js';
 import { COMMON_DKIM_SELECTORS, DKIM_WEAK_KEY_BITS, DKIM_STRONG_KEY_BITS, DNS_SUBDOMAIN } from '../constants.js';
 
+export interface DKIMOptions extends SelectorDiscoveryOptions {
+  discover?: boolean; // Also probe provider, pattern and sample header selectors
+}
+
 export async function checkDKIM(
   domain: string, 
-  selectors: readonly string[] = COMMON_DKIM_SELECTORS
+  selectors: readonly string[] = COMMON_DKIM_SELECTORS,
+  options: DKIMOptions = {}
 ): Promise<DKIMResult> {
   const issues: Issue[] = [];
-  const foundSelectors: DKIMSelector[] = [];
+  let foundSelectors: DKIMSelector[] = [];
+  const domainkey = `${DNS_SUBDOMAIN.DKIM}.${domain}`;
+
+  const common: readonly string[] = COMMON_DKIM_SELECTORS;
+  let candidates: SelectorCandidate[] = selectors.map(selector => ({ selector, source: common.includes(selector) ? 'common' : 'configured' }));
+  let discovery: DKIMDiscovery | undefined;
+  let wildcardRecord: string | undefined;
+
+  if (options.discover) {
+    // NXDOMAIN for _domainkey.<domain> means no selector exists below it (RFC 8020)
+    const domainkeyExists = await cachedNameExists(domainkey).catch(() => undefined);
+    if (domainkeyExists === false) {
+      candidates = [];
+      discovery = { probed: 0, domainkeyExists, providers: [] };
+    } else {
+      const discovered = await discoverSelectors(domain, selectors, options);
+      candidates = discovered.candidates;
+      // A key for a random selector can only come from a wildcard record
+      const probe = `_dnsvet-${crypto.randomBytes(6).toString('hex')}`;
+      wildcardRecord = await resolveDKIMRecord(domain, probe).catch(() => undefined);
+      discovery = { probed: candidates.length, domainkeyExists, wildcard: wildcardRecord !== undefined, providers: discovered.providers };
+    }
+  }
 
   // Check each selector in parallel
   const results = await Promise.allSettled(
-    selectors.map(async (selector) => {
+    candidates.map(async ({ selector, source, detail }) => {
       const result = await checkDKIMSelector(domain, selector);
-      return { selector, ...result };
+      return { selector, ...result, source, sourceDetail: detail };
     })
   );
 
+  // Selectors that answered either way; failed lookups say nothing about the selector
+  const probedSelectors: string[] = [];
   for (const result of results) {
     if (result.status === 'fulfilled') {
+      probedSelectors.push(result.value.selector);
       if (result.value.found) {
         foundSelectors.push(result.value);
       }
     }
   }
 
+  if (wildcardRecord !== undefined) {
+    issues.push({
+      code: 'DKIM-WILDCARD',
+      check: 'dkim',
+      severity: 'low',
+      message: `A DKIM key is published for every selector under ${domainkey} (wildcard record)`,
+      recommendation: 'Publish explicit selector records instead; a wildcard key verifies any selector and hides which ones are in use',
+      evidence: { name: `*.${domainkey}`, record: wildcardRecord }
+    });
+    // Guessed selectors that only matched the wildcard say nothing about the domain
+    for (const sel of foundSelectors) {
+      sel.wildcard = sel.record === wildcardRecord || undefined;
+    }
+    foundSelectors = foundSelectors.filter(sel => !sel.wildcard || sel.source === 'header' || sel.source === 'configured');
+    if (!foundSelectors.some(sel => sel.wildcard)) {
+      foundSelectors.push({
+        selector: '*',
+        found: true,
+        ...describeKey(wildcardRecord),
+        record: wildcardRecord,
+        sourceDetail: 'wildcard record',
+        wildcard: true
+      });
+    }
+  }
+
+  if (foundSelectors.length === 0 && discovery?.domainkeyExists) {
+    issues.push({
+      code: 'DKIM-SELECTORS-UNKNOWN',
+      check: 'dkim',
+      severity: 'medium',
+      message: `No DKIM key found for ${discovery.probed} probed selectors, but ${domainkey} exists - keys are published under selectors that were not discovered`,
+      recommendation: 'Pass the selectors your senders use with --selectors, or harvest them from a received message with --dkim-headers',
+      evidence: { name: domainkey, value: candidates.map(c => c.selector).join(',') }
+    });
+
+    return {
+      found: false,
+      selectors: [],
+      probedSelectors,
+      discovery,
+      issues
+    };
+  }
+
   if (foundSelectors.length === 0) {
     issues.push({
+      code: 'DKIM-MISSING',
+      check: 'dkim',
       severity: 'high',
-      message: 'No DKIM records found for common selectors',
-      recommendation: 'Configure DKIM signing for your email service'
+      message: discovery?.domainkeyExists === false
+        ? `No DKIM records found: ${domainkey} does not exist`
+        : 'No DKIM records found for common selectors',
+      recommendation: 'Configure DKIM signing for your email service',
+      evidence: { name: domainkey, value: candidates.map(c => c.selector).join(',') }
     });
 
     return {
       found: false,
       selectors: [],
+      probedSelectors,
+      discovery,
       issues
     };
   }
 
   // Check key lengths and status for found selectors
   for (const sel of foundSelectors) {
-    // Check for revoked key (p= empty)
-    if (sel.keyLength === 0) {
-      issues.push({
-        severity: 'critical',
-        message: `DKIM selector "${sel.selector}" has a revoked key (p= is empty)`,
-        recommendation: 'Generate and publish a new DKIM key pair for this selector, or remove the selector if no longer in use'
-      });
-      continue;
-    }
-
-    // Check for missing or unparseable key
-    if (sel.keyLength === undefined) {
-      issues.push({
-        severity: 'high',
-        message: `DKIM selector "${sel.selector}" has missing or invalid public key (p=)`,
-        recommendation: 'Ensure the DKIM record contains a valid base64-encoded public key'
-      });
-      continue;
-    }
+    issues.push(...checkSelectorKey(domain, sel));
+  }
 
-    // ed25519 keys are always 256-bit and considered strong
-    if (sel.keyType === 'ed25519') {
-      continue;
-    }
-    
-    // RSA key length checks
-    if (sel.keyLength < DKIM_WEAK_KEY_BITS) {
-      issues.push({
-        severity: 'critical',
-        message: `DKIM selector "${sel.selector}" uses weak RSA key (${sel.keyLength}-bit)`,
-        recommendation: `Upgrade to at least ${DKIM_STRONG_KEY_BITS}-bit RSA key or use ed25519`
-      });
-    } else if (sel.keyLength < DKIM_STRONG_KEY_BITS) {
-      issues.push({
-        severity: 'medium',
-        message: `DKIM selector "${sel.selector}" uses ${DKIM_WEAK_KEY_BITS}-bit RSA key`,
-        recommendation: `Consider upgrading to ${DKIM_STRONG_KEY_BITS}-bit RSA key or ed25519`
-      });
-    }
+  // Selectors sharing a key are rotated together and cannot be revoked separately
+  const byKey = new Map<string, DKIMSelector[]>();
+  for (const sel of foundSelectors) {
+    if (!sel.keyFingerprint || sel.wildcard) continue;
+    byKey.set(sel.keyFingerprint, [...(byKey.get(sel.keyFingerprint) ?? []), sel]);
+  }
+  for (const [fingerprint, shared] of byKey) {
+    if (shared.length < 2) continue;
+    const names = shared.map(sel => `"${sel.selector}"`).join(', ');
+    issues.push({
+      code: 'DKIM-KEY-REUSED',
+      check: 'dkim',
+      severity: 'low',
+      message: `DKIM selectors ${names} publish the same public key`,
+      recommendation: 'Generate a separate key pair per selector so each can be rotated or revoked on its own',
+      evidence: { name: shared.map(sel => `${sel.selector}.${domainkey}`).join(','), value: fingerprint }
+    });
   }
 
   return {
     found: true,
     selectors: foundSelectors,
+    probedSelectors,
+    discovery,
     issues
   };
 }
@@ -99,25 +167,16 @@ async function checkDKIMSelector(
   domain: string, 
   selector: string
 ): Promise<Omit<DKIMSelector, 'selector'>> {
-  const dkimDomain = `${selector}._domainkey.${domain}`;
-  
   try {
-    const joinedRecords = await cachedResolveTxt(dkimDomain);
-    
-    // Find valid DKIM record using strict validation
-    const dkimRecord = findValidDKIMRecord(joinedRecords);
+    const dkimRecord = await resolveDKIMRecord(domain, selector);
 
     if (!dkimRecord) {
       return { found: false };
     }
 
-    const keyType = extractKeyType(dkimRecord);
-    const keyLength = extractKeyLength(dkimRecord, keyType);
-
     return {
       found: true,
-      keyType,
-      keyLength,
+      ...describeKey(dkimRecord),
       record: dkimRecord
     };
   } catch {
@@ -125,6 +184,15 @@ async function checkDKIMSelector(
   }
 }
 
+/**
+ * Fetch the DKIM key record of a selector. Returns undefined when none is
+ * published; temporary DNS failures are thrown.
+ */
+export async function resolveDKIMRecord(domain: string, selector: string): Promise<string | undefined> {
+  const records = await cachedResolveTxt(`${selector}.${DNS_SUBDOMAIN.DKIM}.${domain}`);
+  return findValidDKIMRecord(records);
+}
+
 /**
  * Find a valid DKIM record from TXT records using strict validation
  * Prioritizes v=DKIM1 records, then validates tag structure
@@ -162,60 +230,142 @@ function findValidDKIMRecord(records: string[]): string | undefined {
   return undefined;
 }
 
-function extractKeyType(record: string): string | undefined {
-  const match = record.match(/k=([^;\s]+)/i);
-  return match ? match[1].toLowerCase() : 'rsa'; // Default is RSA
+/**
+ * Key properties of a DKIM record (RFC 6376 §3.6.1). keyLength is the exact
+ * RSA modulus size, 256 for Ed25519, 0 for a revoked key and undefined when
+ * p= cannot be decoded.
+ */
+function describeKey(record: string): Omit<DKIMSelector, 'selector' | 'found'> {
+  const parsed = parseDkimPublicKey(record);
+  const details = parsed.key?.asymmetricKeyDetails;
+
+  return {
+    keyType: parsed.keyType,
+    keyLength: parsed.revoked ? 0 : parsed.keyType === 'ed25519' && parsed.key ? 256 : details?.modulusLength,
+    publicExponent: details?.publicExponent !== undefined ? Number(details.publicExponent) : undefined,
+    keyFingerprint: parsed.key ? keyFingerprint(parsed.key) : undefined,
+    keyError: parsed.error,
+    testing: parsed.testing || undefined,
+    hashAlgorithms: parsed.hashes,
+    serviceTypes: parsed.services,
+    granularity: parsed.granularity,
+  };
 }
 
-function extractKeyLength(record: string, keyType?: string): number | undefined {
-  // ed25519 keys are always 256-bit
-  if (keyType === 'ed25519') {
-    return 256;
+/**
+ * Issues with the key and flags published for one selector
+ */
+function checkSelectorKey(domain: string, sel: DKIMSelector): Issue[] {
+  const issues: Issue[] = [];
+  const evidence = { name: `${sel.selector}.${DNS_SUBDOMAIN.DKIM}.${domain}`, record: sel.record };
+
+  // Check for revoked key (p= empty)
+  if (sel.keyLength === 0) {
+    issues.push({
+      code: 'DKIM-KEY-REVOKED',
+      check: 'dkim',
+      severity: 'critical',
+      message: `DKIM selector "${sel.selector}" has a revoked key (p= is empty)`,
+      recommendation: 'Generate and publish a new DKIM key pair for this selector, or remove the selector if no longer in use',
+      evidence: { ...evidence, tag: 'p', value: '' }
+    });
+    return issues;
   }
 
-  // Match p= tag, allowing empty value (revoked key per RFC 6376 §3.6.1)
-  const match = record.match(/p=([^;\s]*)/i);
-  if (!match) return undefined; // p tag missing entirely
+  // Check for missing or unparseable key
+  if (sel.keyLength === undefined) {
+    issues.push({
+      code: 'DKIM-KEY-INVALID',
+      check: 'dkim',
+      severity: 'high',
+      message: `DKIM selector "${sel.selector}" has missing or invalid public key (p=)${sel.keyError ? `: ${sel.keyError}` : ''}`,
+      recommendation: sel.keyType === 'ed25519'
+        ? 'Publish the raw 32-byte Ed25519 public key in base64 (RFC 8463), not a SubjectPublicKeyInfo'
+        : 'Ensure the DKIM record contains a valid base64-encoded public key',
+      evidence: { ...evidence, tag: 'p' }
+    });
+    return issues;
+  }
 
-  const publicKey = match[1].trim();
-  if (publicKey === '') {
-    return 0; // Revoked key (p= empty)
+  if (sel.testing) {
+    issues.push({
+      code: 'DKIM-TESTING',
+      check: 'dkim',
+      severity: 'medium',
+      message: `DKIM selector "${sel.selector}" is in testing mode (t=y)`,
+      recommendation: 'Remove t=y once signing works; receivers may treat signatures with a testing key like unsigned mail',
+      evidence: { ...evidence, tag: 't', value: 'y' }
+    });
   }
 
-  try {
-    // Try to parse as actual RSA public key using crypto module
-    const derKey = Buffer.from(publicKey, 'base64');
-    
-    // Construct PEM format for crypto.createPublicKey
-    const pem = `-----BEGIN PUBLIC KEY-----\n${publicKey.match(/.{1,64}/g)?.join('\n')}\n-----END PUBLIC KEY-----`;
-    
-    try {
-      const keyObject = crypto.createPublicKey(pem);
-      const keyDetail = keyObject.asymmetricKeyDetails;
-      
-      if (keyDetail?.modulusLength) {
-        return keyDetail.modulusLength;
-      }
-    } catch {
-      // Fall back to estimation if crypto parsing fails
-    }
-    
-    // Fallback: estimate from DER-encoded key size
-    // RSA public key in SubjectPublicKeyInfo format:
-    // - 24 bytes overhead for ASN.1 structure (approximate)
-    // - Rest is modulus + exponent
-    // Modulus is typically key_bits/8 bytes + a few bytes for exponent
-    const estimatedModulusBytes = derKey.length - 38; // Typical ASN.1 overhead
-    const keyBits = Math.max(0, estimatedModulusBytes * 8);
-    
-    // Round to common key sizes
-    if (keyBits <= 600) return 512;
-    if (keyBits <= 1100) return 1024;
-    if (keyBits <= 2100) return 2048;
-    if (keyBits <= 3100) return 3072;
-    if (keyBits <= 4200) return 4096;
-    return Math.round(keyBits / 256) * 256; // Round to nearest 256
-  } catch {
-    return undefined;
+  if (sel.hashAlgorithms && !sel.hashAlgorithms.includes('sha256')) {
+    issues.push({
+      code: 'DKIM-HASH-SHA1-ONLY',
+      check: 'dkim',
+      severity: 'high',
+      message: `DKIM selector "${sel.selector}" does not allow sha256 signatures (h=${sel.hashAlgorithms.join(':')})`,
+      recommendation: 'Remove the h= tag or set h=sha256; verifiers reject rsa-sha1 signatures (RFC 8301)',
+      evidence: { ...evidence, tag: 'h', value: sel.hashAlgorithms.join(':') }
+    });
+  }
+
+  if (sel.serviceTypes && !sel.serviceTypes.includes('*') && !sel.serviceTypes.includes('email')) {
+    issues.push({
+      code: 'DKIM-SERVICE-TYPE',
+      check: 'dkim',
+      severity: 'high',
+      message: `DKIM selector "${sel.selector}" is not usable for email (s=${sel.serviceTypes.join(':')})`,
+      recommendation: 'Remove the s= tag or include "email" in it',
+      evidence: { ...evidence, tag: 's', value: sel.serviceTypes.join(':') }
+    });
+  }
+
+  if (sel.granularity !== undefined && sel.granularity !== '*') {
+    issues.push({
+      code: 'DKIM-GRANULARITY',
+      check: 'dkim',
+      severity: 'low',
+      message: `DKIM selector "${sel.selector}" restricts signers with g=${sel.granularity}`,
+      recommendation: 'Remove the g= tag; RFC 6376 dropped it and older verifiers fail signatures whose i= local part does not match',
+      evidence: { ...evidence, tag: 'g', value: sel.granularity }
+    });
+  }
+
+  // ed25519 keys are always 256-bit and considered strong
+  if (sel.keyType === 'ed25519') {
+    return issues;
+  }
+
+  if (sel.publicExponent !== undefined && sel.publicExponent < 65537) {
+    issues.push({
+      code: 'DKIM-RSA-EXPONENT',
+      check: 'dkim',
+      severity: 'low',
+      message: `DKIM selector "${sel.selector}" uses RSA public exponent ${sel.publicExponent}`,
+      recommendation: 'Generate the next key with the standard exponent 65537',
+      evidence: { ...evidence, tag: 'p', value: `${sel.publicExponent}` }
+    });
+  }
+
+  // RSA key length checks
+  if (sel.keyLength < DKIM_WEAK_KEY_BITS) {
+    issues.push({
+      code: 'DKIM-WEAK-RSA',
+      check: 'dkim',
+      severity: 'critical',
+      message: `DKIM selector "${sel.selector}" uses weak RSA key (${sel.keyLength}-bit)`,
+      recommendation: `Upgrade to at least ${DKIM_STRONG_KEY_BITS}-bit RSA key or use ed25519`,
+      evidence: { ...evidence, tag: 'p', value: `${sel.keyLength}` }
+    });
+  } else if (sel.keyLength < DKIM_STRONG_KEY_BITS) {
+    issues.push({
+      code: 'DKIM-RSA-1024',
+      check: 'dkim',
+      severity: 'medium',
+      message: `DKIM selector "${sel.selector}" uses ${sel.keyLength}-bit RSA key`,
+      recommendation: `Consider upgrading to ${DKIM_STRONG_KEY_BITS}-bit RSA key or ed25519`,
+      evidence: { ...evidence, tag: 'p', value: `${sel.keyLength}` }
+    });
   }
+  return issues;
 }
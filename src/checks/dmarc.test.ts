@@ -1,15 +1,25 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { cachedResolveTxt } from '../utils/dns.js';
-import { checkDMARC } from './dmarc.js';
+import { cachedResolveTxt, cachedResolveA, cachedResolveAaaa, cachedResolveMx } from '../utils/dns.js';
+import { checkDMARC, dmarcDiscoveryNames } from './dmarc.js';
 
 vi.mock('../utils/dns.js', async () => {
   const actual = await vi.importActual<typeof import('../utils/dns.js')>('../utils/dns.js');
   return {
     ...actual,
-    cachedResolveTxt: vi.fn()
+    cachedResolveTxt: vi.fn(),
+    cachedResolveA: vi.fn(),
+    cachedResolveAaaa: vi.fn(),
+    cachedResolveMx: vi.fn()
   };
 });
 
+function mockZone(txt: Record<string, string[]>, existing: string[] = []): void {
+  vi.mocked(cachedResolveTxt).mockImplementation(async name => txt[name] ?? []);
+  vi.mocked(cachedResolveA).mockImplementation(async name => existing.includes(name) ? ['192.0.2.1'] : []);
+  vi.mocked(cachedResolveAaaa).mockResolvedValue([]);
+  vi.mocked(cachedResolveMx).mockResolvedValue([]);
+}
+
 describe('checkDMARC', () => {
   beforeEach(() => {
     vi.resetAllMocks();
@@ -49,6 +59,18 @@ describe('checkDMARC', () => {
     expect(result.issues.some(i => i.severity === 'high')).toBe(true);
   });
 
+  it('records the offending tag as evidence', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue([
+      'v=DMARC1; p=none'
+    ]);
+
+    const result = await checkDMARC('example.com');
+    const issue = result.issues.find(i => i.code === 'DMARC-P-NONE');
+
+    expect(issue?.check).toBe('dmarc');
+    expect(issue?.evidence).toEqual({ name: '_dmarc.example.com', record: 'v=DMARC1; p=none', tag: 'p', value: 'none' });
+  });
+
   it('extracts subdomain policy', async () => {
     vi.mocked(cachedResolveTxt).mockResolvedValue([
       'v=DMARC1; p=reject; sp=quarantine'
@@ -71,6 +93,18 @@ describe('checkDMARC', () => {
     expect(result.issues.some(i => i.message.includes('50%'))).toBe(true);
   });
 
+  it('extracts alignment modes', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue([
+      'v=DMARC1; p=reject; adkim=S; aspf=x'
+    ]);
+
+    const result = await checkDMARC('example.com');
+
+    expect(result.adkim).toBe('s');
+    expect(result.aspf).toBeUndefined();
+    expect(result.issues.some(i => i.code === 'DMARC-INVALID-ASPF')).toBe(true);
+  });
+
   it('warns when reporting not configured', async () => {
     vi.mocked(cachedResolveTxt).mockResolvedValue([
       'v=DMARC1; p=reject'
@@ -90,4 +124,158 @@ describe('checkDMARC', () => {
     expect(result.found).toBe(false);
     expect(result.issues.some(i => i.severity === 'critical')).toBe(true);
   });
+
+  describe('policy discovery', () => {
+    it('uses the record at the domain itself', async () => {
+      mockZone({ '_dmarc.example.com': ['v=DMARC1; p=reject; sp=none'] });
+
+      const result = await checkDMARC('example.com');
+
+      expect(result).toMatchObject({ policyDomain: 'example.com', organizationalDomain: 'example.com', inherited: false, effectivePolicy: 'reject', effectivePolicyTag: 'p' });
+      expect(result.domainExists).toBeUndefined();
+    });
+
+    it('walks up to the organizational domain and applies sp=', async () => {
+      mockZone({ '_dmarc.example.co.uk': ['v=DMARC1; p=reject; sp=quarantine; rua=mailto:d@example.co.uk'] }, ['mail.example.co.uk']);
+
+      const result = await checkDMARC('mail.example.co.uk');
+
+      expect(result).toMatchObject({
+        found: true,
+        policy: 'reject',
+        policyDomain: 'example.co.uk',
+        organizationalDomain: 'example.co.uk',
+        inherited: true,
+        domainExists: true,
+        effectivePolicy: 'quarantine',
+        effectivePolicyTag: 'sp',
+      });
+      const issue = result.issues.find(i => i.code === 'DMARC-INHERITED');
+      expect(issue?.message).toBe('No DMARC record at _dmarc.mail.example.co.uk; sp=quarantine from _dmarc.example.co.uk applies');
+      expect(issue?.evidence?.name).toBe('_dmarc.example.co.uk');
+    });
+
+    it('applies np= to non-existent subdomains', async () => {
+      mockZone({ '_dmarc.example.com': ['v=DMARC1; p=none; sp=quarantine; np=reject'] }, ['www.example.com']);
+
+      const missing = await checkDMARC('nope.example.com');
+      const existing = await checkDMARC('www.example.com');
+
+      expect(missing).toMatchObject({ domainExists: false, effectivePolicy: 'reject', effectivePolicyTag: 'np', nonExistentPolicy: 'reject' });
+      expect(existing).toMatchObject({ domainExists: true, effectivePolicy: 'quarantine', effectivePolicyTag: 'sp' });
+    });
+
+    it('falls back to p= without sp= or np=', async () => {
+      mockZone({ '_dmarc.example.com': ['v=DMARC1; p=reject'] });
+
+      const result = await checkDMARC('a.b.example.com');
+
+      expect(result).toMatchObject({ policyDomain: 'example.com', effectivePolicy: 'reject', effectivePolicyTag: 'p' });
+    });
+
+    it('stops at the closest record below the organizational domain', async () => {
+      mockZone({
+        '_dmarc.b.example.com': ['v=DMARC1; p=quarantine'],
+        '_dmarc.example.com': ['v=DMARC1; p=reject'],
+      });
+
+      expect((await checkDMARC('a.b.example.com')).policyDomain).toBe('b.example.com');
+    });
+
+    it('shortens long names to seven labels before walking up', async () => {
+      mockZone({});
+
+      await checkDMARC('a.b.c.d.e.f.g.h.i.example.com');
+
+      expect(vi.mocked(cachedResolveTxt).mock.calls.map(([name]) => name)).toEqual([
+        '_dmarc.a.b.c.d.e.f.g.h.i.example.com',
+        '_dmarc.e.f.g.h.i.example.com',
+        '_dmarc.f.g.h.i.example.com',
+        '_dmarc.g.h.i.example.com',
+        '_dmarc.h.i.example.com',
+        '_dmarc.i.example.com',
+        '_dmarc.example.com',
+        '_dmarc.com',
+      ]);
+    });
+  });
+
+  describe('spec level', () => {
+    it('accepts DMARCbis tags by default and flags deprecated ones', async () => {
+      mockZone({ '_dmarc.example.com': ['v=DMARC1; p=reject; np=reject; psd=n; t=n; pct=100; ri=3600; rua=mailto:d@example.com'] });
+
+      const result = await checkDMARC('example.com');
+
+      expect(result.spec).toBe('dmarcbis');
+      expect(result.issues.some(i => i.code === 'DMARC-UNKNOWN-TAGS')).toBe(false);
+      expect(result.issues.filter(i => i.code === 'DMARC-DEPRECATED-TAG').map(i => i.evidence?.tag)).toEqual(['pct', 'ri']);
+      expect(result).toMatchObject({ nonExistentPolicy: 'reject', psd: 'n', nonExistentSubdomainPolicy: 'reject' });
+    });
+
+    it('treats DMARCbis tags as unknown in RFC 7489 mode, but keeps np (RFC 9091)', async () => {
+      mockZone({ '_dmarc.example.com': ['v=DMARC1; p=reject; np=none; psd=n; pct=100; rua=mailto:d@example.com'] });
+
+      const result = await checkDMARC('example.com', { spec: 'rfc7489' });
+
+      expect(result.issues.find(i => i.code === 'DMARC-UNKNOWN-TAGS')?.message).toBe('Unknown DMARC tags found: psd');
+      expect(result.issues.some(i => i.code === 'DMARC-DEPRECATED-TAG')).toBe(false);
+      expect(result.nonExistentPolicy).toBe('none');
+      expect(result.nonExistentSubdomainPolicy).toBe('none');
+    });
+
+    it('checks the domain and its organizational domain in RFC 7489 mode', async () => {
+      mockZone({ '_dmarc.example.co.uk': ['v=DMARC1; p=reject; sp=none'] });
+
+      const result = await checkDMARC('a.b.example.co.uk', { spec: 'rfc7489' });
+
+      expect(vi.mocked(cachedResolveTxt).mock.calls.map(([name]) => name)).toEqual(['_dmarc.a.b.example.co.uk', '_dmarc.example.co.uk']);
+      expect(result).toMatchObject({ inherited: true, effectivePolicy: 'none', effectivePolicyTag: 'sp' });
+      expect(result.domainExists).toBeUndefined();
+      expect(cachedResolveA).not.toHaveBeenCalled();
+    });
+
+    it('lists the names each spec queries', () => {
+      expect(dmarcDiscoveryNames('a.b.example.com', 'rfc7489')).toEqual(['a.b.example.com', 'example.com']);
+      expect(dmarcDiscoveryNames('a.b.example.com')).toEqual(['a.b.example.com', 'b.example.com', 'example.com', 'com']);
+    });
+  });
+
+  describe('DMARCbis tags', () => {
+    it('reports test mode', async () => {
+      mockZone({ '_dmarc.example.com': ['v=DMARC1; p=reject; t=y; rua=mailto:d@example.com'] });
+
+      const result = await checkDMARC('example.com');
+
+      expect(result.testing).toBe(true);
+      expect(result.issues.find(i => i.code === 'DMARC-TESTING')?.message).toContain('quarantine instead of reject');
+    });
+
+    it('validates np, psd and t values', async () => {
+      mockZone({ '_dmarc.example.com': ['v=DMARC1; p=reject; np=block; psd=maybe; t=1'] });
+
+      const codes = (await checkDMARC('example.com')).issues.map(i => i.code);
+
+      expect(codes).toEqual(expect.arrayContaining(['DMARC-INVALID-NP', 'DMARC-INVALID-PSD', 'DMARC-INVALID-T']));
+    });
+
+    it('warns when np= is weaker than p=', async () => {
+      mockZone({ '_dmarc.example.com': ['v=DMARC1; p=reject; np=none'] });
+
+      const result = await checkDMARC('example.com');
+
+      expect(result.issues.some(i => i.code === 'DMARC-NP-WEAKER')).toBe(true);
+      expect(result.nonExistentSubdomainPolicy).toBe('none');
+    });
+
+    it('uses psd= to locate the organizational domain', async () => {
+      mockZone({ '_dmarc.gov.example': ['v=DMARC1; p=reject; psd=y'] }, ['mail.agency.gov.example']);
+      const psdY = await checkDMARC('mail.agency.gov.example');
+
+      mockZone({ '_dmarc.agency.gov.example': ['v=DMARC1; p=reject; psd=n'] }, ['mail.agency.gov.example']);
+      const psdN = await checkDMARC('mail.agency.gov.example');
+
+      expect(psdY).toMatchObject({ policyDomain: 'gov.example', psd: 'y', organizationalDomain: 'agency.gov.example' });
+      expect(psdN).toMatchObject({ policyDomain: 'agency.gov.example', psd: 'n', organizationalDomain: 'agency.gov.example' });
+    });
+  });
 });
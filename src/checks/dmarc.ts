@@ -1,61 +1,82 @@
 /**
  * DMARC (Domain-based Message Authentication, Reporting & Conformance) checker
- * RFC 7489 compliant implementation
+ * RFC 7489 compliant implementation with a DMARCbis mode (the default):
+ * tree walk policy discovery, np/psd/t tags and deprecated pct/rf/ri
  */
 
-import type { DMARCResult, Issue } from '../types.js';
-import { cachedResolveTxt, filterRecordsByPrefix } from '../utils/dns.js';
-import { DNS_PREFIX, DNS_SUBDOMAIN, VALID_DMARC_TAGS, DMARC_POLICIES } from '../constants.js';
+import type { DMARCResult, DMARCSpec, Issue } from '../types.js';
+import { cachedResolveTxt, cachedResolveA, cachedResolveAaaa, cachedResolveMx, filterRecordsByPrefix } from '../utils/dns.js';
+import { organizationalDomain } from '../utils/domain.js';
+import { DNS_PREFIX, DNS_SUBDOMAIN, VALID_DMARC_TAGS, DMARCBIS_TAGS, DEPRECATED_DMARC_TAGS, DMARC_POLICIES, DMARC_TREE_WALK_MAX_LABELS } from '../constants.js';
+
+export interface DMARCOptions {
+  spec?: DMARCSpec; // Default: dmarcbis
+}
 
 const NO_DMARC_RESULT: DMARCResult = {
   found: false,
   issues: [{
+    code: 'DMARC-MISSING',
+    check: 'dmarc',
     severity: 'critical',
     message: 'No DMARC record found',
     recommendation: 'Add a DMARC record to specify email authentication policy'
   }]
 };
 
-export async function checkDMARC(domain: string): Promise<DMARCResult> {
+export async function checkDMARC(domain: string, options: DMARCOptions = {}): Promise<DMARCResult> {
   const issues: Issue[] = [];
-  const dmarcDomain = `${DNS_SUBDOMAIN.DMARC}.${domain}`;
+  const spec = options.spec ?? 'dmarcbis';
+  const checkedDomain = domain.toLowerCase().replace(/\.$/, '');
 
-  const txtRecords = await cachedResolveTxt(dmarcDomain);
-  const dmarcRecords = filterRecordsByPrefix(txtRecords, DNS_PREFIX.DMARC);
-
-  if (dmarcRecords.length === 0) {
-    return NO_DMARC_RESULT;
+  const discovered = await discoverDMARCRecords(checkedDomain, spec);
+  if (!discovered) {
+    return { ...NO_DMARC_RESULT, spec };
   }
 
+  const { policyDomain, records: dmarcRecords } = discovered;
+  const dmarcDomain = `${DNS_SUBDOMAIN.DMARC}.${policyDomain}`;
+  const inherited = policyDomain !== checkedDomain;
+
   if (dmarcRecords.length > 1) {
     issues.push({
+      code: 'DMARC-MULTIPLE-RECORDS',
+      check: 'dmarc',
       severity: 'high',
       message: `Multiple DMARC records found (${dmarcRecords.length})`,
-      recommendation: 'Only one DMARC record should exist'
+      recommendation: 'Only one DMARC record should exist',
+      evidence: { name: dmarcDomain, record: dmarcRecords.join('\n'), value: `${dmarcRecords.length}` }
     });
   }
 
   const record = dmarcRecords[0];
+  const evidence = { name: dmarcDomain, record };
   
   // Parse all tags robustly
-  const parsedTags = parseDMARCTags(record);
+  const parsedTags = parseDMARCTags(record, spec === 'dmarcbis' ? DMARCBIS_TAGS : VALID_DMARC_TAGS);
   
   // Check for invalid/unknown tags
   const invalidTags = parsedTags.invalidTags;
   if (invalidTags.length > 0) {
     issues.push({
+      code: 'DMARC-UNKNOWN-TAGS',
+      check: 'dmarc',
       severity: 'low',
       message: `Unknown DMARC tags found: ${invalidTags.join(', ')}`,
-      recommendation: 'Remove or correct invalid tags to ensure proper parsing'
+      recommendation: 'Remove or correct invalid tags to ensure proper parsing',
+      evidence: { ...evidence, tag: invalidTags.join(',') }
     });
   }
 
   // Check for malformed tags
   if (parsedTags.malformedTags.length > 0) {
     issues.push({
+      code: 'DMARC-MALFORMED-TAGS',
+      check: 'dmarc',
       severity: 'medium',
       message: `Malformed DMARC tags: ${parsedTags.malformedTags.join(', ')}`,
-      recommendation: 'Fix tag formatting (should be tag=value)'
+      recommendation: 'Fix tag formatting (should be tag=value)',
+      evidence: { ...evidence, value: parsedTags.malformedTags.join('; ') }
     });
   }
 
@@ -63,20 +84,27 @@ export async function checkDMARC(domain: string): Promise<DMARCResult> {
   const version = parsedTags.tags.get('v');
   if (!version) {
     issues.push({
+      code: 'DMARC-NO-VERSION',
+      check: 'dmarc',
       severity: 'critical',
       message: 'DMARC record missing version tag (v=DMARC1)',
-      recommendation: 'Add v=DMARC1 at the start of the DMARC record'
+      recommendation: 'Add v=DMARC1 at the start of the DMARC record',
+      evidence: { ...evidence, tag: 'v' }
     });
   } else if (version.toUpperCase() !== 'DMARC1') {
     issues.push({
+      code: 'DMARC-INVALID-VERSION',
+      check: 'dmarc',
       severity: 'high',
       message: `Invalid DMARC version: "${version}" (expected DMARC1)`,
-      recommendation: 'Use v=DMARC1 for the version tag'
+      recommendation: 'Use v=DMARC1 for the version tag',
+      evidence: { ...evidence, tag: 'v', value: version }
     });
   }
 
   const policy = parsedTags.tags.get('p') as 'none' | 'quarantine' | 'reject' | undefined;
   const subdomainPolicy = parsedTags.tags.get('sp') as 'none' | 'quarantine' | 'reject' | undefined;
+  const nonExistentPolicy = parsedTags.tags.get('np') as 'none' | 'quarantine' | 'reject' | undefined;
   const rua = parseReportingAddresses(parsedTags.tags.get('rua'));
   const ruf = parseReportingAddresses(parsedTags.tags.get('ruf'));
   const pct = parsedTags.tags.get('pct') ? parseInt(parsedTags.tags.get('pct')!, 10) : undefined;
@@ -85,42 +113,114 @@ export async function checkDMARC(domain: string): Promise<DMARCResult> {
   const validPolicies: readonly string[] = DMARC_POLICIES;
   if (!policy) {
     issues.push({
+      code: 'DMARC-NO-POLICY',
+      check: 'dmarc',
       severity: 'critical',
       message: 'DMARC record has no policy (p=) specified',
-      recommendation: 'Add a policy: p=reject for maximum protection'
+      recommendation: 'Add a policy: p=reject for maximum protection',
+      evidence: { ...evidence, tag: 'p' }
     });
   } else if (!validPolicies.includes(policy)) {
     issues.push({
+      code: 'DMARC-INVALID-POLICY',
+      check: 'dmarc',
       severity: 'critical',
       message: `Invalid DMARC policy value: "${policy}"`,
-      recommendation: 'Use p=none, p=quarantine, or p=reject'
+      recommendation: 'Use p=none, p=quarantine, or p=reject',
+      evidence: { ...evidence, tag: 'p', value: policy }
     });
   } else if (policy === 'none') {
     issues.push({
+      code: 'DMARC-P-NONE',
+      check: 'dmarc',
       severity: 'high',
       message: 'DMARC policy is "none" - no enforcement',
-      recommendation: 'Change to p=quarantine or p=reject after monitoring'
+      recommendation: 'Change to p=quarantine or p=reject after monitoring',
+      evidence: { ...evidence, tag: 'p', value: policy }
     });
   } else if (policy === 'quarantine') {
     issues.push({
+      code: 'DMARC-P-QUARANTINE',
+      check: 'dmarc',
       severity: 'medium',
       message: 'DMARC policy is "quarantine" - consider upgrading',
-      recommendation: 'Change to p=reject for maximum protection when ready'
+      recommendation: 'Change to p=reject for maximum protection when ready',
+      evidence: { ...evidence, tag: 'p', value: policy }
     });
   }
 
   // Check subdomain policy
   if (subdomainPolicy && !['none', 'quarantine', 'reject'].includes(subdomainPolicy)) {
     issues.push({
+      code: 'DMARC-INVALID-SP',
+      check: 'dmarc',
       severity: 'medium',
       message: `Invalid subdomain policy value: "${subdomainPolicy}"`,
-      recommendation: 'Use sp=none, sp=quarantine, or sp=reject'
+      recommendation: 'Use sp=none, sp=quarantine, or sp=reject',
+      evidence: { ...evidence, tag: 'sp', value: subdomainPolicy }
     });
   } else if (policy === 'reject' && subdomainPolicy && subdomainPolicy !== 'reject') {
     issues.push({
+      code: 'DMARC-SP-WEAKER',
+      check: 'dmarc',
       severity: 'medium',
       message: `Subdomain policy (sp=${subdomainPolicy}) is weaker than main policy`,
-      recommendation: 'Consider setting sp=reject as well'
+      recommendation: 'Consider setting sp=reject as well',
+      evidence: { ...evidence, tag: 'sp', value: subdomainPolicy }
+    });
+  }
+
+  if (nonExistentPolicy && !validPolicies.includes(nonExistentPolicy)) {
+    issues.push({
+      code: 'DMARC-INVALID-NP',
+      check: 'dmarc',
+      severity: 'medium',
+      message: `Invalid non-existent subdomain policy value: "${nonExistentPolicy}"`,
+      recommendation: 'Use np=none, np=quarantine, or np=reject',
+      evidence: { ...evidence, tag: 'np', value: nonExistentPolicy }
+    });
+  } else if (policy === 'reject' && nonExistentPolicy && nonExistentPolicy !== 'reject') {
+    issues.push({
+      code: 'DMARC-NP-WEAKER',
+      check: 'dmarc',
+      severity: 'medium',
+      message: `Non-existent subdomain policy (np=${nonExistentPolicy}) is weaker than main policy`,
+      recommendation: 'Set np=reject: no legitimate mail comes from names that do not exist',
+      evidence: { ...evidence, tag: 'np', value: nonExistentPolicy }
+    });
+  }
+
+  const psdValue = parsedTags.tags.get('psd')?.toLowerCase();
+  const psd = psdValue === 'y' || psdValue === 'n' || psdValue === 'u' ? psdValue : undefined;
+  if (psdValue !== undefined && !psd) {
+    issues.push({
+      code: 'DMARC-INVALID-PSD',
+      check: 'dmarc',
+      severity: 'low',
+      message: `Invalid psd value: "${parsedTags.tags.get('psd')}" (should be y, n or u)`,
+      recommendation: 'Use psd=n for an organizational domain, or remove the tag',
+      evidence: { ...evidence, tag: 'psd', value: parsedTags.tags.get('psd') }
+    });
+  }
+
+  const testingValue = parsedTags.tags.get('t')?.toLowerCase();
+  if (testingValue !== undefined && testingValue !== 'y' && testingValue !== 'n') {
+    issues.push({
+      code: 'DMARC-INVALID-T',
+      check: 'dmarc',
+      severity: 'low',
+      message: `Invalid t value: "${parsedTags.tags.get('t')}" (should be y or n)`,
+      recommendation: 'Use t=y while testing, or remove the tag',
+      evidence: { ...evidence, tag: 't', value: parsedTags.tags.get('t') }
+    });
+  } else if (testingValue === 'y' && policy && policy !== 'none') {
+    issues.push({
+      code: 'DMARC-TESTING',
+      check: 'dmarc',
+      severity: 'low',
+      message: `DMARC policy is in test mode (t=y) - receivers apply ${policy === 'reject' ? 'quarantine instead of reject' : 'no action instead of quarantine'}`,
+      recommendation: 'Remove t=y once reports show legitimate mail passes DMARC',
+      evidence: { ...evidence, tag: 't', value: 'y' }
     });
   }
 
@@ -128,9 +228,12 @@ export async function checkDMARC(domain: string): Promise<DMARCResult> {
   const reportingEnabled = rua.length > 0 || ruf.length > 0;
   if (!reportingEnabled) {
     issues.push({
+      code: 'DMARC-NO-REPORTING',
+      check: 'dmarc',
       severity: 'medium',
       message: 'No DMARC reporting configured',
-      recommendation: 'Add rua= to receive aggregate reports'
+      recommendation: 'Add rua= to receive aggregate reports',
+      evidence: { ...evidence, tag: 'rua' }
     });
   }
 
@@ -138,14 +241,17 @@ export async function checkDMARC(domain: string): Promise<DMARCResult> {
   for (const addr of [...rua, ...ruf]) {
     if (!addr.startsWith('mailto:') && !addr.startsWith('https://')) {
       issues.push({
+        code: 'DMARC-INVALID-REPORT-URI',
+        check: 'dmarc',
         severity: 'medium',
         message: `Invalid reporting address format: "${addr}"`,
-        recommendation: 'Reporting addresses should use mailto: or https: scheme'
+        recommendation: 'Reporting addresses should use mailto: or https: scheme',
+        evidence: { ...evidence, tag: rua.includes(addr) ? 'rua' : 'ruf', value: addr }
       });
     }
   }
 
-  const sourceDomain = domain.toLowerCase();
+  const sourceDomain = policyDomain;
   const externalReportingDomains = new Set<string>();
   for (const addr of [...rua, ...ruf]) {
     const reportingDomain = extractReportingDomain(addr);
@@ -167,9 +273,26 @@ export async function checkDMARC(domain: string): Promise<DMARCResult> {
     );
     if (!hasAuthorization) {
       issues.push({
+        code: 'DMARC-EXTERNAL-REPORT-UNAUTHORIZED',
+        check: 'dmarc',
         severity: 'high',
         message: `External report destination not authorized: ${reportingDomain} (queried ${authorizationDomain})`,
-        recommendation: `Add TXT record "${authorizationDomain}" with value "v=DMARC1" to authorize external reporting`
+        recommendation: `Add TXT record "${authorizationDomain}" with value "v=DMARC1" to authorize external reporting`,
+        evidence: { ...evidence, name: authorizationDomain, value: reportingDomain }
+      });
+    }
+  }
+
+  if (spec === 'dmarcbis') {
+    for (const [tag, recommendation] of Object.entries(DEPRECATED_DMARC_TAGS)) {
+      if (!parsedTags.tags.has(tag)) continue;
+      issues.push({
+        code: 'DMARC-DEPRECATED-TAG',
+        check: 'dmarc',
+        severity: 'info',
+        message: `${tag}= is deprecated in DMARCbis and ignored by receivers that implement it`,
+        recommendation,
+        evidence: { ...evidence, tag, value: parsedTags.tags.get(tag) }
       });
     }
   }
@@ -178,15 +301,21 @@ export async function checkDMARC(domain: string): Promise<DMARCResult> {
   if (pct !== undefined) {
     if (isNaN(pct) || pct < 0 || pct > 100) {
       issues.push({
+        code: 'DMARC-INVALID-PCT',
+        check: 'dmarc',
         severity: 'medium',
         message: `Invalid pct value: must be 0-100`,
-        recommendation: 'Set pct to a value between 0 and 100'
+        recommendation: 'Set pct to a value between 0 and 100',
+        evidence: { ...evidence, tag: 'pct', value: parsedTags.tags.get('pct') }
       });
     } else if (pct < 100) {
       issues.push({
+        code: 'DMARC-PCT-PARTIAL',
+        check: 'dmarc',
         severity: 'low',
         message: `DMARC policy applies to only ${pct}% of messages`,
-        recommendation: 'Consider increasing pct to 100 after testing'
+        recommendation: 'Consider increasing pct to 100 after testing',
+        evidence: { ...evidence, tag: 'pct', value: `${pct}` }
       });
     }
   }
@@ -196,32 +325,127 @@ export async function checkDMARC(domain: string): Promise<DMARCResult> {
   const aspf = parsedTags.tags.get('aspf');
   if (adkim && !['r', 's'].includes(adkim.toLowerCase())) {
     issues.push({
+      code: 'DMARC-INVALID-ADKIM',
+      check: 'dmarc',
       severity: 'low',
       message: `Invalid adkim value: "${adkim}" (should be r or s)`,
-      recommendation: 'Use adkim=r (relaxed) or adkim=s (strict)'
+      recommendation: 'Use adkim=r (relaxed) or adkim=s (strict)',
+      evidence: { ...evidence, tag: 'adkim', value: adkim }
     });
   }
   if (aspf && !['r', 's'].includes(aspf.toLowerCase())) {
     issues.push({
+      code: 'DMARC-INVALID-ASPF',
+      check: 'dmarc',
       severity: 'low',
       message: `Invalid aspf value: "${aspf}" (should be r or s)`,
-      recommendation: 'Use aspf=r (relaxed) or aspf=s (strict)'
+      recommendation: 'Use aspf=r (relaxed) or aspf=s (strict)',
+      evidence: { ...evidence, tag: 'aspf', value: aspf }
+    });
+  }
+
+  const validPolicy = (value: string | undefined) =>
+    validPolicies.includes(value ?? '') ? value as 'none' | 'quarantine' | 'reject' : undefined;
+
+  // sp= and np= only apply to mail from below the domain that published the record
+  let domainExists: boolean | undefined;
+  let effectivePolicyTag: 'p' | 'sp' | 'np' = 'p';
+  if (inherited) {
+    // RFC 7489 mode only needs to know whether the domain exists for np= (RFC 9091)
+    domainExists = spec === 'dmarcbis' || nonExistentPolicy ? await hasAddressOrMx(checkedDomain) : undefined;
+    if (domainExists === false && validPolicy(nonExistentPolicy)) {
+      effectivePolicyTag = 'np';
+    } else if (validPolicy(subdomainPolicy)) {
+      effectivePolicyTag = 'sp';
+    }
+    const tagValue = { p: policy, sp: subdomainPolicy, np: nonExistentPolicy }[effectivePolicyTag];
+    issues.push({
+      code: 'DMARC-INHERITED',
+      check: 'dmarc',
+      severity: 'info',
+      message: `No DMARC record at _dmarc.${checkedDomain}; ${effectivePolicyTag}=${tagValue ?? '(none)'} from ${dmarcDomain} applies${domainExists === false ? ' (domain does not exist)' : ''}`,
+      recommendation: `Publish a record at _dmarc.${checkedDomain} to set a different policy for this domain`,
+      evidence: { ...evidence, tag: effectivePolicyTag, value: tagValue }
     });
   }
+  const effectivePolicy = validPolicy({ p: policy, sp: subdomainPolicy, np: nonExistentPolicy }[effectivePolicyTag]);
+
+  // psd=n marks the organizational domain; psd=y a public suffix domain whose child is one
+  let orgDomain = organizationalDomain(checkedDomain);
+  if (psd === 'n') {
+    orgDomain = policyDomain;
+  } else if (psd === 'y' && inherited) {
+    orgDomain = checkedDomain.split('.').slice(-(policyDomain.split('.').length + 1)).join('.');
+  }
 
   return {
     found: true,
     record,
-    policy: ['none', 'quarantine', 'reject'].includes(policy || '') ? policy as 'none' | 'quarantine' | 'reject' : undefined,
-    subdomainPolicy: ['none', 'quarantine', 'reject'].includes(subdomainPolicy || '') ? subdomainPolicy as 'none' | 'quarantine' | 'reject' : undefined,
+    policy: validPolicy(policy),
+    subdomainPolicy: validPolicy(subdomainPolicy),
+    nonExistentPolicy: validPolicy(nonExistentPolicy),
+    psd,
+    testing: testingValue === 'y' ? true : undefined,
+    spec,
     reportingEnabled,
     rua,
     ruf,
     pct: (pct !== undefined && !isNaN(pct) && pct >= 0 && pct <= 100) ? pct : undefined,
+    adkim: parseAlignment(adkim),
+    aspf: parseAlignment(aspf),
+    policyDomain,
+    organizationalDomain: orgDomain,
+    inherited,
+    domainExists,
+    effectivePolicy,
+    effectivePolicyTag: effectivePolicy ? effectivePolicyTag : undefined,
+    nonExistentSubdomainPolicy: validPolicy(nonExistentPolicy) ?? validPolicy(subdomainPolicy) ?? validPolicy(policy),
     issues
   };
 }
 
+/**
+ * Names whose _dmarc records are queried, in order. RFC 7489 checks the
+ * domain and then its organizational domain. DMARCbis walks toward the root
+ * one label at a time; names with more than DMARC_TREE_WALK_MAX_LABELS
+ * labels are first shortened to that many, bounding the walk at eight queries.
+ */
+export function dmarcDiscoveryNames(domain: string, spec: DMARCSpec = 'dmarcbis'): string[] {
+  if (spec === 'rfc7489') {
+    return [...new Set([domain, organizationalDomain(domain)])];
+  }
+  const names: string[] = [];
+  let labels = domain.split('.');
+  while (labels.length > 0) {
+    names.push(labels.join('.'));
+    labels = labels.length > DMARC_TREE_WALK_MAX_LABELS
+      ? labels.slice(-DMARC_TREE_WALK_MAX_LABELS)
+      : labels.slice(1);
+  }
+  return names;
+}
+
+/**
+ * The first name with DMARC records, and those records
+ */
+async function discoverDMARCRecords(domain: string, spec: DMARCSpec): Promise<{ policyDomain: string; records: string[] } | undefined> {
+  for (const name of dmarcDiscoveryNames(domain, spec)) {
+    const records = filterRecordsByPrefix(await cachedResolveTxt(`${DNS_SUBDOMAIN.DMARC}.${name}`), DNS_PREFIX.DMARC);
+    if (records.length > 0) {
+      return { policyDomain: name, records };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Non-existent domains (RFC 9091 §2.1) have no A, AAAA or MX records
+ */
+async function hasAddressOrMx(domain: string): Promise<boolean> {
+  const [a, aaaa, mx] = await Promise.all([cachedResolveA(domain), cachedResolveAaaa(domain), cachedResolveMx(domain)]);
+  return a.length > 0 || aaaa.length > 0 || mx.length > 0;
+}
+
 interface ParsedDMARCTags {
   tags: Map<string, string>;
   invalidTags: string[];
@@ -232,7 +456,7 @@ interface ParsedDMARCTags {
  * Parse DMARC record tags robustly
  * Handles whitespace variations, missing delimiters, etc.
  */
-function parseDMARCTags(record: string): ParsedDMARCTags {
+function parseDMARCTags(record: string, validTags: Set<string>): ParsedDMARCTags {
   const tags = new Map<string, string>();
   const invalidTags: string[] = [];
   const malformedTags: string[] = [];
@@ -250,7 +474,7 @@ function parseDMARCTags(record: string): ParsedDMARCTags {
       const [, tag, value] = match;
       const tagLower = tag.toLowerCase();
       
-      if (VALID_DMARC_TAGS.has(tagLower)) {
+      if (validTags.has(tagLower)) {
         tags.set(tagLower, value.trim());
       } else {
         invalidTags.push(tag);
@@ -265,6 +489,11 @@ function parseDMARCTags(record: string): ParsedDMARCTags {
   return { tags, invalidTags, malformedTags };
 }
 
+function parseAlignment(value: string | undefined): 'r' | 's' | undefined {
+  const mode = value?.toLowerCase();
+  return mode === 'r' || mode === 's' ? mode : undefined;
+}
+
 /**
  * Parse comma-separated reporting addresses
  */
@@ -1,17 +1,137 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { DNSSEC_ALGORITHMS, DS_DIGEST_TYPES, DNSKEY_FLAGS, checkDNSSEC } from './dnssec.js';
-import * as childProcess from 'node:child_process';
-import { promisify } from 'node:util';
+import crypto from 'node:crypto';
+import { queryDns } from '../utils/dns-wire.js';
+import { clearDnsCache } from '../utils/dns.js';
+import { computeKeyTag, computeDSDigest, signedData } from '../utils/dnssec-crypto.js';
+import type { DnsMessage, DnsRecord, RecordData } from '../utils/dns-wire.js';
 
-// Mock child_process.execFile
-vi.mock('node:child_process', async () => {
-  const actual = await vi.importActual('node:child_process');
+// Mock the wire-protocol query, keep the parsing helpers
+vi.mock('../utils/dns-wire.js', async () => {
+  const actual = await vi.importActual('../utils/dns-wire.js');
   return {
     ...actual,
-    execFile: vi.fn(),
+    queryDns: vi.fn(),
   };
 });
 
+const TYPE_NUMBERS: Record<string, number> = { MX: 15, DS: 43, RRSIG: 46, DNSKEY: 48 };
+
+function mockResponse(data: RecordData[], options: { rcode?: number; ad?: boolean } = {}): DnsMessage {
+  const answers: DnsRecord[] = data.map(d => ({
+    name: 'example.com',
+    type: TYPE_NUMBERS[d.type],
+    class: 1,
+    ttl: 300,
+    rdata: Buffer.alloc(0),
+    data: d,
+  }));
+  return {
+    id: 1,
+    flags: { qr: true, aa: false, tc: false, rd: true, ra: true, ad: options.ad ?? false, cd: false },
+    rcode: options.rcode ?? 0,
+    questions: [],
+    answers,
+    authorities: [],
+    additionals: [],
+  };
+}
+
+function mockByType(byType: Record<number, DnsMessage>): void {
+  vi.mocked(queryDns).mockImplementation(async (_name, type) => byType[type] ?? mockResponse([]));
+}
+
+// ---- Signed zone fixtures (Ed25519) ----
+
+const NOW = Math.floor(Date.now() / 1000);
+const DAY = 86400;
+
+interface TestZone {
+  name: string;
+  key: Extract<RecordData, { type: 'DNSKEY' }>;
+  sign: (data: Buffer) => Buffer;
+}
+
+function makeZone(name: string): TestZone {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const x = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url');
+  return {
+    name,
+    key: { type: 'DNSKEY', flags: 257, protocol: 3, algorithm: 15, publicKey: x.toString('base64') },
+    sign: data => crypto.sign(null, data, privateKey),
+  };
+}
+
+function record(name: string, data: RecordData, rdata = Buffer.alloc(0)): DnsRecord {
+  return { name, type: TYPE_NUMBERS[data.type], class: 1, ttl: 3600, rdata, data };
+}
+
+function dsFor(child: TestZone): DnsRecord {
+  const digest = computeDSDigest(child.name, child.key, 2)!;
+  const keyTag = computeKeyTag(child.key);
+  const rdata = Buffer.concat([Buffer.from([keyTag >> 8, keyTag & 0xff, 15, 2]), Buffer.from(digest, 'hex')]);
+  return record(child.name, { type: 'DS', keyTag, algorithm: 15, digestType: 2, digest }, rdata);
+}
+
+function sign(
+  signer: TestZone,
+  rrset: DnsRecord[],
+  window: { inception?: number; expiration?: number } = {}
+): DnsRecord {
+  const sig = {
+    type: 'RRSIG' as const,
+    typeCovered: rrset[0].type,
+    algorithm: 15,
+    labels: rrset[0].name.split('.').filter(l => l.length > 0).length,
+    originalTtl: 3600,
+    expiration: window.expiration ?? NOW + 30 * DAY,
+    inception: window.inception ?? NOW - DAY,
+    keyTag: computeKeyTag(signer.key),
+    signerName: signer.name,
+    signature: '',
+  };
+  sig.signature = signer.sign(signedData(sig, rrset)).toString('base64');
+  return record(rrset[0].name, sig);
+}
+
+function answerWith(records: DnsRecord[]): DnsMessage {
+  return { ...mockResponse([]), answers: records };
+}
+
+/**
+ * Signed hierarchy: root -> com -> example.com, with an MX RRset
+ */
+function signedHierarchy(options: { mxWindow?: { inception?: number; expiration?: number } } = {}) {
+  const root = makeZone('');
+  const com = makeZone('com');
+  const example = makeZone('example.com');
+  const responses = new Map<string, DnsMessage>();
+  const set = (name: string, type: number, records: DnsRecord[]) => responses.set(`${name}/${type}`, answerWith(records));
+
+  const rootKeys = [record('', root.key)];
+  set('', 48, [...rootKeys, sign(root, rootKeys)]);
+
+  const comDs = [dsFor(com)];
+  set('com', 43, [...comDs, sign(root, comDs)]);
+  const comKeys = [record('com', com.key)];
+  set('com', 48, [...comKeys, sign(com, comKeys)]);
+
+  const exampleDs = [dsFor(example)];
+  set('example.com', 43, [...exampleDs, sign(com, exampleDs)]);
+  const exampleKeys = [record('example.com', example.key)];
+  set('example.com', 48, [...exampleKeys, sign(example, exampleKeys)]);
+
+  const mx = [record('example.com', { type: 'MX', priority: 10, exchange: 'mail.example.com' })];
+  set('example.com', 15, [...mx, sign(example, mx, options.mxWindow)]);
+
+  const rootAnchor = dsFor(root).data as Extract<RecordData, { type: 'DS' }>;
+  return { root, com, example, responses, set, trustAnchors: [rootAnchor] };
+}
+
+function serveHierarchy(responses: Map<string, DnsMessage>): void {
+  vi.mocked(queryDns).mockImplementation(async (name, type) => responses.get(`${name}/${type}`) ?? mockResponse([]));
+}
+
 describe('DNSSEC', () => {
   describe('Algorithm classification', () => {
     it('should classify RSAMD5 as deprecated', () => {
@@ -66,6 +186,7 @@ describe('DNSSEC', () => {
   describe('checkDNSSEC', () => {
     beforeEach(() => {
       vi.clearAllMocks();
+      clearDnsCache();
     });
 
     afterEach(() => {
@@ -73,29 +194,15 @@ describe('DNSSEC', () => {
     });
 
     it('should detect DNSSEC enabled with valid DS and DNSKEY', async () => {
-      const mockExecFile = vi.mocked(childProcess.execFile);
-      
-      // Mock dig for DS records
-      mockExecFile.mockImplementation(((cmd: string, args: string[], opts: unknown, callback?: Function) => {
-        if (!callback && typeof opts === 'function') {
-          callback = opts;
-        }
-        
-        const argsArr = args as string[];
-        if (argsArr.includes('DS')) {
-          // DS record: keyTag algorithm digestType digest
-          const stdout = '2371 13 2 32996839A6D808AFE3EB4A795A0E6A7A39A76FC52FF228B22B76F6D63826F2B9\n';
-          if (callback) callback(null, { stdout, stderr: '' });
-          return { stdout, stderr: '' } as any;
-        } else if (argsArr.includes('DNSKEY')) {
-          // DNSKEY record: flags protocol algorithm publicKey
-          const stdout = '257 3 13 oJMRESz5E4gYzS/q6XDrvU1qMPYIjCWzJaOau8XNEZeqCYKD5ar0IRd8KqXXFJkqmVfRvMGPmM1x8fGAa2XhSA==\n256 3 13 6ZRWkqL+Z4r3w3XNkLCHvEjLV+PyFJLkc++tkBTH4Y+GC0Gy1BfPe2Swe8lRvFhvCMSPY1KTwLyF+q4hCCJdnA==\n';
-          if (callback) callback(null, { stdout, stderr: '' });
-          return { stdout, stderr: '' } as any;
-        }
-        if (callback) callback(null, { stdout: '', stderr: '' });
-        return { stdout: '', stderr: '' } as any;
-      }) as any);
+      mockByType({
+        43: mockResponse([
+          { type: 'DS', keyTag: 2371, algorithm: 13, digestType: 2, digest: '32996839A6D808AFE3EB4A795A0E6A7A39A76FC52FF228B22B76F6D63826F2B9' },
+        ]),
+        48: mockResponse([
+          { type: 'DNSKEY', flags: 257, protocol: 3, algorithm: 13, publicKey: 'oJMRESz5E4gYzS/q6XDrvU1qMPYIjCWzJaOau8XNEZeqCYKD5ar0IRd8KqXXFJkqmVfRvMGPmM1x8fGAa2XhSA==' },
+          { type: 'DNSKEY', flags: 256, protocol: 3, algorithm: 13, publicKey: '6ZRWkqL+Z4r3w3XNkLCHvEjLV+PyFJLkc++tkBTH4Y+GC0Gy1BfPe2Swe8lRvFhvCMSPY1KTwLyF+q4hCCJdnA==' },
+        ]),
+      });
 
       const result = await checkDNSSEC('example.com');
       
@@ -108,15 +215,7 @@ describe('DNSSEC', () => {
     });
 
     it('should detect DNSSEC not enabled when no records found', async () => {
-      const mockExecFile = vi.mocked(childProcess.execFile);
-      
-      mockExecFile.mockImplementation(((cmd: string, args: string[], opts: unknown, callback?: Function) => {
-        if (!callback && typeof opts === 'function') {
-          callback = opts;
-        }
-        if (callback) callback(null, { stdout: '', stderr: '' });
-        return { stdout: '', stderr: '' } as any;
-      }) as any);
+      mockByType({});
 
       const result = await checkDNSSEC('example.com');
       
@@ -125,51 +224,41 @@ describe('DNSSEC', () => {
       expect(result.issues[0].message).toContain('DNSSEC is not enabled');
     });
 
-    it('should handle dig command not found', async () => {
-      const mockExecFile = vi.mocked(childProcess.execFile);
-      
-      mockExecFile.mockImplementation(((cmd: string, args: string[], opts: unknown, callback?: Function) => {
-        if (!callback && typeof opts === 'function') {
-          callback = opts;
-        }
-        const error = new Error('dig not found') as NodeJS.ErrnoException;
-        error.code = 'ENOENT';
-        if (callback) callback(error, { stdout: '', stderr: '' });
-        throw error;
-      }) as any);
+    it('should treat NXDOMAIN as DNSSEC not enabled', async () => {
+      vi.mocked(queryDns).mockResolvedValue(mockResponse([], { rcode: 3 }));
+
+      const result = await checkDNSSEC('example.com');
+
+      expect(result.enabled).toBe(false);
+      expect(result.issues.some(i => i.code === 'DNSSEC-QUERY-FAILED')).toBe(false);
+    });
+
+    it('should report unreachable resolver', async () => {
+      vi.mocked(queryDns).mockRejectedValue(new Error('DNS query timed out (8.8.8.8)'));
 
       const result = await checkDNSSEC('example.com');
       
       expect(result.enabled).toBe(false);
-      // Should have an issue about dig not being available
-      const hasDigWarning = result.issues.some(i => 
-        i.message.includes('dig') || i.message.includes('DNSSEC')
-      );
-      expect(hasDigWarning).toBe(true);
+      const queryFailed = result.issues.find(i => i.code === 'DNSSEC-QUERY-FAILED');
+      expect(queryFailed?.message).toContain('timed out');
+    });
+
+    it('should report SERVFAIL as validation failure', async () => {
+      vi.mocked(queryDns).mockResolvedValue(mockResponse([], { rcode: 2 }));
+
+      const result = await checkDNSSEC('example.com');
+
+      expect(result.enabled).toBe(true);
+      expect(result.chainValid).toBe(false);
+      expect(result.issues[0].code).toBe('DNSSEC-SERVFAIL');
     });
 
     it('should detect weak algorithms and report issues', async () => {
-      const mockExecFile = vi.mocked(childProcess.execFile);
-      
-      mockExecFile.mockImplementation(((cmd: string, args: string[], opts: unknown, callback?: Function) => {
-        if (!callback && typeof opts === 'function') {
-          callback = opts;
-        }
-        
-        const argsArr = args as string[];
-        if (argsArr.includes('DS')) {
-          // Algorithm 5 = RSASHA1 (weak)
-          const stdout = '12345 5 1 ABCDEF1234567890\n';
-          if (callback) callback(null, { stdout, stderr: '' });
-          return { stdout, stderr: '' } as any;
-        } else if (argsArr.includes('DNSKEY')) {
-          const stdout = '257 3 5 AQPJ////dGhpcyBpcyBhIHRlc3Qga2V5\n';
-          if (callback) callback(null, { stdout, stderr: '' });
-          return { stdout, stderr: '' } as any;
-        }
-        if (callback) callback(null, { stdout: '', stderr: '' });
-        return { stdout: '', stderr: '' } as any;
-      }) as any);
+      mockByType({
+        // Algorithm 5 = RSASHA1 (weak)
+        43: mockResponse([{ type: 'DS', keyTag: 12345, algorithm: 5, digestType: 1, digest: 'ABCDEF1234567890' }]),
+        48: mockResponse([{ type: 'DNSKEY', flags: 257, protocol: 3, algorithm: 5, publicKey: 'AQPJ////dGhpcyBpcyBhIHRlc3Qga2V5' }]),
+      });
 
       const result = await checkDNSSEC('example.com');
       
@@ -182,24 +271,169 @@ describe('DNSSEC', () => {
       expect(hasWeakAlgoIssue).toBe(true);
     });
 
+    it('should report RRSIGs and the AD bit', async () => {
+      mockByType({
+        43: mockResponse([{ type: 'DS', keyTag: 2371, algorithm: 13, digestType: 2, digest: 'AA' }]),
+        48: mockResponse([
+          { type: 'DNSKEY', flags: 257, protocol: 3, algorithm: 13, publicKey: 'AA==' },
+          {
+            type: 'RRSIG', typeCovered: 48, algorithm: 13, labels: 2, originalTtl: 3600,
+            expiration: 1767225600, inception: 1764547200, keyTag: 2371, signerName: 'example.com', signature: 'AA==',
+          },
+        ], { ad: true }),
+      });
+
+      const result = await checkDNSSEC('example.com');
+
+      expect(result.authenticated).toBe(true);
+      expect(result.rrsig?.records[0]).toMatchObject({
+        typeCovered: 'DNSKEY',
+        algorithmName: 'ECDSAP256SHA256',
+        keyTag: 2371,
+        expiration: '2026-01-01T00:00:00.000Z',
+      });
+    });
+
     it('should use custom resolver when provided', async () => {
-      const mockExecFile = vi.mocked(childProcess.execFile);
-      const capturedArgs: string[][] = [];
-      
-      mockExecFile.mockImplementation(((cmd: string, args: string[], opts: unknown, callback?: Function) => {
-        capturedArgs.push(args as string[]);
-        if (!callback && typeof opts === 'function') {
-          callback = opts;
-        }
-        if (callback) callback(null, { stdout: '', stderr: '' });
-        return { stdout: '', stderr: '' } as any;
-      }) as any);
+      mockByType({});
 
       await checkDNSSEC('example.com', { resolver: '1.1.1.1' });
       
-      // Check that custom resolver was used
-      const hasCustomResolver = capturedArgs.some(args => args.includes('@1.1.1.1'));
-      expect(hasCustomResolver).toBe(true);
+      expect(queryDns).toHaveBeenCalledWith('example.com', 43, expect.objectContaining({ server: '1.1.1.1', dnssecOk: true }));
+      expect(queryDns).toHaveBeenCalledWith('example.com', 48, expect.objectContaining({ server: '1.1.1.1', dnssecOk: true }));
+    });
+  });
+
+  describe('chain of trust validation', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      clearDnsCache();
+    });
+
+    it('validates a fully signed chain to the root', async () => {
+      const zones = signedHierarchy();
+      serveHierarchy(zones.responses);
+
+      const result = await checkDNSSEC('example.com', { trustAnchors: zones.trustAnchors });
+
+      expect(result.chainValid).toBe(true);
+      expect(result.chain?.map(link => link.zone)).toEqual(['example.com', 'com', '.']);
+      expect(result.chain?.every(link => link.secure)).toBe(true);
+      expect(result.rrsets).toEqual([
+        expect.objectContaining({ type: 'DNSKEY', status: 'valid' }),
+        expect.objectContaining({ type: 'MX', status: 'valid' }),
+      ]);
+      expect(result.dnskey?.records[0].keyTag).toBe(computeKeyTag(zones.example.key));
+      expect(result.issues.filter(i => i.severity === 'critical' || i.severity === 'high')).toEqual([]);
+    });
+
+    it('reports a DS record that matches no DNSKEY', async () => {
+      const zones = signedHierarchy();
+      const stale = makeZone('example.com');
+      const staleDs = [dsFor(stale)];
+      zones.set('example.com', 43, [...staleDs, sign(zones.com, staleDs)]);
+      serveHierarchy(zones.responses);
+
+      const result = await checkDNSSEC('example.com', { trustAnchors: zones.trustAnchors });
+
+      expect(result.chainValid).toBe(false);
+      expect(result.chain?.[0]).toMatchObject({ dsMatched: false, secure: false });
+      expect(result.issues.some(i => i.code === 'DNSSEC-DS-NO-MATCHING-KEY')).toBe(true);
+    });
+
+    it('reports an RRSIG that does not verify', async () => {
+      const zones = signedHierarchy();
+      const mx = [record('example.com', { type: 'MX', priority: 10, exchange: 'mail.example.com' })];
+      const forged = [record('example.com', { type: 'MX', priority: 10, exchange: 'evil.example.net' })];
+      zones.set('example.com', 15, [...forged, sign(zones.example, mx)]);
+      serveHierarchy(zones.responses);
+
+      const result = await checkDNSSEC('example.com', { trustAnchors: zones.trustAnchors });
+      const issue = result.issues.find(i => i.code === 'DNSSEC-RRSIG-INVALID');
+
+      expect(issue?.severity).toBe('critical');
+      expect(issue?.evidence?.value).toBe('MX');
+    });
+
+    it('reports expired signatures', async () => {
+      const zones = signedHierarchy({ mxWindow: { inception: NOW - 30 * DAY, expiration: NOW - DAY } });
+      serveHierarchy(zones.responses);
+
+      const result = await checkDNSSEC('example.com', { trustAnchors: zones.trustAnchors });
+
+      expect(result.rrsets?.find(r => r.type === 'MX')?.status).toBe('expired');
+      expect(result.issues.some(i => i.code === 'DNSSEC-RRSIG-EXPIRED')).toBe(true);
+    });
+
+    it('reports signatures that are not yet valid', async () => {
+      const zones = signedHierarchy({ mxWindow: { inception: NOW + DAY, expiration: NOW + 30 * DAY } });
+      serveHierarchy(zones.responses);
+
+      const result = await checkDNSSEC('example.com', { trustAnchors: zones.trustAnchors });
+
+      expect(result.issues.some(i => i.code === 'DNSSEC-RRSIG-NOT-YET-VALID')).toBe(true);
+    });
+
+    it('warns about signatures expiring soon', async () => {
+      const zones = signedHierarchy({ mxWindow: { inception: NOW - 30 * DAY, expiration: NOW + 3 * DAY + 3600 } });
+      serveHierarchy(zones.responses);
+
+      const result = await checkDNSSEC('example.com', { trustAnchors: zones.trustAnchors });
+      const issue = result.issues.find(i => i.code === 'DNSSEC-RRSIG-EXPIRING');
+
+      expect(result.chainValid).toBe(true);
+      expect(issue?.severity).toBe('medium');
+      expect(issue?.message).toContain('3 day(s)');
+    });
+
+    it('does not warn about freshly signed short-lived signatures', async () => {
+      const zones = signedHierarchy({ mxWindow: { inception: NOW - 3600, expiration: NOW + 3 * DAY - 3600 } });
+      serveHierarchy(zones.responses);
+
+      const result = await checkDNSSEC('example.com', { trustAnchors: zones.trustAnchors });
+
+      expect(result.chainValid).toBe(true);
+      expect(result.issues.some(i => i.code === 'DNSSEC-RRSIG-EXPIRING')).toBe(false);
+    });
+
+    it('warns about short-lived signatures near the end of their validity', async () => {
+      const zones = signedHierarchy({ mxWindow: { inception: NOW - 3 * DAY + 12 * 3600, expiration: NOW + 12 * 3600 } });
+      serveHierarchy(zones.responses);
+
+      const result = await checkDNSSEC('example.com', { trustAnchors: zones.trustAnchors });
+
+      expect(result.issues.some(i => i.code === 'DNSSEC-RRSIG-EXPIRING')).toBe(true);
+    });
+
+    it('breaks the chain when the root key is not a trust anchor', async () => {
+      const zones = signedHierarchy();
+      serveHierarchy(zones.responses);
+
+      const result = await checkDNSSEC('example.com');
+
+      expect(result.chainValid).toBe(false);
+      expect(result.chain?.[2]).toMatchObject({ zone: '.', dsMatched: false });
+      const issue = result.issues.find(i => i.code === 'DNSSEC-CHAIN-BROKEN');
+      expect(issue?.evidence?.name).toBe('.');
+    });
+
+    it('diagnoses SERVFAIL by re-querying with checking disabled', async () => {
+      const zones = signedHierarchy();
+      const stale = makeZone('example.com');
+      const staleDs = [dsFor(stale)];
+      zones.set('example.com', 43, [...staleDs, sign(zones.com, staleDs)]);
+      vi.mocked(queryDns).mockImplementation(async (name, type, options) => {
+        if (name === 'example.com' && !options?.checkingDisabled) {
+          return mockResponse([], { rcode: 2 });
+        }
+        return zones.responses.get(`${name}/${type}`) ?? mockResponse([]);
+      });
+
+      const result = await checkDNSSEC('example.com', { trustAnchors: zones.trustAnchors });
+
+      expect(result.enabled).toBe(true);
+      expect(result.issues.some(i => i.code === 'DNSSEC-SERVFAIL')).toBe(true);
+      expect(result.issues.some(i => i.code === 'DNSSEC-DS-NO-MATCHING-KEY')).toBe(true);
     });
   });
 });
@@ -5,8 +5,12 @@
  * through cryptographic signatures.
  */
 
-import type { Issue, DNSSECResult, DSRecord, DNSKEYRecord } from '../types.js';
-import { dns } from '../utils/dns.js';
+import type { Issue, DNSSECResult, DSRecord, DNSKEYRecord, RRSIGRecord, RRSetValidation, DNSSECChainLink } from '../types.js';
+import { recordsOfType, rrTypeName, rcodeName, RRTYPE } from '../utils/dns-wire.js';
+import type { DnsMessage, DnsRecord, DNSKEYData, DSData, RRSIGData } from '../utils/dns-wire.js';
+import { cachedQueryDns } from '../utils/dns.js';
+import { computeKeyTag, dsMatchesKey, isSupportedAlgorithm, verifyRRSIG, ROOT_TRUST_ANCHORS } from '../utils/dnssec-crypto.js';
+import { DNSSEC_MAX_CHAIN_DEPTH, DNSSEC_SIGNATURE_EXPIRY_WARN_DAYS, DNSSEC_SIGNATURE_EXPIRY_WARN_FRACTION } from '../constants.js';
 
 // DNSSEC algorithm names (RFC 8624)
 export const DNSSEC_ALGORITHMS: Record<number, { name: string; strength: 'strong' | 'acceptable' | 'weak' | 'deprecated' }> = {
@@ -42,6 +46,8 @@ export const DNSKEY_FLAGS = {
 const NO_DNSSEC_RESULT: DNSSECResult = {
   enabled: false,
   issues: [{
+    code: 'DNSSEC-DISABLED',
+    check: 'dnssec',
     severity: 'medium',
     message: 'DNSSEC is not enabled for this domain',
     recommendation: 'Consider enabling DNSSEC to protect against DNS spoofing and cache poisoning'
@@ -50,30 +56,40 @@ const NO_DNSSEC_RESULT: DNSSECResult = {
 
 export interface DNSSECOptions {
   resolver?: string; // Custom DNS resolver (e.g., '8.8.8.8')
+  trustAnchors?: DSData[]; // Root trust anchors (defaults to the IANA root KSKs)
 }
 
 export async function checkDNSSEC(domain: string, options: DNSSECOptions = {}): Promise<DNSSECResult> {
   const issues: Issue[] = [];
 
-  // Default to Google DNS for DNSSEC - system DNS often doesn't return DS/DNSKEY
+  // Default to Google DNS for DNSSEC - a validating resolver sets the AD bit
   const resolver = options.resolver || '8.8.8.8';
+  const trustAnchors = options.trustAnchors ?? ROOT_TRUST_ANCHORS;
+  const now = Math.floor(Date.now() / 1000);
 
   try {
-    // Check for DS records at parent zone
-    const dsResult = await fetchDSRecords(domain, resolver);
-    const dnskeyResult = await fetchDNSKEYRecords(domain, resolver);
+    // DS lives at the parent zone, DNSKEY at the domain itself
+    const [dsResult, dnskeyResult] = await Promise.all([
+      fetchRecords(domain, RRTYPE.DS, resolver),
+      fetchRecords(domain, RRTYPE.DNSKEY, resolver),
+    ]);
 
     // Report fetch errors as issues
     if (dsResult.error && dnskeyResult.error) {
       issues.push({
+        code: 'DNSSEC-QUERY-FAILED',
+        check: 'dnssec',
         severity: 'low',
-        message: dsResult.error,
-        recommendation: 'Install dig (bind-utils/dnsutils) for DNSSEC validation'
+        message: `DNSSEC query failed: ${dsResult.error}`,
+        recommendation: `Ensure the resolver ${resolver} is reachable over UDP/TCP port 53, or use --resolver`,
+        evidence: { name: domain }
       });
     }
 
-    const dsRecords = dsResult.records;
-    const dnskeyRecords = dnskeyResult.records;
+    const ds = splitAnswers(dsResult.answers, RRTYPE.DS);
+    const dnskey = splitAnswers(dnskeyResult.answers, RRTYPE.DNSKEY);
+    const dsRecords = recordsOfType(ds.records, 'DS');
+    const dnskeyRecords = recordsOfType(dnskey.records, 'DNSKEY');
 
     // If neither DS nor DNSKEY found, DNSSEC is not enabled
     if (dsRecords.length === 0 && dnskeyRecords.length === 0) {
@@ -83,67 +99,96 @@ export async function checkDNSSEC(domain: string, options: DNSSECOptions = {}):
       };
     }
 
+    // A validating resolver refused the answer; we re-queried with CD to diagnose
+    if (dsResult.servfail || dnskeyResult.servfail) {
+      issues.push(servfailIssue(domain));
+    }
+
     // Parse DS records
-    const parsedDS: DSRecord[] = dsRecords.map(record => {
-      const parts = record.split(/\s+/);
-      const keyTag = parseInt(parts[0], 10);
-      const algorithm = parseInt(parts[1], 10);
-      const digestType = parseInt(parts[2], 10);
-      const digest = parts.slice(3).join('');
-      
-      return {
-        keyTag,
-        algorithm,
-        algorithmName: DNSSEC_ALGORITHMS[algorithm]?.name || `Unknown (${algorithm})`,
-        strength: DNSSEC_ALGORITHMS[algorithm]?.strength as DSRecord['strength'],
-        digestType,
-        digestTypeName: DS_DIGEST_TYPES[digestType]?.name || `Unknown (${digestType})`,
-        digestStrength: DS_DIGEST_TYPES[digestType]?.strength as DSRecord['digestStrength'],
-        digest,
-      };
-    });
+    const parsedDS: DSRecord[] = dsRecords.map(record => ({
+      keyTag: record.keyTag,
+      algorithm: record.algorithm,
+      algorithmName: DNSSEC_ALGORITHMS[record.algorithm]?.name || `Unknown (${record.algorithm})`,
+      strength: DNSSEC_ALGORITHMS[record.algorithm]?.strength as DSRecord['strength'],
+      digestType: record.digestType,
+      digestTypeName: DS_DIGEST_TYPES[record.digestType]?.name || `Unknown (${record.digestType})`,
+      digestStrength: DS_DIGEST_TYPES[record.digestType]?.strength as DSRecord['digestStrength'],
+      digest: record.digest,
+    }));
 
     // Parse DNSKEY records
     const parsedDNSKEY: DNSKEYRecord[] = dnskeyRecords.map(record => {
-      const parts = record.split(/\s+/);
-      const flags = parseInt(parts[0], 10);
-      const protocol = parseInt(parts[1], 10);
-      const algorithm = parseInt(parts[2], 10);
-      const publicKey = parts.slice(3).join('');
-      
       let keyType: 'KSK' | 'ZSK' | 'unknown' = 'unknown';
-      if (flags === DNSKEY_FLAGS.SEP_KEY) {
+      if (record.flags === DNSKEY_FLAGS.SEP_KEY) {
         keyType = 'KSK';
-      } else if (flags === DNSKEY_FLAGS.ZONE_KEY) {
+      } else if (record.flags === DNSKEY_FLAGS.ZONE_KEY) {
         keyType = 'ZSK';
       }
-      
+
       return {
-        flags,
-        protocol,
-        algorithm,
-        algorithmName: DNSSEC_ALGORITHMS[algorithm]?.name || `Unknown (${algorithm})`,
+        flags: record.flags,
+        protocol: record.protocol,
+        algorithm: record.algorithm,
+        algorithmName: DNSSEC_ALGORITHMS[record.algorithm]?.name || `Unknown (${record.algorithm})`,
         keyType,
-        publicKey,
+        keyTag: computeKeyTag(record),
+        publicKey: record.publicKey,
       };
     });
 
+    // Parse RRSIG records covering DS/DNSKEY
+    const parsedRRSIG: RRSIGRecord[] = [...ds.sigs, ...dnskey.sigs].map(record => ({
+      typeCovered: rrTypeName(record.typeCovered),
+      algorithm: record.algorithm,
+      algorithmName: DNSSEC_ALGORITHMS[record.algorithm]?.name || `Unknown (${record.algorithm})`,
+      keyTag: record.keyTag,
+      signerName: record.signerName,
+      inception: toISO(record.inception),
+      expiration: toISO(record.expiration),
+    }));
+
     const kskCount = parsedDNSKEY.filter(k => k.keyType === 'KSK').length;
     const zskCount = parsedDNSKEY.filter(k => k.keyType === 'ZSK').length;
 
+    // Validate the zone itself: DS digests and the DNSKEY self-signature
+    const zone = validateZone(domain, dsRecords, dnskey, now);
+    const rrsets: RRSetValidation[] = dnskeyRecords.length > 0 ? [zone.dnskey] : [];
+
+    // Signatures over the RRsets mail security depends on
+    const [txtResult, mxResult] = await Promise.all([
+      fetchRecords(domain, RRTYPE.TXT, resolver),
+      fetchRecords(domain, RRTYPE.MX, resolver),
+    ]);
+    for (const [type, result] of [[RRTYPE.TXT, txtResult], [RRTYPE.MX, mxResult]] as const) {
+      const answer = splitAnswers(result.answers, type);
+      if (answer.records.length > 0) {
+        rrsets.push(verifyRRset(rrTypeName(type), answer.records, answer.sigs, dnskeyRecords, now));
+      }
+    }
+
+    // Walk the chain of trust from the parent up to the root
+    const chain: DNSSECChainLink[] = [zone.link];
+    if (dsRecords.length > 0) {
+      chain.push(...await walkChain(domain, ds, resolver, trustAnchors, now));
+    }
+    const chainValid = dsRecords.length > 0
+      && chain.every(link => link.secure)
+      && chain[chain.length - 1].zone === '.';
+
     // Validate configuration
     validateDSRecords(parsedDS, issues);
     validateDNSKEYRecords(parsedDNSKEY, issues);
-    validateChainConsistency(parsedDS, parsedDNSKEY, issues);
-
-    // Check chain validity (simplified - full validation would require RRSIG checks)
-    const chainValid = parsedDS.length > 0 && parsedDNSKEY.length > 0 && kskCount > 0;
+    validateChainConsistency(domain, parsedDS, parsedDNSKEY, chain, issues);
+    validateSignatures(domain, rrsets, now, issues);
 
-    if (!chainValid && parsedDS.length > 0) {
+    if (parsedDS.length > 0 && parsedDNSKEY.length === 0) {
       issues.push({
+        code: 'DNSSEC-CHAIN-INCOMPLETE',
+        check: 'dnssec',
         severity: 'high',
-        message: 'DNSSEC chain may be broken - DS records exist but DNSKEY configuration appears incomplete',
-        recommendation: 'Ensure DNSKEY records are properly published and signed'
+        message: 'DNSSEC chain is broken - DS records exist but no DNSKEY records are published',
+        recommendation: 'Ensure DNSKEY records are properly published and signed',
+        evidence: { name: domain }
       });
     }
 
@@ -159,6 +204,14 @@ export async function checkDNSSEC(domain: string, options: DNSSECOptions = {}):
         kskCount,
         zskCount,
       },
+      rrsig: {
+        found: parsedRRSIG.length > 0,
+        records: parsedRRSIG,
+      },
+      // AD bit: the resolver validated the DNSKEY RRset
+      authenticated: dnskeyResult.authenticated,
+      rrsets,
+      chain,
       chainValid,
       issues,
     };
@@ -166,102 +219,252 @@ export async function checkDNSSEC(domain: string, options: DNSSECOptions = {}):
   } catch (err) {
     const error = err as Error;
     
-    // SERVFAIL often indicates DNSSEC validation failure
+    // SERVFAIL even with checking disabled - nothing to diagnose
     if (error.message?.includes('SERVFAIL')) {
       return {
         enabled: true,
         chainValid: false,
-        issues: [{
-          severity: 'critical',
-          message: 'DNSSEC validation failed (SERVFAIL) - DNS responses are being rejected',
-          recommendation: 'Check DNSSEC configuration and ensure signatures are valid and not expired'
-        }]
+        issues: [servfailIssue(domain)]
       };
     }
 
-    // NXDOMAIN for DS lookup is normal (means no DS at parent)
-    if (error.message?.includes('ENOTFOUND') || error.message?.includes('ENODATA')) {
-      return NO_DNSSEC_RESULT;
-    }
-
     throw err;
   }
 }
 
+function servfailIssue(domain: string): Issue {
+  return {
+    code: 'DNSSEC-SERVFAIL',
+    check: 'dnssec',
+    severity: 'critical',
+    message: 'DNSSEC validation failed (SERVFAIL) - DNS responses are being rejected',
+    recommendation: 'Check DNSSEC configuration and ensure signatures are valid and not expired',
+    evidence: { name: domain }
+  };
+}
+
+function toISO(epochSeconds: number): string {
+  return new Date(epochSeconds * 1000).toISOString();
+}
+
 interface DNSFetchResult {
-  records: string[];
+  answers: DnsRecord[];
+  authenticated: boolean;
+  servfail?: boolean; // Answer only obtained with checking disabled
   error?: string;
 }
 
-async function fetchDSRecords(domain: string, resolver?: string): Promise<DNSFetchResult> {
-  const dnsServer = resolver || undefined; // Use system default if not specified
-  
+/**
+ * Query a record type with the DO bit set.
+ * NXDOMAIN/NODATA yield no answers. On SERVFAIL the query is repeated with
+ * checking disabled so broken signatures can be diagnosed; if that fails
+ * too the SERVFAIL is thrown. Transport errors are returned as `error`.
+ */
+async function fetchRecords(domain: string, rrtype: number, resolver: string): Promise<DNSFetchResult> {
+  let response: DnsMessage;
+  let servfail = false;
   try {
-    // Try dig first (most reliable for DNSSEC records)
-    const result = await fetchWithDig('DS', domain, dnsServer);
-    if (result.records.length > 0 || !result.error) {
-      return result;
+    response = await cachedQueryDns(domain, rrtype, { server: resolver, dnssecOk: true });
+    if (rcodeName(response.rcode) === 'SERVFAIL') {
+      servfail = true;
+      response = await cachedQueryDns(domain, rrtype, { server: resolver, dnssecOk: true, checkingDisabled: true });
     }
-  } catch {
-    // dig not available, continue to fallback
+  } catch (err) {
+    return { answers: [], authenticated: false, error: (err as Error).message };
+  }
+
+  const rcode = rcodeName(response.rcode);
+  if (rcode === 'SERVFAIL') {
+    throw new Error(`SERVFAIL for ${rrTypeName(rrtype)} ${domain}`);
+  }
+  if (rcode !== 'NOERROR' && rcode !== 'NXDOMAIN') {
+    return { answers: [], authenticated: false, error: `${rrTypeName(rrtype)} query returned ${rcode}` };
   }
 
-  // Return empty with info about limitation
   return {
-    records: [],
-    error: 'dig command not available - install bind-utils/dnsutils for full DNSSEC support'
+    answers: response.answers,
+    authenticated: response.flags.ad,
+    ...(servfail ? { servfail } : {}),
   };
 }
 
-async function fetchDNSKEYRecords(domain: string, resolver?: string): Promise<DNSFetchResult> {
-  const dnsServer = resolver || undefined;
-  
-  try {
-    const result = await fetchWithDig('DNSKEY', domain, dnsServer);
-    if (result.records.length > 0 || !result.error) {
-      return result;
-    }
-  } catch {
-    // dig not available
-  }
+interface SignedRRset {
+  records: DnsRecord[];
+  sigs: RRSIGData[];
+}
 
+/**
+ * Split an answer section into the RRset of a type and the RRSIGs covering it
+ */
+function splitAnswers(answers: DnsRecord[], type: number): SignedRRset {
   return {
-    records: [],
-    error: 'dig command not available - install bind-utils/dnsutils for full DNSSEC support'
+    records: answers.filter(r => r.type === type),
+    sigs: recordsOfType(answers, 'RRSIG').filter(sig => sig.typeCovered === type),
   };
 }
 
-async function fetchWithDig(rrtype: string, domain: string, dnsServer?: string): Promise<DNSFetchResult> {
-  const { execFile } = await import('node:child_process');
-  const { promisify } = await import('node:util');
-  const execFileAsync = promisify(execFile);
-  
-  const args = ['+short', rrtype, domain];
-  if (dnsServer) {
-    args.push(`@${dnsServer}`);
+// Lower is better when several RRSIGs cover the same RRset
+const STATUS_RANK: Record<RRSetValidation['status'], number> = {
+  'valid': 0,
+  'expired': 1,
+  'not-yet-valid': 2,
+  'invalid': 3,
+  'no-key': 4,
+  'unsupported': 5,
+  'unsigned': 6,
+};
+
+/**
+ * Verify the RRSIGs over an RRset and report the best outcome.
+ * Among valid signatures the one expiring last is reported.
+ */
+function verifyRRset(type: string, records: DnsRecord[], sigs: RRSIGData[], keys: DNSKEYData[], now: number): RRSetValidation {
+  if (sigs.length === 0) {
+    return { type, status: 'unsigned' };
   }
-  
-  try {
-    const { stdout, stderr } = await execFileAsync('dig', args, { timeout: 10000 });
-    
-    if (stderr && stderr.includes('connection timed out')) {
-      return { records: [], error: 'DNS query timed out' };
+
+  let best: RRSetValidation | undefined;
+  for (const sig of sigs) {
+    let status: RRSetValidation['status'];
+    const candidates = keys.filter(k => k.algorithm === sig.algorithm && computeKeyTag(k) === sig.keyTag);
+
+    if (!isSupportedAlgorithm(sig.algorithm)) {
+      status = 'unsupported';
+    } else if (candidates.length === 0) {
+      status = 'no-key';
+    } else if (!candidates.some(key => verifyRRSIG(sig, records, key))) {
+      status = 'invalid';
+    } else if (now > sig.expiration) {
+      status = 'expired';
+    } else if (now < sig.inception) {
+      status = 'not-yet-valid';
+    } else {
+      status = 'valid';
     }
-    
-    const records = stdout.trim().split('\n').filter(line => line.length > 0 && !line.startsWith(';'));
-    return { records };
-  } catch (err) {
-    const error = err as Error & { code?: string };
-    
-    if (error.code === 'ENOENT') {
-      throw new Error('dig not found');
+
+    const result: RRSetValidation = {
+      type,
+      status,
+      keyTag: sig.keyTag,
+      algorithm: sig.algorithm,
+      inception: toISO(sig.inception),
+      expiration: toISO(sig.expiration),
+    };
+    if (!best
+      || STATUS_RANK[status] < STATUS_RANK[best.status]
+      || (status === best.status && result.expiration! > best.expiration!)) {
+      best = result;
     }
-    if (error.message?.includes('ETIMEDOUT') || error.message?.includes('killed')) {
-      return { records: [], error: 'DNS query timed out' };
+  }
+
+  return best!;
+}
+
+/**
+ * Validate one zone: a DS record (or trust anchor) must match a DNSKEY and
+ * that key must sign the DNSKEY RRset
+ */
+function validateZone(
+  zone: string,
+  dsSet: DSData[],
+  dnskey: SignedRRset,
+  now: number
+): { link: DNSSECChainLink; dnskey: RRSetValidation } {
+  const keys = recordsOfType(dnskey.records, 'DNSKEY');
+  const matched = keys.filter(key => dsSet.some(ds => dsMatchesKey(zone, ds, key)));
+  const validation = verifyRRset('DNSKEY', dnskey.records, dnskey.sigs, matched.length > 0 ? matched : keys, now);
+
+  const dsMatched = matched.length > 0;
+  const dnskeyValid = dsMatched && validation.status === 'valid';
+
+  let error: string | undefined;
+  if (keys.length === 0) {
+    error = 'No DNSKEY records';
+  } else if (dsSet.length === 0) {
+    error = 'No DS records at parent';
+  } else if (!dsMatched) {
+    error = 'No DNSKEY matches the DS records';
+  } else if (!dnskeyValid) {
+    error = `DNSKEY RRset signature is ${validation.status}`;
+  }
+
+  return {
+    link: {
+      zone: zone || '.',
+      dsMatched,
+      dnskeyValid,
+      secure: dsMatched && dnskeyValid,
+      ...(error ? { error } : {}),
+    },
+    dnskey: validation,
+  };
+}
+
+/**
+ * Validate each ancestor zone up to the root. The DS RRset of the child is
+ * signed by its parent, whose name is the RRSIG signer.
+ */
+async function walkChain(
+  child: string,
+  childDs: SignedRRset,
+  resolver: string,
+  trustAnchors: DSData[],
+  now: number
+): Promise<DNSSECChainLink[]> {
+  const links: DNSSECChainLink[] = [];
+  let current = child;
+  let ds = childDs;
+
+  for (let depth = 0; depth < DNSSEC_MAX_CHAIN_DEPTH; depth++) {
+    const zone = ds.sigs[0]?.signerName;
+    if (zone === undefined) {
+      links.push({
+        zone: current.split('.').slice(1).join('.') || '.',
+        dsMatched: false,
+        dnskeyValid: false,
+        secure: false,
+        error: `DS RRset for ${current} is not signed`,
+      });
+      break;
     }
-    
-    return { records: [], error: error.message };
+
+    const isRoot = zone === '';
+    let link: DNSSECChainLink;
+    let parentDs: SignedRRset | undefined;
+    try {
+      const [dnskeyResult, parentDsResult] = await Promise.all([
+        fetchRecords(zone, RRTYPE.DNSKEY, resolver),
+        isRoot ? Promise.resolve(undefined) : fetchRecords(zone, RRTYPE.DS, resolver),
+      ]);
+      const dnskey = splitAnswers(dnskeyResult.answers, RRTYPE.DNSKEY);
+      parentDs = parentDsResult ? splitAnswers(parentDsResult.answers, RRTYPE.DS) : undefined;
+
+      const dsSet = isRoot ? trustAnchors : recordsOfType(parentDs?.records ?? [], 'DS');
+      link = validateZone(zone, dsSet, dnskey, now).link;
+
+      // The zone's keys must also have signed the child's DS RRset
+      const dsSignature = verifyRRset('DS', ds.records, ds.sigs, recordsOfType(dnskey.records, 'DNSKEY'), now);
+      if (dsSignature.status !== 'valid') {
+        link = { ...link, secure: false, error: link.error ?? `DS RRset for ${current} signature is ${dsSignature.status}` };
+      }
+    } catch (err) {
+      link = { zone: zone || '.', dsMatched: false, dnskeyValid: false, secure: false, error: (err as Error).message };
+    }
+
+    links.push(link);
+    if (isRoot || !link.secure || !parentDs) break;
+    current = zone;
+    ds = parentDs;
   }
+
+  return links;
+}
+
+/**
+ * Presentation format of a DS record (keyTag algorithm digestType digest)
+ */
+function formatDS(ds: DSRecord): string {
+  return `${ds.keyTag} ${ds.algorithm} ${ds.digestType} ${ds.digest}`;
 }
 
 function validateDSRecords(records: DSRecord[], issues: Issue[]): void {
@@ -270,15 +473,21 @@ function validateDSRecords(records: DSRecord[], issues: Issue[]): void {
     const algo = DNSSEC_ALGORITHMS[ds.algorithm];
     if (algo?.strength === 'deprecated') {
       issues.push({
+        code: 'DNSSEC-DS-ALGORITHM-DEPRECATED',
+        check: 'dnssec',
         severity: 'critical',
         message: `DS record uses deprecated algorithm: ${ds.algorithmName}`,
-        recommendation: 'Migrate to a stronger algorithm (ECDSAP256SHA256, ED25519, or RSASHA256 minimum)'
+        recommendation: 'Migrate to a stronger algorithm (ECDSAP256SHA256, ED25519, or RSASHA256 minimum)',
+        evidence: { record: formatDS(ds), tag: 'algorithm', value: ds.algorithmName }
       });
     } else if (algo?.strength === 'weak') {
       issues.push({
+        code: 'DNSSEC-DS-ALGORITHM-WEAK',
+        check: 'dnssec',
         severity: 'high',
         message: `DS record uses weak algorithm: ${ds.algorithmName}`,
-        recommendation: 'Consider migrating to ECDSAP256SHA256 or ED25519 for better security'
+        recommendation: 'Consider migrating to ECDSAP256SHA256 or ED25519 for better security',
+        evidence: { record: formatDS(ds), tag: 'algorithm', value: ds.algorithmName }
       });
     }
 
@@ -286,9 +495,12 @@ function validateDSRecords(records: DSRecord[], issues: Issue[]): void {
     const digest = DS_DIGEST_TYPES[ds.digestType];
     if (digest?.strength === 'weak') {
       issues.push({
+        code: 'DNSSEC-DS-DIGEST-WEAK',
+        check: 'dnssec',
         severity: 'medium',
         message: `DS record uses weak digest type: ${ds.digestTypeName}`,
-        recommendation: 'Use SHA-256 (type 2) or SHA-384 (type 4) for DS digest'
+        recommendation: 'Use SHA-256 (type 2) or SHA-384 (type 4) for DS digest',
+        evidence: { record: formatDS(ds), tag: 'digestType', value: ds.digestTypeName }
       });
     }
   }
@@ -300,6 +512,8 @@ function validateDNSKEYRecords(records: DNSKEYRecord[], issues: Issue[]): void {
 
   if (records.length > 0 && kskCount === 0) {
     issues.push({
+      code: 'DNSSEC-NO-KSK',
+      check: 'dnssec',
       severity: 'high',
       message: 'No KSK (Key Signing Key) found in DNSKEY records',
       recommendation: 'Ensure a KSK (flags=257) is published for DNSSEC chain of trust'
@@ -308,6 +522,8 @@ function validateDNSKEYRecords(records: DNSKEYRecord[], issues: Issue[]): void {
 
   if (records.length > 0 && zskCount === 0) {
     issues.push({
+      code: 'DNSSEC-NO-ZSK',
+      check: 'dnssec',
       severity: 'medium',
       message: 'No ZSK (Zone Signing Key) found in DNSKEY records',
       recommendation: 'A ZSK (flags=256) is typically used for signing zone records'
@@ -318,42 +534,150 @@ function validateDNSKEYRecords(records: DNSKEYRecord[], issues: Issue[]): void {
     const algo = DNSSEC_ALGORITHMS[key.algorithm];
     if (algo?.strength === 'deprecated') {
       issues.push({
+        code: 'DNSSEC-DNSKEY-ALGORITHM-DEPRECATED',
+        check: 'dnssec',
         severity: 'critical',
         message: `DNSKEY uses deprecated algorithm: ${key.algorithmName} (${key.keyType})`,
-        recommendation: 'Migrate to a stronger algorithm immediately'
+        recommendation: 'Migrate to a stronger algorithm immediately',
+        evidence: { tag: 'algorithm', value: key.algorithmName }
       });
     } else if (algo?.strength === 'weak') {
       issues.push({
+        code: 'DNSSEC-DNSKEY-ALGORITHM-WEAK',
+        check: 'dnssec',
         severity: 'high',
         message: `DNSKEY uses weak algorithm: ${key.algorithmName} (${key.keyType})`,
-        recommendation: 'Plan migration to ECDSAP256SHA256 or ED25519'
+        recommendation: 'Plan migration to ECDSAP256SHA256 or ED25519',
+        evidence: { tag: 'algorithm', value: key.algorithmName }
       });
     }
   }
 }
 
-function validateChainConsistency(ds: DSRecord[], dnskey: DNSKEYRecord[], issues: Issue[]): void {
+function validateChainConsistency(
+  domain: string,
+  ds: DSRecord[],
+  dnskey: DNSKEYRecord[],
+  chain: DNSSECChainLink[],
+  issues: Issue[]
+): void {
   if (ds.length === 0 && dnskey.length > 0) {
     issues.push({
+      code: 'DNSSEC-DS-MISSING',
+      check: 'dnssec',
       severity: 'high',
       message: 'DNSKEY records exist but no DS record found at parent zone',
       recommendation: 'Publish DS record at your domain registrar to complete DNSSEC chain'
     });
   }
 
-  // Check if DS key tags match any DNSKEY
-  // (Simplified check - full validation would compute key tags from DNSKEY)
-  if (ds.length > 0 && dnskey.length > 0) {
-    const dsAlgorithms = new Set(ds.map(d => d.algorithm));
-    const dnskeyAlgorithms = new Set(dnskey.filter(k => k.keyType === 'KSK').map(k => k.algorithm));
-    
-    for (const dsAlgo of dsAlgorithms) {
-      if (!dnskeyAlgorithms.has(dsAlgo)) {
+  // DS digests must match a published DNSKEY (RFC 4034 §5.1.4)
+  if (ds.length > 0 && dnskey.length > 0 && !chain[0].dsMatched) {
+    issues.push({
+      code: 'DNSSEC-DS-NO-MATCHING-KEY',
+      check: 'dnssec',
+      severity: 'critical',
+      message: `No DNSKEY matches the DS record digest (key tag ${ds.map(d => d.keyTag).join(', ')}) - chain of trust is broken`,
+      recommendation: 'Update the DS record at your registrar to match the current KSK after key rotation',
+      evidence: { name: domain, record: ds.map(formatDS).join('\n') }
+    });
+  }
+
+  // Ancestor zones (parent, TLD, root)
+  for (const link of chain.slice(1)) {
+    if (!link.secure) {
+      issues.push({
+        code: 'DNSSEC-CHAIN-BROKEN',
+        check: 'dnssec',
+        severity: 'high',
+        message: `DNSSEC chain of trust could not be validated at ${link.zone}: ${link.error ?? 'unknown error'}`,
+        recommendation: 'Verify with a validating resolver (e.g. `delv`) - the parent zone delegation may be misconfigured',
+        evidence: { name: link.zone }
+      });
+    }
+  }
+}
+
+function validateSignatures(domain: string, rrsets: RRSetValidation[], now: number, issues: Issue[]): void {
+  for (const rrset of rrsets) {
+    const evidence = { name: domain, tag: 'type', value: rrset.type };
+
+    switch (rrset.status) {
+      case 'unsigned':
+        issues.push({
+          code: 'DNSSEC-RRSIG-MISSING',
+          check: 'dnssec',
+          severity: 'high',
+          message: `${rrset.type} RRset is not signed`,
+          recommendation: 'Re-sign the zone so every RRset has an RRSIG',
+          evidence
+        });
+        break;
+      case 'invalid':
+        issues.push({
+          code: 'DNSSEC-RRSIG-INVALID',
+          check: 'dnssec',
+          severity: 'critical',
+          message: `${rrset.type} RRSIG does not verify (key tag ${rrset.keyTag}) - validating resolvers will reject it`,
+          recommendation: 'Re-sign the zone and check that the signing key matches the published DNSKEY',
+          evidence
+        });
+        break;
+      case 'expired':
+        issues.push({
+          code: 'DNSSEC-RRSIG-EXPIRED',
+          check: 'dnssec',
+          severity: 'critical',
+          message: `${rrset.type} RRSIG expired on ${rrset.expiration}`,
+          recommendation: 'Re-sign the zone immediately and check that automatic re-signing is running',
+          evidence
+        });
+        break;
+      case 'not-yet-valid':
+        issues.push({
+          code: 'DNSSEC-RRSIG-NOT-YET-VALID',
+          check: 'dnssec',
+          severity: 'high',
+          message: `${rrset.type} RRSIG is not valid until ${rrset.inception}`,
+          recommendation: 'Check the signer clock - inception times in the future are rejected',
+          evidence
+        });
+        break;
+      case 'no-key':
+        issues.push({
+          code: 'DNSSEC-RRSIG-NO-KEY',
+          check: 'dnssec',
+          severity: 'high',
+          message: `${rrset.type} RRSIG references key tag ${rrset.keyTag} which is not published`,
+          recommendation: 'Publish the signing DNSKEY or re-sign with a published key',
+          evidence
+        });
+        break;
+      case 'unsupported':
         issues.push({
-          severity: 'medium',
-          message: `DS record algorithm (${DNSSEC_ALGORITHMS[dsAlgo]?.name || dsAlgo}) may not match any KSK`,
-          recommendation: 'Verify DS record matches current KSK after key rotation'
+          code: 'DNSSEC-ALGORITHM-UNSUPPORTED',
+          check: 'dnssec',
+          severity: 'info',
+          message: `${rrset.type} RRSIG uses algorithm ${rrset.algorithm}, which cannot be verified`,
+          evidence
         });
+        break;
+      case 'valid': {
+        const expiresIn = (Date.parse(rrset.expiration!) / 1000 - now) / 86400;
+        // Online signers re-sign short-lived signatures (a few days) continuously,
+        // so the warning scales with each signature's validity period
+        const validFor = (Date.parse(rrset.expiration!) - Date.parse(rrset.inception!)) / 1000 / 86400;
+        if (expiresIn <= Math.min(DNSSEC_SIGNATURE_EXPIRY_WARN_DAYS, validFor * DNSSEC_SIGNATURE_EXPIRY_WARN_FRACTION)) {
+          issues.push({
+            code: 'DNSSEC-RRSIG-EXPIRING',
+            check: 'dnssec',
+            severity: 'medium',
+            message: `${rrset.type} RRSIG expires in ${Math.max(0, Math.floor(expiresIn))} day(s) (${rrset.expiration})`,
+            recommendation: 'Check that automatic re-signing is running before the signatures expire',
+            evidence
+          });
+        }
+        break;
       }
     }
   }
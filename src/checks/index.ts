@@ -7,4 +7,6 @@ export { checkMTASTS } from './mta-sts.js';
 export { checkTLSRPT } from './tls-rpt.js';
 export { checkARCReadiness } from './arc.js';
 export { checkDNSSEC } from './dnssec.js';
+export { checkDANE } from './dane.js';
+export { checkCAA } from './caa.js';
 export { checkWhois } from './whois.js';
@@ -22,6 +22,8 @@ interface MTASTSPolicy {
 const NO_MTA_STS_RESULT: MTASTSResult = {
   found: false,
   issues: [{
+    code: 'MTA-STS-MISSING',
+    check: 'mta-sts',
     severity: 'medium',
     message: 'No MTA-STS DNS record found',
     recommendation: 'Add MTA-STS to enforce TLS for incoming email'
@@ -47,27 +49,37 @@ export async function checkMTASTS(domain: string, options: MTASTSOptions = {}):
   const dnsRecord = stsRecords[0];
   const version = extractTag(dnsRecord, 'v');
   const id = extractTag(dnsRecord, 'id');
+  const evidence = { name: stsDomain, record: dnsRecord };
 
   // Validate version tag (must be STSv1)
   if (!version) {
     issues.push({
+      code: 'MTA-STS-NO-VERSION',
+      check: 'mta-sts',
       severity: 'high',
       message: 'MTA-STS record missing version tag (v=)',
-      recommendation: 'Add v=STSv1 at the start of the MTA-STS record'
+      recommendation: 'Add v=STSv1 at the start of the MTA-STS record',
+      evidence: { ...evidence, tag: 'v' }
     });
   } else if (version.toLowerCase() !== 'stsv1') {
     issues.push({
+      code: 'MTA-STS-INVALID-VERSION',
+      check: 'mta-sts',
       severity: 'medium',
       message: `Unexpected MTA-STS version: "${version}" (expected STSv1)`,
-      recommendation: 'Use v=STSv1 for the version tag'
+      recommendation: 'Use v=STSv1 for the version tag',
+      evidence: { ...evidence, tag: 'v', value: version }
     });
   }
 
   if (!id) {
     issues.push({
+      code: 'MTA-STS-NO-ID',
+      check: 'mta-sts',
       severity: 'high',
       message: 'MTA-STS record missing id tag',
-      recommendation: 'Add id= tag to enable policy updates'
+      recommendation: 'Add id= tag to enable policy updates',
+      evidence: { ...evidence, tag: 'id' }
     });
   }
 
@@ -105,27 +117,39 @@ interface PolicyFetchResult {
 function addPolicyFetchError(result: PolicyFetchResult, domain: string, timeout: number, issues: Issue[]): void {
   if (result.status === 404) {
     issues.push({
+      code: 'MTA-STS-POLICY-NOT-FOUND',
+      check: 'mta-sts',
       severity: 'high',
       message: 'MTA-STS policy file not found (404)',
-      recommendation: `Create policy file at https://mta-sts.${domain}/.well-known/mta-sts.txt`
+      recommendation: `Create policy file at https://mta-sts.${domain}/.well-known/mta-sts.txt`,
+      evidence: { name: `mta-sts.${domain}`, value: result.error }
     });
   } else if (result.reason === 'timeout') {
     issues.push({
+      code: 'MTA-STS-POLICY-TIMEOUT',
+      check: 'mta-sts',
       severity: 'high',
       message: 'MTA-STS policy fetch timed out',
-      recommendation: `Ensure the policy endpoint responds within ${timeout / 1000} seconds`
+      recommendation: `Ensure the policy endpoint responds within ${timeout / 1000} seconds`,
+      evidence: { name: `mta-sts.${domain}`, value: result.error }
     });
   } else if (result.reason === 'network') {
     issues.push({
+      code: 'MTA-STS-POLICY-UNREACHABLE',
+      check: 'mta-sts',
       severity: 'high',
       message: `Could not connect to MTA-STS policy endpoint: ${result.error || 'network error'}`,
-      recommendation: `Ensure https://mta-sts.${domain} is accessible and has valid TLS`
+      recommendation: `Ensure https://mta-sts.${domain} is accessible and has valid TLS`,
+      evidence: { name: `mta-sts.${domain}`, value: result.error }
     });
   } else {
     issues.push({
+      code: 'MTA-STS-POLICY-FETCH-FAILED',
+      check: 'mta-sts',
       severity: 'high',
       message: `MTA-STS policy fetch failed: ${result.error || 'unknown error'}`,
-      recommendation: `Ensure https://mta-sts.${domain}/.well-known/mta-sts.txt is accessible`
+      recommendation: `Ensure https://mta-sts.${domain}/.well-known/mta-sts.txt is accessible`,
+      evidence: { name: `mta-sts.${domain}`, value: result.error }
     });
   }
 }
@@ -134,15 +158,21 @@ function validatePolicy(policy: ParsedPolicy, issues: Issue[]): void {
   // Check required version tag (RFC 8461)
   if (!policy.version) {
     issues.push({
+      code: 'MTA-STS-POLICY-NO-VERSION',
+      check: 'mta-sts',
       severity: 'high',
       message: 'MTA-STS policy missing required version field',
-      recommendation: 'Add "version: STSv1" to the policy file'
+      recommendation: 'Add "version: STSv1" to the policy file',
+      evidence: { tag: 'version' }
     });
   } else if (policy.version.toUpperCase() !== 'STSV1') {
     issues.push({
+      code: 'MTA-STS-POLICY-INVALID-VERSION',
+      check: 'mta-sts',
       severity: 'medium',
       message: `Unexpected MTA-STS version: "${policy.version}" (expected STSv1)`,
-      recommendation: 'Use "version: STSv1" for the version field'
+      recommendation: 'Use "version: STSv1" for the version field',
+      evidence: { tag: 'version', value: policy.version }
     });
   }
 
@@ -151,52 +181,73 @@ function validatePolicy(policy: ParsedPolicy, issues: Issue[]): void {
     // Distinguish between missing mode and invalid mode value
     if (policy.rawMode) {
       issues.push({
+        code: 'MTA-STS-POLICY-INVALID-MODE',
+        check: 'mta-sts',
         severity: 'high',
         message: `Invalid MTA-STS mode value: "${policy.rawMode}" (expected enforce, testing, or none)`,
-        recommendation: 'Use a valid mode: "enforce", "testing", or "none"'
+        recommendation: 'Use a valid mode: "enforce", "testing", or "none"',
+        evidence: { tag: 'mode', value: policy.rawMode }
       });
     } else {
       issues.push({
+        code: 'MTA-STS-POLICY-NO-MODE',
+        check: 'mta-sts',
         severity: 'high',
         message: 'MTA-STS policy missing required mode field',
-        recommendation: 'Add "mode: enforce" or "mode: testing" to the policy file'
+        recommendation: 'Add "mode: enforce" or "mode: testing" to the policy file',
+        evidence: { tag: 'mode' }
       });
     }
   } else if (policy.mode === 'none') {
     issues.push({
+      code: 'MTA-STS-MODE-NONE',
+      check: 'mta-sts',
       severity: 'high',
       message: 'MTA-STS policy mode is "none" - no protection',
-      recommendation: 'Change mode to "testing" or "enforce"'
+      recommendation: 'Change mode to "testing" or "enforce"',
+      evidence: { tag: 'mode', value: policy.mode }
     });
   } else if (policy.mode === 'testing') {
     issues.push({
+      code: 'MTA-STS-MODE-TESTING',
+      check: 'mta-sts',
       severity: 'low',
       message: 'MTA-STS policy in testing mode',
-      recommendation: 'Consider switching to "enforce" mode after validation'
+      recommendation: 'Consider switching to "enforce" mode after validation',
+      evidence: { tag: 'mode', value: policy.mode }
     });
   }
 
   // Check required max_age tag
   if (policy.maxAge === undefined) {
     issues.push({
+      code: 'MTA-STS-POLICY-NO-MAX-AGE',
+      check: 'mta-sts',
       severity: 'high',
       message: 'MTA-STS policy missing required max_age field',
-      recommendation: 'Add "max_age: 604800" (1 week) or similar to the policy file'
+      recommendation: 'Add "max_age: 604800" (1 week) or similar to the policy file',
+      evidence: { tag: 'max_age' }
     });
   } else if (policy.maxAge < 86400) {
     issues.push({
+      code: 'MTA-STS-MAX-AGE-SHORT',
+      check: 'mta-sts',
       severity: 'medium',
       message: `MTA-STS max_age is very short (${policy.maxAge}s)`,
-      recommendation: 'Consider increasing max_age to at least 1 week (604800)'
+      recommendation: 'Consider increasing max_age to at least 1 week (604800)',
+      evidence: { tag: 'max_age', value: `${policy.maxAge}` }
     });
   }
 
   // Check MX hosts
   if (!policy.mx || policy.mx.length === 0) {
     issues.push({
+      code: 'MTA-STS-POLICY-NO-MX',
+      check: 'mta-sts',
       severity: 'high',
       message: 'MTA-STS policy has no MX hosts defined',
-      recommendation: 'Add mx: lines matching your MX records'
+      recommendation: 'Add mx: lines matching your MX records',
+      evidence: { tag: 'mx' }
     });
   }
 }
@@ -10,6 +10,8 @@ const NO_MX_RESULT: MXResult = {
   found: false,
   records: [],
   issues: [{
+    code: 'MX-MISSING',
+    check: 'mx',
     severity: 'info',
     message: 'No MX records found',
     recommendation: 'Add MX records if this domain should receive email'
@@ -40,6 +42,8 @@ export async function checkMX(domain: string): Promise<MXResult> {
     // Null MX means the domain intentionally does not accept mail
     // Skip other validations (redundancy, priority, provider) as they don't apply
     issues.push({
+      code: 'MX-NULL',
+      check: 'mx',
       severity: 'info',
       message: 'Null MX record (RFC 7505) - domain does not accept email',
       recommendation: 'This is an intentional configuration to reject email'
@@ -67,9 +71,12 @@ export async function checkMX(domain: string): Promise<MXResult> {
 function checkRedundancy(records: MXRecord[], issues: Issue[]): void {
   if (records.length === 1) {
     issues.push({
+      code: 'MX-SINGLE-HOST',
+      check: 'mx',
       severity: 'low',
       message: 'Only one MX record - no redundancy',
-      recommendation: 'Consider adding backup MX servers'
+      recommendation: 'Consider adding backup MX servers',
+      evidence: { value: records[0].exchange }
     });
   }
 }
@@ -82,9 +89,12 @@ function checkPriorityDistribution(records: MXRecord[], issues: Issue[]): void {
   
   if (allSamePriority) {
     issues.push({
+      code: 'MX-SAME-PRIORITY',
+      check: 'mx',
       severity: 'info',
       message: 'All MX records have same priority - round-robin delivery',
-      recommendation: 'Consider different priorities for primary/backup servers'
+      recommendation: 'Consider different priorities for primary/backup servers',
+      evidence: { value: `${priorities[0]}` }
     });
   }
 }
@@ -93,8 +103,11 @@ function checkEmailProvider(records: MXRecord[], issues: Issue[]): void {
   const provider = identifyEmailProvider(records);
   if (provider) {
     issues.push({
+      code: 'MX-PROVIDER-DETECTED',
+      check: 'mx',
       severity: 'info',
-      message: `Email provider detected: ${provider}`
+      message: `Email provider detected: ${provider}`,
+      evidence: { value: provider }
     });
   }
 }
@@ -1,18 +1,37 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { cachedResolveTxt } from '../utils/dns.js';
-import { checkSPF } from './spf.js';
+import { cachedResolveTxt, cachedResolveTxtStrings, cachedResolveMx, cachedResolveA, cachedResolveAaaa } from '../utils/dns.js';
+import { checkSPF, expandSPF, parseSPFTerms, validateSPFRecord } from './spf.js';
 
 vi.mock('../utils/dns.js', async () => {
   const actual = await vi.importActual<typeof import('../utils/dns.js')>('../utils/dns.js');
   return {
     ...actual,
-    cachedResolveTxt: vi.fn()
+    cachedResolveTxt: vi.fn(),
+    cachedResolveTxtStrings: vi.fn(),
+    cachedResolveMx: vi.fn(),
+    cachedResolveA: vi.fn(),
+    cachedResolveAaaa: vi.fn()
   };
 });
 
+/**
+ * Serve TXT/MX/A/AAAA answers from a zone map
+ */
+function mockZone(zone: Record<string, { txt?: string[]; mx?: string[]; a?: string[]; aaaa?: string[] }>): void {
+  vi.mocked(cachedResolveTxt).mockImplementation(async name => zone[name]?.txt ?? []);
+  vi.mocked(cachedResolveTxtStrings).mockImplementation(async name => (zone[name]?.txt ?? []).map(r => [r]));
+  vi.mocked(cachedResolveMx).mockImplementation(async name =>
+    (zone[name]?.mx ?? []).map((exchange, i) => ({ exchange, priority: (i + 1) * 10 })));
+  vi.mocked(cachedResolveA).mockImplementation(async name => zone[name]?.a ?? []);
+  vi.mocked(cachedResolveAaaa).mockImplementation(async name => zone[name]?.aaaa ?? []);
+}
+
 describe('checkSPF', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    vi.mocked(cachedResolveMx).mockResolvedValue([]);
+    vi.mocked(cachedResolveA).mockResolvedValue([]);
+    vi.mocked(cachedResolveAaaa).mockResolvedValue([]);
   });
 
   it('detects valid SPF with -all', async () => {
@@ -52,6 +71,18 @@ describe('checkSPF', () => {
     expect(result.issues.some(i => i.severity === 'critical')).toBe(true);
   });
 
+  it('tags issues with stable codes and evidence', async () => {
+    vi.mocked(cachedResolveTxt).mockResolvedValue([
+      'v=spf1 +all'
+    ]);
+
+    const result = await checkSPF('example.com');
+    const issue = result.issues.find(i => i.code === 'SPF-PLUS-ALL');
+
+    expect(issue?.check).toBe('spf');
+    expect(issue?.evidence).toMatchObject({ name: 'example.com', record: 'v=spf1 +all' });
+  });
+
   it('reports no SPF found', async () => {
     vi.mocked(cachedResolveTxt).mockResolvedValue([
       'google-site-verification=xxx'
@@ -108,3 +139,221 @@ describe('checkSPF', () => {
     expect(result.found).toBe(false);
   });
 });
+
+describe('expandSPF', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('builds the lookup tree with per-node cost and depth', async () => {
+    mockZone({
+      '_spf.google.com': { txt: ['v=spf1 include:_netblocks.google.com include:_netblocks2.google.com ~all'] },
+      '_netblocks.google.com': { txt: ['v=spf1 ip4:35.190.247.0/24 ip4:64.233.160.0/19 ~all'] },
+      '_netblocks2.google.com': { txt: ['v=spf1 ip6:2001:4860:4000::/36 ~all'] },
+      'mail.example.com': { a: ['192.0.2.10'] },
+    });
+
+    const expansion = await expandSPF('example.com', 'v=spf1 include:_spf.google.com a:mail.example.com -all');
+
+    expect(expansion.lookupCount).toBe(4);
+    expect(expansion.nodes.map(n => [n.term, n.depth, n.lookups])).toEqual([
+      ['include:_spf.google.com', 0, 3],
+      ['a:mail.example.com', 0, 1],
+    ]);
+    expect(expansion.nodes[0].children.map(n => [n.target, n.depth, n.lookups])).toEqual([
+      ['_netblocks.google.com', 1, 1],
+      ['_netblocks2.google.com', 1, 1],
+    ]);
+    expect(expansion.nodes[0].children[0].ip4).toEqual(['35.190.247.0/24', '64.233.160.0/19']);
+  });
+
+  it('collects the union of authorized addresses', async () => {
+    mockZone({
+      'example.com': { mx: ['mx1.example.com', 'mx2.example.com'], a: ['192.0.2.1'] },
+      'mx1.example.com': { a: ['192.0.2.25'], aaaa: ['2001:db8::25'] },
+      'mx2.example.com': { a: ['192.0.2.26'] },
+      'vendor.example': { txt: ['v=spf1 ip4:198.51.100.0/24 ip4:192.0.2.1 -all'] },
+    });
+
+    const expansion = await expandSPF('example.com', 'v=spf1 a/24 mx include:vendor.example ip6:2001:db8:1::/48 -ip4:203.0.113.0/24 -all');
+
+    expect(expansion.ip4).toEqual(['192.0.2.1/24', '192.0.2.25', '192.0.2.26', '198.51.100.0/24', '192.0.2.1']);
+    expect(expansion.ip6).toEqual(['2001:db8:1::/48', '2001:db8::25']);
+  });
+
+  it('does not authorize addresses of non-pass terms', async () => {
+    mockZone({ 'blocked.example': { txt: ['v=spf1 ip4:203.0.113.0/24 -all'] } });
+
+    const expansion = await expandSPF('example.com', 'v=spf1 -include:blocked.example ip4:192.0.2.0/24 -all');
+
+    expect(expansion.ip4).toEqual(['192.0.2.0/24']);
+  });
+
+  it('counts void lookups', async () => {
+    mockZone({});
+
+    const expansion = await expandSPF('example.com', 'v=spf1 include:gone.example a:nohost.example mx:nomail.example -all');
+
+    expect(expansion.voidLookupCount).toBe(3);
+    expect(expansion.failedIncludes).toEqual(['gone.example']);
+    expect(expansion.nodes[0].error).toBe('no SPF record');
+  });
+
+  it('follows redirect after the mechanisms', async () => {
+    mockZone({ '_spf.example.net': { txt: ['v=spf1 ip4:192.0.2.0/24 -all'] } });
+
+    const expansion = await expandSPF('example.com', 'v=spf1 redirect=_spf.example.net mx');
+
+    expect(expansion.nodes.map(n => n.type)).toEqual(['mx', 'redirect']);
+    expect(expansion.ip4).toEqual(['192.0.2.0/24']);
+  });
+
+  it('does not resolve macro targets', async () => {
+    mockZone({});
+
+    const expansion = await expandSPF('example.com', 'v=spf1 exists:%{i}._spf.example.com -all');
+
+    expect(expansion.lookupCount).toBe(1);
+    expect(expansion.nodes[0].error).toContain('macros');
+    expect(expansion.failedIncludes).toEqual([]);
+  });
+});
+
+describe('checkSPF tree', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('exposes the tree and address inventory', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 include:vendor.example -all'] },
+      'vendor.example': { txt: ['v=spf1 ip4:198.51.100.0/24 -all'] },
+    });
+
+    const result = await checkSPF('example.com');
+
+    expect(result.tree?.[0]).toMatchObject({ type: 'include', target: 'vendor.example', lookups: 1 });
+    expect(result.ip4).toEqual(['198.51.100.0/24']);
+    expect(result.voidLookupCount).toBe(0);
+  });
+
+  it('flags more than two void lookups', async () => {
+    mockZone({ 'example.com': { txt: ['v=spf1 a:x.example a:y.example a:z.example -all'] } });
+
+    const result = await checkSPF('example.com');
+
+    expect(result.issues.find(i => i.code === 'SPF-VOID-LOOKUP-LIMIT-EXCEEDED')).toMatchObject({ severity: 'high', evidence: { value: '3' } });
+  });
+
+  it('names the terms behind void lookups', async () => {
+    mockZone({ 'example.com': { txt: ['v=spf1 a:x.example mx:y.example include:z.example -all'] } });
+
+    const result = await checkSPF('example.com');
+
+    expect(result.issues.find(i => i.code === 'SPF-VOID-LOOKUP-LIMIT-EXCEEDED')?.message)
+      .toContain('a:x.example, mx:y.example, include:z.example');
+  });
+
+  it('reports syntax errors with the offending term', async () => {
+    mockZone({ 'example.com': { txt: ['v=spf1 ip4:192.0.2.0/33 ipv4:192.0.2.1 -all'] } });
+
+    const result = await checkSPF('example.com');
+
+    expect(result.issues.find(i => i.code === 'SPF-INVALID-CIDR')).toMatchObject({
+      severity: 'high',
+      evidence: { tag: 'ip4', value: 'ip4:192.0.2.0/33' },
+    });
+    expect(result.issues.find(i => i.code === 'SPF-UNKNOWN-MECHANISM')?.evidence?.value).toBe('ipv4:192.0.2.1');
+  });
+
+  it('detects terms split across TXT strings', async () => {
+    const first = `v=spf1 ${Array.from({ length: 20 }, (_, i) => `ip4:192.0.2.${i}`).join(' ')} include:_spf.vend`;
+    const record = `${first}or.example -all`;
+    mockZone({ 'example.com': { txt: [record] }, 'vendor.example': { txt: ['v=spf1 -all'] } });
+    vi.mocked(cachedResolveTxtStrings).mockResolvedValue([[first, 'or.example -all']]);
+
+    const result = await checkSPF('example.com');
+
+    expect(result.issues.some(i => i.code === 'SPF-STRING-SPLIT')).toBe(false);
+
+    const split = `v=spf1 ${Array.from({ length: 20 }, (_, i) => `ip4:192.0.2.${i}`).join(' ')} ip4:198.51.100.1`;
+    mockZone({ 'example.com': { txt: [`${split}include:vendor.example -all`] }, 'vendor.example': { txt: ['v=spf1 -all'] } });
+    vi.mocked(cachedResolveTxtStrings).mockResolvedValue([[split, 'include:vendor.example -all']]);
+
+    const splitResult = await checkSPF('example.com');
+
+    expect(splitResult.issues.find(i => i.code === 'SPF-STRING-SPLIT')?.evidence?.value).toBe('ip4:198.51.100.1include:vendor.example');
+  });
+
+  it('flags records too long for a UDP answer', async () => {
+    const record = `v=spf1 ${Array.from({ length: 30 }, (_, i) => `ip4:198.51.100.${i}`).join(' ')} -all`;
+    mockZone({ 'example.com': { txt: [record] } });
+
+    const result = await checkSPF('example.com');
+
+    expect(result.issues.find(i => i.code === 'SPF-RECORD-TOO-LONG')?.evidence?.value).toBe(String(record.length));
+  });
+});
+
+describe('validateSPFRecord', () => {
+  const codes = (record: string) => validateSPFRecord(record).map(e => [e.code, e.term]);
+
+  it('accepts a valid record', () => {
+    expect(validateSPFRecord('v=spf1 a mx/24 ip4:192.0.2.0/24 ip6:2001:db8::/32 include:_spf.%{d} exists:%{ir}.%{l1r-}.e.example exp=explain.%{d} -all')).toEqual([]);
+  });
+
+  it('reports unknown mechanisms and modifiers', () => {
+    expect(codes('v=spf1 ipv4:192.0.2.1 foo=bar -all')).toEqual([
+      ['SPF-UNKNOWN-MECHANISM', 'ipv4:192.0.2.1'],
+      ['SPF-UNKNOWN-MODIFIER', 'foo=bar'],
+    ]);
+    expect(validateSPFRecord('v=spf1 foo=bar -all')[0].permerror).toBe(false);
+  });
+
+  it('reports duplicate redirect and exp modifiers', () => {
+    expect(codes('v=spf1 redirect=a.example redirect=b.example exp=c.example exp=d.example')).toEqual([
+      ['SPF-DUPLICATE-MODIFIER', 'redirect=b.example'],
+      ['SPF-DUPLICATE-MODIFIER', 'exp=d.example'],
+    ]);
+  });
+
+  it('reports invalid prefix lengths and addresses', () => {
+    expect(codes('v=spf1 a/33 mx//129 ip6:2001:db8::/129 ip4:192.0.2.300 -all')).toEqual([
+      ['SPF-INVALID-CIDR', 'a/33'],
+      ['SPF-INVALID-CIDR', 'mx//129'],
+      ['SPF-INVALID-CIDR', 'ip6:2001:db8::/129'],
+      ['SPF-INVALID-IP', 'ip4:192.0.2.300'],
+    ]);
+  });
+
+  it('reports redirect combined with all', () => {
+    expect(validateSPFRecord('v=spf1 mx redirect=_spf.example.com ~all')).toEqual([{
+      code: 'SPF-REDIRECT-WITH-ALL',
+      term: 'redirect=_spf.example.com',
+      message: '"redirect=_spf.example.com" is ignored because the record has an all mechanism',
+      permerror: false,
+    }]);
+  });
+
+  it('reports malformed terms and macros', () => {
+    expect(codes('v=spf1 all:x include -redirect=x.example ptr/24 exists:%{x}.example a:%{t}.example -all')).toEqual([
+      ['SPF-INVALID-TERM', 'all:x'],
+      ['SPF-INVALID-TERM', 'include'],
+      ['SPF-INVALID-TERM', '-redirect=x.example'],
+      ['SPF-INVALID-TERM', 'ptr/24'],
+      ['SPF-INVALID-MACRO', 'exists:%{x}.example'],
+      ['SPF-INVALID-MACRO', 'a:%{t}.example'],
+    ]);
+  });
+});
+
+describe('parseSPFTerms', () => {
+  it('parses qualifiers, values and prefix lengths', () => {
+    expect(parseSPFTerms('v=spf1 -a:mail.example.com/24//64 mx/28 ~include:x.example redirect=y.example')).toEqual([
+      { qualifier: '-', name: 'a', value: 'mail.example.com', cidr4: 24, cidr6: 64, modifier: false, raw: '-a:mail.example.com/24//64' },
+      { qualifier: '+', name: 'mx', cidr4: 28, modifier: false, raw: 'mx/28' },
+      { qualifier: '~', name: 'include', value: 'x.example', modifier: false, raw: '~include:x.example' },
+      { qualifier: '+', name: 'redirect', value: 'y.example', modifier: true, raw: 'redirect=y.example' },
+    ]);
+  });
+});
@@ -4,9 +4,29 @@
  */
 
 import crypto from 'node:crypto';
-import type { SPFResult, Issue } from '../types.js';
-import { cachedResolveTxt } from '../utils/dns.js';
-import { SPF_MAX_DNS_LOOKUPS, SPF_MAX_RECURSION_DEPTH } from '../constants.js';
+import net from 'node:net';
+import type { SPFResult, SPFNode, SPFNodeType, Issue, Severity } from '../types.js';
+import { cachedResolveTxt, cachedResolveTxtStrings, cachedResolveMx, cachedResolveA, cachedResolveAaaa } from '../utils/dns.js';
+import {
+  SPF_MAX_DNS_LOOKUPS,
+  SPF_MAX_RECURSION_DEPTH,
+  SPF_MAX_VOID_LOOKUPS,
+  SPF_MAX_MX_HOSTS,
+  SPF_MAX_TXT_STRING,
+  SPF_MAX_RECORD_LENGTH,
+} from '../constants.js';
+
+const SYNTAX_ISSUES: Record<SPFSyntaxCode, { severity: Severity; recommendation: string }> = {
+  'SPF-INVALID-TERM': { severity: 'high', recommendation: 'Fix the term syntax - receivers reject the whole record (permerror)' },
+  'SPF-UNKNOWN-MECHANISM': { severity: 'high', recommendation: 'Remove or correct the mechanism - receivers reject the whole record (permerror)' },
+  'SPF-UNKNOWN-MODIFIER': { severity: 'low', recommendation: 'Remove the modifier or check it for typos (only redirect= and exp= are defined)' },
+  'SPF-DUPLICATE-MODIFIER': { severity: 'high', recommendation: 'Keep a single redirect= and exp= modifier - duplicates are a permerror' },
+  'SPF-INVALID-CIDR': { severity: 'high', recommendation: 'Use a prefix length of 0-32 for IPv4 and 0-128 for IPv6' },
+  'SPF-INVALID-IP': { severity: 'high', recommendation: 'Correct the address - receivers reject the whole record (permerror)' },
+  'SPF-INVALID-MACRO': { severity: 'high', recommendation: 'Fix the macro (RFC 7208 Section 7) or escape a literal % as %%' },
+  'SPF-REDIRECT-WITH-ALL': { severity: 'medium', recommendation: 'Remove either the all mechanism or the redirect= modifier' },
+  'SPF-STRING-SPLIT': { severity: 'high', recommendation: 'Split long records between terms and end each string with a space' },
+};
 
 export async function checkSPF(domain: string): Promise<SPFResult> {
   const issues: Issue[] = [];
@@ -19,112 +39,189 @@ export async function checkSPF(domain: string): Promise<SPFResult> {
     return {
       found: false,
       issues: [{
+        code: 'SPF-MISSING',
+        check: 'spf',
         severity: 'critical',
         message: 'No SPF record found',
-        recommendation: 'Add an SPF record to prevent email spoofing'
+        recommendation: 'Add an SPF record to prevent email spoofing',
+        evidence: { name: domain }
       }]
     };
   }
 
   if (spfRecords.length > 1) {
     issues.push({
+      code: 'SPF-MULTIPLE-RECORDS',
+      check: 'spf',
       severity: 'high',
       message: `Multiple SPF records found (${spfRecords.length})`,
-      recommendation: 'Only one SPF record should exist per domain'
+      recommendation: 'Only one SPF record should exist per domain',
+      evidence: { name: domain, record: spfRecords.join('\n'), value: `${spfRecords.length}` }
     });
   }
 
   const record = spfRecords[0];
+  const evidence = { name: domain, record };
   const mechanism = extractMechanism(record);
   const includes = extractIncludes(record);
+
+  // Long records are published as several character-strings joined without spaces
+  const strings = record.length > SPF_MAX_TXT_STRING
+    ? (await cachedResolveTxtStrings(domain)).find(r => r.join('') === record)
+    : undefined;
+  for (const error of validateSPFRecord(record, strings)) {
+    issues.push({
+      code: error.code,
+      check: 'spf',
+      severity: SYNTAX_ISSUES[error.code].severity,
+      message: error.message,
+      recommendation: SYNTAX_ISSUES[error.code].recommendation,
+      evidence: { ...evidence, tag: parseSPFTerm(error.term)?.name, value: error.term }
+    });
+  }
+
+  if (record.length > SPF_MAX_RECORD_LENGTH) {
+    issues.push({
+      code: 'SPF-RECORD-TOO-LONG',
+      check: 'spf',
+      severity: 'medium',
+      message: `SPF record is ${record.length} bytes (recommended maximum ${SPF_MAX_RECORD_LENGTH})`,
+      recommendation: 'Shorten the record so DNS answers fit in 512 bytes - see dnsvet spf flatten',
+      evidence: { ...evidence, value: `${record.length}` }
+    });
+  }
   
-  // RFC 7208 compliant recursive DNS lookup counting
-  const lookupResult = await countDNSLookupsRecursive(domain, record, new Set(), 0);
-  const lookupCount = lookupResult.count;
+  // RFC 7208 compliant recursive evaluation of every lookup-costing term
+  const lookupResult = await expandSPF(domain, record);
+  const lookupCount = lookupResult.lookupCount;
+  const voidLookupCount = lookupResult.voidLookupCount;
   
   if (lookupResult.loopDetected) {
     issues.push({
+      code: 'SPF-CIRCULAR-REFERENCE',
+      check: 'spf',
       severity: 'high',
       message: 'SPF record contains circular reference',
-      recommendation: 'Remove circular include/redirect references'
+      recommendation: 'Remove circular include/redirect references',
+      evidence
     });
   }
   if (lookupResult.depthLimitReached) {
     issues.push({
+      code: 'SPF-RECURSION-DEPTH-EXCEEDED',
+      check: 'spf',
       severity: 'high',
       message: 'SPF record analysis exceeded recursion depth limit',
-      recommendation: 'Simplify include/redirect chains to avoid excessive nesting'
+      recommendation: 'Simplify include/redirect chains to avoid excessive nesting',
+      evidence
     });
   }
 
-  const failedIncludes = Array.from(new Set(lookupResult.failedIncludes));
-  for (const failedInclude of failedIncludes) {
+  for (const failedInclude of lookupResult.failedIncludes) {
     issues.push({
+      code: 'SPF-INCLUDE-NOT-FOUND',
+      check: 'spf',
       severity: 'high',
       message: `SPF include target not found: ${failedInclude}`,
-      recommendation: 'Ensure the include domain publishes a valid SPF record'
+      recommendation: 'Ensure the include domain publishes a valid SPF record',
+      evidence: { ...evidence, tag: 'include', value: failedInclude }
     });
   }
 
-  const failedRedirects = Array.from(new Set(lookupResult.failedRedirects));
-  for (const failedRedirect of failedRedirects) {
+  for (const failedRedirect of lookupResult.failedRedirects) {
     issues.push({
+      code: 'SPF-REDIRECT-NOT-FOUND',
+      check: 'spf',
       severity: 'high',
       message: `SPF redirect target not found: ${failedRedirect}`,
-      recommendation: 'Ensure the redirect domain publishes a valid SPF record'
+      recommendation: 'Ensure the redirect domain publishes a valid SPF record',
+      evidence: { ...evidence, tag: 'redirect', value: failedRedirect }
     });
   }
 
   // Check mechanism strength
   if (mechanism === '+all') {
     issues.push({
+      code: 'SPF-PLUS-ALL',
+      check: 'spf',
       severity: 'critical',
       message: 'SPF uses +all (pass all) - effectively no protection',
-      recommendation: 'Change to -all (hardfail) for maximum protection'
+      recommendation: 'Change to -all (hardfail) for maximum protection',
+      evidence: { ...evidence, tag: 'all', value: mechanism }
     });
   } else if (mechanism === '?all') {
     issues.push({
+      code: 'SPF-NEUTRAL-ALL',
+      check: 'spf',
       severity: 'high',
       message: 'SPF uses ?all (neutral) - weak protection',
-      recommendation: 'Change to -all (hardfail) for maximum protection'
+      recommendation: 'Change to -all (hardfail) for maximum protection',
+      evidence: { ...evidence, tag: 'all', value: mechanism }
     });
   } else if (mechanism === '~all') {
     issues.push({
+      code: 'SPF-SOFTFAIL-ALL',
+      check: 'spf',
       severity: 'medium',
       message: 'SPF uses ~all (softfail) - consider using hardfail',
-      recommendation: 'Change to -all (hardfail) when ready for stricter enforcement'
+      recommendation: 'Change to -all (hardfail) when ready for stricter enforcement',
+      evidence: { ...evidence, tag: 'all', value: mechanism }
     });
   } else if (mechanism === '-all') {
     // Good!
   } else {
     issues.push({
+      code: 'SPF-NO-ALL',
+      check: 'spf',
       severity: 'high',
       message: 'SPF record has no all mechanism',
-      recommendation: 'Add -all at the end of your SPF record'
+      recommendation: 'Add -all at the end of your SPF record',
+      evidence: { ...evidence, tag: 'all' }
     });
   }
 
   // Check DNS lookup count
   if (lookupCount > SPF_MAX_DNS_LOOKUPS) {
     issues.push({
+      code: 'SPF-LOOKUP-LIMIT-EXCEEDED',
+      check: 'spf',
       severity: 'high',
       message: `SPF record exceeds DNS lookup limit (${lookupCount}/${SPF_MAX_DNS_LOOKUPS})`,
-      recommendation: 'Reduce the number of include/redirect mechanisms or flatten the SPF record'
+      recommendation: 'Reduce the number of include/redirect mechanisms or flatten the SPF record',
+      evidence: { ...evidence, value: `${lookupCount}` }
     });
   } else if (lookupCount > 7) {
     issues.push({
+      code: 'SPF-LOOKUP-LIMIT-NEAR',
+      check: 'spf',
       severity: 'medium',
       message: `SPF record is close to DNS lookup limit (${lookupCount}/${SPF_MAX_DNS_LOOKUPS})`,
-      recommendation: 'Consider flattening SPF record to avoid future issues'
+      recommendation: 'Consider flattening SPF record to avoid future issues',
+      evidence: { ...evidence, value: `${lookupCount}` }
+    });
+  }
+
+  // RFC 7208 Section 4.6.4: more than 2 void lookups is a permerror
+  if (voidLookupCount > SPF_MAX_VOID_LOOKUPS) {
+    issues.push({
+      code: 'SPF-VOID-LOOKUP-LIMIT-EXCEEDED',
+      check: 'spf',
+      severity: 'high',
+      message: `SPF record exceeds void lookup limit (${voidLookupCount}/${SPF_MAX_VOID_LOOKUPS}): ${voidTerms(lookupResult.nodes).join(', ')}`,
+      recommendation: 'Remove include/a/mx terms that point to names without records',
+      evidence: { ...evidence, value: `${voidLookupCount}` }
     });
   }
 
   // Check for deprecated ptr mechanism (match ptr at word boundary)
   if (/\bptr(:|\/|\s|$)/i.test(record)) {
     issues.push({
+      code: 'SPF-PTR-DEPRECATED',
+      check: 'spf',
       severity: 'medium',
       message: 'SPF record uses deprecated ptr mechanism',
-      recommendation: 'Replace ptr with explicit IP ranges or include statements'
+      recommendation: 'Replace ptr with explicit IP ranges or include statements',
+      evidence: { ...evidence, tag: 'ptr' }
     });
   }
 
@@ -133,11 +230,25 @@ export async function checkSPF(domain: string): Promise<SPFResult> {
     record,
     mechanism,
     lookupCount,
+    voidLookupCount,
     includes,
+    tree: lookupResult.nodes,
+    ip4: lookupResult.ip4,
+    ip6: lookupResult.ip6,
     issues
   };
 }
 
+/**
+ * Terms whose own lookups returned no records
+ */
+function voidTerms(nodes: SPFNode[]): string[] {
+  return nodes.flatMap(node => {
+    const nested = node.children.reduce((sum, child) => sum + child.voidLookups, 0);
+    return [...(node.voidLookups > nested ? [node.term] : []), ...voidTerms(node.children)];
+  });
+}
+
 function extractMechanism(record: string): string | undefined {
   const match = record.match(/([+\-~?]?)all\b/i);
   if (match) {
@@ -157,32 +268,272 @@ function extractIncludes(record: string): string[] {
   return includes;
 }
 
-interface LookupResult {
-  count: number;
+interface ExpansionState {
+  visited: Set<string>;
   loopDetected: boolean;
   depthLimitReached: boolean;
   failedIncludes: string[];
   failedRedirects: string[];
 }
 
+export interface SPFExpansion {
+  nodes: SPFNode[];
+  lookupCount: number;
+  voidLookupCount: number;
+  ip4: string[];
+  ip6: string[];
+  loopDetected: boolean;
+  depthLimitReached: boolean;
+  failedIncludes: string[];
+  failedRedirects: string[];
+}
+
+export interface SPFTerm {
+  qualifier: SPFNode['qualifier'];
+  name: string;    // Mechanism or modifier name, lowercase
+  value?: string;  // Domain spec / address after ":" or "="
+  cidr4?: number;
+  cidr6?: number;
+  modifier: boolean;
+  raw: string;
+}
+
+const TERM_PATTERN = /^([+\-~?]?)([a-z][a-z0-9_.-]*)(.*)$/i;
+const LOOKUP_TYPES = new Set<string>(['include', 'a', 'mx', 'ptr', 'exists']);
+
+/**
+ * Parse a single SPF term; undefined when it is not a mechanism or modifier
+ */
+export function parseSPFTerm(raw: string): SPFTerm | undefined {
+  const match = TERM_PATTERN.exec(raw);
+  if (!match) return undefined;
+  const [, qualifier, name, rest] = match;
+  if (rest.startsWith('=')) {
+    return { qualifier: '+', name: name.toLowerCase(), value: rest.slice(1), modifier: true, raw };
+  }
+  const term: SPFTerm = { qualifier: (qualifier || '+') as SPFTerm['qualifier'], name: name.toLowerCase(), modifier: false, raw };
+  let spec = rest;
+  if (term.name === 'a' || term.name === 'mx') {
+    // a[:domain][/cidr4][//cidr6]
+    const cidr = /(?:\/(\d+))?(?:\/\/(\d+))?$/.exec(spec);
+    if (cidr?.[0]) {
+      if (cidr[1] !== undefined) term.cidr4 = Number(cidr[1]);
+      if (cidr[2] !== undefined) term.cidr6 = Number(cidr[2]);
+      spec = spec.slice(0, cidr.index);
+    }
+  }
+  if (spec.startsWith(':')) {
+    term.value = spec.slice(1);
+  }
+  return term;
+}
+
+/**
+ * Split an SPF record into terms (RFC 7208 Section 4.6.1).
+ * Terms that do not parse are skipped; validateSPFRecord reports them.
+ */
+export function parseSPFTerms(record: string): SPFTerm[] {
+  return record.trim().split(/\s+/).slice(1)
+    .map(parseSPFTerm)
+    .filter((term): term is SPFTerm => term !== undefined);
+}
+
+export type SPFSyntaxCode =
+  | 'SPF-INVALID-TERM'
+  | 'SPF-UNKNOWN-MECHANISM'
+  | 'SPF-UNKNOWN-MODIFIER'
+  | 'SPF-DUPLICATE-MODIFIER'
+  | 'SPF-INVALID-CIDR'
+  | 'SPF-INVALID-IP'
+  | 'SPF-INVALID-MACRO'
+  | 'SPF-REDIRECT-WITH-ALL'
+  | 'SPF-STRING-SPLIT';
+
+export interface SPFSyntaxError {
+  code: SPFSyntaxCode;
+  term: string;        // Offending term as written
+  message: string;
+  permerror: boolean;  // Receivers reject the whole record (RFC 7208 permerror)
+}
+
+const MECHANISMS = new Set(['all', 'include', 'a', 'mx', 'ptr', 'ip4', 'ip6', 'exists']);
+const VALUE_REQUIRED = new Set(['include', 'exists', 'ip4', 'ip6']);
+// Valid macros in a domain-spec (RFC 7208 Section 7.1); c, r and t are explanation-only
+const DOMAIN_SPEC_MACRO = /%(?:[%_-]|\{[slodiphv](?:[1-9]\d*)?r?[.\-+,/_=]*\})/gi;
+
+function hasInvalidMacro(spec: string): boolean {
+  return spec.replace(DOMAIN_SPEC_MACRO, '').includes('%');
+}
+
 /**
- * RFC 7208 compliant recursive DNS lookup counting
- * Counts include, a, mx, ptr, exists, redirect mechanisms recursively
+ * Syntax problems of a single term, in the order a receiver would hit them
  */
-async function countDNSLookupsRecursive(
+function validateTerm(raw: string, term: SPFTerm | undefined): Omit<SPFSyntaxError, 'term'>[] {
+  const invalid = (message: string) => [{ code: 'SPF-INVALID-TERM' as const, message, permerror: true }];
+  if (!term) return invalid(`Invalid term "${raw}"`);
+
+  if (term.modifier) {
+    if (/^[+\-~?]/.test(raw)) return invalid(`Modifier "${raw}" cannot have a qualifier`);
+    if (term.name !== 'redirect' && term.name !== 'exp') {
+      return [{ code: 'SPF-UNKNOWN-MODIFIER', message: `Unknown modifier "${raw}" is ignored`, permerror: false }];
+    }
+    if (!term.value) return invalid(`Empty ${term.name}= modifier`);
+    if (hasInvalidMacro(term.value)) {
+      return [{ code: 'SPF-INVALID-MACRO', message: `Invalid macro in "${raw}"`, permerror: true }];
+    }
+    return [];
+  }
+
+  if (!MECHANISMS.has(term.name)) {
+    return [{ code: 'SPF-UNKNOWN-MECHANISM', message: `Unknown mechanism "${raw}"`, permerror: true }];
+  }
+  const rest = raw.replace(/^[+\-~?]/, '').slice(term.name.length);
+  const cidrAllowed = term.name === 'a' || term.name === 'mx';
+  if (rest && !rest.startsWith(':') && !(cidrAllowed && rest.startsWith('/'))) {
+    return invalid(`Invalid term "${raw}"`);
+  }
+  if (term.value === '' || (term.name === 'all' && term.value !== undefined)) {
+    return invalid(`Invalid term "${raw}"`);
+  }
+  if (VALUE_REQUIRED.has(term.name) && !term.value) {
+    return invalid(`"${raw}" requires a value`);
+  }
+
+  if (term.name === 'ip4' || term.name === 'ip6') {
+    const [address, prefix, ...extra] = term.value!.split('/');
+    const family = term.name === 'ip4' ? 4 : 6;
+    if (net.isIP(address) !== family) {
+      return [{ code: 'SPF-INVALID-IP', message: `Invalid IPv${family} address in "${raw}"`, permerror: true }];
+    }
+    if (extra.length > 0 || (prefix !== undefined && (!/^\d+$/.test(prefix) || Number(prefix) > (family === 4 ? 32 : 128)))) {
+      return [{ code: 'SPF-INVALID-CIDR', message: `Invalid prefix length in "${raw}"`, permerror: true }];
+    }
+    return [];
+  }
+
+  if ((term.cidr4 ?? 0) > 32 || (term.cidr6 ?? 0) > 128) {
+    return [{ code: 'SPF-INVALID-CIDR', message: `Invalid prefix length in "${raw}"`, permerror: true }];
+  }
+  if (term.value && hasInvalidMacro(term.value)) {
+    return [{ code: 'SPF-INVALID-MACRO', message: `Invalid macro in "${raw}"`, permerror: true }];
+  }
+  return [];
+}
+
+/**
+ * Validate SPF record syntax (RFC 7208 Sections 4.6, 5, 6 and 7).
+ * `strings` are the TXT character-strings the record was published as;
+ * they are joined without spaces, so a term split across two of them
+ * is reported as SPF-STRING-SPLIT.
+ */
+export function validateSPFRecord(record: string, strings?: string[]): SPFSyntaxError[] {
+  const errors: SPFSyntaxError[] = [];
+  const boundaries: number[] = [];
+  let offset = 0;
+  for (const value of strings?.slice(0, -1) ?? []) {
+    offset += value.length;
+    boundaries.push(offset);
+  }
+
+  const seen = new Set<string>();
+  let redirect: string | undefined;
+  let hasAll = false;
+
+  for (const token of [...record.matchAll(/\S+/g)].slice(1)) {
+    const raw = token[0];
+    const term = parseSPFTerm(raw);
+    const start = token.index;
+    const termErrors = validateTerm(raw, term);
+    const spansStrings = boundaries.some(b => b > start && b < start + raw.length);
+
+    if (termErrors.length > 0 && spansStrings) {
+      errors.push({
+        code: 'SPF-STRING-SPLIT',
+        term: raw,
+        message: `"${raw}" spans two TXT strings, which are joined without a space`,
+        permerror: termErrors.some(e => e.permerror),
+      });
+      continue;
+    }
+    errors.push(...termErrors.map(e => ({ ...e, term: raw })));
+    if (!term || termErrors.length > 0) continue;
+
+    if (term.modifier && (term.name === 'redirect' || term.name === 'exp')) {
+      if (seen.has(term.name)) {
+        errors.push({ code: 'SPF-DUPLICATE-MODIFIER', term: raw, message: `Duplicate ${term.name}= modifier "${raw}"`, permerror: true });
+      }
+      seen.add(term.name);
+      if (term.name === 'redirect') redirect ??= raw;
+    }
+    if (term.name === 'all' && !term.modifier) hasAll = true;
+  }
+
+  // redirect= is only evaluated when no mechanism matches, and all always matches
+  if (redirect && hasAll) {
+    errors.push({ code: 'SPF-REDIRECT-WITH-ALL', term: redirect, message: `"${redirect}" is ignored because the record has an all mechanism`, permerror: false });
+  }
+
+  return errors;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function withPrefix(address: string, prefix: number | undefined, full: number): string {
+  return prefix !== undefined && prefix !== full ? `${address}/${prefix}` : address;
+}
+
+/**
+ * Addresses a node authorizes when it matches: its own addresses plus
+ * those of its pass-qualified subtree. Non-pass terms authorize nothing.
+ */
+export function authorizedAddresses(node: SPFNode): { ip4: string[]; ip6: string[] } {
+  if (node.qualifier !== '+') {
+    return { ip4: [], ip6: [] };
+  }
+  const nested = node.children.map(authorizedAddresses);
+  return {
+    ip4: [...node.ip4, ...nested.flatMap(n => n.ip4)],
+    ip6: [...node.ip6, ...nested.flatMap(n => n.ip6)],
+  };
+}
+
+/**
+ * Evaluate an SPF record into its lookup tree (RFC 7208 Section 4.6.4)
+ */
+export async function expandSPF(domain: string, record: string): Promise<SPFExpansion> {
+  const state: ExpansionState = {
+    visited: new Set(),
+    loopDetected: false,
+    depthLimitReached: false,
+    failedIncludes: [],
+    failedRedirects: [],
+  };
+  const expanded = await expandRecord(domain, record, state, 0);
+  return {
+    nodes: expanded.nodes,
+    lookupCount: expanded.nodes.reduce((sum, n) => sum + n.lookups, 0),
+    voidLookupCount: expanded.nodes.reduce((sum, n) => sum + n.voidLookups, 0),
+    ip4: unique(expanded.ip4),
+    ip6: unique(expanded.ip6),
+    loopDetected: state.loopDetected,
+    depthLimitReached: state.depthLimitReached,
+    failedIncludes: unique(state.failedIncludes),
+    failedRedirects: unique(state.failedRedirects),
+  };
+}
+
+async function expandRecord(
   domain: string,
   record: string,
-  visited: Set<string>,
+  state: ExpansionState,
   depth: number
-): Promise<LookupResult> {
+): Promise<{ nodes: SPFNode[]; ip4: string[]; ip6: string[] }> {
+  const empty = { nodes: [], ip4: [], ip6: [] };
   if (depth > SPF_MAX_RECURSION_DEPTH) {
-    return {
-      count: 0,
-      loopDetected: false,
-      depthLimitReached: true,
-      failedIncludes: [],
-      failedRedirects: []
-    };
+    state.depthLimitReached = true;
+    return empty;
   }
 
   // Check for circular reference using domain + record hash
@@ -191,119 +542,129 @@ async function countDNSLookupsRecursive(
   const normalizedDomain = domain.toLowerCase();
   const recordHash = crypto.createHash('sha256').update(record).digest('hex').slice(0, 16);
   const recordKey = `${normalizedDomain}:${recordHash}`;
-  
-  if (visited.has(recordKey)) {
-    return {
-      count: 0,
-      loopDetected: true,
-      depthLimitReached: false,
-      failedIncludes: [],
-      failedRedirects: []
-    };
+
+  if (state.visited.has(recordKey)) {
+    state.loopDetected = true;
+    return empty;
   }
-  visited.add(recordKey);
-
-  let count = 0;
-  let loopDetected = false;
-  let depthLimitReached = false;
-  const failedIncludes: string[] = [];
-  const failedRedirects: string[] = [];
-  const lower = record.toLowerCase();
-
-  // Count direct mechanisms that require DNS lookups (RFC 7208 Section 4.6.4)
-  // Each of these counts as 1 DNS lookup:
-  // - include: 1 lookup + recursive lookups from included record
-  // - a: 1 lookup
-  // - mx: 1 lookup (+ implicit A lookups, but those don't count against limit)
-  // - ptr: 1 lookup (deprecated)
-  // - exists: 1 lookup
-  // - redirect: 1 lookup + recursive lookups from target record
-
-  // Count 'a' mechanisms (a, a:domain, a:domain/prefix)
-  const aMatches = lower.match(/\ba(:|\/|\s|$)/g);
-  if (aMatches) count += aMatches.length;
-
-  // Count 'mx' mechanisms
-  const mxMatches = lower.match(/\bmx(:|\/|\s|$)/g);
-  if (mxMatches) count += mxMatches.length;
-
-  // Count 'ptr' mechanisms
-  const ptrMatches = lower.match(/\bptr(:|\/|\s|$)/g);
-  if (ptrMatches) count += ptrMatches.length;
-
-  // Count 'exists' mechanisms
-  const existsMatches = lower.match(/\bexists:/g);
-  if (existsMatches) count += existsMatches.length;
-
-  // Process include: mechanisms recursively
-  const includeRegex = /include:([^\s]+)/gi;
-  let includeMatch;
-  while ((includeMatch = includeRegex.exec(record)) !== null) {
-    count++; // The include itself is 1 lookup
-    
-    const includeDomain = includeMatch[1];
-    try {
-      const includeTxt = await cachedResolveTxt(includeDomain);
-      const includeSPF = includeTxt.find(r => r.toLowerCase().startsWith('v=spf1'));
-      
-      if (includeSPF) {
-        const recursiveResult = await countDNSLookupsRecursive(
-          includeDomain,
-          includeSPF,
-          visited,
-          depth + 1
-        );
-        count += recursiveResult.count;
-        if (recursiveResult.loopDetected) loopDetected = true;
-        if (recursiveResult.depthLimitReached) depthLimitReached = true;
-        failedIncludes.push(...recursiveResult.failedIncludes);
-        failedRedirects.push(...recursiveResult.failedRedirects);
-      } else {
-        failedIncludes.push(includeDomain);
+  state.visited.add(recordKey);
+
+  const nodes: SPFNode[] = [];
+  const ip4: string[] = [];
+  const ip6: string[] = [];
+  let redirect: SPFTerm | undefined;
+
+  for (const term of parseSPFTerms(record)) {
+    if (term.modifier) {
+      if (term.name === 'redirect') redirect ??= term;
+      continue;
+    }
+    if (term.name === 'ip4' || term.name === 'ip6') {
+      if (term.qualifier === '+' && term.value) {
+        (term.name === 'ip4' ? ip4 : ip6).push(term.value);
       }
-    } catch {
-      // DNS lookup failed, but we still counted the lookup attempt
-      failedIncludes.push(includeDomain);
+      continue;
+    }
+    if (LOOKUP_TYPES.has(term.name)) {
+      nodes.push(await expandTerm(domain, term, state, depth));
     }
   }
 
-  // Process redirect= modifier (replaces the current record)
-  // RFC 7208: redirect requires a DNS lookup to fetch the target SPF record
-  const redirectMatch = lower.match(/redirect=([^\s]+)/);
-  if (redirectMatch) {
-    count++; // The redirect itself requires 1 DNS lookup (TXT query)
-    
-    const redirectDomain = redirectMatch[1];
-    try {
-      const redirectTxt = await cachedResolveTxt(redirectDomain);
-      const redirectSPF = redirectTxt.find(r => r.toLowerCase().startsWith('v=spf1'));
-      
-      if (redirectSPF) {
-        const recursiveResult = await countDNSLookupsRecursive(
-          redirectDomain,
-          redirectSPF,
-          visited,
-          depth + 1
-        );
-        count += recursiveResult.count;
-        if (recursiveResult.loopDetected) loopDetected = true;
-        if (recursiveResult.depthLimitReached) depthLimitReached = true;
-        failedIncludes.push(...recursiveResult.failedIncludes);
-        failedRedirects.push(...recursiveResult.failedRedirects);
-      } else {
-        failedRedirects.push(redirectDomain);
+  // redirect= is evaluated after all mechanisms and costs a lookup like include
+  if (redirect) {
+    nodes.push(await expandTerm(domain, redirect, state, depth));
+  }
+
+  for (const node of nodes) {
+    const nodeIps = authorizedAddresses(node);
+    ip4.push(...nodeIps.ip4);
+    ip6.push(...nodeIps.ip6);
+  }
+  return { nodes, ip4, ip6 };
+}
+
+/**
+ * Expand a single lookup-costing term. Each of these costs one DNS lookup;
+ * include and redirect also carry the lookups of the record they fetch.
+ */
+async function expandTerm(domain: string, term: SPFTerm, state: ExpansionState, depth: number): Promise<SPFNode> {
+  const target = (term.value || domain).replace(/\.$/, '');
+  const node: SPFNode = {
+    type: term.name as SPFNodeType,
+    qualifier: term.qualifier,
+    target,
+    term: term.raw,
+    depth,
+    lookups: 1,
+    voidLookups: 0,
+    ip4: [],
+    ip6: [],
+    children: [],
+  };
+
+  // Macros (RFC 7208 Section 7) depend on the message being evaluated
+  if (target.includes('%')) {
+    node.error = 'contains macros - expanded per message';
+    return node;
+  }
+
+  try {
+    switch (node.type) {
+      case 'include':
+      case 'redirect': {
+        const failed = node.type === 'include' ? state.failedIncludes : state.failedRedirects;
+        const txt = await cachedResolveTxt(target);
+        if (txt.length === 0) node.voidLookups++;
+        const spf = txt.find(r => r.toLowerCase().startsWith('v=spf1'));
+        if (!spf) {
+          node.error = 'no SPF record';
+          failed.push(target);
+          break;
+        }
+        node.record = spf;
+        const expanded = await expandRecord(target, spf, state, depth + 1);
+        node.children = expanded.nodes;
+        // Direct ip4/ip6 terms of the fetched record; nested ones live on the children
+        for (const t of parseSPFTerms(spf)) {
+          if (t.qualifier === '+' && t.value && (t.name === 'ip4' || t.name === 'ip6')) {
+            (t.name === 'ip4' ? node.ip4 : node.ip6).push(t.value);
+          }
+        }
+        node.lookups += expanded.nodes.reduce((sum, n) => sum + n.lookups, 0);
+        node.voidLookups += expanded.nodes.reduce((sum, n) => sum + n.voidLookups, 0);
+        break;
+      }
+      case 'a': {
+        const [v4, v6] = await Promise.all([cachedResolveA(target), cachedResolveAaaa(target)]);
+        if (v4.length === 0 && v6.length === 0) node.voidLookups++;
+        node.ip4 = v4.map(a => withPrefix(a, term.cidr4, 32));
+        node.ip6 = v6.map(a => withPrefix(a, term.cidr6, 128));
+        break;
       }
-    } catch {
-      // DNS lookup failed, but we still counted the lookup attempt
-      failedRedirects.push(redirectDomain);
+      case 'mx': {
+        const mx = await cachedResolveMx(target);
+        if (mx.length === 0) node.voidLookups++;
+        if (mx.length > SPF_MAX_MX_HOSTS) {
+          node.error = `more than ${SPF_MAX_MX_HOSTS} MX hosts`;
+        }
+        const hosts = [...mx].sort((a, b) => a.priority - b.priority).slice(0, SPF_MAX_MX_HOSTS);
+        for (const host of hosts) {
+          const [v4, v6] = await Promise.all([cachedResolveA(host.exchange), cachedResolveAaaa(host.exchange)]);
+          node.ip4.push(...v4.map(a => withPrefix(a, term.cidr4, 32)));
+          node.ip6.push(...v6.map(a => withPrefix(a, term.cidr6, 128)));
+        }
+        break;
+      }
+      default:
+        // ptr and exists depend on the connecting IP; nothing to inventory
+        break;
     }
+  } catch (err) {
+    // DNS lookup failed, but we still counted the lookup attempt
+    node.error = (err as Error).message;
+    if (node.type === 'include') state.failedIncludes.push(target);
+    if (node.type === 'redirect') state.failedRedirects.push(target);
   }
 
-  return {
-    count,
-    loopDetected,
-    depthLimitReached,
-    failedIncludes,
-    failedRedirects
-  };
+  return node;
 }
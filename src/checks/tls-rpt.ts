@@ -18,6 +18,8 @@ export interface TLSRPTOptions {
 const NO_TLS_RPT_RESULT: TLSRPTResult = {
   found: false,
   issues: [{
+    code: 'TLS-RPT-MISSING',
+    check: 'tls-rpt',
     severity: 'low',
     message: 'No TLS-RPT record found',
     recommendation: 'Add TLS-RPT to receive reports about TLS connection failures'
@@ -40,13 +42,17 @@ export async function checkTLSRPT(
 
   if (tlsrptRecords.length > 1) {
     issues.push({
+      code: 'TLS-RPT-MULTIPLE-RECORDS',
+      check: 'tls-rpt',
       severity: 'medium',
       message: `Multiple TLS-RPT records found (${tlsrptRecords.length})`,
-      recommendation: 'Only one TLS-RPT record should exist'
+      recommendation: 'Only one TLS-RPT record should exist',
+      evidence: { name: tlsrptDomain, record: tlsrptRecords.join('\n'), value: `${tlsrptRecords.length}` }
     });
   }
 
   const record = tlsrptRecords[0];
+  const evidence = { name: tlsrptDomain, record };
   const version = extractTag(record, 'v');
   const rua = extractTagValues(record, 'rua');
   const endpointStatus: EndpointStatus[] = [];
@@ -54,24 +60,33 @@ export async function checkTLSRPT(
   // Validate version tag (RFC 8460)
   if (!version) {
     issues.push({
+      code: 'TLS-RPT-NO-VERSION',
+      check: 'tls-rpt',
       severity: 'high',
       message: 'TLS-RPT record missing version tag (v=)',
-      recommendation: 'Add v=TLSRPTv1 at the start of the TLS-RPT record'
+      recommendation: 'Add v=TLSRPTv1 at the start of the TLS-RPT record',
+      evidence: { ...evidence, tag: 'v' }
     });
   } else if (version.toLowerCase() !== 'tlsrptv1') {
     issues.push({
+      code: 'TLS-RPT-INVALID-VERSION',
+      check: 'tls-rpt',
       severity: 'medium',
       message: `Unexpected TLS-RPT version: "${version}" (expected TLSRPTv1)`,
-      recommendation: 'Use v=TLSRPTv1 for the version tag'
+      recommendation: 'Use v=TLSRPTv1 for the version tag',
+      evidence: { ...evidence, tag: 'v', value: version }
     });
   }
 
   // Validate reporting addresses
   if (rua.length === 0) {
     issues.push({
+      code: 'TLS-RPT-NO-RUA',
+      check: 'tls-rpt',
       severity: 'high',
       message: 'TLS-RPT record has no reporting addresses (rua=)',
-      recommendation: 'Add rua= tag with mailto: or https: reporting endpoints'
+      recommendation: 'Add rua= tag with mailto: or https: reporting endpoints',
+      evidence: { ...evidence, tag: 'rua' }
     });
   } else {
     await validateEndpoints(rua, options, issues, endpointStatus);
@@ -102,9 +117,12 @@ async function validateEndpoints(
       await validateHttpsEndpoint(addr, timeout, options, issues, endpointStatus);
     } else {
       issues.push({
+        code: 'TLS-RPT-INVALID-RUA',
+        check: 'tls-rpt',
         severity: 'medium',
         message: `Invalid TLS-RPT reporting address: ${addr}`,
-        recommendation: 'Use mailto: or https: scheme for reporting addresses'
+        recommendation: 'Use mailto: or https: scheme for reporting addresses',
+        evidence: { tag: 'rua', value: addr }
       });
     }
   }
@@ -121,9 +139,12 @@ async function validateMailtoEndpoint(
   
   if (!email || !isValidEmail(email)) {
     issues.push({
+      code: 'TLS-RPT-INVALID-MAILTO',
+      check: 'tls-rpt',
       severity: 'medium',
       message: `Invalid email in TLS-RPT reporting address: ${addr}`,
-      recommendation: 'Use a valid email address format'
+      recommendation: 'Use a valid email address format',
+      evidence: { tag: 'rua', value: addr }
     });
     endpointStatus.push({ endpoint: addr, type: 'mailto', reachable: false, error: 'Invalid email format' });
     return;
@@ -137,9 +158,12 @@ async function validateMailtoEndpoint(
       endpointStatus.push({ endpoint: addr, type: 'mailto', reachable: true });
     } catch {
       issues.push({
+        code: 'TLS-RPT-MAILTO-NO-MX',
+        check: 'tls-rpt',
         severity: 'low',
         message: `TLS-RPT reporting email domain "${emailDomain}" has no MX records`,
-        recommendation: 'Verify the email address can receive reports'
+        recommendation: 'Verify the email address can receive reports',
+        evidence: { tag: 'rua', value: addr }
       });
       endpointStatus.push({ endpoint: addr, type: 'mailto', reachable: false, error: 'No MX records' });
     }
@@ -161,9 +185,12 @@ async function validateHttpsEndpoint(
     
     if (!status.reachable) {
       issues.push({
+        code: 'TLS-RPT-ENDPOINT-UNREACHABLE',
+        check: 'tls-rpt',
         severity: 'medium',
         message: `TLS-RPT HTTPS endpoint unreachable: ${addr}`,
-        recommendation: `Verify the endpoint is accessible: ${status.error || 'unknown error'}`
+        recommendation: `Verify the endpoint is accessible: ${status.error || 'unknown error'}`,
+        evidence: { tag: 'rua', value: addr }
       });
     }
   } else {
@@ -173,9 +200,12 @@ async function validateHttpsEndpoint(
       endpointStatus.push({ endpoint: addr, type: 'https', reachable: undefined });
     } catch {
       issues.push({
+        code: 'TLS-RPT-INVALID-URL',
+        check: 'tls-rpt',
         severity: 'medium',
         message: `Invalid HTTPS URL in TLS-RPT: ${addr}`,
-        recommendation: 'Use a valid HTTPS URL'
+        recommendation: 'Use a valid HTTPS URL',
+        evidence: { tag: 'rua', value: addr }
       });
       endpointStatus.push({ endpoint: addr, type: 'https', reachable: false, error: 'Invalid URL' });
     }
@@ -151,6 +151,8 @@ export async function checkWhois(domain: string, options: { timeout?: number } =
     return {
       found: false,
       issues: [{
+        code: 'WHOIS-RDAP-UNAVAILABLE',
+        check: 'whois',
         severity: 'info',
         message: 'RDAP data not available for this domain',
         recommendation: 'WHOIS/RDAP data may not be available for all TLDs',
@@ -172,27 +174,39 @@ export async function checkWhois(domain: string, options: { timeout?: number } =
 
     if (daysUntilExpiry < 0) {
       issues.push({
+        code: 'WHOIS-DOMAIN-EXPIRED',
+        check: 'whois',
         severity: 'critical',
         message: `Domain has expired (${expiryDate})`,
         recommendation: 'Renew the domain immediately to prevent loss and potential takeover',
+        evidence: { tag: 'expiration', value: expiryDate },
       });
     } else if (daysUntilExpiry <= EXPIRY_CRITICAL_DAYS) {
       issues.push({
+        code: 'WHOIS-EXPIRES-7D',
+        check: 'whois',
         severity: 'critical',
         message: `Domain expires in ${daysUntilExpiry} days (${expiryDate})`,
         recommendation: 'Renew the domain immediately and enable auto-renewal',
+        evidence: { tag: 'expiration', value: expiryDate },
       });
     } else if (daysUntilExpiry <= EXPIRY_HIGH_DAYS) {
       issues.push({
+        code: 'WHOIS-EXPIRES-30D',
+        check: 'whois',
         severity: 'high',
         message: `Domain expires in ${daysUntilExpiry} days (${expiryDate})`,
         recommendation: 'Renew the domain soon and verify auto-renewal is enabled',
+        evidence: { tag: 'expiration', value: expiryDate },
       });
     } else if (daysUntilExpiry <= EXPIRY_MEDIUM_DAYS) {
       issues.push({
+        code: 'WHOIS-EXPIRES-90D',
+        check: 'whois',
         severity: 'medium',
         message: `Domain expires in ${daysUntilExpiry} days (${expiryDate})`,
         recommendation: 'Verify auto-renewal is enabled to prevent accidental expiry',
+        evidence: { tag: 'expiration', value: expiryDate },
       });
     }
   }
@@ -210,17 +224,23 @@ export async function checkWhois(domain: string, options: { timeout?: number } =
 
     if (!hasTransferLock) {
       issues.push({
+        code: 'WHOIS-NO-TRANSFER-LOCK',
+        check: 'whois',
         severity: 'medium',
         message: 'Domain transfer lock is not enabled',
         recommendation: 'Enable registrar lock (clientTransferProhibited) to prevent unauthorized domain transfers',
+        evidence: { tag: 'status', value: eppStatus.join(',') },
       });
     }
 
     if (!hasDeleteLock) {
       issues.push({
+        code: 'WHOIS-NO-DELETE-LOCK',
+        check: 'whois',
         severity: 'low',
         message: 'Domain delete protection is not enabled',
         recommendation: 'Enable delete protection (clientDeleteProhibited) to prevent accidental deletion',
+        evidence: { tag: 'status', value: eppStatus.join(',') },
       });
     }
 
@@ -228,9 +248,12 @@ export async function checkWhois(domain: string, options: { timeout?: number } =
     const dangerStatus = normalizedStatus.find(s => s === 'redemptionperiod' || s === 'pendingdelete');
     if (dangerStatus) {
       issues.push({
+        code: 'WHOIS-PENDING-DELETE',
+        check: 'whois',
         severity: 'critical',
         message: `Domain is in ${eppStatus.find(s => s.toLowerCase().replace(/\s+/g, '') === dangerStatus)} status`,
         recommendation: 'Contact your registrar immediately to recover the domain',
+        evidence: { tag: 'status', value: dangerStatus },
       });
     }
   }
@@ -9,16 +9,39 @@ import fs from 'node:fs/promises';
 import readline from 'node:readline';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { analyzeDomain, analyzeMultiple } from './core/index.js';
-import { formatResult, formatSummary } from './output.js';
+import {
+  analyzeDomain,
+  analyzeMultiple,
+  diffResults,
+  parseResults,
+  evaluatePolicy,
+  findPolicyFile,
+  loadPolicy,
+  saveRun,
+  loadRuns,
+  domainHistory,
+  portfolioTrend,
+  dkimRotation,
+  defaultHistoryDir,
+  flattenSPF,
+  evaluateSPF,
+  readAggregateReports,
+  analyzeAggregateReports,
+  crossReferenceLive,
+  assessDmarcReadiness,
+  analyzeMessage,
+} from './core/index.js';
+import { formatResult, formatSummary, formatDiff, formatPolicyReport, formatHistory, formatTrend, formatDkimRotation, formatFlatten, formatSPFEvaluation, formatDmarcReports, formatDmarcReadiness, formatMessageAnalysis } from './output.js';
+import { formatSarif, formatHtml, formatMarkdown, formatMarkdownResult, formatDmarcReadinessMarkdown } from './formats/index.js';
 import { getRoute53Domains } from './sources/aws.js';
 import { getCloudDNSDomains, getCloudDNSDomainsOrg } from './sources/gcp.js';
 import { getAzureDNSDomains } from './sources/azure.js';
 import { getCloudflareDomains } from './sources/cloudflare.js';
 import { normalizeDomain } from './types.js';
 import { isValidDomain } from './utils/domain.js';
-import { DEFAULT_CHECK_TIMEOUT_MS, DEFAULT_CONCURRENCY } from './constants.js';
-import type { ScanOptions } from './types.js';
+import { parsePemCertificates } from './checks/bimi-vmc.js';
+import { DEFAULT_CHECK_TIMEOUT_MS, DEFAULT_CONCURRENCY, DKIM_MAX_KEY_AGE_DAYS, DKIM_REVOKED_GRACE_DAYS } from './constants.js';
+import type { DMARCSpec, DmarcReadinessPlan, DomainResult, Grade, Policy, PolicyReport, ScanOptions, Severity } from './types.js';
 
 /**
  * Parse integer with fallback to default value
@@ -41,7 +64,7 @@ function validateDomainOrExit(domain: string): string {
   return normalized;
 }
 
-const ALL_CHECKS = ['spf', 'dkim', 'dmarc', 'mx', 'bimi', 'mta-sts', 'tls-rpt', 'arc', 'dnssec', 'whois'] as const;
+const ALL_CHECKS = ['spf', 'dkim', 'dmarc', 'mx', 'bimi', 'mta-sts', 'tls-rpt', 'arc', 'dnssec', 'dane', 'caa', 'whois'] as const;
 const normalizeCheckName = (name: string): string => name.replace(/-/g, '').toLowerCase();
 const keyMap: Record<string, keyof NonNullable<ScanOptions['checks']>> = {
   'spf': 'spf',
@@ -53,6 +76,8 @@ const keyMap: Record<string, keyof NonNullable<ScanOptions['checks']>> = {
   'tlsrpt': 'tlsRpt',
   'arc': 'arc',
   'dnssec': 'dnssec',
+  'dane': 'dane',
+  'caa': 'caa',
   'whois': 'whois',
 };
 const normalizedChecks = new Set(ALL_CHECKS.map(check => normalizeCheckName(check)));
@@ -110,6 +135,203 @@ function parseCheckOptions(skip?: string, only?: string): ScanOptions['checks']
   return undefined;
 }
 
+const OUTPUT_FORMATS = ['text', 'json', 'sarif', 'html', 'markdown'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Resolve --format/--json into an output format (--json is shorthand for --format json)
+ */
+function resolveFormatOrExit(
+  format: string | undefined,
+  json: boolean | undefined,
+  fallback: OutputFormat = 'text',
+  allowed: readonly OutputFormat[] = OUTPUT_FORMATS
+): OutputFormat {
+  if (!format) {
+    return json ? 'json' : fallback;
+  }
+  const normalized = format.toLowerCase();
+  if (!(allowed as readonly string[]).includes(normalized)) {
+    console.error(`Error: Unknown output format: "${format}"`);
+    console.error(`Available formats: ${allowed.join(', ')}`);
+    process.exit(1);
+  }
+  if (json && normalized !== 'json') {
+    console.error('Error: --json cannot be combined with --format ' + normalized);
+    process.exit(1);
+  }
+  return normalized as OutputFormat;
+}
+
+const DMARC_SPECS: readonly DMARCSpec[] = ['dmarcbis', 'rfc7489'];
+
+/**
+ * Validate --dmarc-spec, exiting on an unknown value
+ */
+function parseDmarcSpecOrExit(spec: string | undefined): DMARCSpec | undefined {
+  if (spec === undefined) return undefined;
+  const normalized = spec.toLowerCase();
+  if (!(DMARC_SPECS as readonly string[]).includes(normalized)) {
+    console.error(`Error: Unknown DMARC spec: "${spec}"`);
+    console.error(`Available specs: ${DMARC_SPECS.join(', ')}`);
+    process.exit(1);
+  }
+  return normalized as DMARCSpec;
+}
+
+/**
+ * Render a single domain result in the requested format
+ */
+function renderResult(result: DomainResult, format: OutputFormat, verbose?: boolean): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2);
+    case 'sarif':
+      return formatSarif([result], { toolVersion: pkg.version });
+    case 'html':
+      return formatHtml([result], { toolVersion: pkg.version, title: `DNSVet Report: ${result.domain}` });
+    case 'markdown':
+      return formatMarkdownResult(result);
+    default:
+      return formatResult(result, verbose);
+  }
+}
+
+/**
+ * Render scan results in the requested format
+ */
+function renderResults(results: DomainResult[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(results, null, 2);
+    case 'sarif':
+      return formatSarif(results, { toolVersion: pkg.version });
+    case 'html':
+      return formatHtml(results, { toolVersion: pkg.version });
+    case 'markdown':
+      return formatMarkdown(results);
+    default:
+      return formatSummary(results);
+  }
+}
+
+/**
+ * Render DMARC rollout plans in the requested format
+ */
+function renderPlans(plans: DmarcReadinessPlan[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(plans, null, 2);
+    case 'markdown':
+      return formatDmarcReadinessMarkdown(plans);
+    default:
+      return formatDmarcReadiness(plans);
+  }
+}
+
+/**
+ * Read a results file written by `scan -o` or `--json`, exit on error
+ */
+async function readResultsOrExit(file: string): Promise<DomainResult[]> {
+  try {
+    return parseResults(await fs.readFile(file, 'utf-8'));
+  } catch (err) {
+    console.error(`Error: Cannot read results from ${file}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Read the sample message headers given with --dkim-headers
+ */
+async function readDkimHeadersOrExit(file: string | undefined): Promise<string | undefined> {
+  if (!file) return undefined;
+  try {
+    return await fs.readFile(file, 'latin1');
+  } catch (err) {
+    console.error(`Error: Cannot read DKIM sample headers from ${file}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Read the mark verifying authority roots given with --bimi-roots
+ */
+async function readBimiRootsOrExit(file: string | undefined): Promise<string | undefined> {
+  if (!file) return undefined;
+  try {
+    const pem = await fs.readFile(file, 'utf-8');
+    if (parsePemCertificates(pem).length === 0) throw new Error('no PEM certificates found');
+    return pem;
+  } catch (err) {
+    console.error(`Error: Cannot read BIMI roots from ${file}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+const GRADES: Grade[] = ['A', 'B', 'C', 'D', 'F'];
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+/**
+ * Load the policy from --policy or a .dnsvet.yml/.dnsvet.json in the working
+ * directory, then apply --fail-on. Returns undefined when neither is present.
+ */
+async function resolvePolicyOrExit(file: string | undefined, failOn: string | undefined): Promise<{ policy: Policy; source?: string } | undefined> {
+  const source = file ?? await findPolicyFile(process.cwd());
+  let policy: Policy | undefined;
+  if (source) {
+    try {
+      policy = await loadPolicy(source);
+    } catch (err) {
+      console.error(`Error: Cannot load policy ${source}: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  if (failOn) {
+    policy = { ...policy };
+    const grade = failOn.toUpperCase() as Grade;
+    const severity = failOn.toLowerCase() as Severity;
+    if (GRADES.includes(grade) && grade !== 'A') {
+      // --fail-on D: fail on D or worse
+      policy.minGrade = GRADES[GRADES.indexOf(grade) - 1];
+    } else if (SEVERITIES.includes(severity)) {
+      policy.failOn = severity;
+    } else {
+      console.error(`Error: Invalid --fail-on value: "${failOn}"`);
+      console.error('Use a grade (B, C, D, F) or a severity (critical, high, medium, low, info)');
+      process.exit(1);
+    }
+  }
+
+  return policy ? { policy, source } : undefined;
+}
+
+/**
+ * Evaluate results against the policy and print the report to stderr
+ */
+function applyPolicy(results: DomainResult[], loaded: { policy: Policy; source?: string } | undefined): PolicyReport | undefined {
+  if (!loaded) return undefined;
+  const report = evaluatePolicy(results, loaded.policy);
+  console.error(formatPolicyReport(report, loaded.source));
+  return report;
+}
+
+/**
+ * Record results in the history store when --save-history is given.
+ * A failure to write history is reported but does not fail the scan.
+ */
+async function recordHistory(results: DomainResult[], options: { saveHistory?: boolean; historyDir?: string }): Promise<void> {
+  if (!options.saveHistory) return;
+  const dir = options.historyDir ?? defaultHistoryDir();
+  try {
+    const run = await saveRun(dir, results);
+    console.error(`History saved: run ${run.id} (${dir})`);
+  } catch (err) {
+    console.error(`Warning: Cannot save history to ${dir}: ${(err as Error).message}`);
+  }
+}
+
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const pkg = JSON.parse(await fs.readFile(path.join(__dirname, '..', 'package.json'), 'utf-8'));
 
@@ -118,41 +340,58 @@ const program = new Command();
 program
   .name('dnsvet')
   .description('DNS and email security scanner - SPF/DKIM/DMARC/DNSSEC/MTA-STS')
-  .version(pkg.version);
+  .version(pkg.version)
+  // Root options (default check action) must not shadow subcommand options of the same name
+  .enablePositionalOptions();
 
 program
   .command('check <domain>')
   .description('Check email security configuration for a single domain')
   .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json, sarif, html, markdown')
   .option('-v, --verbose', 'Show detailed information')
   .option('-t, --timeout <ms>', 'Timeout per check in milliseconds', '10000')
   .option('--selectors <selectors>', 'Custom DKIM selectors (comma-separated)')
+  .option('--no-dkim-discovery', 'Probe only --selectors (or the common selectors), without provider and pattern discovery')
+  .option('--dkim-headers <path>', 'Harvest DKIM selectors from the headers of a sample message (.eml or mbox)')
+  .option('--bimi-roots <path>', 'PEM file of BIMI mark verifying authority roots to validate VMC/CMC chains against')
   .option('--verify-tlsrpt-endpoints', 'Verify TLS-RPT endpoint reachability')
+  .option('--dmarc-spec <spec>', 'DMARC specification: dmarcbis (default) or rfc7489')
   .option('--resolver <ip>', 'Custom DNS resolver (e.g., 8.8.8.8)')
-  .option('--skip <checks>', 'Skip specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec)')
-  .option('--only <checks>', 'Run only specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec)')
+  .option('--skip <checks>', 'Skip specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec,dane,caa)')
+  .option('--only <checks>', 'Run only specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec,dane,caa)')
+  .option('--policy <path>', 'Policy file (default: .dnsvet.yml/.dnsvet.json in the current directory)')
+  .option('--fail-on <grade|severity>', 'Exit 1 at this grade or worse (e.g. D), or on issues of this severity or higher (e.g. high)')
+  .option('--save-history', 'Record results in the local history store')
+  .option('--history-dir <path>', 'History directory (default: $DNSVET_HISTORY_DIR or ~/.dnsvet/history)')
   .action(async (domain: string, options) => {
     // Normalize and validate domain
     const normalizedDomain = validateDomainOrExit(domain);
+    const format = resolveFormatOrExit(options.format, options.json);
+    const policy = await resolvePolicyOrExit(options.policy, options.failOn);
 
     const scanOptions: ScanOptions = {
       dkimSelectors: options.selectors?.split(',').map((s: string) => s.trim()).filter(Boolean),
+      dkimDiscovery: options.dkimDiscovery,
+      dkimSampleHeaders: await readDkimHeadersOrExit(options.dkimHeaders),
+      bimiTrustAnchors: await readBimiRootsOrExit(options.bimiRoots),
       verbose: options.verbose,
       timeout: parseIntOrDefault(options.timeout, DEFAULT_CHECK_TIMEOUT_MS),
       verifyTlsRptEndpoints: options.verifyTlsrptEndpoints,
+      dmarcSpec: parseDmarcSpecOrExit(options.dmarcSpec),
       resolver: options.resolver,
       checks: parseCheckOptions(options.skip, options.only),
     };
 
     const result = await analyzeDomain(normalizedDomain, scanOptions);
 
-    if (options.json) {
-      console.log(JSON.stringify(result, null, 2));
-    } else {
-      console.log(formatResult(result, options.verbose));
-    }
+    console.log(renderResult(result, format, options.verbose));
+    await recordHistory([result], options);
 
-    process.exit(result.grade === 'F' ? 1 : 0);
+    // A policy replaces the default "fail on F" rule
+    const report = applyPolicy([result], policy);
+    const failed = report ? !report.passed : result.grade === 'F';
+    process.exit(failed ? 1 : 0);
   });
 
 program
@@ -181,16 +420,31 @@ program
   .option('--cloudflare-key <key>', 'Cloudflare Global API key')
   .option('-o, --output <path>', 'Write results to file')
   .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json, sarif, html, markdown (default: json with -o, text otherwise)')
   .option('-c, --concurrency <n>', 'Concurrent checks', '5')
   .option('-t, --timeout <ms>', 'Timeout per check in milliseconds', '10000')
   .option('--selectors <selectors>', 'Custom DKIM selectors (comma-separated)')
+  .option('--dkim-discovery', 'Also probe provider and pattern DKIM selectors for each domain (off for scan: many more lookups)')
+  .option('--dkim-headers <path>', 'Harvest DKIM selectors from the headers of a sample message (.eml or mbox)')
+  .option('--bimi-roots <path>', 'PEM file of BIMI mark verifying authority roots to validate VMC/CMC chains against')
   .option('--verify-tlsrpt-endpoints', 'Verify TLS-RPT endpoint reachability')
+  .option('--dmarc-spec <spec>', 'DMARC specification: dmarcbis (default) or rfc7489')
   .option('--resolver <ip>', 'Custom DNS resolver (e.g., 8.8.8.8)')
-  .option('--skip <checks>', 'Skip specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec)')
+  .option('--skip <checks>', 'Skip specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec,dane,caa)')
   .option('--only <checks>', 'Run only specific checks (comma-separated)')
+  .option('--baseline <path>', 'Compare results with a previous results file and exit 1 on regressions')
+  .option('--policy <path>', 'Policy file (default: .dnsvet.yml/.dnsvet.json in the current directory)')
+  .option('--fail-on <grade|severity>', 'Exit 1 at this grade or worse (e.g. D), or on issues of this severity or higher (e.g. high)')
+  .option('--save-history', 'Record results in the local history store')
+  .option('--history-dir <path>', 'History directory (default: $DNSVET_HISTORY_DIR or ~/.dnsvet/history)')
+  .option('--dmarc-plan <path>', 'Write a DMARC enforcement plan for each domain (Markdown for .md, JSON otherwise)')
   .action(async (options) => {
     let domains: string[] = [];
     const sources: string[] = [];
+    const format = resolveFormatOrExit(options.format, options.json, options.output ? 'json' : 'text');
+    const dmarcSpec = parseDmarcSpecOrExit(options.dmarcSpec);
+    const baseline = options.baseline ? await readResultsOrExit(options.baseline) : undefined;
+    const policy = await resolvePolicyOrExit(options.policy, options.failOn);
 
     // Collect domains from all specified sources
     if (options.file) {
@@ -329,29 +583,257 @@ program
     const scanOptions: ScanOptions = {
       concurrency: parseIntOrDefault(options.concurrency, DEFAULT_CONCURRENCY),
       dkimSelectors: options.selectors?.split(',').map((s: string) => s.trim()).filter(Boolean),
+      // Sample headers are harvested by discovery, so --dkim-headers turns it on
+      dkimDiscovery: options.dkimDiscovery ?? (options.dkimHeaders ? true : undefined),
+      dkimSampleHeaders: await readDkimHeadersOrExit(options.dkimHeaders),
+      bimiTrustAnchors: await readBimiRootsOrExit(options.bimiRoots),
       timeout: parseIntOrDefault(options.timeout, DEFAULT_CHECK_TIMEOUT_MS),
       verifyTlsRptEndpoints: options.verifyTlsrptEndpoints,
+      dmarcSpec,
       resolver: options.resolver,
       checks: parseCheckOptions(options.skip, options.only),
     };
 
     const results = await analyzeMultiple(domains, scanOptions);
 
-    if (options.json || options.output) {
-      const output = JSON.stringify(results, null, 2);
-      if (options.output) {
-        await fs.writeFile(options.output, output);
-        console.error(`Results written to ${options.output}`);
-      } else {
-        console.log(output);
+    // Writing to a file defaults to JSON for backward compatibility
+    const output = renderResults(results, format);
+    if (options.output) {
+      await fs.writeFile(options.output, output);
+      console.error(`Results written to ${options.output}`);
+    } else {
+      console.log(output);
+    }
+    await recordHistory(results, options);
+
+    if (options.dmarcPlan) {
+      const planFormat = options.dmarcPlan.toLowerCase().endsWith('.md') ? 'markdown' : 'json';
+      await fs.writeFile(options.dmarcPlan, renderPlans(results.map(assessDmarcReadiness), planFormat));
+      console.error(`DMARC plan written to ${options.dmarcPlan}`);
+    }
+
+    // Changes since the baseline go to stderr so stdout/file output stays parseable
+    const diff = baseline ? diffResults(baseline, results) : undefined;
+    if (diff) {
+      console.error(formatDiff(diff));
+    }
+
+    // A policy replaces the default "fail on F" rule
+    const report = applyPolicy(results, policy);
+    const hasFailures = report ? !report.passed : results.some(r => r.grade === 'F');
+    const hasRegressions = (diff?.regressions ?? 0) > 0;
+    process.exit(hasFailures || hasRegressions ? 1 : 0);
+  });
+
+program
+  .command('diff <baseline> <current>')
+  .description('Compare two result files (from scan -o or --json) and report changes')
+  .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json')
+  .action(async (baselinePath: string, currentPath: string, options) => {
+    const format = resolveFormatOrExit(options.format, options.json, 'text', ['text', 'json']);
+    const baseline = await readResultsOrExit(baselinePath);
+    const current = await readResultsOrExit(currentPath);
+
+    const diff = diffResults(baseline, current);
+    console.log(format === 'json' ? JSON.stringify(diff, null, 2) : formatDiff(diff));
+
+    process.exit(diff.regressions > 0 ? 1 : 0);
+  });
+
+program
+  .command('history [domain]')
+  .description('Show grade/score history for a domain, or the portfolio trend')
+  .option('--history-dir <path>', 'History directory (default: $DNSVET_HISTORY_DIR or ~/.dnsvet/history)')
+  .option('-n, --limit <n>', 'Only consider the most recent n runs')
+  .option('--json', 'Output as JSON')
+  .action(async (domain: string | undefined, options) => {
+    const dir = options.historyDir ?? defaultHistoryDir();
+    const limit = options.limit ? parseIntOrDefault(options.limit, 0) || undefined : undefined;
+
+    let runs;
+    try {
+      runs = await loadRuns(dir, { limit });
+    } catch (err) {
+      console.error(`Error: Cannot read history from ${dir}: ${(err as Error).message}`);
+      process.exit(1);
+    }
+
+    if (domain) {
+      const history = domainHistory(runs, validateDomainOrExit(domain));
+      console.log(options.json ? JSON.stringify(history, null, 2) : formatHistory(history));
+    } else {
+      const trend = portfolioTrend(runs);
+      console.log(options.json ? JSON.stringify(trend, null, 2) : formatTrend(trend));
+    }
+  });
+
+program
+  .command('dkim-rotation [domains...]')
+  .description('Show DKIM key age and rotation per selector from the history store')
+  .option('--history-dir <path>', 'History directory (default: $DNSVET_HISTORY_DIR or ~/.dnsvet/history)')
+  .option('-n, --limit <n>', 'Only consider the most recent n runs')
+  .option('--max-age <days>', 'Flag keys not rotated for more than this many days', String(DKIM_MAX_KEY_AGE_DAYS))
+  .option('--revoked-grace <days>', 'Flag revoked (empty p=) selectors still published after this many days', String(DKIM_REVOKED_GRACE_DAYS))
+  .option('--json', 'Output as JSON')
+  .action(async (domains: string[], options) => {
+    const dir = options.historyDir ?? defaultHistoryDir();
+    const limit = options.limit ? parseIntOrDefault(options.limit, 0) || undefined : undefined;
+
+    let runs;
+    try {
+      runs = await loadRuns(dir, { limit });
+    } catch (err) {
+      console.error(`Error: Cannot read history from ${dir}: ${(err as Error).message}`);
+      process.exit(1);
+    }
+
+    const report = dkimRotation(runs, {
+      domains: domains.length > 0 ? [...new Set(domains.map(validateDomainOrExit))] : undefined,
+      maxAgeDays: parseIntOrDefault(options.maxAge, DKIM_MAX_KEY_AGE_DAYS),
+      revokedGraceDays: parseIntOrDefault(options.revokedGrace, DKIM_REVOKED_GRACE_DAYS),
+    });
+    console.log(options.json ? JSON.stringify(report, null, 2) : formatDkimRotation(report));
+  });
+
+// SPF tools
+const spf = program
+  .command('spf')
+  .description('SPF record tools');
+
+spf
+  .command('flatten <domain>')
+  .description('Generate a flattened SPF record (or _spfN include chain) within the 10-lookup limit')
+  .option('--max-length <bytes>', 'Maximum length of each TXT record (64-450)', '255')
+  .option('--resolver <ip>', 'Custom DNS resolver (e.g., 8.8.8.8)')
+  .option('--json', 'Output as JSON')
+  .action(async (domain: string, options) => {
+    const target = validateDomainOrExit(domain);
+
+    let result;
+    try {
+      result = await flattenSPF(target, {
+        maxLength: parseIntOrDefault(options.maxLength, 255),
+        resolver: options.resolver,
+      });
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    }
+
+    console.log(options.json ? JSON.stringify(result, null, 2) : formatFlatten(result));
+    process.exit(result.withinLimits ? 0 : 1);
+  });
+
+spf
+  .command('test <domain> <ip>')
+  .description('Evaluate the live SPF record for a connecting IP (exit 0 on pass)')
+  .option('--helo <name>', 'HELO/EHLO name of the sending host')
+  .option('--sender <address>', 'MAIL FROM address (default: postmaster@<domain>)')
+  .option('--resolver <ip>', 'Custom DNS resolver (e.g., 8.8.8.8)')
+  .option('--json', 'Output as JSON')
+  .action(async (domain: string, ip: string, options) => {
+    const target = validateDomainOrExit(domain);
+
+    let evaluation;
+    try {
+      evaluation = await evaluateSPF(target, ip, {
+        helo: options.helo,
+        sender: options.sender,
+        resolver: options.resolver,
+      });
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    }
+
+    console.log(options.json ? JSON.stringify(evaluation, null, 2) : formatSPFEvaluation(evaluation));
+    process.exit(evaluation.result === 'pass' ? 0 : 1);
+  });
+
+program
+  .command('dmarc-reports <paths...>')
+  .description('Analyze DMARC aggregate (RUA) reports from XML, gzip or zip files and directories')
+  .option('--domain <domain>', 'Only analyze reports for this domain')
+  .option('--no-live', 'Do not check sources against the live SPF and DKIM records')
+  .option('--resolver <ip>', 'Custom DNS resolver (e.g., 8.8.8.8)')
+  .option('--top <n>', 'Sources to list per domain', '20')
+  .option('--json', 'Output as JSON')
+  .action(async (paths: string[], options) => {
+    const { reports, errors } = await readAggregateReports(paths);
+    for (const error of errors) {
+      console.error(`Warning: Skipped ${error.file}: ${error.message}`);
+    }
+    if (reports.length === 0) {
+      console.error('Error: No DMARC aggregate reports found');
+      process.exit(1);
+    }
+
+    const domain = options.domain ? validateDomainOrExit(options.domain) : undefined;
+    const analyses = analyzeAggregateReports(reports).filter(a => !domain || a.domain === domain);
+    if (options.live) {
+      for (const analysis of analyses) {
+        await crossReferenceLive(analysis, { resolver: options.resolver });
       }
+    }
+
+    console.log(options.json ? JSON.stringify(analyses, null, 2) : formatDmarcReports(analyses, parseIntOrDefault(options.top, 20)));
+  });
+
+program
+  .command('dmarc-plan <domains...>')
+  .description('Plan a staged DMARC rollout to p=reject with the record to publish at each stage')
+  .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json, markdown (default: json with -o, text otherwise)')
+  .option('-o, --output <path>', 'Write the plan to file')
+  .option('-t, --timeout <ms>', 'Timeout per check in milliseconds', '10000')
+  .option('--selectors <selectors>', 'Custom DKIM selectors (comma-separated)')
+  .option('--no-dkim-discovery', 'Probe only --selectors (or the common selectors), without provider and pattern discovery')
+  .option('--dkim-headers <path>', 'Harvest DKIM selectors from the headers of a sample message (.eml or mbox)')
+  .option('--dmarc-spec <spec>', 'DMARC specification: dmarcbis (default) or rfc7489')
+  .option('--resolver <ip>', 'Custom DNS resolver (e.g., 8.8.8.8)')
+  .action(async (domains: string[], options) => {
+    const normalizedDomains = [...new Set(domains.map(validateDomainOrExit))];
+    const format = resolveFormatOrExit(options.format, options.json, options.output ? 'json' : 'text', ['text', 'json', 'markdown']);
+
+    const results = await analyzeMultiple(normalizedDomains, {
+      dkimSelectors: options.selectors?.split(',').map((s: string) => s.trim()).filter(Boolean),
+      dkimDiscovery: options.dkimDiscovery,
+      dkimSampleHeaders: await readDkimHeadersOrExit(options.dkimHeaders),
+      timeout: parseIntOrDefault(options.timeout, DEFAULT_CHECK_TIMEOUT_MS),
+      dmarcSpec: parseDmarcSpecOrExit(options.dmarcSpec),
+      resolver: options.resolver,
+      checks: parseCheckOptions(undefined, 'spf,dkim,dmarc'),
+    });
+    const plans = results.map(assessDmarcReadiness);
+
+    const output = renderPlans(plans, format);
+    if (options.output) {
+      await fs.writeFile(options.output, output);
+      console.error(`DMARC plan written to ${options.output}`);
     } else {
-      // Print summary
-      console.log(formatSummary(results));
+      console.log(output);
+    }
+    process.exit(plans.every(plan => plan.ready) ? 0 : 1);
+  });
+
+program
+  .command('message <file>')
+  .description('Explain how a raw message (.eml) authenticates: DKIM, SPF, DMARC alignment and ARC')
+  .option('--resolver <ip>', 'Custom DNS resolver (e.g., 8.8.8.8)')
+  .option('--json', 'Output as JSON')
+  .action(async (file: string, options) => {
+    let analysis;
+    try {
+      const source = file === '-' ? await readStdinBuffer() : await fs.readFile(file);
+      analysis = await analyzeMessage(source, { resolver: options.resolver });
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
     }
 
-    const hasFailures = results.some(r => r.grade === 'F');
-    process.exit(hasFailures ? 1 : 0);
+    console.log(options.json ? JSON.stringify(analysis, null, 2) : formatMessageAnalysis(analysis));
+    process.exit(analysis.dmarc.result === 'pass' ? 0 : 1);
   });
 
 // Sources subcommand to list domains from cloud providers
@@ -468,13 +950,22 @@ program
 program
   .argument('[domain]')
   .option('--json', 'Output as JSON')
+  .option('--format <format>', 'Output format: text, json, sarif, html, markdown')
   .option('-v, --verbose', 'Show detailed information')
   .option('-t, --timeout <ms>', 'Timeout per check in milliseconds', '10000')
   .option('--selectors <selectors>', 'Custom DKIM selectors (comma-separated)')
+  .option('--no-dkim-discovery', 'Probe only --selectors (or the common selectors), without provider and pattern discovery')
+  .option('--dkim-headers <path>', 'Harvest DKIM selectors from the headers of a sample message (.eml or mbox)')
+  .option('--bimi-roots <path>', 'PEM file of BIMI mark verifying authority roots to validate VMC/CMC chains against')
   .option('--verify-tlsrpt-endpoints', 'Verify TLS-RPT endpoint reachability')
+  .option('--dmarc-spec <spec>', 'DMARC specification: dmarcbis (default) or rfc7489')
   .option('--resolver <ip>', 'Custom DNS resolver (e.g., 8.8.8.8)')
-  .option('--skip <checks>', 'Skip specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec)')
-  .option('--only <checks>', 'Run only specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec)')
+  .option('--skip <checks>', 'Skip specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec,dane,caa)')
+  .option('--only <checks>', 'Run only specific checks (comma-separated: spf,dkim,dmarc,mx,bimi,mta-sts,tls-rpt,arc,dnssec,dane,caa)')
+  .option('--policy <path>', 'Policy file (default: .dnsvet.yml/.dnsvet.json in the current directory)')
+  .option('--fail-on <grade|severity>', 'Exit 1 at this grade or worse (e.g. D), or on issues of this severity or higher (e.g. high)')
+  .option('--save-history', 'Record results in the local history store')
+  .option('--history-dir <path>', 'History directory (default: $DNSVET_HISTORY_DIR or ~/.dnsvet/history)')
   .action(async (domain: string | undefined, options) => {
     if (!domain) {
       program.help();
@@ -483,25 +974,30 @@ program
 
     // Normalize and validate domain (same as check command)
     const normalizedDomain = validateDomainOrExit(domain);
+    const format = resolveFormatOrExit(options.format, options.json);
+    const policy = await resolvePolicyOrExit(options.policy, options.failOn);
 
     const scanOptions: ScanOptions = {
       dkimSelectors: options.selectors?.split(',').map((s: string) => s.trim()).filter(Boolean),
+      dkimDiscovery: options.dkimDiscovery,
+      dkimSampleHeaders: await readDkimHeadersOrExit(options.dkimHeaders),
+      bimiTrustAnchors: await readBimiRootsOrExit(options.bimiRoots),
       verbose: options.verbose,
       timeout: parseIntOrDefault(options.timeout, DEFAULT_CHECK_TIMEOUT_MS),
       verifyTlsRptEndpoints: options.verifyTlsrptEndpoints,
+      dmarcSpec: parseDmarcSpecOrExit(options.dmarcSpec),
       resolver: options.resolver,
       checks: parseCheckOptions(options.skip, options.only),
     };
 
     const result = await analyzeDomain(normalizedDomain, scanOptions);
 
-    if (options.json) {
-      console.log(JSON.stringify(result, null, 2));
-    } else {
-      console.log(formatResult(result, options.verbose));
-    }
+    console.log(renderResult(result, format, options.verbose));
+    await recordHistory([result], options);
 
-    process.exit(result.grade === 'F' ? 1 : 0);
+    const report = applyPolicy([result], policy);
+    const failed = report ? !report.passed : result.grade === 'F';
+    process.exit(failed ? 1 : 0);
   });
 
 async function readStdin(): Promise<string[]> {
@@ -520,4 +1016,15 @@ async function readStdin(): Promise<string[]> {
   return domains;
 }
 
+/**
+ * Read all of stdin as raw bytes
+ */
+async function readStdinBuffer(): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
 program.parse();
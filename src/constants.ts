@@ -6,17 +6,25 @@
 // SPF limits (RFC 7208)
 export const SPF_MAX_DNS_LOOKUPS = 10;
 export const SPF_MAX_RECURSION_DEPTH = 10;
+export const SPF_MAX_VOID_LOOKUPS = 2;
+export const SPF_MAX_MX_HOSTS = 10;
+export const SPF_MAX_TXT_STRING = 255; // One TXT character-string (RFC 1035)
+export const SPF_MAX_RECORD_LENGTH = 450; // Keeps the answer within 512-byte UDP (RFC 7208 Section 3.4)
 
 // Timeouts
 export const DEFAULT_CHECK_TIMEOUT_MS = 10000;
 export const DEFAULT_HTTP_TIMEOUT_MS = 5000;
 export const DEFAULT_CONCURRENCY = 5;
+export const DEFAULT_DNS_TIMEOUT_MS = 3000;
+
+// EDNS0 UDP payload size (DNS Flag Day 2020 recommendation)
+export const DNS_EDNS_UDP_SIZE = 1232;
 
 // Scoring weights (max 100 base + 15 bonus)
 export const SCORE_SPF_MAX = 35;
 export const SCORE_DKIM_MAX = 25;
 export const SCORE_DMARC_MAX = 40;
-export const SCORE_BONUS_MAX = 20; // BIMI(5) + MTA-STS(4) + TLS-RPT(3) + ARC(3) + DNSSEC(5)
+export const SCORE_BONUS_MAX = 20; // BIMI(5) + MTA-STS(4) + TLS-RPT(3) + ARC(3) + DNSSEC(5) + DANE(4) + CAA(2), capped
 
 // Grade thresholds
 export const GRADE_A_MIN = 90;
@@ -24,10 +32,20 @@ export const GRADE_B_MIN = 75;
 export const GRADE_C_MIN = 50;
 export const GRADE_D_MIN = 25;
 
+// DNSSEC validation: signatures are reported as expiring once less than this
+// share of their validity period remains, but never more than the days before expiry
+export const DNSSEC_SIGNATURE_EXPIRY_WARN_FRACTION = 0.2;
+export const DNSSEC_SIGNATURE_EXPIRY_WARN_DAYS = 7;
+export const DNSSEC_MAX_CHAIN_DEPTH = 16;
+
 // Key length thresholds
 export const DKIM_WEAK_KEY_BITS = 1024;
 export const DKIM_STRONG_KEY_BITS = 2048;
 
+// DKIM rotation report: keys older than this are stale, revoked selectors older than this linger
+export const DKIM_MAX_KEY_AGE_DAYS = 180;
+export const DKIM_REVOKED_GRACE_DAYS = 30;
+
 // DNS record prefixes
 export const DNS_PREFIX = {
   SPF: 'v=spf1',
@@ -46,6 +64,19 @@ export const DNS_SUBDOMAIN = {
   TLS_RPT: '_smtp._tls',
 } as const;
 
+// BIMI logo size: the BIMI Group's recommended maximum, and where fetching stops
+export const BIMI_LOGO_MAX_BYTES = 32 * 1024;
+export const BIMI_LOGO_FETCH_LIMIT_BYTES = 1024 * 1024;
+
+// BIMI mark certificates (VMC/CMC)
+export const BIMI_CERT_FETCH_LIMIT_BYTES = 256 * 1024;
+export const BIMI_CERT_EXPIRY_WARN_DAYS = 30;
+export const BIMI_EKU_OID = '1.3.6.1.5.5.7.3.31';
+export const LOGOTYPE_EXTENSION_OID = '1.3.6.1.5.5.7.1.12'; // RFC 3709
+export const BIMI_MARK_TYPE_OID = '1.3.6.1.4.1.53087.1.13';  // Subject attribute
+// markType values of Common Mark Certificates; other marks (Registered, Government) are VMCs
+export const BIMI_CMC_MARK_TYPES = ['Prior Use Mark', 'Modified Registered Mark'];
+
 // Common BIMI selectors
 export const COMMON_BIMI_SELECTORS = [
   'default',
@@ -83,6 +114,32 @@ export const COMMON_DKIM_SELECTORS = [
   'zendesk2',
 ] as const;
 
+// DKIM selectors of sending providers, inferred from MX hosts and SPF includes
+export const DKIM_PROVIDER_SELECTORS: ReadonlyArray<{ name: string; mx?: RegExp; spf?: RegExp; selectors: readonly string[] }> = [
+  { name: 'Google Workspace', mx: /(^|\.)(google|googlemail)\.com$/i, spf: /(^|\.)_spf\.google\.com$/i, selectors: ['google'] },
+  { name: 'Microsoft 365', mx: /\.protection\.outlook\.com$/i, spf: /(^|\.)spf\.protection\.outlook\.com$/i, selectors: ['selector1', 'selector2'] },
+  { name: 'SendGrid', mx: /(^|\.)sendgrid\.net$/i, spf: /(^|\.)sendgrid\.net$/i, selectors: ['s1', 's2', 'smtpapi'] },
+  { name: 'Mailchimp', spf: /(^|\.)mcsv\.net$/i, selectors: ['k1', 'k2', 'k3'] },
+  { name: 'Mandrill', spf: /(^|\.)mandrillapp\.com$/i, selectors: ['mandrill', 'mte1', 'mte2'] },
+  { name: 'Amazon SES', mx: /(^|\.)amazonaws\.com$/i, spf: /(^|\.)amazonses\.com$/i, selectors: ['amazonses'] },
+  { name: 'Mailgun', mx: /(^|\.)mailgun\.org$/i, spf: /(^|\.)mailgun\.org$/i, selectors: ['smtp', 'mailo', 'k1', 'krs', 'pic'] },
+  { name: 'Postmark', mx: /(^|\.)postmarkapp\.com$/i, spf: /(^|\.)spf\.mtasv\.net$/i, selectors: ['pm'] },
+  { name: 'Zendesk', spf: /(^|\.)zendesk\.com$/i, selectors: ['zendesk1', 'zendesk2'] },
+  { name: 'HubSpot', spf: /(^|\.)hubspotemail\.net$/i, selectors: ['hs1', 'hs2'] },
+  { name: 'Brevo', spf: /(^|\.)(sendinblue|brevo)\.com$/i, selectors: ['mail', 'brevo1', 'brevo2'] },
+  { name: 'Zoho Mail', mx: /(^|\.)zoho\.(com|eu|in)$/i, spf: /(^|\.)zoho\.(com|eu|in)$/i, selectors: ['zoho', 'zmail'] },
+  { name: 'Fastmail', mx: /(^|\.)(fastmail\.com|messagingengine\.com)$/i, spf: /(^|\.)messagingengine\.com$/i, selectors: ['fm1', 'fm2', 'fm3'] },
+  { name: 'Apple iCloud', mx: /(^|\.)mail\.icloud\.com$/i, spf: /(^|\.)icloud\.com$/i, selectors: ['sig1'] },
+  { name: 'Mimecast', mx: /(^|\.)mimecast\.com$/i, spf: /(^|\.)mimecast\.com$/i, selectors: ['mimecast'] },
+];
+
+// Amazon SES Easy DKIM selectors are random 32-character tokens
+export const SES_DKIM_TOKEN = /^[a-z0-9]{32}$/;
+
+// Selector prefixes probed with sequence numbers (s1..s4, dkim1..dkim4, ...)
+export const DKIM_SEQUENCE_PREFIXES = ['s', 'k', 'selector', 'dkim', 'key', 'sel', 'sig'] as const;
+export const DKIM_SEQUENCE_MAX = 4;
+
 // Email provider patterns for MX detection
 export const EMAIL_PROVIDERS = [
   { pattern: /google\.com$|googlemail\.com$/i, name: 'Google Workspace' },
@@ -103,11 +160,73 @@ export const EMAIL_PROVIDERS = [
   { pattern: /fastmail\.com$/i, name: 'Fastmail' },
 ] as const;
 
-// Valid DMARC tags per RFC 7489
+// SPF includes of providers that rotate their sending ranges; flattening them needs regular refreshes
+export const SPF_VOLATILE_INCLUDES = [
+  { pattern: /(^|\.)_spf\.google\.com$/i, name: 'Google Workspace' },
+  { pattern: /(^|\.)spf\.protection\.outlook\.com$/i, name: 'Microsoft 365' },
+  { pattern: /(^|\.)amazonses\.com$/i, name: 'Amazon SES' },
+  { pattern: /(^|\.)sendgrid\.net$/i, name: 'SendGrid' },
+  { pattern: /(^|\.)mailgun\.org$/i, name: 'Mailgun' },
+  { pattern: /(^|\.)mcsv\.net$/i, name: 'Mailchimp' },
+  { pattern: /(^|\.)mandrillapp\.com$/i, name: 'Mandrill' },
+  { pattern: /(^|\.)salesforce\.com$/i, name: 'Salesforce' },
+  { pattern: /(^|\.)zendesk\.com$/i, name: 'Zendesk' },
+  { pattern: /(^|\.)spf\.mtasv\.net$/i, name: 'Postmark' },
+] as const;
+
+// Certificate authorities by CAA issuer domain
+export const CAA_ISSUERS: Record<string, string> = {
+  'letsencrypt.org': "Let's Encrypt",
+  'pki.goog': 'Google Trust Services',
+  'amazon.com': 'Amazon',
+  'amazontrust.com': 'Amazon',
+  'amazonaws.com': 'Amazon',
+  'awstrust.com': 'Amazon',
+  'digicert.com': 'DigiCert',
+  'symantec.com': 'DigiCert',
+  'geotrust.com': 'DigiCert',
+  'rapidssl.com': 'DigiCert',
+  'sectigo.com': 'Sectigo',
+  'comodoca.com': 'Sectigo',
+  'globalsign.com': 'GlobalSign',
+  'godaddy.com': 'GoDaddy',
+  'starfieldtech.com': 'GoDaddy',
+  'entrust.net': 'Entrust',
+  'ssl.com': 'SSL.com',
+  'buypass.com': 'Buypass',
+  'zerossl.com': 'ZeroSSL',
+  'harica.gr': 'HARICA',
+  'certum.pl': 'Certum',
+  'secomtrust.net': 'SECOM',
+  'jprs.jp': 'JPRS',
+};
+
+// CAA property tags understood by this checker (RFC 8659 §4.2-4.4, RFC 8657)
+export const KNOWN_CAA_TAGS = new Set([
+  'issue', 'issuewild', 'iodef', 'issuemail', 'contactemail', 'contactphone'
+]);
+
+// Valid DMARC tags per RFC 7489, plus np (RFC 9091)
 export const VALID_DMARC_TAGS = new Set([
-  'v', 'p', 'sp', 'rua', 'ruf', 'adkim', 'aspf', 'fo', 'rf', 'ri', 'pct'
+  'v', 'p', 'sp', 'np', 'rua', 'ruf', 'adkim', 'aspf', 'fo', 'rf', 'ri', 'pct'
 ]);
 
+// DMARCbis adds psd and t; pct, rf and ri are still parsed but deprecated
+export const DMARCBIS_TAGS = new Set([...VALID_DMARC_TAGS, 'psd', 't']);
+export const DEPRECATED_DMARC_TAGS: Record<string, string> = {
+  pct: 'Remove pct=; DMARCbis replaces partial enforcement with t=y (testing)',
+  rf: 'Remove rf=; failure reports always use the AFRF format',
+  ri: 'Remove ri=; receivers choose the aggregate report interval',
+};
+
+// DMARCbis tree walk: names longer than this are shortened to it before walking up
+export const DMARC_TREE_WALK_MAX_LABELS = 7;
+
+// DMARC aggregate report attachments: largest decompressed report, and the
+// total a single archive may expand to
+export const DMARC_REPORT_MAX_BYTES = 64 * 1024 * 1024;
+export const DMARC_REPORT_ARCHIVE_MAX_BYTES = 256 * 1024 * 1024;
+
 // DMARC policy values
 export const DMARC_POLICIES = ['none', 'quarantine', 'reject'] as const;
 export type DMARCPolicy = typeof DMARC_POLICIES[number];
@@ -9,10 +9,12 @@ vi.mock('node:dns/promises', async () => {
     ...actual,
     resolveTxt: vi.fn(),
     resolveMx: vi.fn(),
+    resolveCaa: vi.fn(),
     Resolver: vi.fn().mockImplementation(() => ({
       setServers: vi.fn(),
       resolveTxt: vi.fn(),
       resolveMx: vi.fn(),
+      resolveCaa: vi.fn(),
     })),
   };
 });
@@ -20,17 +22,20 @@ vi.mock('node:dns/promises', async () => {
 // Mock fetch for MTA-STS/TLS-RPT/BIMI
 vi.stubGlobal('fetch', vi.fn());
 
-// Mock child_process for DNSSEC
-vi.mock('node:child_process', async () => {
-  const actual = await vi.importActual('node:child_process');
+// Mock the wire-protocol resolver for DNSSEC (empty NOERROR answers)
+vi.mock('../utils/dns-wire.js', async () => {
+  const actual = await vi.importActual('../utils/dns-wire.js');
   return {
     ...actual,
-    execFile: vi.fn((cmd, args, opts, callback) => {
-      if (typeof opts === 'function') {
-        callback = opts;
-      }
-      if (callback) callback(null, { stdout: '', stderr: '' });
-    }),
+    queryDns: vi.fn(async () => ({
+      id: 0,
+      flags: { qr: true, aa: false, tc: false, rd: true, ra: true, ad: false, cd: false },
+      rcode: 0,
+      questions: [],
+      answers: [],
+      authorities: [],
+      additionals: [],
+    })),
   };
 });
 
@@ -46,6 +51,7 @@ describe('analyzeDomain', () => {
     // Default: return empty for all DNS queries
     mockResolveTxt.mockResolvedValue([]);
     mockResolveMx.mockResolvedValue([]);
+    vi.mocked(dns.resolveCaa).mockResolvedValue([]);
     
     // Default: fetch fails (no MTA-STS/BIMI)
     mockFetch.mockRejectedValue(new Error('Not found'));
@@ -231,6 +237,14 @@ describe('analyzeMultiple', () => {
     expect(results.length).toBe(5);
   });
 
+  it('should run DKIM selector discovery only when asked', async () => {
+    const [plain] = await analyzeMultiple(['example.com']);
+    const [discovered] = await analyzeMultiple(['example.com'], { dkimDiscovery: true });
+
+    expect(plain.dkim.discovery).toBeUndefined();
+    expect(discovered.dkim.discovery).toBeDefined();
+  });
+
   it('should handle empty domain list', async () => {
     const results = await analyzeMultiple([]);
     
@@ -2,16 +2,17 @@
  * Domain email security analyzer
  */
 
-import { checkSPF, checkDKIM, checkDMARC, checkMX, checkBIMI, checkMTASTS, checkTLSRPT, checkARCReadiness, checkDNSSEC, checkWhois } from '../checks/index.js';
+import { checkSPF, checkDKIM, checkDMARC, checkMX, checkBIMI, checkMTASTS, checkTLSRPT, checkARCReadiness, checkDNSSEC, checkDANE, checkCAA, checkWhois } from '../checks/index.js';
 import { calculateGrade, generateRecommendations } from './scorer.js';
-import type { DomainResult, ScanOptions, SPFResult, DKIMResult, DMARCResult, MXResult, BIMIResult, MTASTSResult, TLSRPTResult, DNSSECResult, WhoisResult } from '../types.js';
+import type { CheckName, DomainResult, Issue, ScanOptions, SPFResult, DKIMResult, DMARCResult, MXResult, BIMIResult, MTASTSResult, TLSRPTResult, DNSSECResult, DANEResult, CAAResult, WhoisResult } from '../types.js';
 import { COMMON_DKIM_SELECTORS, normalizeDomain } from '../types.js';
 import { isValidDomain, setDnsResolver, clearDnsCache } from '../utils/index.js';
 
 /**
  * Create a failed result for a check that errored
  */
-function createFailedResult<T extends { found: boolean; issues: Array<{ severity: string; message: string; recommendation?: string }> }>(
+function createFailedResult<T extends { found: boolean; issues: Issue[] }>(
+  check: CheckName,
   checkName: string, 
   error: string, 
   defaults: Omit<T, 'found' | 'issues'>
@@ -19,6 +20,8 @@ function createFailedResult<T extends { found: boolean; issues: Array<{ severity
   return {
     found: false,
     issues: [{
+      code: `${checkName}-CHECK-FAILED`,
+      check,
       severity: 'high' as const,
       message: `${checkName} check failed: ${error}`,
       recommendation: 'Check DNS configuration and try again'
@@ -81,60 +84,73 @@ export async function analyzeDomain(
   const checks = options.checks || {};
   const isEnabled = (check: keyof typeof checks): boolean => checks[check] !== false;
 
+  // DANE needs the MX hosts, so both share a single MX lookup
+  const mxLookup = isEnabled('mx') || isEnabled('dane') ? checkMX(domain) : undefined;
+
   // Build check promises (skip disabled checks)
   const checkPromises = [
     isEnabled('spf') ? wrapWithTimeout(checkSPF(domain), 'SPF') : Promise.resolve({ found: false, skipped: true, issues: [] } as SPFResult),
-    isEnabled('dkim') ? wrapWithTimeout(checkDKIM(domain, dkimSelectors), 'DKIM') : Promise.resolve({ found: false, skipped: true, selectors: [], issues: [] } as DKIMResult),
-    isEnabled('dmarc') ? wrapWithTimeout(checkDMARC(domain), 'DMARC') : Promise.resolve({ found: false, skipped: true, issues: [] } as DMARCResult),
-    isEnabled('mx') ? wrapWithTimeout(checkMX(domain), 'MX') : Promise.resolve({ found: false, skipped: true, records: [], issues: [] } as MXResult),
-    isEnabled('bimi') ? wrapWithTimeout(checkBIMI(domain), 'BIMI') : Promise.resolve({ found: false, skipped: true, issues: [] } as BIMIResult),
+    isEnabled('dkim') ? wrapWithTimeout(checkDKIM(domain, dkimSelectors, { discover: options.dkimDiscovery !== false, sampleHeaders: options.dkimSampleHeaders }), 'DKIM') : Promise.resolve({ found: false, skipped: true, selectors: [], issues: [] } as DKIMResult),
+    isEnabled('dmarc') ? wrapWithTimeout(checkDMARC(domain, { spec: options.dmarcSpec }), 'DMARC') : Promise.resolve({ found: false, skipped: true, issues: [] } as DMARCResult),
+    isEnabled('mx') ? wrapWithTimeout(mxLookup!, 'MX') : Promise.resolve({ found: false, skipped: true, records: [], issues: [] } as MXResult),
+    isEnabled('bimi') ? wrapWithTimeout(checkBIMI(domain, { timeout, trustAnchors: options.bimiTrustAnchors }), 'BIMI') : Promise.resolve({ found: false, skipped: true, issues: [] } as BIMIResult),
     isEnabled('mtaSts') ? wrapWithTimeout(checkMTASTS(domain, { timeout }), 'MTA-STS') : Promise.resolve({ found: false, skipped: true, issues: [] } as MTASTSResult),
     isEnabled('tlsRpt') ? wrapWithTimeout(checkTLSRPT(domain, { verifyEndpoints: options.verifyTlsRptEndpoints, timeout }), 'TLS-RPT') : Promise.resolve({ found: false, skipped: true, issues: [] } as TLSRPTResult),
     isEnabled('dnssec') ? wrapWithTimeout(checkDNSSEC(domain, { resolver: options.resolver }), 'DNSSEC') : Promise.resolve({ enabled: false, skipped: true, issues: [] } as DNSSECResult),
+    isEnabled('dane') ? wrapWithTimeout(mxLookup!.then(result => checkDANE(domain, result.records, { resolver: options.resolver })), 'DANE') : Promise.resolve({ found: false, skipped: true, hosts: [], issues: [] } as DANEResult),
+    isEnabled('caa') ? wrapWithTimeout(checkCAA(domain), 'CAA') : Promise.resolve({ found: false, skipped: true, records: [], iodef: [], issues: [] } as CAAResult),
     isEnabled('whois') ? wrapWithTimeout(checkWhois(domain, { timeout }), 'WHOIS') : Promise.resolve({ found: false, skipped: true, issues: [] } as WhoisResult),
   ] as const;
 
   // Use Promise.allSettled to handle individual failures gracefully
-  const [spfResult, dkimResult, dmarcResult, mxResult, bimiResult, mtaStsResult, tlsRptResult, dnssecResult, whoisResult] = await Promise.allSettled(checkPromises);
+  const [spfResult, dkimResult, dmarcResult, mxResult, bimiResult, mtaStsResult, tlsRptResult, dnssecResult, daneResult, caaResult, whoisResult] = await Promise.allSettled(checkPromises);
 
   // Extract results, creating failed results for rejected promises
   const spf: SPFResult = spfResult.status === 'fulfilled' 
     ? spfResult.value 
-    : createFailedResult<SPFResult>('SPF', spfResult.reason?.message || 'Unknown error', {});
+    : createFailedResult<SPFResult>('spf', 'SPF', spfResult.reason?.message || 'Unknown error', {});
 
   const dkim: DKIMResult = dkimResult.status === 'fulfilled'
     ? dkimResult.value
-    : createFailedResult<DKIMResult>('DKIM', dkimResult.reason?.message || 'Unknown error', { selectors: [] });
+    : createFailedResult<DKIMResult>('dkim', 'DKIM', dkimResult.reason?.message || 'Unknown error', { selectors: [] });
 
   const dmarc: DMARCResult = dmarcResult.status === 'fulfilled'
     ? dmarcResult.value
-    : createFailedResult<DMARCResult>('DMARC', dmarcResult.reason?.message || 'Unknown error', {});
+    : createFailedResult<DMARCResult>('dmarc', 'DMARC', dmarcResult.reason?.message || 'Unknown error', {});
 
   const mx: MXResult = mxResult.status === 'fulfilled'
     ? mxResult.value
-    : createFailedResult<MXResult>('MX', mxResult.reason?.message || 'Unknown error', { records: [] });
+    : createFailedResult<MXResult>('mx', 'MX', mxResult.reason?.message || 'Unknown error', { records: [] });
 
   const bimi: BIMIResult | undefined = bimiResult.status === 'fulfilled'
     ? bimiResult.value ?? undefined
-    : bimiResult.reason ? createFailedResult<BIMIResult>('BIMI', bimiResult.reason?.message || 'Unknown error', {}) : undefined;
+    : bimiResult.reason ? createFailedResult<BIMIResult>('bimi', 'BIMI', bimiResult.reason?.message || 'Unknown error', {}) : undefined;
 
   const mtaSts: MTASTSResult | undefined = mtaStsResult.status === 'fulfilled'
     ? mtaStsResult.value ?? undefined
-    : mtaStsResult.reason ? createFailedResult<MTASTSResult>('MTA-STS', mtaStsResult.reason?.message || 'Unknown error', {}) : undefined;
+    : mtaStsResult.reason ? createFailedResult<MTASTSResult>('mta-sts', 'MTA-STS', mtaStsResult.reason?.message || 'Unknown error', {}) : undefined;
 
   const tlsRpt: TLSRPTResult | undefined = tlsRptResult.status === 'fulfilled'
     ? tlsRptResult.value ?? undefined
-    : tlsRptResult.reason ? createFailedResult<TLSRPTResult>('TLS-RPT', tlsRptResult.reason?.message || 'Unknown error', {}) : undefined;
+    : tlsRptResult.reason ? createFailedResult<TLSRPTResult>('tls-rpt', 'TLS-RPT', tlsRptResult.reason?.message || 'Unknown error', {}) : undefined;
 
   // DNSSEC result (uses different structure, handle separately)
   const dnssec: DNSSECResult | undefined = dnssecResult.status === 'fulfilled'
     ? dnssecResult.value
-    : { enabled: false, issues: [{ severity: 'high' as const, message: `DNSSEC check failed: ${dnssecResult.reason?.message || 'Unknown error'}` }] };
+    : { enabled: false, issues: [{ code: 'DNSSEC-CHECK-FAILED', check: 'dnssec', severity: 'high' as const, message: `DNSSEC check failed: ${dnssecResult.reason?.message || 'Unknown error'}` }] };
+
+  const dane: DANEResult | undefined = daneResult.status === 'fulfilled'
+    ? daneResult.value
+    : createFailedResult<DANEResult>('dane', 'DANE', daneResult.reason?.message || 'Unknown error', { hosts: [] });
+
+  const caa: CAAResult | undefined = caaResult.status === 'fulfilled'
+    ? caaResult.value
+    : createFailedResult<CAAResult>('caa', 'CAA', caaResult.reason?.message || 'Unknown error', { records: [], iodef: [] });
 
   // WHOIS/RDAP result
   const whois: WhoisResult | undefined = whoisResult.status === 'fulfilled'
     ? whoisResult.value
-    : { found: false, issues: [{ severity: 'info' as const, message: `WHOIS check failed: ${whoisResult.reason?.message || 'Unknown error'}` }] };
+    : { found: false, issues: [{ code: 'WHOIS-CHECK-FAILED', check: 'whois', severity: 'info' as const, message: `WHOIS check failed: ${whoisResult.reason?.message || 'Unknown error'}` }] };
 
   // ARC readiness is derived from SPF/DKIM/DMARC — skip if any prerequisite is disabled
   const arcSkipped = !isEnabled('arc') || !isEnabled('spf') || !isEnabled('dkim') || !isEnabled('dmarc');
@@ -146,12 +162,16 @@ export async function analyzeDomain(
   if (bimi?.found) {
     if (!dmarc.found) {
       bimi.issues.push({
+        code: 'BIMI-DMARC-MISSING',
+        check: 'bimi',
         severity: 'high',
         message: 'BIMI requires DMARC to be configured',
         recommendation: 'Add a DMARC record with p=quarantine or p=reject'
       });
     } else if (dmarc.policy === 'none' || !dmarc.policy) {
       bimi.issues.push({
+        code: 'BIMI-DMARC-NOT-ENFORCED',
+        check: 'bimi',
         severity: 'high',
         message: 'BIMI requires DMARC policy of quarantine or reject',
         recommendation: 'Upgrade DMARC policy from none to quarantine or reject'
@@ -177,16 +197,19 @@ export async function analyzeDomain(
       
       if (!matched) {
         mtaSts.issues.push({
+          code: 'MTA-STS-MX-NOT-COVERED',
+          check: 'mta-sts',
           severity: 'high',
           message: `MX host "${mxHost}" not covered by MTA-STS policy`,
-          recommendation: `Add "mx: ${mxHost}" or appropriate wildcard to MTA-STS policy`
+          recommendation: `Add "mx: ${mxHost}" or appropriate wildcard to MTA-STS policy`,
+          evidence: { tag: 'mx', value: mxHost }
         });
       }
     }
   }
 
-  const { grade, score } = calculateGrade(spf, dkim, dmarc, mx, bimi, mtaSts, tlsRpt, arc, dnssec);
-  const recommendations = generateRecommendations(spf, dkim, dmarc, mx, bimi, mtaSts, tlsRpt, arc, dnssec);
+  const { grade, score } = calculateGrade(spf, dkim, dmarc, mx, bimi, mtaSts, tlsRpt, arc, dnssec, dane, caa);
+  const recommendations = generateRecommendations(spf, dkim, dmarc, mx, bimi, mtaSts, tlsRpt, arc, dnssec, dane, caa);
 
   // Append WHOIS recommendations from issues
   if (whois && !whois.skipped && whois.issues.length > 0) {
@@ -209,6 +232,8 @@ export async function analyzeDomain(
   if (mtaStsResult.status === 'rejected') errors.push(`MTA-STS: ${mtaStsResult.reason?.message}`);
   if (tlsRptResult.status === 'rejected') errors.push(`TLS-RPT: ${tlsRptResult.reason?.message}`);
   if (dnssecResult.status === 'rejected') errors.push(`DNSSEC: ${dnssecResult.reason?.message}`);
+  if (daneResult.status === 'rejected') errors.push(`DANE: ${daneResult.reason?.message}`);
+  if (caaResult.status === 'rejected') errors.push(`CAA: ${caaResult.reason?.message}`);
   if (whoisResult.status === 'rejected') errors.push(`WHOIS: ${whoisResult.reason?.message}`);
 
   return {
@@ -225,6 +250,8 @@ export async function analyzeDomain(
     tlsRpt,
     arc,
     dnssec,
+    dane,
+    caa,
     whois,
     recommendations,
     ...(errors.length > 0 ? { error: errors.join('; ') } : {}),
@@ -237,16 +264,48 @@ export async function analyzeMultiple(
 ): Promise<DomainResult[]> {
   const concurrency = options.concurrency || 5;
   const results: DomainResult[] = [];
+  // Discovery multiplies the DKIM lookups per domain, so bulk scans opt in to it
+  const domainOptions: ScanOptions = { ...options, dkimDiscovery: options.dkimDiscovery ?? false };
 
   // Process in batches
   for (let i = 0; i < domains.length; i += concurrency) {
     const batch = domains.slice(i, i + concurrency);
     clearDnsCache();
     const batchResults = await Promise.all(
-      batch.map(domain => analyzeDomain(domain, options))
+      batch.map(domain => analyzeDomain(domain, domainOptions))
     );
     results.push(...batchResults);
   }
 
+  flagSharedDkimKeys(results);
   return results;
 }
+
+/**
+ * Flag DKIM keys published by more than one domain in a scan: a compromise
+ * of the private key lets the holder sign for all of them
+ */
+function flagSharedDkimKeys(results: DomainResult[]): void {
+  const owners = new Map<string, { domain: string; selector: string }[]>();
+  for (const result of results) {
+    for (const sel of result.dkim.selectors) {
+      if (!sel.keyFingerprint || sel.wildcard) continue;
+      owners.set(sel.keyFingerprint, [...(owners.get(sel.keyFingerprint) ?? []), { domain: result.domain, selector: sel.selector }]);
+    }
+  }
+
+  for (const result of results) {
+    for (const sel of result.dkim.selectors) {
+      const others = (sel.keyFingerprint && !sel.wildcard ? owners.get(sel.keyFingerprint) ?? [] : []).filter(owner => owner.domain !== result.domain);
+      if (others.length === 0) continue;
+      result.dkim.issues.push({
+        code: 'DKIM-KEY-SHARED',
+        check: 'dkim',
+        severity: 'low',
+        message: `DKIM selector "${sel.selector}" publishes the same key as ${others.map(other => `${other.selector}._domainkey.${other.domain}`).join(', ')}`,
+        recommendation: 'Use a separate key pair per domain so one leaked or rotated key does not affect the others',
+        evidence: { name: `${sel.selector}._domainkey.${result.domain}`, value: sel.keyFingerprint }
+      });
+    }
+  }
+}
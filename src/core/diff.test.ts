@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { diffResults, diffDomain, parseResults } from './diff.js';
+import type { Issue } from '../types.js';
+import { createResult } from '../testing/results.js';
+
+const issue = (code: string, severity: Issue['severity'] = 'medium', value?: string): Issue => ({
+  code,
+  check: 'dmarc',
+  severity,
+  message: `${code} message`,
+  ...(value ? { evidence: { value } } : {})
+});
+
+describe('diffDomain', () => {
+  it('returns undefined when nothing changed', () => {
+    expect(diffDomain(createResult('example.com'), createResult('example.com'))).toBeUndefined();
+  });
+
+  it('ignores the timestamp and recommendation text', () => {
+    const after = createResult('example.com', { timestamp: '2026-10-02T00:00:00Z', recommendations: ['x'] });
+    expect(diffDomain(createResult('example.com'), after)).toBeUndefined();
+  });
+
+  it('reports grade and score changes', () => {
+    const diff = diffDomain(createResult('example.com'), createResult('example.com', { grade: 'A', score: 92 }));
+
+    expect(diff).toMatchObject({ before: { grade: 'B', score: 80 }, after: { grade: 'A', score: 92 }, regression: false });
+  });
+
+  it('marks a score drop as a regression', () => {
+    const diff = diffDomain(createResult('example.com'), createResult('example.com', { score: 78 }));
+    expect(diff?.regression).toBe(true);
+  });
+
+  it('reports new and resolved issues', () => {
+    const before = createResult('example.com', { dmarc: { found: true, policy: 'quarantine', issues: [issue('DMARC-NO-RUA')] } });
+    const after = createResult('example.com', { dmarc: { found: true, policy: 'quarantine', issues: [issue('DMARC-PCT-PARTIAL', 'high')] } });
+
+    const diff = diffDomain(before, after);
+
+    expect(diff?.newIssues.map(i => i.code)).toEqual(['DMARC-PCT-PARTIAL']);
+    expect(diff?.resolvedIssues.map(i => i.code)).toEqual(['DMARC-NO-RUA']);
+    expect(diff?.regression).toBe(true); // new high-severity issue
+  });
+
+  it('distinguishes issues by evidence', () => {
+    const before = createResult('example.com', { dmarc: { found: true, issues: [issue('DMARC-RUA-INVALID', 'low', 'a@x')] } });
+    const after = createResult('example.com', { dmarc: { found: true, issues: [issue('DMARC-RUA-INVALID', 'low', 'b@x')] } });
+
+    const diff = diffDomain(before, after);
+
+    expect(diff?.newIssues).toHaveLength(1);
+    expect(diff?.resolvedIssues).toHaveLength(1);
+  });
+
+  it('falls back to the message for results without issue codes', () => {
+    const legacy = { severity: 'low', message: 'Old finding' } as Issue;
+    const before = createResult('example.com', { dmarc: { found: true, issues: [legacy] } });
+
+    expect(diffDomain(before, before)).toBeUndefined();
+  });
+
+  it('reports record-level changes', () => {
+    const before = createResult('example.com', {
+      spf: { found: true, record: 'v=spf1 include:_spf.google.com -all', mechanism: '-all', issues: [] },
+      dkim: { found: true, selectors: [{ selector: 'google', found: true }, { selector: 'default', found: false }], issues: [] },
+    });
+    const after = createResult('example.com', {
+      spf: { found: true, record: 'v=spf1 -all', issues: [] },
+      dmarc: { found: true, policy: 'reject', issues: [] },
+      dkim: { found: true, selectors: [{ selector: 'selector1', found: true }, { selector: 'google', found: true }], issues: [] },
+      mtaSts: { found: true, policy: { mode: 'enforce' }, issues: [] },
+    });
+
+    const diff = diffDomain(before, after);
+
+    expect(diff?.recordChanges).toEqual([
+      { field: 'spf.record', before: 'v=spf1 include:_spf.google.com -all', after: 'v=spf1 -all' },
+      { field: 'dmarc.policy', before: 'quarantine', after: 'reject' },
+      { field: 'dkim.selectors', before: 'google', after: 'google,selector1' },
+      { field: 'mta-sts.mode', before: undefined, after: 'enforce' },
+    ]);
+  });
+});
+
+describe('diffResults', () => {
+  it('reports added, removed, changed and unchanged domains', () => {
+    const baseline = [createResult('a.com'), createResult('b.com'), createResult('c.com')];
+    const current = [createResult('a.com'), createResult('b.com', { grade: 'C', score: 60 }), createResult('d.com')];
+
+    const diff = diffResults(baseline, current);
+
+    expect(diff.added.map(r => r.domain)).toEqual(['d.com']);
+    expect(diff.removed.map(r => r.domain)).toEqual(['c.com']);
+    expect(diff.changed.map(d => d.domain)).toEqual(['b.com']);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.regressions).toBe(1);
+  });
+
+  it('lists regressions before improvements', () => {
+    const baseline = [createResult('up.com'), createResult('down.com')];
+    const current = [createResult('up.com', { score: 90, grade: 'A' }), createResult('down.com', { score: 70 })];
+
+    expect(diffResults(baseline, current).changed.map(d => d.domain)).toEqual(['down.com', 'up.com']);
+  });
+});
+
+describe('parseResults', () => {
+  it('accepts scan arrays and single check results', () => {
+    const result = createResult('example.com');
+    expect(parseResults(JSON.stringify([result]))).toHaveLength(1);
+    expect(parseResults(JSON.stringify(result))[0].domain).toBe('example.com');
+  });
+
+  it('rejects other JSON', () => {
+    expect(() => parseResults('{"foo": 1}')).toThrow(/Invalid results file/);
+    expect(() => parseResults('[1, 2]')).toThrow(/Invalid results file/);
+    expect(() => parseResults('not json')).toThrow();
+  });
+});
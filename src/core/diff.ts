@@ -0,0 +1,130 @@
+/**
+ * Compare two sets of scan results (baseline vs current)
+ */
+
+import type { DomainResult, DomainDiff, Grade, Issue, RecordChange, ResultDiff } from '../types.js';
+import { collectAllIssues } from '../output.js';
+
+const GRADE_RANK: Record<Grade, number> = { A: 0, B: 1, C: 2, D: 3, F: 4 };
+
+/**
+ * Parse scan output (`scan --json` array or `check --json` object) into results.
+ * Throws if the JSON does not look like DNSVet results.
+ */
+export function parseResults(json: string): DomainResult[] {
+  const data: unknown = JSON.parse(json);
+  const results = Array.isArray(data) ? data : [data];
+  for (const result of results) {
+    if (!result || typeof result !== 'object'
+      || typeof result.domain !== 'string'
+      || typeof result.grade !== 'string'
+      || typeof result.score !== 'number') {
+      throw new Error('Invalid results file: expected DNSVet JSON output (DomainResult or DomainResult[])');
+    }
+  }
+  return results as DomainResult[];
+}
+
+/**
+ * Identity of an issue across runs. Results written before issue codes
+ * existed fall back to the message.
+ */
+export function issueKey(check: string, issue: Issue): string {
+  return [check, issue.code ?? issue.message, issue.evidence?.name ?? '', issue.evidence?.value ?? ''].join('\0');
+}
+
+function issueMap(result: DomainResult): Map<string, Issue> {
+  const issues = new Map<string, Issue>();
+  for (const { check, issue } of collectAllIssues(result)) {
+    issues.set(issueKey(check, issue), issue);
+  }
+  return issues;
+}
+
+/**
+ * Record-level values tracked across runs
+ */
+function recordValues(result: DomainResult): Record<RecordChange['field'], string | undefined> {
+  const selectors = (result.dkim?.selectors ?? [])
+    .filter(s => s.found)
+    .map(s => s.selector)
+    .sort();
+  return {
+    'spf.record': result.spf?.record,
+    'dmarc.policy': result.dmarc?.policy,
+    'dkim.selectors': selectors.length > 0 ? selectors.join(',') : undefined,
+    'mta-sts.mode': result.mtaSts?.policy?.mode,
+  };
+}
+
+/**
+ * Compare a single domain's results. Returns undefined when nothing changed.
+ */
+export function diffDomain(before: DomainResult, after: DomainResult): DomainDiff | undefined {
+  const beforeIssues = issueMap(before);
+  const afterIssues = issueMap(after);
+
+  const newIssues = [...afterIssues].filter(([key]) => !beforeIssues.has(key)).map(([, issue]) => issue);
+  const resolvedIssues = [...beforeIssues].filter(([key]) => !afterIssues.has(key)).map(([, issue]) => issue);
+
+  const beforeValues = recordValues(before);
+  const afterValues = recordValues(after);
+  const recordChanges: RecordChange[] = (Object.keys(beforeValues) as RecordChange['field'][])
+    .filter(field => beforeValues[field] !== afterValues[field])
+    .map(field => ({ field, before: beforeValues[field], after: afterValues[field] }));
+
+  if (before.grade === after.grade && before.score === after.score
+    && newIssues.length === 0 && resolvedIssues.length === 0 && recordChanges.length === 0) {
+    return undefined;
+  }
+
+  const regression = GRADE_RANK[after.grade] > GRADE_RANK[before.grade]
+    || after.score < before.score
+    || newIssues.some(i => i.severity === 'critical' || i.severity === 'high');
+
+  return {
+    domain: after.domain,
+    before: { grade: before.grade, score: before.score },
+    after: { grade: after.grade, score: after.score },
+    newIssues,
+    resolvedIssues,
+    recordChanges,
+    regression,
+  };
+}
+
+/**
+ * Compare a baseline result set with a current one
+ */
+export function diffResults(baseline: DomainResult[], current: DomainResult[]): ResultDiff {
+  const baselineByDomain = new Map(baseline.map(r => [r.domain, r]));
+  const currentByDomain = new Map(current.map(r => [r.domain, r]));
+
+  const added = current.filter(r => !baselineByDomain.has(r.domain));
+  const removed = baseline.filter(r => !currentByDomain.has(r.domain));
+
+  const changed: DomainDiff[] = [];
+  let unchanged = 0;
+  for (const after of current) {
+    const before = baselineByDomain.get(after.domain);
+    if (!before) continue;
+    const diff = diffDomain(before, after);
+    if (diff) {
+      changed.push(diff);
+    } else {
+      unchanged++;
+    }
+  }
+
+  // Regressions first, then by score change (largest drop first)
+  changed.sort((a, b) => Number(b.regression) - Number(a.regression)
+    || (a.after.score - a.before.score) - (b.after.score - b.before.score));
+
+  return {
+    added,
+    removed,
+    changed,
+    unchanged,
+    regressions: changed.filter(d => d.regression).length,
+  };
+}
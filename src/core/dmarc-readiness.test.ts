@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { assessDmarcReadiness } from './dmarc-readiness.js';
+import type { DMARCResult, DomainResult } from '../types.js';
+import { createResult } from '../testing/results.js';
+
+const createReadinessResult = (overrides: Partial<DomainResult> = {}): DomainResult => createResult('example.com', {
+  spf: { found: true, record: 'v=spf1 include:_spf.google.com ~all', mechanism: '~all', issues: [] },
+  dkim: { found: true, selectors: [{ selector: 'google', found: true, keyType: 'rsa', keyLength: 2048 }], issues: [] },
+  dmarc: { found: false, issues: [] },
+  ...overrides,
+});
+
+const dmarc = (record: string, fields: Partial<DMARCResult>): DMARCResult => ({
+  found: true,
+  record,
+  reportingEnabled: record.includes('rua='),
+  issues: [],
+  ...fields,
+});
+
+describe('assessDmarcReadiness', () => {
+  it('starts with a monitoring record when DMARC is missing', () => {
+    const plan = assessDmarcReadiness(createReadinessResult());
+
+    expect(plan.next).toBe('monitor');
+    expect(plan.ready).toBe(true);
+    expect(plan.name).toBe('_dmarc.example.com');
+    expect(plan.stages.map(s => [s.id, s.status])).toEqual([
+      ['monitor', 'next'],
+      ['quarantine-partial', 'pending'],
+      ['quarantine', 'pending'],
+      ['reject', 'pending'],
+    ]);
+    expect(plan.stages[0].record).toBe('v=DMARC1; p=none; rua=mailto:dmarc-reports@example.com');
+    expect(plan.notes.some(n => n.includes('rua= placeholder'))).toBe(true);
+  });
+
+  it('builds each stage from the published record', () => {
+    const plan = assessDmarcReadiness(createReadinessResult({
+      dmarc: dmarc('v=DMARC1; p=none; sp=none; rua=mailto:d@example.com; fo=1', { policy: 'none', subdomainPolicy: 'none' }),
+    }));
+
+    expect(plan.next).toBe('quarantine-partial');
+    expect(plan.ready).toBe(true);
+    expect(plan.stages.map(s => s.record)).toEqual([
+      'v=DMARC1; p=none; sp=none; rua=mailto:d@example.com; fo=1',
+      'v=DMARC1; p=quarantine; sp=none; pct=25; rua=mailto:d@example.com; fo=1',
+      'v=DMARC1; p=quarantine; sp=none; rua=mailto:d@example.com; fo=1',
+      'v=DMARC1; p=reject; rua=mailto:d@example.com; fo=1',
+    ]);
+    expect(plan.notes.some(n => n.includes('sp=none is dropped'))).toBe(true);
+  });
+
+  it('places a subdomain by the policy it inherits', () => {
+    const plan = assessDmarcReadiness(createReadinessResult({
+      domain: 'mail.example.com',
+      dmarc: dmarc('v=DMARC1; p=reject; sp=none; psd=n; rua=mailto:d@example.com', {
+        policy: 'reject',
+        subdomainPolicy: 'none',
+        inherited: true,
+        policyDomain: 'example.com',
+        effectivePolicy: 'none',
+        effectivePolicyTag: 'sp',
+      }),
+    }));
+
+    expect(plan.name).toBe('_dmarc.mail.example.com');
+    expect(plan.record).toBeUndefined();
+    expect(plan.next).toBe('quarantine-partial');
+    expect(plan.stages.map(s => s.record)).toEqual([
+      'v=DMARC1; p=none; rua=mailto:d@example.com',
+      'v=DMARC1; p=quarantine; pct=25; rua=mailto:d@example.com',
+      'v=DMARC1; p=quarantine; rua=mailto:d@example.com',
+      'v=DMARC1; p=reject; rua=mailto:d@example.com',
+    ]);
+    expect(plan.notes).toContain('No record at _dmarc.mail.example.com - sp=none is inherited from _dmarc.example.com; publishing a stage record overrides it');
+    expect(plan.notes.some(n => n.includes('is dropped'))).toBe(false);
+  });
+
+  it('places blockers at the first stage they affect', () => {
+    const plan = assessDmarcReadiness(createReadinessResult({
+      spf: {
+        found: true,
+        record: 'v=spf1 +all',
+        issues: [{ code: 'SPF-PLUS-ALL', check: 'spf', severity: 'critical', message: 'SPF uses +all' }],
+      },
+      dkim: { found: false, selectors: [], issues: [] },
+      dmarc: dmarc('v=DMARC1; p=none', { policy: 'none' }),
+    }));
+
+    expect(plan.ready).toBe(false);
+    expect(plan.stages[1].blockers.map(b => b.code)).toEqual(['DMARC-NO-REPORTING', 'SPF-PLUS-ALL']);
+    expect(plan.stages[2].blockers.map(b => b.code)).toEqual(['DKIM-MISSING']);
+    expect(plan.notes.some(n => n.includes('--selectors'))).toBe(true);
+  });
+
+  it('moves blockers for published stages to the next one', () => {
+    const plan = assessDmarcReadiness(createReadinessResult({
+      spf: {
+        found: true,
+        record: 'v=spf1 include:a include:b ~all',
+        issues: [{ code: 'SPF-LOOKUP-LIMIT-EXCEEDED', check: 'spf', severity: 'critical', message: 'SPF record exceeds 10 DNS lookups' }],
+      },
+      dmarc: dmarc('v=DMARC1; p=quarantine; rua=mailto:d@example.com; adkim=s', { policy: 'quarantine', adkim: 's' }),
+    }));
+
+    expect(plan.next).toBe('reject');
+    expect(plan.stages[3].blockers).toEqual([
+      { check: 'spf', code: 'SPF-LOOKUP-LIMIT-EXCEEDED', message: 'SPF never passes (permerror): SPF record exceeds 10 DNS lookups' },
+    ]);
+    expect(plan.notes.some(n => n.startsWith('adkim=s'))).toBe(true);
+  });
+
+  it('treats a partial pct or weaker sp as not yet enforced', () => {
+    const partial = assessDmarcReadiness(createReadinessResult({
+      dmarc: dmarc('v=DMARC1; p=quarantine; pct=50; rua=mailto:d@example.com', { policy: 'quarantine', pct: 50 }),
+    }));
+    const weakSubdomains = assessDmarcReadiness(createReadinessResult({
+      dmarc: dmarc('v=DMARC1; p=reject; sp=none; rua=mailto:d@example.com', { policy: 'reject', subdomainPolicy: 'none' }),
+    }));
+
+    expect(partial.next).toBe('quarantine');
+    expect(weakSubdomains.next).toBe('reject');
+  });
+
+  it('uses t=y instead of pct= for results checked against DMARCbis', () => {
+    const plan = assessDmarcReadiness(createReadinessResult({
+      dmarc: dmarc('v=DMARC1; p=none; pct=100; rua=mailto:d@example.com', { policy: 'none', pct: 100, spec: 'dmarcbis' }),
+    }));
+    const testing = assessDmarcReadiness(createReadinessResult({
+      dmarc: dmarc('v=DMARC1; p=quarantine; t=y; rua=mailto:d@example.com', { policy: 'quarantine', testing: true, spec: 'dmarcbis' }),
+    }));
+
+    expect(plan.stages[1]).toMatchObject({ title: 'Quarantine in testing mode (t=y)', record: 'v=DMARC1; p=quarantine; t=y; rua=mailto:d@example.com' });
+    expect(plan.stages.every(stage => !stage.record.includes('pct='))).toBe(true);
+    expect(testing.next).toBe('quarantine');
+    expect(testing.stages[2].record).toBe('v=DMARC1; p=quarantine; rua=mailto:d@example.com');
+  });
+
+  it('reports a fully enforced domain as done', () => {
+    const plan = assessDmarcReadiness(createReadinessResult({
+      dmarc: dmarc('v=DMARC1; p=reject; rua=mailto:d@example.com', { policy: 'reject' }),
+    }));
+
+    expect(plan.next).toBeUndefined();
+    expect(plan.ready).toBe(true);
+    expect(plan.stages.every(s => s.status === 'complete' && s.blockers.length === 0)).toBe(true);
+  });
+});
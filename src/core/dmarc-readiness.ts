@@ -0,0 +1,210 @@
+/**
+ * DMARC enforcement readiness: a staged p=none → p=reject rollout plan
+ *
+ * The plan is derived from the DMARC, SPF and DKIM results of a scan. Each
+ * stage carries the record to publish next and the problems that would make
+ * legitimate mail fail once that stage is enforced.
+ */
+
+import type { DmarcBlocker, DmarcReadinessPlan, DmarcRolloutStage, DmarcStageId, DMARCResult, DMARCSpec, DomainResult } from '../types.js';
+import { DNS_SUBDOMAIN } from '../constants.js';
+
+interface Stage {
+  id: DmarcStageId;
+  title: string;
+  policy: 'none' | 'quarantine' | 'reject';
+  pct?: number;
+  testing?: boolean; // t=y
+}
+
+const STAGES: Stage[] = [
+  { id: 'monitor', title: 'Monitor (p=none)', policy: 'none' },
+  { id: 'quarantine-partial', title: 'Quarantine 25% of failing mail', policy: 'quarantine', pct: 25 },
+  { id: 'quarantine', title: 'Quarantine all failing mail', policy: 'quarantine' },
+  { id: 'reject', title: 'Reject failing mail', policy: 'reject' },
+];
+
+// DMARCbis deprecates pct=; its partial step is t=y, which receivers apply one policy level lower
+const DMARCBIS_STAGES: Stage[] = STAGES.map(stage => stage.pct === undefined
+  ? stage
+  : { id: stage.id, title: 'Quarantine in testing mode (t=y)', policy: stage.policy, testing: true });
+
+// Issues after which SPF evaluates to permerror, so SPF never passes (RFC 7208)
+const SPF_PERMERROR_CODES = new Set([
+  'SPF-MULTIPLE-RECORDS',
+  'SPF-LOOKUP-LIMIT-EXCEEDED',
+  'SPF-VOID-LOOKUP-LIMIT-EXCEEDED',
+  'SPF-INVALID-TERM',
+  'SPF-UNKNOWN-MECHANISM',
+  'SPF-DUPLICATE-MODIFIER',
+  'SPF-INVALID-IP',
+  'SPF-INVALID-CIDR',
+  'SPF-INVALID-MACRO',
+  'SPF-CIRCULAR-REFERENCE',
+  'SPF-RECURSION-DEPTH-EXCEEDED',
+  'SPF-INCLUDE-NOT-FOUND',
+  'SPF-REDIRECT-NOT-FOUND',
+]);
+
+/**
+ * Index of the furthest stage the published record already enforces, -1 without a usable record.
+ * A domain without its own record is placed by the policy it inherits (sp= or np=).
+ */
+function publishedStage(dmarc: DMARCResult): number {
+  const policy = dmarc.inherited ? dmarc.effectivePolicy : dmarc.policy;
+  if (!dmarc.found || !dmarc.policy || !policy) return -1;
+  const partial = (dmarc.pct ?? 100) < 100 || dmarc.testing;
+  switch (policy) {
+    case 'none':
+      return 0;
+    case 'quarantine':
+      return partial ? 1 : 2;
+    case 'reject':
+      return partial || (!dmarc.inherited && dmarc.subdomainPolicy && dmarc.subdomainPolicy !== 'reject') ? 2 : 3;
+  }
+}
+
+/**
+ * Build a stage's record from the published one: p=, pct=, t= and sp= are
+ * replaced, every other tag (rua, ruf, adkim, aspf, fo, ...) is kept in order.
+ * An inherited record is the template for the domain's own record, so its
+ * sp= and psd=, which describe the parent, are not carried over.
+ */
+function buildRecord(current: string | undefined, stage: Stage, domain: string, inherited = false): { record: string; placeholder: boolean } {
+  const tags: Array<[string, string]> = [];
+  for (const part of (current ?? '').split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    tags.push([part.slice(0, eq).trim().toLowerCase(), part.slice(eq + 1).trim()]);
+  }
+  const subdomainPolicy = inherited ? undefined : tags.find(([tag]) => tag === 'sp')?.[1];
+  const replaced = ['v', 'p', 'sp', 'pct', 't', ...(inherited ? ['psd'] : [])];
+  const rest = tags.filter(([tag]) => !replaced.includes(tag)).map(([tag, value]) => `${tag}=${value}`);
+
+  const placeholder = !tags.some(([tag]) => tag === 'rua');
+  if (placeholder) {
+    rest.unshift(`rua=mailto:dmarc-reports@${domain}`);
+  }
+
+  // At the reject stage subdomains inherit p=reject
+  const parts = ['v=DMARC1', `p=${stage.policy}`];
+  if (subdomainPolicy && stage.policy !== 'reject') parts.push(`sp=${subdomainPolicy}`);
+  if (stage.pct !== undefined) parts.push(`pct=${stage.pct}`);
+  if (stage.testing) parts.push('t=y');
+
+  return { record: [...parts, ...rest].join('; '), placeholder };
+}
+
+/**
+ * Problems in the scan results, each with the first stage it blocks
+ */
+function findBlockers(result: DomainResult): Array<{ stage: number; blocker: DmarcBlocker }> {
+  const { spf, dkim, dmarc } = result;
+  const found: Array<{ stage: number; blocker: DmarcBlocker }> = [];
+  const add = (stage: number, blocker: DmarcBlocker) => found.push({ stage, blocker });
+
+  for (const issue of dmarc.issues) {
+    if (issue.code === 'DMARC-MULTIPLE-RECORDS') {
+      add(0, { check: 'dmarc', code: issue.code, message: `${issue.message} - receivers ignore all of them` });
+    } else if (issue.code === 'DMARC-EXTERNAL-REPORT-UNAUTHORIZED') {
+      add(0, { check: 'dmarc', code: issue.code, message: `${issue.message} - reports will not be delivered there` });
+    }
+  }
+  if (dmarc.found && !dmarc.reportingEnabled) {
+    add(1, { check: 'dmarc', code: 'DMARC-NO-REPORTING', message: 'No aggregate reporting (rua=) - legitimate senders cannot be verified before enforcing' });
+  }
+
+  if (!spf.skipped && !dkim.skipped && !spf.found && !dkim.found) {
+    add(1, { check: 'dmarc', message: 'Neither SPF nor DKIM is published - all mail would fail DMARC' });
+  }
+
+  if (spf.found) {
+    for (const issue of spf.issues) {
+      if (SPF_PERMERROR_CODES.has(issue.code)) {
+        add(1, { check: 'spf', code: issue.code, message: `SPF never passes (permerror): ${issue.message}` });
+      } else if (issue.code === 'SPF-PLUS-ALL') {
+        add(1, { check: 'spf', code: issue.code, message: 'SPF +all authorizes every host, so spoofed mail passes DMARC' });
+      }
+    }
+  } else if (!spf.skipped && dkim.found) {
+    add(2, { check: 'spf', code: 'SPF-MISSING', message: 'No SPF record - mail from senders that do not sign with DKIM fails DMARC' });
+  }
+
+  if (dkim.found) {
+    for (const issue of dkim.issues) {
+      if (issue.code === 'DKIM-KEY-INVALID') {
+        add(1, { check: 'dkim', code: issue.code, message: issue.message });
+      } else if (issue.code === 'DKIM-WEAK-RSA') {
+        add(3, { check: 'dkim', code: issue.code, message: `${issue.message} - receivers may ignore the signature` });
+      }
+    }
+  } else if (!dkim.skipped && spf.found) {
+    add(2, { check: 'dkim', code: 'DKIM-MISSING', message: 'No DKIM selectors found - mail relying on SPF alone fails DMARC when forwarded' });
+  }
+
+  return found;
+}
+
+/**
+ * Plan the move to p=reject for one scanned domain. The records follow the
+ * specification the DMARC check ran against (results saved before it was
+ * recorded were checked against RFC 7489).
+ */
+export function assessDmarcReadiness(result: DomainResult): DmarcReadinessPlan {
+  const { domain, dmarc, spf, dkim } = result;
+  const spec: DMARCSpec = dmarc.spec ?? 'rfc7489';
+  const plan = spec === 'dmarcbis' ? DMARCBIS_STAGES : STAGES;
+  const published = publishedStage(dmarc);
+  const nextIndex = published + 1 < plan.length ? published + 1 : undefined;
+  const notes: string[] = [];
+
+  const stages: DmarcRolloutStage[] = plan.map((stage, index) => ({
+    id: stage.id,
+    title: stage.title,
+    record: buildRecord(dmarc.record, stage, domain, dmarc.inherited).record,
+    status: index <= published ? 'complete' : index === nextIndex ? 'next' : 'pending',
+    blockers: [],
+  }));
+
+  // A blocker for a stage already published holds up the next one
+  if (nextIndex !== undefined) {
+    for (const { stage, blocker } of findBlockers(result)) {
+      stages[Math.max(stage, nextIndex)].blockers.push(blocker);
+    }
+  }
+
+  if (dmarc.skipped || spf.skipped || dkim.skipped) {
+    const skipped = [dmarc.skipped && 'DMARC', spf.skipped && 'SPF', dkim.skipped && 'DKIM'].filter(Boolean);
+    notes.push(`${skipped.join(', ')} not checked - the plan may be missing blockers`);
+  }
+  if (dmarc.inherited) {
+    notes.push(`No record at ${DNS_SUBDOMAIN.DMARC}.${domain} - ${dmarc.effectivePolicyTag ?? 'p'}=${dmarc.effectivePolicy ?? dmarc.policy} is inherited from ${DNS_SUBDOMAIN.DMARC}.${dmarc.policyDomain}; publishing a stage record overrides it`);
+  }
+  if (nextIndex !== undefined && buildRecord(dmarc.record, plan[nextIndex], domain, dmarc.inherited).placeholder) {
+    notes.push('Replace the rua= placeholder with a mailbox that receives aggregate reports');
+  }
+  if (nextIndex !== undefined && nextIndex > 0) {
+    notes.push('Stay at each stage until aggregate reports show no legitimate source failing DMARC (dnsvet dmarc-reports)');
+  }
+  if (!dkim.found && !dkim.skipped) {
+    notes.push('DKIM selectors are only found among common names - pass --selectors if yours differ');
+  }
+  if (!dmarc.inherited && dmarc.subdomainPolicy && dmarc.subdomainPolicy !== 'reject' && nextIndex !== undefined) {
+    notes.push(`sp=${dmarc.subdomainPolicy} is dropped at the reject stage so subdomains inherit p=reject`);
+  }
+  if (dmarc.adkim === 's' || dmarc.aspf === 's') {
+    const strict = [dmarc.adkim === 's' && 'adkim=s', dmarc.aspf === 's' && 'aspf=s'].filter(Boolean).join(' and ');
+    notes.push(`${strict} require an exact domain match - mail signed or sent from subdomains fails alignment`);
+  }
+
+  const next = nextIndex !== undefined ? stages[nextIndex] : undefined;
+  return {
+    domain,
+    name: `${DNS_SUBDOMAIN.DMARC}.${domain}`,
+    record: dmarc.inherited ? undefined : dmarc.record,
+    next: next?.id,
+    ready: !next || next.blockers.length === 0,
+    stages,
+    notes,
+  };
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { evaluateSPF } from './spf-eval.js';
+import { checkDKIM } from '../checks/dkim.js';
+import { parseAggregateReport, readAggregateReports, analyzeAggregateReports, crossReferenceLive } from './dmarc-reports.js';
+import type { SPFEvaluation } from '../types.js';
+
+vi.mock('./spf-eval.js', () => ({ evaluateSPF: vi.fn() }));
+vi.mock('../checks/dkim.js', () => ({ checkDKIM: vi.fn() }));
+
+interface Row {
+  ip: string;
+  count: number;
+  dkim: 'pass' | 'fail';
+  spf: 'pass' | 'fail';
+  disposition?: string;
+  envelopeFrom?: string;
+  auth?: string;
+}
+
+function report(options: { org?: string; id?: string; domain?: string; policy?: string; begin?: number; rows: Row[] }): string {
+  const domain = options.domain ?? 'example.com';
+  const records = options.rows.map(row => `
+  <record>
+    <row>
+      <source_ip>${row.ip}</source_ip>
+      <count>${row.count}</count>
+      <policy_evaluated>
+        <disposition>${row.disposition ?? 'none'}</disposition>
+        <dkim>${row.dkim}</dkim>
+        <spf>${row.spf}</spf>
+      </policy_evaluated>
+    </row>
+    <identifiers>
+      <header_from>${domain}</header_from>
+      ${row.envelopeFrom ? `<envelope_from>${row.envelopeFrom}</envelope_from>` : ''}
+    </identifiers>
+    <auth_results>${row.auth ?? ''}</auth_results>
+  </record>`).join('');
+  const begin = options.begin ?? 1790812800; // 2026-10-01
+  return `<?xml version="1.0" encoding="UTF-8" ?>
+<feedback>
+  <report_metadata>
+    <org_name>${options.org ?? 'google.com'}</org_name>
+    <email>noreply-dmarc-support@google.com</email>
+    <report_id>${options.id ?? '1'}</report_id>
+    <date_range><begin>${begin}</begin><end>${begin + 86399}</end></date_range>
+  </report_metadata>
+  <policy_published>
+    <domain>${domain}</domain>
+    <adkim>r</adkim>
+    <aspf>r</aspf>
+    <p>${options.policy ?? 'none'}</p>
+    <sp>none</sp>
+    <pct>100</pct>
+  </policy_published>${records}
+</feedback>`;
+}
+
+const dkimPass = (domain: string, selector: string) =>
+  `<dkim><domain>${domain}</domain><selector>${selector}</selector><result>pass</result></dkim>`;
+const spfPass = (domain: string) => `<spf><domain>${domain}</domain><scope>mfrom</scope><result>pass</result></spf>`;
+
+describe('parseAggregateReport', () => {
+  it('parses metadata, policy and rows', () => {
+    const parsed = parseAggregateReport(report({
+      rows: [{ ip: '192.0.2.1', count: 3, dkim: 'pass', spf: 'fail', envelopeFrom: 'bounce.vendor.example', auth: dkimPass('example.com', 's1') + spfPass('bounce.vendor.example') }],
+    }));
+
+    expect(parsed).toMatchObject({
+      orgName: 'google.com',
+      reportId: '1',
+      begin: '2026-10-01T00:00:00.000Z',
+      domain: 'example.com',
+      policy: 'none',
+      subdomainPolicy: 'none',
+      pct: 100,
+    });
+    expect(parsed.rows).toEqual([{
+      sourceIp: '192.0.2.1',
+      count: 3,
+      disposition: 'none',
+      dkimAligned: true,
+      spfAligned: false,
+      headerFrom: 'example.com',
+      envelopeFrom: 'bounce.vendor.example',
+      dkim: [{ domain: 'example.com', selector: 's1', result: 'pass' }],
+      spf: [{ domain: 'bounce.vendor.example', scope: 'mfrom', result: 'pass' }],
+    }]);
+  });
+
+  it('rejects other XML documents', () => {
+    expect(() => parseAggregateReport('<html></html>')).toThrow('Not a DMARC aggregate report');
+  });
+});
+
+describe('analyzeAggregateReports', () => {
+  it('aggregates by source and classifies what breaks at p=reject', () => {
+    const [analysis] = analyzeAggregateReports([
+      parseAggregateReport(report({
+        rows: [
+          { ip: '192.0.2.1', count: 90, dkim: 'pass', spf: 'pass', auth: dkimPass('example.com', 's1') },
+          { ip: '198.51.100.7', count: 8, dkim: 'fail', spf: 'fail', auth: spfPass('bounce.vendor.example') },
+          { ip: '203.0.113.66', count: 2, dkim: 'fail', spf: 'fail' },
+        ],
+      })),
+      parseAggregateReport(report({
+        org: 'Yahoo',
+        rows: [
+          { ip: '192.0.2.1', count: 5, dkim: 'fail', spf: 'fail' },
+          { ip: '192.0.2.1', count: 10, dkim: 'pass', spf: 'pass' },
+        ],
+      })),
+    ]);
+
+    expect(analysis).toMatchObject({ domain: 'example.com', reports: 2, messages: 115, passing: 100, wouldReject: 15, wouldBreak: 13 });
+    expect(analysis.sources.map(s => [s.sourceIp, s.messages, s.status])).toEqual([
+      ['192.0.2.1', 105, 'partial'],
+      ['198.51.100.7', 8, 'misaligned'],
+      ['203.0.113.66', 2, 'unauthenticated'],
+    ]);
+    expect(analysis.sources[1].reason).toContain('SPF passes for bounce.vendor.example');
+    expect(analysis.reporters.map(r => r.orgName)).toEqual(['google.com', 'Yahoo']);
+    expect(analysis.selectors).toEqual([{ selector: 's1', domain: 'example.com', messages: 90, passing: 90 }]);
+  });
+
+  it('counts a report delivered twice once and splits by domain', () => {
+    const analyses = analyzeAggregateReports([
+      parseAggregateReport(report({ id: 'a', rows: [{ ip: '192.0.2.1', count: 1, dkim: 'pass', spf: 'pass' }] })),
+      parseAggregateReport(report({ id: 'a', rows: [{ ip: '192.0.2.1', count: 1, dkim: 'pass', spf: 'pass' }] })),
+      parseAggregateReport(report({ id: 'b', domain: 'example.org', rows: [] })),
+    ]);
+
+    expect(analyses.map(a => [a.domain, a.reports, a.messages])).toEqual([
+      ['example.com', 1, 1],
+      ['example.org', 1, 0],
+    ]);
+  });
+});
+
+describe('crossReferenceLive', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('checks sources against live SPF and selectors against DNS', async () => {
+    vi.mocked(evaluateSPF).mockImplementation(async (domain, ip) => ({ result: ip === '203.0.113.66' ? 'pass' : 'fail' }) as SPFEvaluation);
+    vi.mocked(checkDKIM).mockResolvedValue({
+      found: true,
+      selectors: [{ selector: 's1', found: true, keyLength: 2048 }],
+      issues: [],
+    });
+
+    const [analysis] = analyzeAggregateReports([parseAggregateReport(report({
+      rows: [
+        { ip: '192.0.2.1', count: 5, dkim: 'pass', spf: 'fail', auth: dkimPass('example.com', 's1') },
+        { ip: '192.0.2.2', count: 5, dkim: 'pass', spf: 'fail', auth: dkimPass('example.com', 'old') },
+        { ip: '203.0.113.66', count: 2, dkim: 'fail', spf: 'fail' },
+      ],
+    }))]);
+    await crossReferenceLive(analysis);
+
+    expect(analysis.sources.find(s => s.sourceIp === '203.0.113.66')).toMatchObject({ liveSpf: 'pass', status: 'misaligned' });
+    expect(analysis.wouldBreak).toBe(2);
+    expect(analysis.selectors.map(s => [s.selector, s.published])).toEqual([['s1', true], ['old', false]]);
+    expect(vi.mocked(checkDKIM).mock.calls[0][1]).toContain('old');
+  });
+});
+
+describe('readAggregateReports', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dnsvet-dmarc-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads XML and gzip files from a directory and reports the rest', async () => {
+    await fs.writeFile(path.join(dir, 'a.xml'), report({ id: 'a', rows: [] }));
+    await fs.writeFile(path.join(dir, 'b.xml.gz'), zlib.gzipSync(report({ id: 'b', rows: [] })));
+    await fs.writeFile(path.join(dir, 'notes.txt'), 'hello');
+
+    const { reports, errors } = await readAggregateReports([dir]);
+
+    expect(reports.map(r => r.reportId)).toEqual(['a', 'b']);
+    expect(errors).toEqual([{ file: path.join(dir, 'notes.txt'), message: 'Not an XML, gzip or zip file' }]);
+  });
+
+  it('reports missing paths', async () => {
+    const { errors } = await readAggregateReports([path.join(dir, 'missing')]);
+
+    expect(errors[0].message).toContain('ENOENT');
+  });
+});
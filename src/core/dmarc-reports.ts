@@ -0,0 +1,316 @@
+/**
+ * DMARC aggregate (RUA) report ingestion and analysis
+ *
+ * Reports are XML (RFC 7489 Appendix C), usually delivered gzip- or
+ * zip-compressed. Analysis groups them by the reported domain and then by
+ * sending IP to show which sources would be rejected under p=reject.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  DmarcAggregateReport,
+  DmarcAuthResult,
+  DmarcDisposition,
+  DmarcReportAnalysis,
+  DmarcReportRow,
+  DmarcReporterSummary,
+  DmarcSelectorSummary,
+  DmarcSourceSummary,
+} from '../types.js';
+import { parseXml, xmlChild, xmlChildren, xmlText } from '../utils/xml.js';
+import type { XmlElement } from '../utils/xml.js';
+import { extractFiles } from '../utils/archive.js';
+import { setDnsResolver } from '../utils/dns.js';
+import { checkDKIM } from '../checks/dkim.js';
+import { evaluateSPF } from './spf-eval.js';
+import { COMMON_DKIM_SELECTORS } from '../constants.js';
+
+export interface DmarcReportError {
+  file: string;
+  message: string;
+}
+
+export interface CrossReferenceOptions {
+  resolver?: string; // Custom DNS resolver
+}
+
+const DISPOSITIONS: DmarcDisposition[] = ['none', 'quarantine', 'reject'];
+
+function disposition(value: string | undefined): DmarcDisposition {
+  const lower = value?.toLowerCase();
+  return DISPOSITIONS.find(d => d === lower) ?? 'none';
+}
+
+function timestamp(seconds: string | undefined): string {
+  const value = Number(seconds);
+  return Number.isFinite(value) ? new Date(value * 1000).toISOString() : '';
+}
+
+function authResults(authResults: XmlElement | undefined, name: 'dkim' | 'spf'): DmarcAuthResult[] {
+  return xmlChildren(authResults, name).map(result => ({
+    domain: (xmlText(result, 'domain') ?? '').toLowerCase(),
+    ...(name === 'dkim' ? { selector: xmlText(result, 'selector') } : { scope: xmlText(result, 'scope') }),
+    result: (xmlText(result, 'result') ?? 'none').toLowerCase(),
+  }));
+}
+
+function parseRow(record: XmlElement): DmarcReportRow {
+  const row = xmlChild(record, 'row');
+  const evaluated = xmlChild(row, 'policy_evaluated');
+  const auth = xmlChild(record, 'auth_results');
+  return {
+    sourceIp: xmlText(row, 'source_ip') ?? '',
+    count: parseInt(xmlText(row, 'count') ?? '0', 10) || 0,
+    disposition: disposition(xmlText(evaluated, 'disposition')),
+    dkimAligned: xmlText(evaluated, 'dkim')?.toLowerCase() === 'pass',
+    spfAligned: xmlText(evaluated, 'spf')?.toLowerCase() === 'pass',
+    headerFrom: (xmlText(record, 'identifiers', 'header_from') ?? '').toLowerCase(),
+    envelopeFrom: xmlText(record, 'identifiers', 'envelope_from')?.toLowerCase(),
+    dkim: authResults(auth, 'dkim'),
+    spf: authResults(auth, 'spf'),
+  };
+}
+
+/**
+ * Parse a DMARC aggregate report from its XML
+ */
+export function parseAggregateReport(xml: string, file?: string): DmarcAggregateReport {
+  const root = parseXml(xml);
+  if (root.name !== 'feedback') {
+    throw new Error(`Not a DMARC aggregate report (root element <${root.name}>)`);
+  }
+  const metadata = xmlChild(root, 'report_metadata');
+  const published = xmlChild(root, 'policy_published');
+  const domain = xmlText(published, 'domain')?.toLowerCase();
+  if (!domain) {
+    throw new Error('Report has no policy_published domain');
+  }
+  const pct = xmlText(published, 'pct');
+  const sp = xmlText(published, 'sp');
+
+  return {
+    file,
+    orgName: xmlText(metadata, 'org_name') ?? 'unknown',
+    email: xmlText(metadata, 'email'),
+    reportId: xmlText(metadata, 'report_id') ?? '',
+    begin: timestamp(xmlText(metadata, 'date_range', 'begin')),
+    end: timestamp(xmlText(metadata, 'date_range', 'end')),
+    domain,
+    policy: disposition(xmlText(published, 'p')),
+    subdomainPolicy: sp ? disposition(sp) : undefined,
+    pct: pct !== undefined ? Number(pct) : undefined,
+    rows: xmlChildren(root, 'record').map(parseRow),
+  };
+}
+
+async function listFiles(target: string): Promise<string[]> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) return [target];
+  const entries = await fs.readdir(target, { withFileTypes: true });
+  return entries
+    .filter(e => e.isFile() && !e.name.startsWith('.'))
+    .map(e => path.join(target, e.name))
+    .sort();
+}
+
+/**
+ * Read reports from files and directories (not recursive). Files that are
+ * not reports are returned as errors instead of failing the whole run.
+ */
+export async function readAggregateReports(paths: string[]): Promise<{ reports: DmarcAggregateReport[]; errors: DmarcReportError[] }> {
+  const reports: DmarcAggregateReport[] = [];
+  const errors: DmarcReportError[] = [];
+
+  for (const target of paths) {
+    let files: string[];
+    try {
+      files = await listFiles(target);
+    } catch (err) {
+      errors.push({ file: target, message: (err as Error).message });
+      continue;
+    }
+    for (const file of files) {
+      try {
+        for (const entry of extractFiles(file, await fs.readFile(file))) {
+          const xml = entry.data.toString('utf-8');
+          if (!xml.replace(/^\uFEFF/, '').trimStart().startsWith('<')) {
+            throw new Error('Not an XML, gzip or zip file');
+          }
+          reports.push(parseAggregateReport(xml, entry.name));
+        }
+      } catch (err) {
+        errors.push({ file, message: (err as Error).message });
+      }
+    }
+  }
+
+  return { reports, errors };
+}
+
+function emptyDispositions(): Record<DmarcDisposition, number> {
+  return { none: 0, quarantine: 0, reject: 0 };
+}
+
+function addUnique(values: string[], value: string | undefined): void {
+  if (value && !values.includes(value)) values.push(value);
+}
+
+/**
+ * Set a source's status and the reason its failing messages fail
+ */
+function classify(source: DmarcSourceSummary, domain: string): void {
+  const failing = source.messages - source.passing;
+  if (failing === 0) {
+    source.status = 'aligned';
+    source.reason = undefined;
+  } else if (source.passing > 0) {
+    source.status = 'partial';
+    source.reason = `${failing} of ${source.messages} message(s) fail - likely forwarding or a sender that does not always sign`;
+  } else if (source.dkimDomains.length > 0) {
+    source.status = 'misaligned';
+    source.reason = `DKIM passes for ${source.dkimDomains.join(', ')}, not ${domain} - sign with d=${domain}`;
+  } else if (source.spfDomains.length > 0) {
+    source.status = 'misaligned';
+    source.reason = `SPF passes for ${source.spfDomains.join(', ')}, not ${domain} - use a return-path under ${domain} or sign with DKIM`;
+  } else if (source.liveSpf === 'pass') {
+    source.status = 'misaligned';
+    source.reason = 'Authorized by the live SPF record but not aligned in reports - check the return-path and DKIM signing';
+  } else {
+    source.status = 'unauthenticated';
+    source.reason = 'No SPF or DKIM pass - spoofing or an unknown sender';
+  }
+}
+
+function summarize(analysis: DmarcReportAnalysis): void {
+  analysis.wouldReject = analysis.sources.reduce((sum, s) => sum + s.messages - s.passing, 0);
+  analysis.wouldBreak = analysis.sources
+    .filter(s => s.status === 'partial' || s.status === 'misaligned')
+    .reduce((sum, s) => sum + s.messages - s.passing, 0);
+}
+
+function analyzeDomainReports(domain: string, reports: DmarcAggregateReport[]): DmarcReportAnalysis {
+  const sources = new Map<string, DmarcSourceSummary>();
+  const reporters = new Map<string, DmarcReporterSummary>();
+  const selectors = new Map<string, DmarcSelectorSummary>();
+  const dispositions = emptyDispositions();
+  let messages = 0;
+  let passing = 0;
+
+  for (const report of reports) {
+    const reporter = reporters.get(report.orgName) ?? { orgName: report.orgName, reports: 0, messages: 0, passing: 0 };
+    reporters.set(report.orgName, reporter);
+    reporter.reports++;
+
+    for (const row of report.rows) {
+      const passed = row.dkimAligned || row.spfAligned;
+      messages += row.count;
+      reporter.messages += row.count;
+      dispositions[row.disposition] += row.count;
+      if (passed) {
+        passing += row.count;
+        reporter.passing += row.count;
+      }
+
+      const source = sources.get(row.sourceIp) ?? {
+        sourceIp: row.sourceIp,
+        messages: 0,
+        passing: 0,
+        spfAligned: 0,
+        dkimAligned: 0,
+        dispositions: emptyDispositions(),
+        reporters: [],
+        spfDomains: [],
+        dkimDomains: [],
+        status: 'aligned',
+      };
+      sources.set(row.sourceIp, source);
+      source.messages += row.count;
+      if (passed) source.passing += row.count;
+      if (row.spfAligned) source.spfAligned += row.count;
+      if (row.dkimAligned) source.dkimAligned += row.count;
+      source.dispositions[row.disposition] += row.count;
+      addUnique(source.reporters, report.orgName);
+      for (const spf of row.spf.filter(r => r.result === 'pass')) addUnique(source.spfDomains, spf.domain);
+      for (const dkim of row.dkim.filter(r => r.result === 'pass')) addUnique(source.dkimDomains, dkim.domain);
+
+      for (const dkim of row.dkim.filter(r => r.selector)) {
+        const key = `${dkim.selector}/${dkim.domain}`;
+        const selector = selectors.get(key) ?? { selector: dkim.selector!, domain: dkim.domain, messages: 0, passing: 0 };
+        selectors.set(key, selector);
+        selector.messages += row.count;
+        if (dkim.result === 'pass') selector.passing += row.count;
+      }
+    }
+  }
+
+  const byEnd = [...reports].sort((a, b) => a.end.localeCompare(b.end));
+  const analysis: DmarcReportAnalysis = {
+    domain,
+    policy: byEnd[byEnd.length - 1].policy,
+    reports: reports.length,
+    begin: [...reports].sort((a, b) => a.begin.localeCompare(b.begin))[0].begin,
+    end: byEnd[byEnd.length - 1].end,
+    messages,
+    passing,
+    dispositions,
+    wouldReject: 0,
+    wouldBreak: 0,
+    reporters: [...reporters.values()].sort((a, b) => b.messages - a.messages),
+    sources: [...sources.values()].sort((a, b) => b.messages - a.messages || a.sourceIp.localeCompare(b.sourceIp)),
+    selectors: [...selectors.values()].sort((a, b) => b.messages - a.messages),
+  };
+  for (const source of analysis.sources) {
+    classify(source, domain);
+  }
+  summarize(analysis);
+  return analysis;
+}
+
+/**
+ * Aggregate reports per domain, by source IP, reporter and DKIM selector.
+ * A report delivered twice (same reporter and report ID) is counted once.
+ */
+export function analyzeAggregateReports(reports: DmarcAggregateReport[]): DmarcReportAnalysis[] {
+  const unique = new Map<string, DmarcAggregateReport>();
+  for (const report of reports) {
+    unique.set(`${report.orgName}\n${report.reportId || report.file}`, report);
+  }
+
+  const byDomain = new Map<string, DmarcAggregateReport[]>();
+  for (const report of unique.values()) {
+    byDomain.set(report.domain, [...(byDomain.get(report.domain) ?? []), report]);
+  }
+
+  return [...byDomain.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([domain, domainReports]) => analyzeDomainReports(domain, domainReports));
+}
+
+/**
+ * Check each source IP against the domain's live SPF record and each
+ * reported DKIM selector against DNS, then reclassify the sources
+ */
+export async function crossReferenceLive(analysis: DmarcReportAnalysis, options: CrossReferenceOptions = {}): Promise<DmarcReportAnalysis> {
+  setDnsResolver(options.resolver);
+
+  for (const source of analysis.sources) {
+    try {
+      source.liveSpf = (await evaluateSPF(analysis.domain, source.sourceIp)).result;
+    } catch {
+      // Not an IP address we can evaluate
+    }
+    classify(source, analysis.domain);
+  }
+
+  const ownSelectors = analysis.selectors.filter(s => s.domain === analysis.domain).map(s => s.selector);
+  const dkim = await checkDKIM(analysis.domain, [...new Set([...COMMON_DKIM_SELECTORS, ...ownSelectors])]);
+  for (const selector of analysis.selectors) {
+    if (selector.domain === analysis.domain) {
+      selector.published = dkim.selectors.some(s => s.selector === selector.selector && s.keyLength !== 0);
+    }
+  }
+
+  summarize(analysis);
+  return analysis;
+}
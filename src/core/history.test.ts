@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { saveRun, loadRuns, listRuns, createRunId, domainHistory, portfolioTrend, dkimRotation } from './history.js';
+import type { DKIMSelector, DomainResult, HistoryRun, Issue } from '../types.js';
+import { createResult } from '../testing/results.js';
+
+const issue = (code: string, severity: Issue['severity'] = 'medium'): Issue => ({
+  code,
+  check: 'dmarc',
+  severity,
+  message: `${code} message`,
+});
+
+const withDmarcIssues = (domain: string, codes: string[], overrides: Partial<DomainResult> = {}): DomainResult =>
+  createResult(domain, { dmarc: { found: true, policy: 'none', issues: codes.map(c => issue(c)) }, ...overrides });
+
+const run = (id: string, results: DomainResult[]): HistoryRun => ({
+  id,
+  timestamp: `2026-10-0${id}T00:00:00.000Z`,
+  domains: results.length,
+  results,
+});
+
+describe('history store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dnsvet-history-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('creates sortable run IDs', () => {
+    expect(createRunId(new Date('2026-10-19T09:30:00.123Z'))).toMatch(/^20261019T093000123Z-[0-9a-f]{4}$/);
+  });
+
+  it('saves and loads runs in order', async () => {
+    await saveRun(dir, [createResult('example.com')], new Date('2026-10-01T00:00:00Z'));
+    await saveRun(dir, [createResult('example.com', { score: 90 }), createResult('example.org')], new Date('2026-10-02T00:00:00Z'));
+
+    const runs = await loadRuns(dir);
+
+    expect(runs.map(r => r.timestamp)).toEqual(['2026-10-01T00:00:00.000Z', '2026-10-02T00:00:00.000Z']);
+    expect(runs[1].domains).toBe(2);
+    expect(runs[1].results.map(r => r.domain)).toEqual(['example.com', 'example.org']);
+    expect(runs[1].results[0].score).toBe(90);
+  });
+
+  it('limits to the most recent runs', async () => {
+    for (const day of [1, 2, 3]) {
+      await saveRun(dir, [createResult('example.com')], new Date(`2026-10-0${day}T00:00:00Z`));
+    }
+
+    const runs = await loadRuns(dir, { limit: 2 });
+
+    expect(runs.map(r => r.timestamp.slice(0, 10))).toEqual(['2026-10-02', '2026-10-03']);
+  });
+
+  it('returns no runs for a missing directory', async () => {
+    expect(await listRuns(path.join(dir, 'missing'))).toEqual([]);
+  });
+
+  it('reports corrupt index lines', async () => {
+    await fs.writeFile(path.join(dir, 'runs.jsonl'), '{"id":"a","timestamp":"2026-10-01T00:00:00Z","domains":1}\nnot json\n');
+
+    await expect(listRuns(dir)).rejects.toThrow(/runs\.jsonl:2/);
+  });
+});
+
+describe('domainHistory', () => {
+  it('tracks grade and score over time', () => {
+    const history = domainHistory([
+      run('1', [createResult('example.com', { grade: 'C', score: 65 })]),
+      run('2', [createResult('example.org')]),
+      run('3', [createResult('example.com', { grade: 'A', score: 92 })]),
+    ], 'example.com');
+
+    expect(history.points).toEqual([
+      { runId: '1', timestamp: '2026-10-01T00:00:00.000Z', grade: 'C', score: 65 },
+      { runId: '3', timestamp: '2026-10-03T00:00:00.000Z', grade: 'A', score: 92 },
+    ]);
+  });
+
+  it('records when issues first appeared and were resolved', () => {
+    const history = domainHistory([
+      run('1', [withDmarcIssues('example.com', ['DMARC-POLICY-NONE'])]),
+      run('2', [withDmarcIssues('example.com', ['DMARC-POLICY-NONE', 'DMARC-NO-RUA'])]),
+      run('3', [withDmarcIssues('example.com', ['DMARC-NO-RUA'])]),
+    ], 'example.com');
+
+    expect(history.issues).toEqual([
+      expect.objectContaining({
+        code: 'DMARC-POLICY-NONE',
+        check: 'DMARC',
+        firstSeen: '2026-10-01T00:00:00.000Z',
+        lastSeen: '2026-10-02T00:00:00.000Z',
+        resolved: '2026-10-03T00:00:00.000Z',
+      }),
+      expect.objectContaining({
+        code: 'DMARC-NO-RUA',
+        firstSeen: '2026-10-02T00:00:00.000Z',
+        lastSeen: '2026-10-03T00:00:00.000Z',
+      }),
+    ]);
+    expect(history.issues[1].resolved).toBeUndefined();
+  });
+
+  it('starts a new lifecycle when a resolved issue returns', () => {
+    const history = domainHistory([
+      run('1', [withDmarcIssues('example.com', ['DMARC-POLICY-NONE'])]),
+      run('2', [withDmarcIssues('example.com', [])]),
+      run('3', [withDmarcIssues('example.com', ['DMARC-POLICY-NONE'])]),
+    ], 'example.com');
+
+    expect(history.issues.map(i => [i.firstSeen.slice(0, 10), i.resolved?.slice(0, 10)])).toEqual([
+      ['2026-10-01', '2026-10-02'],
+      ['2026-10-03', undefined],
+    ]);
+  });
+
+  it('does not resolve issues in runs that skipped the domain', () => {
+    const history = domainHistory([
+      run('1', [withDmarcIssues('example.com', ['DMARC-POLICY-NONE'])]),
+      run('2', [createResult('example.org')]),
+    ], 'example.com');
+
+    expect(history.issues[0].resolved).toBeUndefined();
+  });
+});
+
+describe('portfolioTrend', () => {
+  it('summarizes each run', () => {
+    const trend = portfolioTrend([
+      run('1', [createResult('a.example', { grade: 'A', score: 95 }), createResult('b.example', { grade: 'F', score: 30 })]),
+      run('2', []),
+    ]);
+
+    expect(trend[0]).toEqual({
+      runId: '1',
+      timestamp: '2026-10-01T00:00:00.000Z',
+      domains: 2,
+      averageScore: 63,
+      grades: { A: 1, B: 0, C: 0, D: 0, F: 1 },
+    });
+    expect(trend[1].averageScore).toBe(0);
+  });
+});
+
+describe('dkimRotation', () => {
+  const at = (date: string, results: DomainResult[]): HistoryRun => ({ id: date, timestamp: `${date}T00:00:00.000Z`, domains: results.length, results });
+  const key = (selector: string, fingerprint: string): DKIMSelector => ({ selector, found: true, keyType: 'rsa', keyLength: 2048, keyFingerprint: fingerprint });
+  const revoked = (selector: string): DKIMSelector => ({ selector, found: true, keyType: 'rsa', keyLength: 0, record: 'v=DKIM1; p=' });
+  const withSelectors = (selectors: DKIMSelector[], probed: string[] = selectors.map(sel => sel.selector)): DomainResult =>
+    createResult('example.com', { dkim: { found: selectors.length > 0, selectors, probedSelectors: probed, issues: [] } });
+
+  it('tracks key age, rotations, new and retired selectors', () => {
+    const runs = [
+      at('2026-01-01', [withSelectors([key('s1', 'A'), key('old', 'O')])]),
+      at('2026-03-01', [withSelectors([key('s1', 'B'), key('old', 'O')])]),
+      at('2026-10-01', [withSelectors([key('s1', 'B'), key('s2', 'C')], ['s1', 's2', 'old'])]),
+    ];
+
+    const report = dkimRotation(runs, { maxAgeDays: 180 });
+
+    expect(report).toMatchObject({ runs: 3, from: '2026-01-01T00:00:00.000Z', to: '2026-10-01T00:00:00.000Z', maxAgeDays: 180 });
+    expect(report.selectors).toEqual([
+      { domain: 'example.com', selector: 'old', status: 'retired', firstSeen: '2026-01-01T00:00:00.000Z', lastSeen: '2026-03-01T00:00:00.000Z', rotations: 0 },
+      { domain: 'example.com', selector: 's1', status: 'active', fingerprint: 'B', firstSeen: '2026-01-01T00:00:00.000Z', lastSeen: '2026-10-01T00:00:00.000Z', keySince: '2026-03-01T00:00:00.000Z', ageDays: 214, rotations: 1, stale: true },
+      { domain: 'example.com', selector: 's2', status: 'new', fingerprint: 'C', firstSeen: '2026-10-01T00:00:00.000Z', lastSeen: '2026-10-01T00:00:00.000Z', keySince: '2026-10-01T00:00:00.000Z', ageDays: 0, rotations: 0 },
+    ]);
+  });
+
+  it('retires only selectors the latest run probed', () => {
+    const runs = [
+      at('2026-01-01', [withSelectors([key('s1', 'A'), key('202601', 'J')])]),
+      at('2026-10-01', [withSelectors([key('s1', 'A')], ['s1', '202610'])]),
+      at('2026-10-02', [withSelectors([], ['s1'])]),
+    ];
+
+    const [january, s1] = dkimRotation(runs).selectors;
+
+    expect(january).toMatchObject({ selector: '202601', status: 'active', lastSeen: '2026-01-01T00:00:00.000Z', ageDays: 274 });
+    expect(s1).toMatchObject({ selector: 's1', status: 'retired', lastSeen: '2026-10-01T00:00:00.000Z' });
+    expect(dkimRotation(runs.slice(0, 2)).selectors[0]).toMatchObject({ selector: '202601', status: 'active' });
+  });
+
+  it('flags revoked selectors left published past the grace period', () => {
+    const runs = [
+      at('2026-08-01', [withSelectors([key('s1', 'A')])]),
+      at('2026-09-01', [withSelectors([revoked('s1')])]),
+      at('2026-10-01', [withSelectors([revoked('s1')])]),
+    ];
+
+    expect(dkimRotation(runs).selectors[0]).toMatchObject({ status: 'revoked', keySince: '2026-09-01T00:00:00.000Z', ageDays: 30, rotations: 0 });
+    expect(dkimRotation(runs, { revokedGraceDays: 14 }).selectors[0].lingering).toBe(true);
+  });
+
+  it('fingerprints keys of runs recorded without one and ignores skipped checks', () => {
+    const p = crypto.generateKeyPairSync('ed25519').publicKey.export({ format: 'jwk' }).x!;
+    const record = `v=DKIM1; k=ed25519; p=${Buffer.from(p, 'base64url').toString('base64')}`;
+    const runs = [
+      at('2026-01-01', [withSelectors([{ selector: 'ed', found: true, keyType: 'ed25519', keyLength: 256, record }])]),
+      at('2026-02-01', [createResult('example.com', { dkim: { found: false, skipped: true, selectors: [], issues: [] } })]),
+    ];
+
+    const [rotation] = dkimRotation(runs).selectors;
+
+    expect(rotation).toMatchObject({ status: 'active', ageDays: 0, ageIsMinimum: true });
+    expect(rotation.fingerprint).toMatch(/^[A-Za-z0-9+/]{43}=$/);
+  });
+});
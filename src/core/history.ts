@@ -0,0 +1,272 @@
+/**
+ * Local scan history: a directory of JSONL files recording each run's results
+ *
+ *   <dir>/runs.jsonl        one line per run: { id, timestamp, domains }
+ *   <dir>/runs/<id>.jsonl   one DomainResult per line
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import type {
+  DKIMKeyRotation,
+  DKIMRotationReport,
+  DKIMSelector,
+  DomainHistory,
+  DomainHistoryPoint,
+  DomainResult,
+  Grade,
+  HistoryRun,
+  HistoryRunInfo,
+  IssueLifecycle,
+  PortfolioTrendPoint,
+} from '../types.js';
+import { collectAllIssues } from '../output.js';
+import { issueKey } from './diff.js';
+import { keyFingerprint, parseDkimPublicKey } from '../utils/dkim-crypto.js';
+import { DKIM_MAX_KEY_AGE_DAYS, DKIM_REVOKED_GRACE_DAYS } from '../constants.js';
+
+const INDEX_FILE = 'runs.jsonl';
+const RUNS_DIR = 'runs';
+
+/**
+ * History directory: DNSVET_HISTORY_DIR or ~/.dnsvet/history
+ */
+export function defaultHistoryDir(): string {
+  return process.env.DNSVET_HISTORY_DIR || path.join(os.homedir(), '.dnsvet', 'history');
+}
+
+/**
+ * Sortable run ID, e.g. "20261019T093000123Z-3fa2"
+ */
+export function createRunId(now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:.]/g, '');
+  return `${stamp}-${randomBytes(2).toString('hex')}`;
+}
+
+function parseLines<T>(content: string, file: string): T[] {
+  return content
+    .split('\n')
+    .map((line, i) => ({ line: line.trim(), lineNumber: i + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNumber }) => {
+      try {
+        return JSON.parse(line) as T;
+      } catch (err) {
+        throw new Error(`Invalid history file ${file}:${lineNumber}: ${(err as Error).message}`);
+      }
+    });
+}
+
+/**
+ * Append a run to the history directory (created if missing)
+ */
+export async function saveRun(dir: string, results: DomainResult[], now = new Date()): Promise<HistoryRunInfo> {
+  const info: HistoryRunInfo = { id: createRunId(now), timestamp: now.toISOString(), domains: results.length };
+  await fs.mkdir(path.join(dir, RUNS_DIR), { recursive: true });
+  // Write the results before indexing them so a crash never leaves a dangling index entry
+  await fs.writeFile(
+    path.join(dir, RUNS_DIR, `${info.id}.jsonl`),
+    results.map(r => JSON.stringify(r) + '\n').join('')
+  );
+  await fs.appendFile(path.join(dir, INDEX_FILE), JSON.stringify(info) + '\n');
+  return info;
+}
+
+/**
+ * List recorded runs, oldest first. A missing directory has no runs.
+ */
+export async function listRuns(dir: string): Promise<HistoryRunInfo[]> {
+  const file = path.join(dir, INDEX_FILE);
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  return parseLines<HistoryRunInfo>(content, file)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Load recorded runs with their results, oldest first.
+ * `limit` keeps only the most recent runs.
+ */
+export async function loadRuns(dir: string, options: { limit?: number } = {}): Promise<HistoryRun[]> {
+  let infos = await listRuns(dir);
+  if (options.limit !== undefined) {
+    infos = infos.slice(-options.limit);
+  }
+  const runs: HistoryRun[] = [];
+  for (const info of infos) {
+    const file = path.join(dir, RUNS_DIR, `${info.id}.jsonl`);
+    const results = parseLines<DomainResult>(await fs.readFile(file, 'utf-8'), file);
+    runs.push({ ...info, results });
+  }
+  return runs;
+}
+
+/**
+ * Grade/score over time and issue lifecycles for one domain.
+ * Runs that did not scan the domain are ignored; an issue that returns
+ * after being resolved starts a new lifecycle.
+ */
+export function domainHistory(runs: HistoryRun[], domain: string): DomainHistory {
+  const points: DomainHistoryPoint[] = [];
+  const issues: IssueLifecycle[] = [];
+  const open = new Map<string, IssueLifecycle>();
+
+  for (const run of runs) {
+    const result = run.results.find(r => r.domain === domain);
+    if (!result) continue;
+
+    points.push({ runId: run.id, timestamp: run.timestamp, grade: result.grade, score: result.score });
+
+    const seen = new Set<string>();
+    for (const { check, issue } of collectAllIssues(result)) {
+      const key = issueKey(check, issue);
+      seen.add(key);
+      const lifecycle = open.get(key);
+      if (lifecycle) {
+        lifecycle.lastSeen = run.timestamp;
+        continue;
+      }
+      const started: IssueLifecycle = {
+        code: issue.code,
+        check,
+        severity: issue.severity,
+        message: issue.message,
+        firstSeen: run.timestamp,
+        lastSeen: run.timestamp,
+      };
+      open.set(key, started);
+      issues.push(started);
+    }
+
+    for (const [key, lifecycle] of open) {
+      if (!seen.has(key)) {
+        lifecycle.resolved = run.timestamp;
+        open.delete(key);
+      }
+    }
+  }
+
+  return { domain, points, issues };
+}
+
+/**
+ * Portfolio-wide average score and grade distribution per run
+ */
+export function portfolioTrend(runs: HistoryRun[]): PortfolioTrendPoint[] {
+  return runs.map(run => {
+    const grades: Record<Grade, number> = { A: 0, B: 0, C: 0, D: 0, F: 0 };
+    for (const result of run.results) {
+      grades[result.grade]++;
+    }
+    const total = run.results.reduce((sum, r) => sum + r.score, 0);
+    return {
+      runId: run.id,
+      timestamp: run.timestamp,
+      domains: run.results.length,
+      averageScore: run.results.length > 0 ? Math.round(total / run.results.length) : 0,
+      grades,
+    };
+  });
+}
+
+export interface DkimRotationOptions {
+  domains?: string[];         // Only these domains (default: all recorded)
+  maxAgeDays?: number;        // Active keys older than this are stale
+  revokedGraceDays?: number;  // Revoked selectors older than this are lingering
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Key of a selector as recorded: "revoked", its fingerprint, or the record
+ * itself when the key cannot be decoded. Runs saved before fingerprints were
+ * recorded are fingerprinted from the record.
+ */
+function recordedKey(sel: DKIMSelector): string {
+  if (sel.keyLength === 0) return 'revoked';
+  if (sel.keyFingerprint) return sel.keyFingerprint;
+  const key = sel.record ? parseDkimPublicKey(sel.record).key : undefined;
+  return key ? keyFingerprint(key) : `record:${sel.record ?? ''}`;
+}
+
+/**
+ * Key age and rotation of every DKIM selector recorded in the history.
+ * Runs that skipped or failed the DKIM check for a domain are ignored. A
+ * selector is retired only when the domain's latest run probed it and found
+ * nothing: which selectors get probed varies between runs (discovery patterns
+ * follow the date), and runs recorded before probes were saved probed nothing.
+ */
+export function dkimRotation(runs: HistoryRun[], options: DkimRotationOptions = {}): DKIMRotationReport {
+  const maxAgeDays = options.maxAgeDays ?? DKIM_MAX_KEY_AGE_DAYS;
+  const revokedGraceDays = options.revokedGraceDays ?? DKIM_REVOKED_GRACE_DAYS;
+  const domains = options.domains ?? [...new Set(runs.flatMap(run => run.results.map(r => r.domain)))];
+  const selectors: DKIMKeyRotation[] = [];
+
+  for (const domain of domains) {
+    const observed = runs
+      .map(run => ({ timestamp: run.timestamp, dkim: run.results.find(r => r.domain === domain)?.dkim }))
+      .filter(({ dkim }) => dkim && !dkim.skipped && !dkim.issues.some(i => i.code === 'DKIM-CHECK-FAILED'));
+    if (observed.length === 0) continue;
+
+    const first = observed[0].timestamp;
+    const latest = observed[observed.length - 1].timestamp;
+    const latestProbed = new Set(observed[observed.length - 1].dkim!.probedSelectors?.map(s => s.toLowerCase()));
+    const tracked = new Map<string, DKIMKeyRotation & { key: string }>();
+
+    for (const { timestamp, dkim } of observed) {
+      for (const sel of dkim!.selectors) {
+        if (!sel.found) continue;
+        const key = recordedKey(sel);
+        const entry = tracked.get(sel.selector);
+        if (!entry) {
+          tracked.set(sel.selector, { domain, selector: sel.selector, status: 'active', key, firstSeen: timestamp, lastSeen: timestamp, keySince: timestamp, rotations: 0 });
+          continue;
+        }
+        entry.lastSeen = timestamp;
+        if (entry.key !== key) {
+          if (key !== 'revoked') entry.rotations++;
+          entry.key = key;
+          entry.keySince = timestamp;
+        }
+      }
+    }
+
+    for (const { key, ...entry } of [...tracked.values()].sort((a, b) => a.selector.localeCompare(b.selector))) {
+      const rotation: DKIMKeyRotation = entry;
+      if (entry.lastSeen !== latest && latestProbed.has(entry.selector.toLowerCase())) {
+        rotation.status = 'retired';
+        delete rotation.keySince;
+        selectors.push(rotation);
+        continue;
+      }
+
+      rotation.ageDays = Math.floor((Date.parse(latest) - Date.parse(entry.keySince!)) / DAY_MS);
+      if (entry.keySince === first) rotation.ageIsMinimum = true;
+      if (key === 'revoked') {
+        rotation.status = 'revoked';
+        if (rotation.ageDays > revokedGraceDays) rotation.lingering = true;
+      } else {
+        if (!key.startsWith('record:')) rotation.fingerprint = key;
+        rotation.status = entry.firstSeen === latest && observed.length > 1 ? 'new' : 'active';
+        if (rotation.ageDays > maxAgeDays) rotation.stale = true;
+      }
+      selectors.push(rotation);
+    }
+  }
+
+  return {
+    runs: runs.length,
+    from: runs[0]?.timestamp,
+    to: runs[runs.length - 1]?.timestamp,
+    maxAgeDays,
+    revokedGraceDays,
+    selectors,
+  };
+}
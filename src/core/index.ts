@@ -1,2 +1,10 @@
 export { analyzeDomain, analyzeMultiple } from './analyzer.js';
 export { calculateGrade, generateRecommendations } from './scorer.js';
+export { diffResults, diffDomain, parseResults } from './diff.js';
+export { evaluatePolicy, loadPolicy, parsePolicy, validatePolicy, findPolicyFile, rulesForDomain } from './policy.js';
+export { saveRun, loadRuns, listRuns, domainHistory, portfolioTrend, dkimRotation, defaultHistoryDir } from './history.js';
+export { flattenSPF, buildFlattened, quoteTxt } from './spf-flatten.js';
+export { evaluateSPF } from './spf-eval.js';
+export { parseAggregateReport, readAggregateReports, analyzeAggregateReports, crossReferenceLive } from './dmarc-reports.js';
+export { assessDmarcReadiness } from './dmarc-readiness.js';
+export { analyzeMessage } from './message.js';
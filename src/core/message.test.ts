@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'node:crypto';
+import { cachedResolveTxt, cachedResolveA, cachedResolveAaaa, cachedResolveMx } from '../utils/dns.js';
+import { parseEmail } from '../utils/email.js';
+import { computeBodyHash, selectSignedHeaders, signedHeaderData } from '../utils/dkim-crypto.js';
+import type { DkimCanonicalization } from '../utils/dkim-crypto.js';
+import { analyzeMessage } from './message.js';
+
+vi.mock('../utils/dns.js', async () => {
+  const actual = await vi.importActual<typeof import('../utils/dns.js')>('../utils/dns.js');
+  return {
+    ...actual,
+    cachedResolveTxt: vi.fn(),
+    cachedResolveA: vi.fn(),
+    cachedResolveAaaa: vi.fn(),
+    cachedResolveMx: vi.fn()
+  };
+});
+
+const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+const ed25519 = crypto.generateKeyPairSync('ed25519');
+const RSA_KEY = `v=DKIM1; k=rsa; p=${rsa.publicKey.export({ format: 'der', type: 'spki' }).toString('base64')}`;
+const ED25519_KEY = `v=DKIM1; k=ed25519; p=${Buffer.from(ed25519.publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('base64')}`;
+
+const MESSAGE = [
+  'Received: from mx.internal (mx.internal [10.0.0.5]) by store.example.net; Mon, 19 Oct 2026 10:00:02 +0000',
+  'Received: from mail.example.com (mail.example.com [192.0.2.1]) by mx.example.net; Mon, 19 Oct 2026 10:00:01 +0000',
+  'Return-Path: <bounce@example.com>',
+  'From: Alerts <alerts@example.com>',
+  'To: user@example.net',
+  'Subject: Quarterly report',
+  'Date: Mon, 19 Oct 2026 10:00:00 +0000',
+  'Message-ID: <1@example.com>',
+  '',
+  'Hello,  world ',
+  '',
+].join('\r\n');
+
+function zone(records: Record<string, string[]>): void {
+  vi.mocked(cachedResolveTxt).mockImplementation(async name => records[name] ?? []);
+  vi.mocked(cachedResolveA).mockResolvedValue(['192.0.2.1']);
+  vi.mocked(cachedResolveAaaa).mockResolvedValue([]);
+  vi.mocked(cachedResolveMx).mockResolvedValue([]);
+}
+
+interface SignOptions {
+  domain?: string;
+  selector?: string;
+  key?: crypto.KeyObject;
+  algorithm?: string;
+  canonicalization?: string;
+  field?: string;   // Signature field name
+  tags?: string;    // Extra tags, e.g. "i=1; "
+  headers?: string[];
+}
+
+/**
+ * Prepend a DKIM-Signature (or ARC-Message-Signature) to a message
+ */
+function sign(message: string, options: SignOptions = {}): string {
+  const { domain = 'example.com', selector = 'sel', key = rsa.privateKey, algorithm = 'rsa-sha256', canonicalization = 'relaxed/relaxed', field = 'DKIM-Signature', tags = 'v=1; ', headers = ['from', 'to', 'subject', 'date'] } = options;
+  const parsed = parseEmail(message);
+  const [headerCanon, bodyCanon] = canonicalization.split('/') as DkimCanonicalization[];
+  const bodyHash = computeBodyHash(parsed.body, bodyCanon, algorithm.endsWith('sha1') ? 'sha1' : 'sha256');
+  const value = `${tags}a=${algorithm}; c=${canonicalization}; d=${domain}; s=${selector};\r\n h=${headers.join(':')}; bh=${bodyHash}; b=`;
+  const signature = { name: field, value, raw: `${field}: ${value}` };
+  const data = signedHeaderData(selectSignedHeaders(parsed.headers, headers), signature, headerCanon);
+  const b = algorithm.startsWith('ed25519')
+    ? crypto.sign(null, crypto.createHash('sha256').update(data).digest(), key)
+    : crypto.sign('sha256', data, key);
+  return `${signature.raw}${b.toString('base64')}\r\n${message}`;
+}
+
+/**
+ * Add ARC set `instance` to a message, sealed with the RSA key at arc._domainkey.forwarder.example
+ */
+function arcSeal(message: string, instance: number, cv: string, authResults = 'dkim=pass header.d=example.com'): string {
+  let sealed = `ARC-Authentication-Results: i=${instance}; forwarder.example; ${authResults}\r\n${message}`;
+  sealed = sign(sealed, { domain: 'forwarder.example', selector: 'arc', field: 'ARC-Message-Signature', tags: `i=${instance}; ` });
+
+  const parsed = parseEmail(sealed);
+  const arcFields = (name: string) => parsed.headers.filter(h => h.name.toLowerCase() === name);
+  const fields = [];
+  for (let i = 1; i <= instance; i++) {
+    const find = (name: string) => arcFields(name).find(h => new RegExp(`i=${i};`).test(h.value))!;
+    fields.push(find('arc-authentication-results'), find('arc-message-signature'));
+    if (i < instance) fields.push(find('arc-seal'));
+  }
+  const value = `i=${instance}; a=rsa-sha256; cv=${cv}; d=forwarder.example; s=arc; b=`;
+  const seal = { name: 'ARC-Seal', value, raw: `ARC-Seal: ${value}` };
+  const b = crypto.sign('sha256', signedHeaderData(fields, seal, 'relaxed'), rsa.privateKey);
+  return `${seal.raw}${b.toString('base64')}\r\n${sealed}`;
+}
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('analyzeMessage', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    zone({
+      'sel._domainkey.example.com': [RSA_KEY],
+      'ed._domainkey.example.com': [ED25519_KEY],
+      'arc._domainkey.forwarder.example': [RSA_KEY],
+      '_dmarc.example.com': ['v=DMARC1; p=reject; rua=mailto:dmarc@example.com'],
+      'example.com': ['v=spf1 ip4:192.0.2.0/24 -all'],
+    });
+  });
+
+  it('verifies DKIM, SPF and DMARC alignment of a legitimate message', async () => {
+    const analysis = await analyzeMessage(sign(MESSAGE), { now: NOW });
+
+    expect(analysis).toMatchObject({
+      from: 'alerts@example.com',
+      fromDomain: 'example.com',
+      mailFrom: 'bounce@example.com',
+      subject: 'Quarterly report',
+      ip: '192.0.2.1',
+      helo: 'mail.example.com',
+    });
+    expect(analysis.dkim).toEqual([expect.objectContaining({ domain: 'example.com', selector: 'sel', result: 'pass', canonicalization: 'relaxed/relaxed' })]);
+    expect(analysis.spf).toMatchObject({ domain: 'example.com', ip: '192.0.2.1', result: 'pass' });
+    expect(analysis.dmarc).toMatchObject({ result: 'pass', policy: 'reject', spfAligned: true, dkimAligned: true, alignedDkimDomain: 'example.com' });
+    expect(analysis.arc.result).toBe('none');
+    expect(analysis.warnings).toEqual([]);
+  });
+
+  it('verifies ed25519 signatures with simple canonicalization', async () => {
+    const signed = sign(MESSAGE, { selector: 'ed', key: ed25519.privateKey, algorithm: 'ed25519-sha256', canonicalization: 'simple/simple' });
+
+    expect((await analyzeMessage(signed, { now: NOW })).dkim[0].result).toBe('pass');
+  });
+
+  it('fails signatures over a modified body or header', async () => {
+    const signed = sign(MESSAGE);
+
+    const body = await analyzeMessage(signed.replace('Hello', 'Jello'), { now: NOW });
+    const header = await analyzeMessage(signed.replace('Quarterly', 'Urgent'), { now: NOW });
+
+    expect(body.dkim[0]).toMatchObject({ result: 'fail', reason: expect.stringContaining('Body hash') });
+    expect(header.dkim[0]).toMatchObject({ result: 'fail', reason: expect.stringContaining('Signature did not verify') });
+  });
+
+  it('reports key and syntax problems as permerror', async () => {
+    const noKey = await analyzeMessage(sign(MESSAGE, { selector: 'gone' }), { now: NOW });
+    const noFrom = await analyzeMessage(sign(MESSAGE, { headers: ['to', 'subject'] }), { now: NOW });
+
+    expect(noKey.dkim[0]).toMatchObject({ result: 'permerror', reason: 'No key published at gone._domainkey.example.com' });
+    expect(noFrom.dkim[0]).toMatchObject({ result: 'permerror', reason: expect.stringContaining('h= lacks from') });
+  });
+
+  it('fails DMARC when only unaligned identifiers pass', async () => {
+    const forwarded = sign(MESSAGE.replace('bounce@example.com', 'bounce@esp.example'), { domain: 'esp.example' });
+    zone({
+      'sel._domainkey.esp.example': [RSA_KEY],
+      '_dmarc.example.com': ['v=DMARC1; p=quarantine; adkim=s'],
+      'esp.example': ['v=spf1 ip4:192.0.2.1 -all'],
+    });
+
+    const analysis = await analyzeMessage(forwarded, { now: NOW });
+
+    expect(analysis.dkim[0].result).toBe('pass');
+    expect(analysis.spf).toMatchObject({ domain: 'esp.example', result: 'pass' });
+    expect(analysis.dmarc).toMatchObject({ result: 'fail', policy: 'quarantine', adkim: 's', spfAligned: false, dkimAligned: false });
+  });
+
+  it('uses relaxed alignment and the inherited sp= for subdomains', async () => {
+    const message = MESSAGE.replace('alerts@example.com', 'alerts@news.example.com');
+    zone({
+      'sel._domainkey.example.com': [RSA_KEY],
+      '_dmarc.example.com': ['v=DMARC1; p=reject; sp=none'],
+      'example.com': ['v=spf1 -all'],
+    });
+
+    const analysis = await analyzeMessage(sign(message), { now: NOW });
+
+    expect(analysis.dmarc).toMatchObject({ result: 'pass', recordDomain: 'example.com', policy: 'none', policyTag: 'sp', dkimAligned: true });
+  });
+
+  it('validates an ARC chain', async () => {
+    const once = arcSeal(sign(MESSAGE), 1, 'none');
+    const twice = arcSeal(once, 2, 'pass');
+
+    const analysis = await analyzeMessage(twice, { now: NOW });
+
+    expect(analysis.arc.result).toBe('pass');
+    expect(analysis.arc.sets.map(s => [s.instance, s.chainValidation, s.seal, s.messageSignature?.result])).toEqual([
+      [1, 'none', 'pass', 'pass'],
+      [2, 'pass', 'pass', 'pass'],
+    ]);
+    expect(analysis.arc.sets[0].authenticationResults).toBe('forwarder.example; dkim=pass header.d=example.com');
+  });
+
+  it('fails an ARC chain whose sealed results were altered', async () => {
+    const tampered = arcSeal(sign(MESSAGE), 1, 'none').replace('dkim=pass header.d', 'dkim=fail header.d');
+
+    const analysis = await analyzeMessage(tampered, { now: NOW });
+
+    expect(analysis.arc).toMatchObject({ result: 'fail', reason: 'ARC-Seal 1: Seal did not verify' });
+  });
+
+  it('fails an ARC chain with a wrong cv=', async () => {
+    const analysis = await analyzeMessage(arcSeal(sign(MESSAGE), 1, 'pass'), { now: NOW });
+
+    expect(analysis.arc).toMatchObject({ result: 'fail', reason: 'ARC set 1 has cv=pass, expected none' });
+  });
+
+  it('does not evaluate SPF for bounces with an address-literal HELO', async () => {
+    zone({});
+    const bounce = MESSAGE
+      .replace('Return-Path: <bounce@example.com>', 'Return-Path: <>')
+      .replace('from mail.example.com (mail.example.com [192.0.2.1])', 'from [192.0.2.1] (unknown [192.0.2.1])');
+
+    const analysis = await analyzeMessage(bounce, { now: NOW });
+
+    expect(analysis.spf).toBeUndefined();
+    expect(analysis.warnings).toContain('Bounce HELO is an address literal (192.0.2.1) - SPF cannot be evaluated');
+    expect(vi.mocked(cachedResolveTxt).mock.calls.map(([name]) => name)).not.toContain('192.0.2.1');
+  });
+
+  it('warns when SPF cannot be evaluated', async () => {
+    const analysis = await analyzeMessage('From: a@example.com\r\nSubject: x\r\n\r\nbody\r\n', { now: NOW });
+
+    expect(analysis.spf).toBeUndefined();
+    expect(analysis.dmarc).toMatchObject({ result: 'fail', spfAligned: false, dkimAligned: false });
+    expect(analysis.warnings).toEqual(['No Received fields - SPF cannot be evaluated']);
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Raw message authentication analysis
+ *
+ * Explains how a received message authenticates: DKIM signatures are
+ * verified against the published keys, SPF is evaluated for the last-hop
+ * address from the Received fields, DMARC alignment is computed against
+ * the live record, and any ARC chain (RFC 8617) is validated.
+ */
+
+import type { KeyObject } from 'node:crypto';
+import net from 'node:net';
+import type {
+  ArcChainResult,
+  ArcSetResult,
+  MessageAnalysis,
+  MessageAuthResult,
+  MessageDmarcResult,
+  MessageSignature,
+  SPFEvaluation,
+} from '../types.js';
+import {
+  addressDomain,
+  extractAddress,
+  headerFields,
+  isInternalAddress,
+  parseEmail,
+  parseReceived,
+} from '../utils/email.js';
+import type { HeaderField, EmailMessage } from '../utils/email.js';
+import {
+  computeBodyHash,
+  dkimAlgorithm,
+  parseDkimPublicKey,
+  parseSignatureTags,
+  selectSignedHeaders,
+  signedHeaderData,
+  verifyDkimSignature,
+} from '../utils/dkim-crypto.js';
+import type { DkimCanonicalization } from '../utils/dkim-crypto.js';
+import { organizationalDomain } from '../utils/domain.js';
+import { setDnsResolver } from '../utils/dns.js';
+import { checkDMARC } from '../checks/dmarc.js';
+import { resolveDKIMRecord } from '../checks/dkim.js';
+import { evaluateSPF } from './spf-eval.js';
+
+export interface MessageAnalysisOptions {
+  resolver?: string; // Custom DNS resolver
+  now?: Date;        // Time to check signature expiry (x=) against
+}
+
+const MAX_ARC_INSTANCES = 50; // RFC 8617 §4.2.1
+
+type KeyLookup =
+  | { ok: true; key: KeyObject; testing: boolean }
+  | { ok: false; result: MessageAuthResult; reason: string };
+
+/**
+ * Fetch and check the key for a signature, the same way checkDKIM finds selectors
+ */
+async function fetchKey(domain: string, selector: string, algorithm: string): Promise<KeyLookup> {
+  const name = `${selector}._domainkey.${domain}`;
+  let record: string | undefined;
+  try {
+    record = await resolveDKIMRecord(domain, selector);
+  } catch (err) {
+    return { ok: false, result: 'temperror', reason: `Key lookup for ${name} failed: ${(err as Error).message}` };
+  }
+  if (!record) {
+    return { ok: false, result: 'permerror', reason: `No key published at ${name}` };
+  }
+
+  const key = parseDkimPublicKey(record);
+  const params = dkimAlgorithm(algorithm);
+  if (key.revoked) {
+    return { ok: false, result: 'permerror', reason: `Key at ${name} is revoked (empty p=)` };
+  }
+  if (key.error || !key.key) {
+    return { ok: false, result: 'permerror', reason: `${key.error ?? 'Unusable key'} at ${name}` };
+  }
+  if (params && key.keyType !== params.key) {
+    return { ok: false, result: 'permerror', reason: `Key at ${name} is k=${key.keyType} but the signature uses ${algorithm}` };
+  }
+  if (key.services && !key.services.includes('*') && !key.services.includes('email')) {
+    return { ok: false, result: 'permerror', reason: `Key at ${name} is not for email (s=${key.services.join(':')})` };
+  }
+  if (params && key.hashes && !key.hashes.includes(params.hash)) {
+    return { ok: false, result: 'permerror', reason: `Key at ${name} does not allow ${params.hash} (h=${key.hashes.join(':')})` };
+  }
+  return { ok: true, key: key.key, testing: key.testing };
+}
+
+/**
+ * Verify a DKIM-Signature (RFC 6376 §6.1) or ARC-Message-Signature (RFC 8617 §4.1.2)
+ */
+async function verifySignature(message: EmailMessage, field: HeaderField, kind: 'dkim' | 'arc', now: Date): Promise<MessageSignature> {
+  const tags = parseSignatureTags(field.value);
+  const [headerCanon = 'simple', bodyCanon = 'simple'] = (tags.get('c') ?? 'simple/simple').toLowerCase().split('/');
+  const signature: MessageSignature = {
+    domain: (tags.get('d') ?? '').toLowerCase(),
+    selector: tags.get('s') ?? '',
+    algorithm: (tags.get('a') ?? '').toLowerCase(),
+    canonicalization: `${headerCanon}/${bodyCanon}`,
+    headers: (tags.get('h') ?? '').split(':').filter(Boolean).map(name => name.toLowerCase()),
+    result: 'permerror',
+  };
+  if (tags.has('l')) signature.bodyLength = Number(tags.get('l'));
+  if (kind === 'arc') signature.instance = Number(tags.get('i'));
+
+  const fail = (result: MessageAuthResult, reason: string): MessageSignature => ({ ...signature, result, reason });
+
+  const required = kind === 'dkim' ? ['v', 'a', 'b', 'bh', 'd', 'h', 's'] : ['i', 'a', 'b', 'bh', 'd', 'h', 's'];
+  const missing = required.filter(tag => !tags.get(tag));
+  if (missing.length > 0) {
+    return fail('permerror', `Missing required tag(s): ${missing.join(', ')}`);
+  }
+  if (kind === 'dkim' && tags.get('v') !== '1') {
+    return fail('permerror', `Unsupported version v=${tags.get('v')}`);
+  }
+  const params = dkimAlgorithm(signature.algorithm);
+  if (!params) {
+    return fail('permerror', `Unsupported algorithm a=${signature.algorithm}`);
+  }
+  if (![headerCanon, bodyCanon].every(mode => mode === 'simple' || mode === 'relaxed')) {
+    return fail('permerror', `Unsupported canonicalization c=${signature.canonicalization}`);
+  }
+  if (!signature.headers.includes('from')) {
+    return fail('permerror', 'The From field is not signed (h= lacks from)');
+  }
+  if (signature.bodyLength !== undefined && !(Number.isInteger(signature.bodyLength) && signature.bodyLength >= 0)) {
+    return fail('permerror', `Invalid body length l=${tags.get('l')}`);
+  }
+  const identity = addressDomain(tags.get('i'));
+  if (kind === 'dkim' && identity && identity !== signature.domain && !identity.endsWith(`.${signature.domain}`)) {
+    return fail('permerror', `Identity i=${tags.get('i')} is not within d=${signature.domain}`);
+  }
+  const expires = tags.has('x') ? Number(tags.get('x')) : undefined;
+  if (expires !== undefined && expires * 1000 < now.getTime()) {
+    return fail('fail', `Signature expired ${new Date(expires * 1000).toISOString()}`);
+  }
+
+  const bodyHash = computeBodyHash(message.body, bodyCanon as DkimCanonicalization, params.hash, signature.bodyLength);
+  if (bodyHash !== tags.get('bh')) {
+    return fail('fail', 'Body hash did not verify - the body was modified after signing');
+  }
+
+  const key = await fetchKey(signature.domain, signature.selector, signature.algorithm);
+  if (!key.ok) {
+    return fail(key.result, key.reason);
+  }
+  if (key.testing) signature.testing = true;
+
+  const data = signedHeaderData(selectSignedHeaders(message.headers, signature.headers), field, headerCanon as DkimCanonicalization);
+  if (!verifyDkimSignature(signature.algorithm, key.key, data, Buffer.from(tags.get('b')!, 'base64'))) {
+    return fail('fail', 'Signature did not verify - signed header fields were modified');
+  }
+  return { ...signature, result: 'pass' };
+}
+
+/**
+ * ARC instance number of an ARC header field (i= tag)
+ */
+function arcInstance(field: HeaderField): number {
+  return Number(/(?:^|;)\s*i\s*=\s*(\d+)/.exec(field.value)?.[1] ?? NaN);
+}
+
+/**
+ * Verify the ARC-Seal of instance `instance`: it signs every ARC set up to
+ * and including its own, in instance order, with relaxed canonicalization
+ */
+async function verifySeal(sets: Map<number, Record<string, HeaderField>>, instance: number): Promise<{ result: MessageAuthResult; reason?: string }> {
+  const seal = sets.get(instance)!['arc-seal'];
+  const tags = parseSignatureTags(seal.value);
+  const missing = ['a', 'b', 'cv', 'd', 'i', 's'].filter(tag => !tags.get(tag));
+  if (missing.length > 0) {
+    return { result: 'permerror', reason: `Missing required tag(s): ${missing.join(', ')}` };
+  }
+  const algorithm = tags.get('a')!.toLowerCase();
+  if (!dkimAlgorithm(algorithm)) {
+    return { result: 'permerror', reason: `Unsupported algorithm a=${algorithm}` };
+  }
+
+  const fields: HeaderField[] = [];
+  for (let i = 1; i <= instance; i++) {
+    const set = sets.get(i)!;
+    fields.push(set['arc-authentication-results'], set['arc-message-signature']);
+    if (i < instance) fields.push(set['arc-seal']);
+  }
+
+  const key = await fetchKey(tags.get('d')!.toLowerCase(), tags.get('s')!, algorithm);
+  if (!key.ok) {
+    return { result: key.result, reason: key.reason };
+  }
+  const data = signedHeaderData(fields, seal, 'relaxed');
+  if (!verifyDkimSignature(algorithm, key.key, data, Buffer.from(tags.get('b')!, 'base64'))) {
+    return { result: 'fail', reason: 'Seal did not verify' };
+  }
+  return { result: 'pass' };
+}
+
+/**
+ * Validate the ARC chain (RFC 8617 §5.2)
+ */
+async function validateArc(message: EmailMessage, now: Date): Promise<ArcChainResult> {
+  const names = ['arc-seal', 'arc-message-signature', 'arc-authentication-results'];
+  const fields = message.headers.filter(header => names.includes(header.name.toLowerCase()));
+  if (fields.length === 0) {
+    return { result: 'none', sets: [] };
+  }
+
+  const sets = new Map<number, Record<string, HeaderField>>();
+  for (const field of fields) {
+    const instance = arcInstance(field);
+    const name = field.name.toLowerCase();
+    if (!Number.isInteger(instance) || instance < 1 || instance > MAX_ARC_INSTANCES) {
+      return { result: 'fail', reason: `${field.name} has an invalid instance i=`, sets: [] };
+    }
+    const set = sets.get(instance) ?? {};
+    if (set[name]) {
+      return { result: 'fail', reason: `Duplicate ${field.name} for instance ${instance}`, sets: [] };
+    }
+    set[name] = field;
+    sets.set(instance, set);
+  }
+
+  const count = Math.max(...sets.keys());
+  for (let i = 1; i <= count; i++) {
+    const missing = names.filter(name => !sets.get(i)?.[name]);
+    if (missing.length > 0) {
+      return { result: 'fail', reason: `ARC set ${i} is missing ${missing.join(', ')}`, sets: [] };
+    }
+  }
+
+  const results: ArcSetResult[] = [];
+  for (let i = 1; i <= count; i++) {
+    const set = sets.get(i)!;
+    const sealTags = parseSignatureTags(set['arc-seal'].value);
+    const seal = await verifySeal(sets, i);
+    results.push({
+      instance: i,
+      chainValidation: sealTags.get('cv')?.toLowerCase(),
+      domain: sealTags.get('d')?.toLowerCase(),
+      selector: sealTags.get('s'),
+      seal: seal.result,
+      sealReason: seal.reason,
+      messageSignature: await verifySignature(message, set['arc-message-signature'], 'arc', now),
+      authenticationResults: set['arc-authentication-results'].value.replace(/^\s*i\s*=\s*\d+\s*;\s*/, ''),
+    });
+  }
+
+  const chain: ArcChainResult = { result: 'pass', sets: results };
+  const failed = results.find(set => set.chainValidation === 'fail');
+  const badCv = results.find(set => set.chainValidation !== (set.instance === 1 ? 'none' : 'pass'));
+  const badSeal = [...results].reverse().find(set => set.seal !== 'pass');
+  const latest = results[results.length - 1].messageSignature!;
+  if (failed) {
+    return { ...chain, result: 'fail', reason: `ARC set ${failed.instance} recorded cv=fail` };
+  }
+  if (badCv) {
+    return { ...chain, result: 'fail', reason: `ARC set ${badCv.instance} has cv=${badCv.chainValidation ?? '(missing)'}, expected ${badCv.instance === 1 ? 'none' : 'pass'}` };
+  }
+  if (latest.result !== 'pass') {
+    return { ...chain, result: 'fail', reason: `ARC-Message-Signature ${count}: ${latest.reason}` };
+  }
+  if (badSeal) {
+    return { ...chain, result: 'fail', reason: `ARC-Seal ${badSeal.instance}: ${badSeal.sealReason}` };
+  }
+  return chain;
+}
+
+/**
+ * Whether two domains are aligned in strict or relaxed mode (RFC 7489 §3.1)
+ */
+function aligned(domain: string | undefined, fromDomain: string, mode: 'r' | 's'): boolean {
+  if (!domain) return false;
+  return mode === 's' ? domain === fromDomain : organizationalDomain(domain) === organizationalDomain(fromDomain);
+}
+
+/**
+ * DMARC evaluation against the live record, or the record and sp=/np=
+ * the From domain inherits
+ */
+async function evaluateDmarc(fromDomain: string | undefined, spf: SPFEvaluation | undefined, dkim: MessageSignature[]): Promise<MessageDmarcResult> {
+  const result: MessageDmarcResult = { result: 'none', domain: fromDomain, adkim: 'r', aspf: 'r', spfAligned: false, dkimAligned: false };
+  if (!fromDomain) return result;
+
+  const dmarc = await checkDMARC(fromDomain);
+
+  result.adkim = dmarc.adkim ?? 'r';
+  result.aspf = dmarc.aspf ?? 'r';
+  result.spfAligned = spf?.result === 'pass' && aligned(spf.domain, fromDomain, result.aspf);
+  const alignedSignature = dkim.find(sig => sig.result === 'pass' && aligned(sig.domain, fromDomain, result.adkim));
+  result.dkimAligned = alignedSignature !== undefined;
+  result.alignedDkimDomain = alignedSignature?.domain;
+
+  if (!dmarc.found) return result;
+  result.recordDomain = dmarc.policyDomain;
+  result.record = dmarc.record;
+  result.policy = dmarc.effectivePolicy;
+  result.policyTag = dmarc.effectivePolicyTag;
+  result.result = result.spfAligned || result.dkimAligned ? 'pass' : 'fail';
+  return result;
+}
+
+/**
+ * Analyze how a raw RFC 5322 message authenticates
+ */
+export async function analyzeMessage(source: string | Buffer, options: MessageAnalysisOptions = {}): Promise<MessageAnalysis> {
+  const message = parseEmail(source);
+  const now = options.now ?? new Date();
+  const warnings: string[] = [];
+  setDnsResolver(options.resolver);
+
+  const first = (name: string) => headerFields(message, name)[0]?.value;
+  const fromFields = headerFields(message, 'from');
+  if (fromFields.length === 0) {
+    warnings.push('No From field - DMARC cannot be evaluated');
+  } else if (fromFields.length > 1) {
+    warnings.push(`${fromFields.length} From fields - receivers typically reject such messages`);
+  }
+  const from = fromFields[0] ? extractAddress(fromFields[0].value) : undefined;
+  const fromDomain = addressDomain(from);
+
+  // The topmost Return-Path is the envelope sender the final MTA saw; <> marks a bounce
+  const returnPath = first('return-path');
+  const mailFrom = returnPath !== undefined ? extractAddress(returnPath) ?? '' : undefined;
+
+  const received = headerFields(message, 'received').map(field => parseReceived(field.value));
+  const lastHop = received.find(hop => hop.ip && !isInternalAddress(hop.ip));
+  if (received.length === 0) {
+    warnings.push('No Received fields - SPF cannot be evaluated');
+  } else if (!lastHop) {
+    warnings.push('No Received field records a public sending address - SPF cannot be evaluated');
+  }
+
+  // SPF checks the MAIL FROM domain, or the HELO name for bounces (RFC 7208 §2.4)
+  let spfDomain = mailFrom ? addressDomain(mailFrom) : mailFrom === '' ? lastHop?.from : fromDomain;
+  if (mailFrom === undefined && lastHop) {
+    warnings.push('No Return-Path field - SPF was evaluated for the From domain instead');
+  }
+  // parseReceived strips the brackets of an address-literal HELO ([192.0.2.1], [IPv6:2001:db8::1])
+  if (spfDomain && net.isIP(spfDomain.replace(/^\[|\]$/g, '').replace(/^IPv6:/i, ''))) {
+    warnings.push(`${mailFrom === '' ? 'Bounce HELO' : 'MAIL FROM domain'} is an address literal (${spfDomain}) - SPF cannot be evaluated`);
+    spfDomain = undefined;
+  }
+
+  let spf: SPFEvaluation | undefined;
+  if (lastHop?.ip && spfDomain) {
+    try {
+      spf = await evaluateSPF(spfDomain, lastHop.ip, {
+        sender: mailFrom || `postmaster@${spfDomain}`,
+        helo: lastHop.from,
+        resolver: options.resolver,
+      });
+    } catch (err) {
+      warnings.push(`SPF evaluation failed: ${(err as Error).message}`);
+    }
+  }
+
+  const dkim: MessageSignature[] = [];
+  for (const field of headerFields(message, 'dkim-signature')) {
+    dkim.push(await verifySignature(message, field, 'dkim', now));
+  }
+
+  return {
+    from,
+    fromDomain,
+    mailFrom,
+    subject: first('subject'),
+    messageId: first('message-id'),
+    date: first('date'),
+    ip: lastHop?.ip,
+    helo: lastHop?.from,
+    received,
+    spf,
+    dkim,
+    dmarc: await evaluateDmarc(fromDomain, spf, dkim),
+    arc: await validateArc(message, now),
+    warnings,
+  };
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePolicy, parsePolicy, parseRequirement, rulesForDomain, matchesDomain, validatePolicy } from './policy.js';
+import type { Issue } from '../types.js';
+import { createResult } from '../testing/results.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const issue = (code: string, severity: Issue['severity'] = 'medium'): Issue => ({
+  code,
+  check: 'spf',
+  severity,
+  message: `${code} message`,
+});
+
+describe('parsePolicy', () => {
+  it('parses YAML', () => {
+    const policy = parsePolicy([
+      'minGrade: B',
+      'failOn: high',
+      'forbid:',
+      '  - SPF-PLUS-ALL',
+      '  - "DNSSEC-*"',
+      'require:',
+      '  - dmarc.policy == reject',
+      'domains:',
+      '  "*.legacy.example.com":',
+      '    minGrade: D',
+      'suppress:',
+      '  - code: DKIM-MISSING',
+      '    domain: example.org',
+      '    expires: 2026-12-31',
+      '    reason: Migrating to a new ESP',
+    ].join('\n'), '.dnsvet.yml');
+
+    expect(policy).toMatchObject({
+      minGrade: 'B',
+      failOn: 'high',
+      forbid: ['SPF-PLUS-ALL', 'DNSSEC-*'],
+      require: ['dmarc.policy == reject'],
+      domains: { '*.legacy.example.com': { minGrade: 'D' } },
+      suppress: [{ code: 'DKIM-MISSING', domain: 'example.org', expires: '2026-12-31' }],
+    });
+  });
+
+  it('parses JSON by extension', () => {
+    expect(parsePolicy('{"minScore": 75}', '.dnsvet.json')).toEqual({ minScore: 75 });
+  });
+
+  it('treats an empty file as an empty policy', () => {
+    expect(parsePolicy('', '.dnsvet.yml')).toEqual({});
+  });
+
+  it('reports every problem at once', () => {
+    const validate = () => validatePolicy({
+      minGrade: 'E',
+      failOn: 'severe',
+      require: ['dmarc.policy'],
+      domains: { 'example.com': { minScore: 200, bogus: 1 } },
+      suppress: [{ expires: 'soon' }],
+      extra: true,
+    }, '.dnsvet.yml');
+
+    expect(validate).toThrow(/^Invalid policy in \.dnsvet\.yml/);
+    for (const problem of [
+      'policy: unknown key "extra"',
+      'policy.minGrade',
+      'policy.failOn',
+      'cannot parse "dmarc.policy"',
+      'domains.example.com.minScore',
+      'domains.example.com: unknown key "bogus"',
+      'suppress[0].code: required',
+      'suppress[0].expires',
+    ]) {
+      expect(validate).toThrow(problem);
+    }
+  });
+
+  it('rejects a non-mapping document', () => {
+    expect(() => validatePolicy(['minGrade: B'])).toThrow(/mapping/);
+  });
+});
+
+describe('parseRequirement', () => {
+  it('parses strings, numbers and booleans', () => {
+    expect(parseRequirement('dmarc.policy == reject')).toEqual({ path: 'dmarc.policy', operator: '==', value: 'reject' });
+    expect(parseRequirement('score>=80')).toEqual({ path: 'score', operator: '>=', value: 80 });
+    expect(parseRequirement('dnssec.enabled == true')).toEqual({ path: 'dnssec.enabled', operator: '==', value: true });
+    expect(parseRequirement('spf.mechanism != "+all"')).toEqual({ path: 'spf.mechanism', operator: '!=', value: '+all' });
+    expect(parseRequirement('not an expression')).toBeUndefined();
+  });
+});
+
+describe('rulesForDomain', () => {
+  it('applies matching overrides in order', () => {
+    const policy = {
+      minGrade: 'A' as const,
+      failOn: 'high' as const,
+      domains: {
+        '*.example.com': { minGrade: 'C' as const },
+        'legacy.example.com': { minGrade: 'F' as const, failOn: undefined },
+      },
+    };
+
+    expect(rulesForDomain(policy, 'example.com')).toMatchObject({ minGrade: 'A', failOn: 'high' });
+    expect(rulesForDomain(policy, 'www.example.com')).toMatchObject({ minGrade: 'C', failOn: 'high' });
+    expect(rulesForDomain(policy, 'legacy.example.com')).toMatchObject({ minGrade: 'F', failOn: undefined });
+  });
+
+  it('matches wildcard domains only below the apex', () => {
+    expect(matchesDomain('*.example.com', 'a.b.example.com')).toBe(true);
+    expect(matchesDomain('*.example.com', 'example.com')).toBe(false);
+    expect(matchesDomain('Example.com', 'example.COM')).toBe(true);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('passes an empty policy', () => {
+    expect(evaluatePolicy([createResult('example.com', { grade: 'F', score: 0 })], {}, NOW).passed).toBe(true);
+  });
+
+  it('enforces minimum grade and score', () => {
+    const report = evaluatePolicy([createResult('example.com', { grade: 'C', score: 60 })], { minGrade: 'B', minScore: 70 }, NOW);
+
+    expect(report.passed).toBe(false);
+    expect(report.violations.map(v => v.rule)).toEqual(['min-grade', 'min-score']);
+  });
+
+  it('fails on issues at or above a severity', () => {
+    const result = createResult('example.com', { spf: { found: true, issues: [issue('SPF-A', 'medium'), issue('SPF-B', 'high')] } });
+
+    const report = evaluatePolicy([result], { failOn: 'high' }, NOW);
+
+    expect(report.violations).toHaveLength(1);
+    expect(report.violations[0]).toMatchObject({ rule: 'fail-on', issue: { code: 'SPF-B' } });
+  });
+
+  it('forbids issue codes with prefix wildcards', () => {
+    const result = createResult('example.com', {
+      dnssec: { enabled: false, issues: [{ ...issue('DNSSEC-DISABLED'), check: 'dnssec' }] },
+    });
+
+    const report = evaluatePolicy([result], { forbid: ['DNSSEC-*'] }, NOW);
+
+    expect(report.violations[0]).toMatchObject({ rule: 'forbid', domain: 'example.com' });
+  });
+
+  it('checks requirements against result fields', () => {
+    const result = createResult('example.com', { mtaSts: { found: true, policy: { mode: 'testing' }, issues: [] } });
+
+    const report = evaluatePolicy([result], {
+      require: ['dmarc.policy == quarantine', 'mtaSts.policy.mode == enforce', 'score >= 80', 'bimi.found == true'],
+    }, NOW);
+
+    expect(report.violations.map(v => v.message)).toEqual([
+      'Requirement not met: mtaSts.policy.mode == enforce (actual: "testing")',
+      'Requirement not met: bimi.found == true (actual: not set)',
+    ]);
+  });
+
+  it('applies per-domain overrides', () => {
+    const results = [createResult('example.com', { grade: 'D' }), createResult('old.example.com', { grade: 'D' })];
+
+    const report = evaluatePolicy(results, { minGrade: 'B', domains: { 'old.example.com': { minGrade: 'D' } } }, NOW);
+
+    expect(report.violations.map(v => v.domain)).toEqual(['example.com']);
+  });
+
+  it('suppresses issues until the expiry date', () => {
+    const result = createResult('example.com', { spf: { found: true, issues: [issue('SPF-SOFTFAIL', 'high')] } });
+    const policy = { failOn: 'high' as const, suppress: [{ code: 'SPF-SOFTFAIL', expires: '2026-10-19' }] };
+
+    const active = evaluatePolicy([result], policy, NOW);
+    expect(active.passed).toBe(true);
+    expect(active.suppressed).toHaveLength(1);
+
+    const expired = evaluatePolicy([result], policy, new Date('2026-10-20T00:00:00Z'));
+    expect(expired.passed).toBe(false);
+    expect(expired.expiredSuppressions).toEqual([policy.suppress[0]]);
+  });
+
+  it('scopes suppressions to a domain', () => {
+    const results = [
+      createResult('a.example.com', { spf: { found: true, issues: [issue('SPF-X', 'high')] } }),
+      createResult('b.example.org', { spf: { found: true, issues: [issue('SPF-X', 'high')] } }),
+    ];
+
+    const report = evaluatePolicy(results, { failOn: 'high', suppress: [{ code: 'SPF-*', domain: '*.example.com' }] }, NOW);
+
+    expect(report.violations.map(v => v.domain)).toEqual(['b.example.org']);
+  });
+});
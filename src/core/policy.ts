@@ -0,0 +1,316 @@
+/**
+ * Policy-as-code: evaluate scan results against a .dnsvet.yml / .dnsvet.json policy
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type {
+  DomainResult,
+  Grade,
+  Issue,
+  Policy,
+  PolicyReport,
+  PolicyRules,
+  PolicySuppression,
+  PolicyViolation,
+  Severity,
+} from '../types.js';
+import { collectAllIssues } from '../output.js';
+
+// Policy files picked up from the working directory when --policy is not given
+export const POLICY_FILE_NAMES = ['.dnsvet.yml', '.dnsvet.yaml', '.dnsvet.json'] as const;
+
+const GRADES: Grade[] = ['A', 'B', 'C', 'D', 'F'];
+const SEVERITIES: Severity[] = ['info', 'low', 'medium', 'high', 'critical'];
+const RULE_KEYS = new Set(['minGrade', 'minScore', 'failOn', 'forbid', 'require']);
+const POLICY_KEYS = new Set([...RULE_KEYS, 'domains', 'suppress']);
+const SUPPRESSION_KEYS = new Set(['code', 'domain', 'expires', 'reason']);
+
+const REQUIREMENT_PATTERN = /^\s*([A-Za-z][\w.]*)\s*(==|!=|>=|<=|>|<)\s*(.+?)\s*$/;
+
+type Operator = '==' | '!=' | '>=' | '<=' | '>' | '<';
+
+export interface Requirement {
+  path: string;
+  operator: Operator;
+  value: string | number | boolean;
+}
+
+/**
+ * Parse a requirement such as "dmarc.policy == reject" or "score >= 80"
+ */
+export function parseRequirement(expression: string): Requirement | undefined {
+  const match = REQUIREMENT_PATTERN.exec(expression);
+  if (!match) return undefined;
+  const [, reqPath, operator, raw] = match;
+  const unquoted = raw.replace(/^(['"])(.*)\1$/, '$2');
+  let value: Requirement['value'] = unquoted;
+  if (unquoted === raw) {
+    if (raw === 'true' || raw === 'false') {
+      value = raw === 'true';
+    } else if (/^-?\d+(\.\d+)?$/.test(raw)) {
+      value = Number(raw);
+    }
+  }
+  return { path: reqPath, operator: operator as Operator, value };
+}
+
+/**
+ * Look up a dotted path (e.g. "mtaSts.policy.mode") in a result
+ */
+function resolvePath(result: DomainResult, dotted: string): unknown {
+  let current: unknown = result;
+  for (const key of dotted.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function compare(actual: unknown, operator: Operator, expected: Requirement['value']): boolean {
+  switch (operator) {
+    case '==':
+      return actual === expected || (typeof expected === 'string' && actual !== undefined && String(actual) === expected);
+    case '!=':
+      return !compare(actual, '==', expected);
+    default: {
+      if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+      if (operator === '>=') return actual >= expected;
+      if (operator === '<=') return actual <= expected;
+      if (operator === '>') return actual > expected;
+      return actual < expected;
+    }
+  }
+}
+
+/**
+ * Match a code against a pattern with an optional trailing wildcard
+ */
+function matchesCode(pattern: string, code: string): boolean {
+  return pattern.endsWith('*') ? code.startsWith(pattern.slice(0, -1)) : pattern === code;
+}
+
+/**
+ * Match a domain against "example.com" or "*.example.com"
+ */
+export function matchesDomain(pattern: string, domain: string): boolean {
+  const p = pattern.toLowerCase();
+  const d = domain.toLowerCase();
+  if (p.startsWith('*.')) {
+    return d.endsWith(p.slice(1));
+  }
+  return p === d;
+}
+
+function validateRules(rules: Record<string, unknown>, where: string, errors: string[]): void {
+  for (const key of Object.keys(rules)) {
+    if (!RULE_KEYS.has(key) && !(where === 'policy' && POLICY_KEYS.has(key))) {
+      errors.push(`${where}: unknown key "${key}"`);
+    }
+  }
+  if (rules.minGrade !== undefined && !GRADES.includes(rules.minGrade as Grade)) {
+    errors.push(`${where}.minGrade: must be one of ${GRADES.join(', ')}`);
+  }
+  if (rules.minScore !== undefined && (typeof rules.minScore !== 'number' || rules.minScore < 0 || rules.minScore > 100)) {
+    errors.push(`${where}.minScore: must be a number between 0 and 100`);
+  }
+  if (rules.failOn !== undefined && !SEVERITIES.includes(rules.failOn as Severity)) {
+    errors.push(`${where}.failOn: must be one of ${SEVERITIES.join(', ')}`);
+  }
+  for (const key of ['forbid', 'require'] as const) {
+    const value = rules[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string'))) {
+      errors.push(`${where}.${key}: must be a list of strings`);
+    }
+  }
+  if (Array.isArray(rules.require)) {
+    for (const expression of rules.require) {
+      if (typeof expression === 'string' && !parseRequirement(expression)) {
+        errors.push(`${where}.require: cannot parse "${expression}" (expected "<path> <op> <value>")`);
+      }
+    }
+  }
+}
+
+/**
+ * Validate parsed policy data. Throws with every problem found.
+ */
+export function validatePolicy(data: unknown, source = 'policy'): Policy {
+  if (data === null || data === undefined) {
+    return {};
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Invalid policy in ${source}: expected a mapping at the top level`);
+  }
+
+  const errors: string[] = [];
+  const policy = data as Record<string, unknown>;
+  validateRules(policy, 'policy', errors);
+
+  if (policy.domains !== undefined) {
+    if (typeof policy.domains !== 'object' || policy.domains === null || Array.isArray(policy.domains)) {
+      errors.push('policy.domains: must be a mapping of domain to rules');
+    } else {
+      for (const [domain, rules] of Object.entries(policy.domains)) {
+        if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+          errors.push(`domains.${domain}: must be a mapping of rules`);
+        } else {
+          validateRules(rules as Record<string, unknown>, `domains.${domain}`, errors);
+        }
+      }
+    }
+  }
+
+  if (policy.suppress !== undefined) {
+    if (!Array.isArray(policy.suppress)) {
+      errors.push('policy.suppress: must be a list');
+    } else {
+      policy.suppress.forEach((entry: unknown, i: number) => {
+        const where = `suppress[${i}]`;
+        if (typeof entry !== 'object' || entry === null) {
+          errors.push(`${where}: must be a mapping`);
+          return;
+        }
+        const suppression = entry as Record<string, unknown>;
+        for (const key of Object.keys(suppression)) {
+          if (!SUPPRESSION_KEYS.has(key)) errors.push(`${where}: unknown key "${key}"`);
+        }
+        if (typeof suppression.code !== 'string' || !suppression.code) {
+          errors.push(`${where}.code: required`);
+        }
+        // YAML may hand us a Date for unquoted timestamps
+        if (suppression.expires instanceof Date) {
+          suppression.expires = suppression.expires.toISOString().slice(0, 10);
+        }
+        if (suppression.expires !== undefined
+          && (typeof suppression.expires !== 'string' || Number.isNaN(Date.parse(suppression.expires)))) {
+          errors.push(`${where}.expires: must be a date (YYYY-MM-DD)`);
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy in ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return policy as Policy;
+}
+
+/**
+ * Parse policy file contents (YAML or JSON, by extension)
+ */
+export function parsePolicy(content: string, file = 'policy.yml'): Policy {
+  const data: unknown = file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  return validatePolicy(data, file);
+}
+
+/**
+ * Read and validate a policy file
+ */
+export async function loadPolicy(file: string): Promise<Policy> {
+  return parsePolicy(await fs.readFile(file, 'utf-8'), file);
+}
+
+/**
+ * Find a policy file in a directory, if any
+ */
+export async function findPolicyFile(dir: string): Promise<string | undefined> {
+  for (const name of POLICY_FILE_NAMES) {
+    const candidate = path.join(dir, name);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Not present, try the next name
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Effective rules for a domain: top-level rules overridden by matching
+ * `domains` entries in file order
+ */
+export function rulesForDomain(policy: Policy, domain: string): PolicyRules {
+  const rules: PolicyRules = {
+    minGrade: policy.minGrade,
+    minScore: policy.minScore,
+    failOn: policy.failOn,
+    forbid: policy.forbid,
+    require: policy.require,
+  };
+  for (const [pattern, override] of Object.entries(policy.domains ?? {})) {
+    if (matchesDomain(pattern, domain)) {
+      Object.assign(rules, override);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Whether a suppression has expired (it applies through the whole expiry day, UTC)
+ */
+function isExpired(suppression: PolicySuppression, now: Date): boolean {
+  if (!suppression.expires) return false;
+  return now.getTime() >= Date.parse(suppression.expires) + 24 * 60 * 60 * 1000;
+}
+
+function findSuppression(suppressions: PolicySuppression[], domain: string, issue: Issue): PolicySuppression | undefined {
+  return suppressions.find(s =>
+    matchesCode(s.code, issue.code) && (!s.domain || matchesDomain(s.domain, domain))
+  );
+}
+
+/**
+ * Evaluate results against a policy
+ */
+export function evaluatePolicy(results: DomainResult[], policy: Policy, now = new Date()): PolicyReport {
+  const violations: PolicyViolation[] = [];
+  const suppressed: PolicyReport['suppressed'] = [];
+  const active = (policy.suppress ?? []).filter(s => !isExpired(s, now));
+  const expiredSuppressions = (policy.suppress ?? []).filter(s => isExpired(s, now));
+
+  for (const result of results) {
+    const domain = result.domain;
+    const rules = rulesForDomain(policy, domain);
+
+    if (rules.minGrade && GRADES.indexOf(result.grade) > GRADES.indexOf(rules.minGrade)) {
+      violations.push({ domain, rule: 'min-grade', message: `Grade ${result.grade} is below the required ${rules.minGrade}` });
+    }
+    if (rules.minScore !== undefined && result.score < rules.minScore) {
+      violations.push({ domain, rule: 'min-score', message: `Score ${result.score} is below the required ${rules.minScore}` });
+    }
+
+    for (const { issue } of collectAllIssues(result)) {
+      const suppression = findSuppression(active, domain, issue);
+      if (suppression) {
+        suppressed.push({ domain, issue, suppression });
+        continue;
+      }
+      const forbidden = rules.forbid?.find(pattern => matchesCode(pattern, issue.code));
+      if (forbidden) {
+        violations.push({ domain, rule: 'forbid', message: `Forbidden issue ${issue.code}: ${issue.message}`, issue });
+      } else if (rules.failOn && SEVERITIES.indexOf(issue.severity) >= SEVERITIES.indexOf(rules.failOn)) {
+        violations.push({ domain, rule: 'fail-on', message: `${issue.severity} issue ${issue.code}: ${issue.message}`, issue });
+      }
+    }
+
+    for (const expression of rules.require ?? []) {
+      const requirement = parseRequirement(expression);
+      if (!requirement) continue;
+      const actual = resolvePath(result, requirement.path);
+      if (!compare(actual, requirement.operator, requirement.value)) {
+        const shown = actual === undefined ? 'not set' : JSON.stringify(actual);
+        violations.push({ domain, rule: 'require', message: `Requirement not met: ${expression.trim()} (actual: ${shown})` });
+      }
+    }
+  }
+
+  return {
+    passed: violations.length === 0,
+    violations,
+    suppressed,
+    expiredSuppressions,
+  };
+}
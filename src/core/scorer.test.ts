@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { calculateGrade, generateRecommendations } from './scorer.js';
-import type { SPFResult, DKIMResult, DMARCResult, MXResult } from '../types.js';
+import type { SPFResult, DKIMResult, DMARCResult, MXResult, DANEResult, DANEHostResult, CAAResult } from '../types.js';
 
 const baseSPF: SPFResult = { found: false, issues: [] };
 const baseDKIM: DKIMResult = { found: false, selectors: [], issues: [] };
@@ -80,6 +80,30 @@ describe('calculateGrade', () => {
     
     expect(scoreBad).toBeLessThan(scoreGood);
   });
+
+  it('adds a DANE bonus scaled by usable MX hosts', () => {
+    const spf: SPFResult = { found: true, mechanism: '~all', issues: [] };
+    const host = (usable: boolean): DANEHostResult => ({ host: 'mx', name: '_25._tcp.mx', found: true, dnssec: true, usable, records: [] });
+    const dane = (...hosts: DANEHostResult[]): DANEResult => ({ found: true, hosts, issues: [] });
+
+    const { score: base } = calculateGrade(spf, baseDKIM, baseDMARC, baseMX);
+    const { score: all } = calculateGrade(spf, baseDKIM, baseDMARC, baseMX, undefined, undefined, undefined, undefined, undefined, dane(host(true), host(true)));
+    const { score: some } = calculateGrade(spf, baseDKIM, baseDMARC, baseMX, undefined, undefined, undefined, undefined, undefined, dane(host(true), host(false)));
+
+    expect(all).toBe(base + 4);
+    expect(some).toBe(base + 2);
+  });
+
+  it('adds a CAA bonus only when issuance is restricted', () => {
+    const spf: SPFResult = { found: true, mechanism: '~all', issues: [] };
+    const caa = (issuers?: string[]): CAAResult => ({ found: true, records: [], issuers, iodef: [], issues: [] });
+    const grade = (result: CAAResult) => calculateGrade(spf, baseDKIM, baseDMARC, baseMX, undefined, undefined, undefined, undefined, undefined, undefined, result).score;
+
+    const { score: base } = calculateGrade(spf, baseDKIM, baseDMARC, baseMX);
+
+    expect(grade(caa(['letsencrypt.org']))).toBe(base + 2);
+    expect(grade(caa(undefined))).toBe(base);
+  });
 });
 
 describe('generateRecommendations', () => {
@@ -106,6 +130,12 @@ describe('generateRecommendations', () => {
     expect(recs.some(r => r.includes('レポート') || r.includes('rua'))).toBe(true);
   });
 
+  it('recommends CAA when missing', () => {
+    const caa: CAAResult = { found: false, records: [], iodef: [], issues: [] };
+    const recs = generateRecommendations(baseSPF, baseDKIM, baseDMARC, baseMX, undefined, undefined, undefined, undefined, undefined, undefined, caa);
+    expect(recs.some(r => r.includes('CAA'))).toBe(true);
+  });
+
   it('orders recommendations by priority', () => {
     // Missing SPF should come before DMARC quarantine upgrade
     const dmarc: DMARCResult = { found: true, policy: 'quarantine', issues: [] };
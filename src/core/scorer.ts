@@ -12,6 +12,8 @@ import type {
   TLSRPTResult,
   ARCReadinessResult,
   DNSSECResult,
+  DANEResult,
+  CAAResult,
   Grade,
   Issue,
   Severity
@@ -56,6 +58,8 @@ const isSkipped = (result?: { skipped?: boolean }): boolean => Boolean(result?.s
  * - TLS-RPT: +3
  * - ARC ready: +3
  * - DNSSEC: +5 (chain valid), +3 (enabled only)
+ * - DANE: +4 (all MX hosts usable), +2 (some MX hosts)
+ * - CAA: +2 (issuance restricted)
  * 
  * Grading criteria:
  * - A (90-100): SPF (-all) + DKIM + DMARC (reject)
@@ -73,7 +77,9 @@ export function calculateGrade(
   mtaSts?: MTASTSResult,
   tlsRpt?: TLSRPTResult,
   arc?: ARCReadinessResult,
-  dnssec?: DNSSECResult
+  dnssec?: DNSSECResult,
+  dane?: DANEResult,
+  caa?: CAAResult
 ): GradeResult {
   let score = 0;
 
@@ -117,12 +123,14 @@ export function calculateGrade(
   // DMARC scoring (max 40 points)
   if (!isSkipped(dmarc) && dmarc.found) {
     score += 10; // Base points for having DMARC
-    
-    if (dmarc.policy === 'reject') {
+
+    // Subdomains are scored on the sp=/np= they inherit
+    const policy = dmarc.effectivePolicy ?? dmarc.policy;
+    if (policy === 'reject') {
       score += 20;
-    } else if (dmarc.policy === 'quarantine') {
+    } else if (policy === 'quarantine') {
       score += 12;
-    } else if (dmarc.policy === 'none') {
+    } else if (policy === 'none') {
       score += 3;
     }
     
@@ -180,11 +188,26 @@ export function calculateGrade(
     }
   }
 
+  // DANE bonus (+4 all MX hosts usable, +2 some)
+  if (dane?.found && !isSkipped(dane)) {
+    const usable = dane.hosts.filter(h => h.usable).length;
+    if (usable > 0 && usable === dane.hosts.length) {
+      bonus += 4;
+    } else if (usable > 0) {
+      bonus += 2;
+    }
+  }
+
+  // CAA bonus (+2 when issuance is restricted to named CAs)
+  if (caa?.found && caa.issuers && !isSkipped(caa)) {
+    bonus += 2;
+  }
+
   // Apply bonus (capped so total doesn't exceed 100)
   score = Math.min(100, score + Math.min(bonus, SCORE_BONUS_MAX));
 
   // Apply penalties for critical/high severity issues (misconfigurations)
-  const penalty = calculateIssuePenalty(spf, dkim, dmarc, mx, bimi, mtaSts, tlsRpt, arc, dnssec);
+  const penalty = calculateIssuePenalty(spf, dkim, dmarc, mx, bimi, mtaSts, tlsRpt, arc, dnssec, dane, caa);
   score = Math.max(0, score - penalty);
 
   // Clamp score to 0-100
@@ -220,7 +243,9 @@ function calculateIssuePenalty(
   mtaSts?: MTASTSResult,
   tlsRpt?: TLSRPTResult,
   arc?: ARCReadinessResult,
-  dnssec?: DNSSECResult
+  dnssec?: DNSSECResult,
+  dane?: DANEResult,
+  caa?: CAAResult
 ): number {
   // Collect all issues
   const allIssues: Issue[] = [
@@ -233,6 +258,8 @@ function calculateIssuePenalty(
     ...(!isSkipped(tlsRpt) ? (tlsRpt?.issues || []) : []),
     ...(!isSkipped(arc) ? (arc?.issues || []) : []),
     ...(!isSkipped(dnssec) ? (dnssec?.issues || []) : []),
+    ...(!isSkipped(dane) ? (dane?.issues || []) : []),
+    ...(!isSkipped(caa) ? (caa?.issues || []) : []),
   ];
 
   // Calculate total penalty (cap per severity to prevent excessive deductions)
@@ -273,7 +300,9 @@ export function generateRecommendations(
   mtaSts?: MTASTSResult,
   tlsRpt?: TLSRPTResult,
   arc?: ARCReadinessResult,
-  dnssec?: DNSSECResult
+  dnssec?: DNSSECResult,
+  dane?: DANEResult,
+  caa?: CAAResult
 ): string[] {
   const recommendations: Array<{ priority: number; text: string }> = [];
 
@@ -414,6 +443,34 @@ export function generateRecommendations(
     }
   }
 
+  // DANE recommendations (only meaningful once DNSSEC is in place)
+  if (!isSkipped(dane) && dane && !isSkipped(dnssec) && dnssec?.enabled) {
+    if (!dane.found && dane.hosts.some(h => h.dnssec)) {
+      recommendations.push({
+        priority: 14,
+        text: '💡 [推奨] MXホストにDANE (TLSA) レコードを設定してください - 送信サーバーがMXホストの証明書を検証でき、STARTTLSのダウングレード攻撃を防げます'
+      });
+    } else if (dane.found && dane.hosts.some(h => h.found && !h.usable)) {
+      recommendations.push({
+        priority: 7,
+        text: '⚠️ [重要] DANE (TLSA) レコードが利用できない状態です - DNSSEC署名とTLSAパラメータ（3 1 1 推奨）を確認してください'
+      });
+    }
+  }
+
+  // CAA recommendations
+  if (!isSkipped(caa) && caa && !caa.found && !caa.issues.some(i => i.code === 'CAA-QUERY-FAILED')) {
+    recommendations.push({
+      priority: 17,
+      text: '💡 [推奨] CAAレコードを追加してください - 証明書を発行できる認証局を制限し、意図しない証明書の発行を防げます'
+    });
+  } else if (!isSkipped(caa) && caa?.issues.some(i => i.code === 'CAA-UNKNOWN-CRITICAL')) {
+    recommendations.push({
+      priority: 5,
+      text: '⚠️ [重要] CAAレコードに未知のcriticalタグがあります - 認証局が証明書の発行を拒否します'
+    });
+  }
+
   // ARC recommendations
   if (arc && !arc.ready && !isSkipped(arc)) {
     if (!isSkipped(dkim) && !dkim.found) {
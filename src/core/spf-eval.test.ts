@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { cachedResolveTxt, cachedResolveMx, cachedResolveA, cachedResolveAaaa, cachedResolvePtr } from '../utils/dns.js';
+import { evaluateSPF } from './spf-eval.js';
+
+vi.mock('../utils/dns.js', async () => {
+  const actual = await vi.importActual<typeof import('../utils/dns.js')>('../utils/dns.js');
+  return {
+    ...actual,
+    cachedResolveTxt: vi.fn(),
+    cachedResolveMx: vi.fn(),
+    cachedResolveA: vi.fn(),
+    cachedResolveAaaa: vi.fn(),
+    cachedResolvePtr: vi.fn()
+  };
+});
+
+/**
+ * Serve TXT/MX/A/AAAA/PTR answers from a zone map
+ */
+function mockZone(zone: Record<string, { txt?: string[]; mx?: string[]; a?: string[]; aaaa?: string[]; ptr?: string[] }>): void {
+  vi.mocked(cachedResolveTxt).mockImplementation(async name => zone[name]?.txt ?? []);
+  vi.mocked(cachedResolveMx).mockImplementation(async name =>
+    (zone[name]?.mx ?? []).map((exchange, i) => ({ exchange, priority: (i + 1) * 10 })));
+  vi.mocked(cachedResolveA).mockImplementation(async name => zone[name]?.a ?? []);
+  vi.mocked(cachedResolveAaaa).mockImplementation(async name => zone[name]?.aaaa ?? []);
+  vi.mocked(cachedResolvePtr).mockImplementation(async ip => zone[ip]?.ptr ?? []);
+}
+
+describe('evaluateSPF', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('passes an IP authorized by an include', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 ip4:192.0.2.0/24 include:_spf.vendor.example -all'] },
+      '_spf.vendor.example': { txt: ['v=spf1 ip4:198.51.100.0/24 ~all'] },
+    });
+
+    const result = await evaluateSPF('example.com', '198.51.100.7');
+
+    expect(result.result).toBe('pass');
+    expect(result.mechanism).toBe('include:_spf.vendor.example');
+    expect(result.matchedDomain).toBe('example.com');
+    expect(result.lookups).toBe(1);
+    expect(result.trace.map(s => [s.depth, s.term ?? s.detail, s.match])).toEqual([
+      [0, 'v=spf1 ip4:192.0.2.0/24 include:_spf.vendor.example -all', undefined],
+      [0, 'ip4:192.0.2.0/24', false],
+      [0, 'include:_spf.vendor.example', true],
+      [1, 'v=spf1 ip4:198.51.100.0/24 ~all', undefined],
+      [1, 'ip4:198.51.100.0/24', true],
+    ]);
+  });
+
+  it('treats a non-pass include result as no match', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 include:_spf.vendor.example ~all'] },
+      '_spf.vendor.example': { txt: ['v=spf1 ip4:198.51.100.0/24 -all'] },
+    });
+
+    const result = await evaluateSPF('example.com', '203.0.113.1');
+
+    expect(result.result).toBe('softfail');
+    expect(result.mechanism).toBe('~all');
+  });
+
+  it('fails with the expanded exp= explanation', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 a -all exp=explain._spf.%{d}'], a: ['192.0.2.1'] },
+      'explain._spf.example.com': { txt: ['%{i} is not one of %{d}\'s designated mail servers.'] },
+    });
+
+    const result = await evaluateSPF('example.com', '203.0.113.9');
+
+    expect(result.result).toBe('fail');
+    expect(result.mechanism).toBe('-all');
+    expect(result.explanation).toBe('203.0.113.9 is not one of example.com\'s designated mail servers.');
+  });
+
+  it('matches a and mx with CIDR prefixes', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 a/30 mx:mail.example.net//64 -all'], a: ['192.0.2.4'] },
+      'mail.example.net': { mx: ['mx1.example.net'] },
+      'mx1.example.net': { aaaa: ['2001:db8::1'] },
+    });
+
+    expect((await evaluateSPF('example.com', '192.0.2.6')).mechanism).toBe('a/30');
+    expect((await evaluateSPF('example.com', '2001:db8::ffff')).mechanism).toBe('mx:mail.example.net//64');
+  });
+
+  it('expands macros as in RFC 7208 Section 7.4', async () => {
+    mockZone({
+      'email.example.com': { txt: ['v=spf1 exists:%{ir}.%{v}._spf.%{d2} exists:%{lr-}.lp._spf.%{d2} -all'] },
+      'bad.strong.lp._spf.example.com': { a: ['127.0.0.2'] },
+    });
+
+    const result = await evaluateSPF('email.example.com', '192.0.2.3', { sender: 'strong-bad@email.example.com' });
+
+    expect(result.result).toBe('pass');
+    expect(result.trace[1].detail).toBe('3.2.0.192.in-addr._spf.example.com does not exist');
+    expect(result.mechanism).toBe('exists:%{lr-}.lp._spf.%{d2}');
+  });
+
+  it('expands IPv6 addresses into nibbles', async () => {
+    mockZone({ 'email.example.com': { txt: ['v=spf1 exists:%{ir}.%{v}._spf.%{d2} ?all'] } });
+
+    const result = await evaluateSPF('email.example.com', '2001:db8::cb01');
+
+    expect(result.trace[1].detail).toBe(
+      '1.0.b.c.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6._spf.example.com does not exist'
+    );
+    expect(result.result).toBe('neutral');
+  });
+
+  it('matches validated PTR names', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 ptr -all'] },
+      '192.0.2.25': { ptr: ['mail.example.com', 'spoofed.example.com'] },
+      'mail.example.com': { a: ['192.0.2.25'] },
+      'spoofed.example.com': { a: ['203.0.113.1'] },
+    });
+
+    const result = await evaluateSPF('example.com', '192.0.2.25');
+
+    expect(result.result).toBe('pass');
+    expect(result.trace[1].detail).toContain('mail.example.com');
+  });
+
+  it('follows redirect= when no mechanism matches', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 ip4:192.0.2.1 redirect=_spf.example.net'] },
+      '_spf.example.net': { txt: ['v=spf1 ip4:198.51.100.0/24 -all'] },
+    });
+
+    const result = await evaluateSPF('example.com', '198.51.100.1');
+
+    expect(result.result).toBe('pass');
+    expect(result.matchedDomain).toBe('_spf.example.net');
+  });
+
+  it('returns neutral when nothing matches', async () => {
+    mockZone({ 'example.com': { txt: ['v=spf1 ip4:192.0.2.1'] } });
+
+    expect((await evaluateSPF('example.com', '203.0.113.1')).result).toBe('neutral');
+  });
+
+  it('returns none without an SPF record', async () => {
+    mockZone({ 'example.com': { txt: ['google-site-verification=abc'] } });
+
+    const result = await evaluateSPF('example.com', '192.0.2.1');
+
+    expect(result.result).toBe('none');
+  });
+
+  it('returns permerror for multiple records and invalid terms', async () => {
+    mockZone({ 'example.com': { txt: ['v=spf1 -all', 'v=spf1 ~all'] } });
+    expect((await evaluateSPF('example.com', '192.0.2.1')).result).toBe('permerror');
+
+    mockZone({ 'example.com': { txt: ['v=spf1 ip4:192.0.2.1 foo:bar -all'] } });
+    const result = await evaluateSPF('example.com', '192.0.2.1');
+    expect(result.result).toBe('permerror');
+    expect(result.error).toContain('Unknown mechanism "foo:bar"');
+  });
+
+  it('returns permerror when an include target has no record', async () => {
+    mockZone({ 'example.com': { txt: ['v=spf1 include:missing.example -all'] } });
+
+    const result = await evaluateSPF('example.com', '192.0.2.1');
+
+    expect(result.result).toBe('permerror');
+    expect(result.mechanism).toBe('include:missing.example');
+  });
+
+  it('enforces the lookup limit', async () => {
+    mockZone({ 'example.com': { txt: ['v=spf1 include:example.com -all'] } });
+
+    const result = await evaluateSPF('example.com', '192.0.2.1');
+
+    expect(result.result).toBe('permerror');
+    expect(result.error).toContain('Too many DNS lookups');
+    expect(result.lookups).toBe(11);
+  });
+
+  it('enforces the void lookup limit', async () => {
+    mockZone({ 'example.com': { txt: ['v=spf1 a:a.example mx:b.example exists:c.example -all'] } });
+
+    const result = await evaluateSPF('example.com', '192.0.2.1');
+
+    expect(result.result).toBe('permerror');
+    expect(result.error).toContain('Too many void DNS lookups');
+  });
+
+  it('returns temperror on DNS failures', async () => {
+    const error = new Error('queryTxt ESERVFAIL example.com') as NodeJS.ErrnoException;
+    error.code = 'ESERVFAIL';
+    vi.mocked(cachedResolveTxt).mockRejectedValue(error);
+
+    const result = await evaluateSPF('example.com', '192.0.2.1');
+
+    expect(result.result).toBe('temperror');
+  });
+
+  it('uses postmaster for a sender without a local part', async () => {
+    mockZone({ 'example.com': { txt: ['v=spf1 -all'] } });
+
+    expect((await evaluateSPF('example.com', '192.0.2.1')).sender).toBe('postmaster@example.com');
+    expect((await evaluateSPF('example.com', '192.0.2.1', { sender: 'example.org' })).sender).toBe('postmaster@example.org');
+  });
+
+  it('rejects invalid IP addresses', async () => {
+    await expect(evaluateSPF('example.com', '192.0.2.256')).rejects.toThrow('Invalid IP address');
+  });
+});
@@ -0,0 +1,476 @@
+/**
+ * SPF evaluation: the check_host() function of RFC 7208 for a given
+ * connecting IP, sender and HELO name, with a trace of every term evaluated
+ */
+
+import net from 'node:net';
+import type { SPFEvalResult, SPFEvalStep, SPFEvaluation } from '../types.js';
+import { parseSPFTerms, validateSPFRecord } from '../checks/spf.js';
+import type { SPFTerm } from '../checks/spf.js';
+import {
+  cachedResolveTxt,
+  cachedResolveMx,
+  cachedResolveA,
+  cachedResolveAaaa,
+  cachedResolvePtr,
+  setDnsResolver,
+} from '../utils/dns.js';
+import { SPF_MAX_DNS_LOOKUPS, SPF_MAX_MX_HOSTS, SPF_MAX_VOID_LOOKUPS } from '../constants.js';
+
+export interface SPFEvalOptions {
+  sender?: string;   // MAIL FROM address or domain (default postmaster@<domain>)
+  helo?: string;     // HELO/EHLO name (default <domain>)
+  resolver?: string; // Custom DNS resolver
+}
+
+const QUALIFIER_RESULTS: Record<SPFTerm['qualifier'], SPFEvalResult> = {
+  '+': 'pass',
+  '-': 'fail',
+  '~': 'softfail',
+  '?': 'neutral',
+};
+
+const MAX_PTR_NAMES = 10;    // RFC 7208 Section 4.6.4
+const MAX_DOMAIN_LENGTH = 253;
+
+interface EvalState {
+  ip: string;
+  family: 4 | 6;
+  sender: string;
+  helo: string;
+  lookups: number;
+  voidLookups: number;
+  trace: SPFEvalStep[];
+}
+
+interface HostResult {
+  result: SPFEvalResult;
+  mechanism?: string;
+  matchedDomain?: string;
+  explanation?: string;
+  error?: string;
+}
+
+interface MechanismMatch {
+  match: boolean;
+  detail: string;
+}
+
+/**
+ * DNS failures carry an errno code (ESERVFAIL, ETIMEOUT, ...) and make the
+ * result temperror; anything else thrown during evaluation is a permerror
+ */
+function errorResult(err: unknown): 'temperror' | 'permerror' {
+  return (err as NodeJS.ErrnoException).code ? 'temperror' : 'permerror';
+}
+
+function temporaryError(message: string): Error {
+  return Object.assign(new Error(message), { code: 'ETEMPERROR' });
+}
+
+/**
+ * Domain syntax check_host() accepts (RFC 7208 Section 4.3). Unlike
+ * hostnames, SPF domains may contain underscores (e.g. _spf.example.com).
+ */
+function isValidSPFDomain(domain: string): boolean {
+  if (domain.length === 0 || domain.length > MAX_DOMAIN_LENGTH) return false;
+  const labels = domain.split('.');
+  return labels.length > 1 && labels.every(label => label.length > 0 && label.length <= 63);
+}
+
+/**
+ * The 32 hex nibbles of an IPv6 address
+ */
+function ipv6Nibbles(ip: string): string {
+  let address = ip.toLowerCase();
+  const embedded = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(address);
+  if (embedded) {
+    const o = embedded.slice(1).map(Number);
+    address = `${address.slice(0, embedded.index)}${((o[0] << 8) | o[1]).toString(16)}:${((o[2] << 8) | o[3]).toString(16)}`;
+  }
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const fill = tail === undefined ? [] : Array<string>(8 - headGroups.length - tailGroups.length).fill('0');
+  return [...headGroups, ...fill, ...tailGroups].map(g => g.padStart(4, '0')).join('');
+}
+
+function inNetwork(state: EvalState, network: string, prefix: number): boolean {
+  const type = state.family === 4 ? 'ipv4' : 'ipv6';
+  if (net.isIP(network) !== state.family) return false;
+  const list = new net.BlockList();
+  list.addSubnet(network, prefix, type);
+  return list.check(state.ip, type);
+}
+
+function countLookup(state: EvalState): void {
+  state.lookups++;
+  if (state.lookups > SPF_MAX_DNS_LOOKUPS) {
+    throw new Error(`Too many DNS lookups (limit ${SPF_MAX_DNS_LOOKUPS})`);
+  }
+}
+
+function countVoidLookup(state: EvalState): void {
+  state.voidLookups++;
+  if (state.voidLookups > SPF_MAX_VOID_LOOKUPS) {
+    throw new Error(`Too many void DNS lookups (limit ${SPF_MAX_VOID_LOOKUPS})`);
+  }
+}
+
+async function resolveAddresses(name: string, family: 4 | 6): Promise<string[]> {
+  return family === 4 ? cachedResolveA(name) : cachedResolveAaaa(name);
+}
+
+/**
+ * PTR names of the connecting IP whose own addresses include it
+ * (RFC 7208 Section 5.5). Lookup errors just drop the name.
+ */
+async function validatedNames(state: EvalState): Promise<string[] | undefined> {
+  let names: string[];
+  try {
+    names = await cachedResolvePtr(state.ip);
+  } catch {
+    return [];
+  }
+  if (names.length === 0) return undefined;
+  const validated: string[] = [];
+  for (const name of names.slice(0, MAX_PTR_NAMES)) {
+    try {
+      const addresses = await resolveAddresses(name, state.family);
+      if (addresses.some(a => inNetwork(state, a, state.family === 4 ? 32 : 128))) {
+        validated.push(name.replace(/\.$/, '').toLowerCase());
+      }
+    } catch {
+      // Skip names that fail to resolve
+    }
+  }
+  return validated;
+}
+
+function isSubdomainOf(name: string, domain: string): boolean {
+  const target = domain.toLowerCase();
+  return name === target || name.endsWith(`.${target}`);
+}
+
+/**
+ * Value of a macro letter (RFC 7208 Section 7.3) before transformers
+ */
+async function macroValue(letter: string, domain: string, state: EvalState): Promise<string> {
+  const at = state.sender.lastIndexOf('@');
+  switch (letter) {
+    case 's': return state.sender;
+    case 'l': return state.sender.slice(0, at);
+    case 'o': return state.sender.slice(at + 1);
+    case 'd': return domain;
+    case 'i': return state.family === 4 ? state.ip : ipv6Nibbles(state.ip).split('').join('.');
+    case 'p': {
+      const names = await validatedNames(state) ?? [];
+      return names.find(n => isSubdomainOf(n, domain)) ?? names[0] ?? 'unknown';
+    }
+    case 'v': return state.family === 4 ? 'in-addr' : 'ip6';
+    case 'h': return state.helo;
+    case 'c': return state.ip;
+    case 'r': return 'unknown';
+    case 't': return String(Math.floor(Date.now() / 1000));
+    default: throw new Error(`Unknown macro letter "${letter}"`);
+  }
+}
+
+/**
+ * Expand the macros in a domain-spec or explanation string (RFC 7208 Section 7).
+ * c, r and t are only allowed in explanations.
+ */
+async function expandMacros(spec: string, domain: string, state: EvalState, explanation = false): Promise<string> {
+  let out = '';
+  for (let i = 0; i < spec.length; i++) {
+    if (spec[i] !== '%') {
+      out += spec[i];
+      continue;
+    }
+    const next = spec[i + 1];
+    if (next === '%' || next === '_' || next === '-') {
+      out += next === '%' ? '%' : next === '_' ? ' ' : '%20';
+      i++;
+      continue;
+    }
+    const macro = /^\{([a-z])(\d*)(r?)([.\-+,/_=]*)\}/i.exec(spec.slice(i + 1));
+    if (!macro) {
+      throw new Error(`Invalid macro in "${spec}"`);
+    }
+    const [text, letter, digits, reverse, delimiters] = macro;
+    const lower = letter.toLowerCase();
+    if (!explanation && 'crt'.includes(lower)) {
+      throw new Error(`Macro %{${letter}} is only allowed in exp= explanations`);
+    }
+
+    let parts = (await macroValue(lower, domain, state)).split('').reduce<string[]>((acc, ch) => {
+      if ((delimiters || '.').includes(ch)) acc.push('');
+      else acc[acc.length - 1] += ch;
+      return acc;
+    }, ['']);
+    if (reverse) parts.reverse();
+    if (digits) {
+      if (Number(digits) === 0) throw new Error(`Invalid macro %${text}`);
+      parts = parts.slice(-Number(digits));
+    }
+    let value = parts.join('.');
+    // Uppercase letters URL-encode the value
+    if (letter !== lower) {
+      value = encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+    }
+    out += value;
+    i += text.length;
+  }
+  return out;
+}
+
+/**
+ * Target domain of a term: its expanded domain-spec, or the current domain.
+ * Over-long results drop labels from the left (RFC 7208 Section 7.3).
+ */
+async function targetDomain(term: SPFTerm, domain: string, state: EvalState): Promise<string> {
+  if (term.value === undefined) return domain;
+  let target = (await expandMacros(term.value, domain, state)).replace(/\.$/, '');
+  while (target.length > MAX_DOMAIN_LENGTH && target.includes('.')) {
+    target = target.slice(target.indexOf('.') + 1);
+  }
+  return target;
+}
+
+/**
+ * Split a record into terms; syntax errors RFC 7208 makes a permerror throw
+ */
+function parseRecord(record: string): SPFTerm[] {
+  const error = validateSPFRecord(record).find(e => e.permerror);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return parseSPFTerms(record);
+}
+
+/**
+ * Evaluate one mechanism against the connecting IP
+ */
+async function matchMechanism(term: SPFTerm, domain: string, state: EvalState, depth: number): Promise<MechanismMatch> {
+  switch (term.name) {
+    case 'all':
+      return { match: true, detail: 'matches every address' };
+
+    case 'ip4':
+    case 'ip6': {
+      const [network, prefix] = term.value!.split('/');
+      const match = inNetwork(state, network, prefix === undefined ? (term.name === 'ip4' ? 32 : 128) : Number(prefix));
+      return { match, detail: match ? `${state.ip} is in ${term.value}` : `${state.ip} is not in ${term.value}` };
+    }
+
+    case 'include': {
+      countLookup(state);
+      const target = await targetDomain(term, domain, state);
+      const nested = await checkHost(target, state, depth + 1);
+      switch (nested.result) {
+        case 'pass':
+          return { match: true, detail: `${target} returned pass` };
+        case 'temperror':
+          throw temporaryError(`include:${target}: ${nested.error}`);
+        case 'permerror':
+        case 'none':
+          throw new Error(`include:${target}: ${nested.error ?? 'no SPF record'}`);
+        default:
+          return { match: false, detail: `${target} returned ${nested.result}` };
+      }
+    }
+
+    case 'a': {
+      countLookup(state);
+      const target = await targetDomain(term, domain, state);
+      const addresses = await resolveAddresses(target, state.family);
+      if (addresses.length === 0) countVoidLookup(state);
+      const prefix = state.family === 4 ? term.cidr4 ?? 32 : term.cidr6 ?? 128;
+      const matched = addresses.find(a => inNetwork(state, a, prefix));
+      return matched
+        ? { match: true, detail: `${target} has ${matched}${prefix === (state.family === 4 ? 32 : 128) ? '' : `/${prefix}`}` }
+        : { match: false, detail: `${target} has ${addresses.length} ${state.family === 4 ? 'A' : 'AAAA'} record(s), none matching` };
+    }
+
+    case 'mx': {
+      countLookup(state);
+      const target = await targetDomain(term, domain, state);
+      const mx = await cachedResolveMx(target);
+      if (mx.length === 0) countVoidLookup(state);
+      if (mx.length > SPF_MAX_MX_HOSTS) {
+        throw new Error(`${target} has more than ${SPF_MAX_MX_HOSTS} MX hosts`);
+      }
+      const prefix = state.family === 4 ? term.cidr4 ?? 32 : term.cidr6 ?? 128;
+      for (const host of [...mx].sort((a, b) => a.priority - b.priority)) {
+        const addresses = await resolveAddresses(host.exchange, state.family);
+        if (addresses.some(a => inNetwork(state, a, prefix))) {
+          return { match: true, detail: `MX host ${host.exchange} matches` };
+        }
+      }
+      return { match: false, detail: `${target} has ${mx.length} MX host(s), none matching` };
+    }
+
+    case 'ptr': {
+      countLookup(state);
+      const target = await targetDomain(term, domain, state);
+      const names = await validatedNames(state);
+      if (names === undefined) {
+        countVoidLookup(state);
+        return { match: false, detail: `${state.ip} has no PTR record` };
+      }
+      const matched = names.find(n => isSubdomainOf(n, target));
+      return matched
+        ? { match: true, detail: `validated PTR ${matched} is within ${target}` }
+        : { match: false, detail: `no validated PTR name within ${target}` };
+    }
+
+    case 'exists': {
+      countLookup(state);
+      const target = await targetDomain(term, domain, state);
+      // exists always queries A records, whatever the connecting IP's family
+      const addresses = await cachedResolveA(target);
+      if (addresses.length === 0) countVoidLookup(state);
+      return { match: addresses.length > 0, detail: addresses.length > 0 ? `${target} exists` : `${target} does not exist` };
+    }
+
+    default:
+      throw new Error(`Unknown mechanism "${term.raw}"`);
+  }
+}
+
+/**
+ * exp= explanation for a fail result. Any problem just means no explanation.
+ */
+async function explain(term: SPFTerm | undefined, domain: string, state: EvalState): Promise<string | undefined> {
+  if (!term) return undefined;
+  try {
+    const target = await targetDomain(term, domain, state);
+    const txt = await cachedResolveTxt(target);
+    if (txt.length !== 1) return undefined;
+    return await expandMacros(txt[0], domain, state, true);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * check_host(): evaluate the SPF record of a domain (RFC 7208 Section 4)
+ */
+async function checkHost(domain: string, state: EvalState, depth: number): Promise<HostResult> {
+  const step = (detail: string, term?: string, match?: boolean): SPFEvalStep => {
+    const entry: SPFEvalStep = { depth, domain, term, detail, match };
+    state.trace.push(entry);
+    return entry;
+  };
+
+  if (!isValidSPFDomain(domain)) {
+    step('invalid domain');
+    return { result: 'none', error: `"${domain}" is not a valid domain` };
+  }
+
+  let txt: string[];
+  try {
+    txt = await cachedResolveTxt(domain);
+  } catch (err) {
+    step(`DNS error: ${(err as Error).message}`);
+    return { result: 'temperror', error: `TXT lookup for ${domain} failed: ${(err as Error).message}` };
+  }
+  const records = txt.filter(r => /^v=spf1(\s|$)/i.test(r));
+  if (records.length === 0) {
+    step('no SPF record');
+    return { result: 'none', error: `${domain} has no SPF record` };
+  }
+  if (records.length > 1) {
+    step(`${records.length} SPF records`);
+    return { result: 'permerror', error: `${domain} has ${records.length} SPF records` };
+  }
+  step(records[0]);
+
+  let terms: SPFTerm[];
+  try {
+    terms = parseRecord(records[0]);
+  } catch (err) {
+    return { result: 'permerror', error: `${domain}: ${(err as Error).message}` };
+  }
+
+  for (const term of terms.filter(t => !t.modifier)) {
+    // Recorded before evaluating so an include's record follows it in the trace
+    const entry = step('', term.raw);
+    let outcome: MechanismMatch;
+    try {
+      outcome = await matchMechanism(term, domain, state, depth);
+    } catch (err) {
+      Object.assign(entry, { detail: (err as Error).message, match: false });
+      return { result: errorResult(err), mechanism: term.raw, matchedDomain: domain, error: (err as Error).message };
+    }
+    Object.assign(entry, outcome);
+    if (outcome.match) {
+      const result = QUALIFIER_RESULTS[term.qualifier];
+      const explanation = result === 'fail' ? await explain(terms.find(t => t.name === 'exp'), domain, state) : undefined;
+      return { result, mechanism: term.raw, matchedDomain: domain, explanation };
+    }
+  }
+
+  // redirect= applies only when no mechanism matched
+  const redirect = terms.find(t => t.modifier && t.name === 'redirect');
+  if (redirect) {
+    let target: string;
+    try {
+      countLookup(state);
+      target = await targetDomain(redirect, domain, state);
+    } catch (err) {
+      step((err as Error).message, redirect.raw, false);
+      return { result: 'permerror', mechanism: redirect.raw, matchedDomain: domain, error: (err as Error).message };
+    }
+    step(`continuing with ${target}`, redirect.raw);
+    const nested = await checkHost(target, state, depth + 1);
+    if (nested.result === 'none') {
+      return { result: 'permerror', mechanism: redirect.raw, matchedDomain: domain, error: `redirect=${target}: ${nested.error}` };
+    }
+    return nested;
+  }
+
+  step('no mechanism matched: neutral');
+  return { result: 'neutral' };
+}
+
+/**
+ * Evaluate a domain's live SPF record for a connecting IP, as a receiver
+ * would for a message with the given sender and HELO name
+ */
+export async function evaluateSPF(domain: string, ip: string, options: SPFEvalOptions = {}): Promise<SPFEvaluation> {
+  // IPv4-mapped IPv6 addresses are evaluated as IPv4 (RFC 7208 Section 5)
+  const address = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip)?.[1] ?? ip;
+  const family = net.isIP(address);
+  if (family === 0) {
+    throw new Error(`Invalid IP address: "${ip}"`);
+  }
+
+  let sender = options.sender?.trim() || `postmaster@${domain}`;
+  // A sender without a local part uses "postmaster" (RFC 7208 Section 4.3)
+  if (!sender.includes('@')) sender = `postmaster@${sender}`;
+  else if (sender.startsWith('@')) sender = `postmaster${sender}`;
+
+  setDnsResolver(options.resolver);
+  const state: EvalState = {
+    ip: family === 4 ? address : address.toLowerCase(),
+    family: family as 4 | 6,
+    sender,
+    helo: options.helo ?? domain,
+    lookups: 0,
+    voidLookups: 0,
+    trace: [],
+  };
+  const outcome = await checkHost(domain, state, 0);
+
+  return {
+    domain,
+    ip: state.ip,
+    sender,
+    helo: options.helo,
+    ...outcome,
+    lookups: state.lookups,
+    voidLookups: state.voidLookups,
+    trace: state.trace,
+  };
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { cachedResolveTxt, cachedResolveMx, cachedResolveA, cachedResolveAaaa } from '../utils/dns.js';
+import { flattenSPF, collapseIPv4, quoteTxt } from './spf-flatten.js';
+
+vi.mock('../utils/dns.js', async () => {
+  const actual = await vi.importActual<typeof import('../utils/dns.js')>('../utils/dns.js');
+  return {
+    ...actual,
+    cachedResolveTxt: vi.fn(),
+    cachedResolveMx: vi.fn(),
+    cachedResolveA: vi.fn(),
+    cachedResolveAaaa: vi.fn()
+  };
+});
+
+/**
+ * Serve TXT/MX/A/AAAA answers from a zone map
+ */
+function mockZone(zone: Record<string, { txt?: string[]; mx?: string[]; a?: string[]; aaaa?: string[] }>): void {
+  vi.mocked(cachedResolveTxt).mockImplementation(async name => zone[name]?.txt ?? []);
+  vi.mocked(cachedResolveMx).mockImplementation(async name =>
+    (zone[name]?.mx ?? []).map((exchange, i) => ({ exchange, priority: (i + 1) * 10 })));
+  vi.mocked(cachedResolveA).mockImplementation(async name => zone[name]?.a ?? []);
+  vi.mocked(cachedResolveAaaa).mockImplementation(async name => zone[name]?.aaaa ?? []);
+}
+
+describe('flattenSPF', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('replaces includes, a and mx with their addresses', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 a mx include:_spf.vendor.example ip4:192.0.2.10 -all'], a: ['192.0.2.1'], mx: ['mail.example.com'] },
+      'mail.example.com': { a: ['192.0.2.2'] },
+      '_spf.vendor.example': { txt: ['v=spf1 ip4:198.51.100.0/24 ip6:2001:db8::/32 -all'] },
+    });
+
+    const result = await flattenSPF('example.com');
+
+    expect(result.liveLookups).toBe(3);
+    expect(result.lookupCount).toBe(0);
+    expect(result.records).toEqual([{
+      name: 'example.com',
+      value: 'v=spf1 ip4:192.0.2.1 ip4:192.0.2.2 ip4:198.51.100.0/24 ip4:192.0.2.10 ip6:2001:db8::/32 -all',
+    }]);
+    expect(result.removed).toEqual(['a', 'mx', 'include:_spf.vendor.example']);
+    expect(result.added).toEqual(['ip4:192.0.2.1', 'ip4:192.0.2.2', 'ip4:198.51.100.0/24', 'ip6:2001:db8::/32']);
+    expect(result.withinLimits).toBe(true);
+  });
+
+  it('splits into an _spfN include chain when the record is too long', async () => {
+    const ips = Array.from({ length: 30 }, (_, i) => `ip4:203.0.113.${i}`).join(' ');
+    mockZone({
+      'example.com': { txt: ['v=spf1 include:_spf.vendor.example -all'] },
+      '_spf.vendor.example': { txt: [`v=spf1 ${ips} -all`] },
+    });
+
+    const result = await flattenSPF('example.com');
+
+    expect(result.records.length).toBeGreaterThan(2);
+    expect(result.records[0].value).toMatch(/^v=spf1 include:_spf1\.example\.com include:_spf2\.example\.com/);
+    expect(result.records[0].value).toMatch(/ -all$/);
+    expect(result.records[1].name).toBe('_spf1.example.com');
+    expect(result.records.every(r => r.value.length <= 255)).toBe(true);
+    expect(result.lookupCount).toBe(result.records.length - 1);
+    expect(result.withinLimits).toBe(true);
+  });
+
+  it('keeps terms that cannot be flattened', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 exists:%{i}._spf.example.com -include:bad.example ip4:192.0.2.1 ~all'] },
+      'bad.example': { txt: ['v=spf1 ip4:198.51.100.1 -all'] },
+    });
+
+    const result = await flattenSPF('example.com');
+
+    expect(result.kept).toEqual(['exists:%{i}._spf.example.com', '-include:bad.example']);
+    expect(result.records[0].value).toBe('v=spf1 exists:%{i}._spf.example.com -include:bad.example ip4:192.0.2.1 ~all');
+    expect(result.lookupCount).toBe(2);
+  });
+
+  it('does not move addresses across kept non-pass terms', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 ip4:10.0.0.0/8 -ip4:10.1.0.0/16 include:x.example ~include:soft.example include:y.example -all'] },
+      'x.example': { txt: ['v=spf1 ip4:10.1.2.0/24 -all'] },
+      'soft.example': { txt: ['v=spf1 ip4:198.51.100.0/24 -all'] },
+      'y.example': { txt: ['v=spf1 ip4:203.0.113.0/24 -all'] },
+    });
+
+    const result = await flattenSPF('example.com');
+
+    expect(result.records[0].value).toBe('v=spf1 ip4:10.0.0.0/8 -ip4:10.1.0.0/16 ip4:10.1.2.0/24 ~include:soft.example ip4:203.0.113.0/24 -all');
+  });
+
+  it('keeps includes whose records exclude addresses', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 include:x.example include:y.example -all'] },
+      'x.example': { txt: ['v=spf1 include:nested.example -all'] },
+      'nested.example': { txt: ['v=spf1 -ip4:192.0.2.5 ip4:192.0.2.0/24 -all'] },
+      'y.example': { txt: ['v=spf1 ip4:203.0.113.0/24 -all'] },
+    });
+
+    const result = await flattenSPF('example.com');
+
+    expect(result.kept).toEqual(['include:x.example']);
+    expect(result.records[0].value).toBe('v=spf1 include:x.example ip4:203.0.113.0/24 -all');
+    expect(result.records[0].value).not.toContain('192.0.2.0/24');
+  });
+
+  it('keeps the order of address slots in the _spfN include chain', async () => {
+    const ips = (prefix: string) => Array.from({ length: 20 }, (_, i) => `ip4:${prefix}.${i}`).join(' ');
+    mockZone({
+      'example.com': { txt: ['v=spf1 include:a.example -ip4:192.0.2.0/24 include:b.example -all'] },
+      'a.example': { txt: [`v=spf1 ${ips('198.51.100')} -all`] },
+      'b.example': { txt: [`v=spf1 ${ips('203.0.113')} -all`] },
+    });
+
+    const result = await flattenSPF('example.com');
+
+    expect(result.records[0].value).toMatch(/^v=spf1 (include:_spf\d\.example\.com )+-ip4:192\.0\.2\.0\/24 (include:_spf\d\.example\.com )+-all$/);
+    const [before] = result.records[0].value.split(' -ip4:');
+    const firstAfter = result.records.find(r => r.name === `_spf${before.split(' ').length}.example.com`);
+    expect(firstAfter?.value).toContain('ip4:203.0.113.0');
+    expect(result.records.every(r => r.value.length <= 255)).toBe(true);
+  });
+
+  it('flattens redirect and takes its all qualifier', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 redirect=_spf.example.net'] },
+      '_spf.example.net': { txt: ['v=spf1 ip4:192.0.2.0/24 ~all'] },
+    });
+
+    const result = await flattenSPF('example.com');
+
+    expect(result.records[0].value).toBe('v=spf1 ip4:192.0.2.0/24 ~all');
+    expect(result.removed).toEqual(['redirect=_spf.example.net']);
+  });
+
+  it('warns about providers that rotate their ranges', async () => {
+    mockZone({
+      'example.com': { txt: ['v=spf1 include:_spf.google.com -all'] },
+      '_spf.google.com': { txt: ['v=spf1 ip4:172.217.0.0/16 -all'] },
+    });
+
+    const result = await flattenSPF('example.com');
+
+    expect(result.warnings).toEqual([expect.stringContaining('include:_spf.google.com: Google')]);
+  });
+
+  it('fails when no SPF record exists', async () => {
+    mockZone({ 'example.com': { txt: ['google-site-verification=abc'] } });
+
+    await expect(flattenSPF('example.com')).rejects.toThrow('No SPF record found for example.com');
+  });
+
+  it('rejects out-of-range record lengths', async () => {
+    await expect(flattenSPF('example.com', { maxLength: 512 })).rejects.toThrow(/between 64 and 450/);
+  });
+});
+
+describe('collapseIPv4', () => {
+  it('drops duplicates and ranges covered by wider ones', () => {
+    expect(collapseIPv4(['192.0.2.5', '192.0.2.0/24', '192.0.2.5', '198.51.100.1', '192.0.2.9/24']))
+      .toEqual(['192.0.2.0/24', '198.51.100.1']);
+  });
+});
+
+describe('quoteTxt', () => {
+  it('splits values into 255-byte strings', () => {
+    const quoted = quoteTxt('x'.repeat(300));
+
+    expect(quoted).toBe(`"${'x'.repeat(255)}" "${'x'.repeat(45)}"`);
+  });
+});
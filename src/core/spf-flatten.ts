@@ -0,0 +1,273 @@
+/**
+ * SPF flattening: replace include/a/mx/redirect terms with the addresses
+ * they authorize so the record stays within the 10-lookup limit
+ */
+
+import type { SPFFlattenRecord, SPFFlattenResult, SPFNode } from '../types.js';
+import { expandSPF, parseSPFTerms, authorizedAddresses } from '../checks/spf.js';
+import type { SPFExpansion } from '../checks/spf.js';
+import { cachedResolveTxt, setDnsResolver } from '../utils/dns.js';
+import {
+  SPF_MAX_DNS_LOOKUPS,
+  SPF_MAX_RECORD_LENGTH,
+  SPF_MAX_TXT_STRING,
+  SPF_VOLATILE_INCLUDES,
+} from '../constants.js';
+
+export interface FlattenOptions {
+  maxLength?: number; // Maximum length of each generated TXT record
+  resolver?: string;  // Custom DNS resolver
+}
+
+// Placeholder prefix for a slot of flattened addresses in the root record's
+// term list, followed by the slot's index
+const ADDRESSES = '\0addresses';
+
+interface AddressSlot {
+  ip4: string[];
+  ip6: string[];
+}
+
+/**
+ * Split a TXT value into quoted character-strings of at most 255 bytes
+ */
+export function quoteTxt(value: string): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < value.length; i += SPF_MAX_TXT_STRING) {
+    chunks.push(`"${value.slice(i, i + SPF_MAX_TXT_STRING)}"`);
+  }
+  return chunks.join(' ');
+}
+
+function prefixMask(prefix: number): number {
+  return prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+}
+
+function parseIPv4(cidr: string): { network: number; prefix: number } | undefined {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})(?:\/(\d{1,2}))?$/.exec(cidr);
+  if (!match) return undefined;
+  const octets = match.slice(1, 5).map(Number);
+  const prefix = match[5] === undefined ? 32 : Number(match[5]);
+  if (octets.some(o => o > 255) || prefix > 32) return undefined;
+  const address = ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+  return { network: (address & prefixMask(prefix)) >>> 0, prefix };
+}
+
+/**
+ * Drop duplicate IPv4 entries and those already covered by a wider range
+ */
+export function collapseIPv4(cidrs: string[]): string[] {
+  const unique = [...new Set(cidrs)];
+  const ranges = unique.map(parseIPv4);
+  return unique.filter((_, i) => {
+    const range = ranges[i];
+    if (!range) return true;
+    return !ranges.some((other, j) => {
+      if (!other || j === i || other.prefix > range.prefix) return false;
+      const covers = ((range.network & prefixMask(other.prefix)) >>> 0) === other.network;
+      // The same range written twice (e.g. 192.0.2.1/24 and 192.0.2.0/24): keep the first
+      return covers && (other.prefix < range.prefix || j < i);
+    });
+  });
+}
+
+/**
+ * Whether a fetched record has a non-pass mechanism before its all. Addresses
+ * such a term matches fall through to the including record, so the record's
+ * pass addresses cannot be merged into a plain list.
+ */
+function hasNonPassMechanisms(record: string): boolean {
+  return parseSPFTerms(record).some(t => !t.modifier && t.name !== 'all' && t.qualifier !== '+');
+}
+
+/**
+ * Whether a term can be replaced by its addresses: a pass include/a/mx/redirect
+ * whose whole subtree resolved without macros, ptr, exists or non-pass terms
+ */
+function isFlattenable(node: SPFNode): boolean {
+  if (node.qualifier !== '+' || node.error) return false;
+  if (node.type === 'ptr' || node.type === 'exists') return false;
+  if (node.record && hasNonPassMechanisms(node.record)) return false;
+  return node.children.every(isFlattenable);
+}
+
+/**
+ * Name of the provider whose ranges an include pulls in, when they are known
+ * to change, or a reason the addresses are resolved at evaluation time
+ */
+function volatility(node: SPFNode): string | undefined {
+  const provider = SPF_VOLATILE_INCLUDES.find(p => p.pattern.test(node.target));
+  if (provider) return `${provider.name} rotates its sending ranges`;
+  for (const child of node.children) {
+    if (child.type === 'a' || child.type === 'mx') return `resolves ${child.term} at evaluation time`;
+    const nested = volatility(child);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+/**
+ * Pack address terms into `v=spf1 ... -all` records of at most maxLength bytes
+ */
+function packParts(addresses: string[], maxLength: number): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+  const render = (terms: string[]) => ['v=spf1', ...terms, '-all'].join(' ');
+  for (const address of addresses) {
+    if (current.length > 0 && render([...current, address]).length > maxLength) {
+      parts.push(render(current));
+      current = [];
+    }
+    current.push(address);
+  }
+  if (current.length > 0) parts.push(render(current));
+  return parts;
+}
+
+/**
+ * Build the flattened record set from an evaluated live record
+ */
+export function buildFlattened(domain: string, live: string, expansion: SPFExpansion, options: FlattenOptions = {}): SPFFlattenResult {
+  const maxLength = options.maxLength ?? SPF_MAX_TXT_STRING;
+  const warnings: string[] = [];
+  const terms: string[] = [];
+  const kept: string[] = [];
+  // Addresses cannot move across a kept non-pass term (e.g. -ip4:) without
+  // changing the result for addresses it matches, so each run of pass terms
+  // between such terms gets its own slot
+  const slots: AddressSlot[] = [];
+  let slot: AddressSlot | undefined;
+  const openSlot = (): AddressSlot => {
+    if (!slot) {
+      slot = { ip4: [], ip6: [] };
+      terms.push(`${ADDRESSES}${slots.length}`);
+      slots.push(slot);
+    }
+    return slot;
+  };
+  let allTerm: string | undefined;
+  let keptLookups = 0;
+
+  // Expansion nodes follow the record's lookup terms in order, redirect last
+  const mechanismNodes = expansion.nodes.filter(n => n.type !== 'redirect');
+  const redirectNode = expansion.nodes.find(n => n.type === 'redirect');
+
+  const flatten = (node: SPFNode) => {
+    const addresses = authorizedAddresses(node);
+    const target = openSlot();
+    target.ip4.push(...addresses.ip4);
+    target.ip6.push(...addresses.ip6);
+    const reason = node.type === 'include' || node.type === 'redirect' ? volatility(node) : undefined;
+    if (reason) {
+      warnings.push(`${node.term}: ${reason} - re-run flatten regularly or keep the include`);
+    }
+  };
+
+  const keep = (raw: string, node?: SPFNode, qualifier = '+') => {
+    if (qualifier !== '+') slot = undefined;
+    terms.push(raw);
+    kept.push(raw);
+    if (node) {
+      keptLookups += node.lookups;
+      if (node.error) warnings.push(`${raw} kept as-is: ${node.error}`);
+    }
+  };
+
+  const liveTerms = parseSPFTerms(live);
+  for (const term of liveTerms) {
+    if (term.modifier) {
+      // redirect= is evaluated after the mechanisms, below
+      if (term.name !== 'redirect') keep(term.raw);
+      continue;
+    }
+    if (term.name === 'all') {
+      allTerm = term.raw;
+      continue;
+    }
+    if ((term.name === 'ip4' || term.name === 'ip6') && term.qualifier === '+' && term.value) {
+      openSlot()[term.name].push(term.value);
+      continue;
+    }
+    const node = ['include', 'a', 'mx', 'ptr', 'exists'].includes(term.name) ? mechanismNodes.shift() : undefined;
+    if (node && isFlattenable(node)) {
+      flatten(node);
+    } else {
+      keep(term.raw, node, term.qualifier);
+    }
+  }
+
+  // redirect= only applies when there is no all mechanism
+  if (redirectNode && !allTerm) {
+    if (isFlattenable(redirectNode)) {
+      flatten(redirectNode);
+      allTerm = parseSPFTerms(redirectNode.record ?? '').find(t => t.name === 'all')?.raw;
+    } else {
+      keep(redirectNode.term, redirectNode);
+    }
+  }
+
+  const addresses = slots.map(({ ip4, ip6 }) => [
+    ...collapseIPv4(ip4).map(a => `ip4:${a}`),
+    ...[...new Set(ip6)].map(a => `ip6:${a}`),
+  ]);
+  const render = (slotTerms: string[][]) => ['v=spf1', ...terms.flatMap(t => t.startsWith(ADDRESSES) ? slotTerms[Number(t.slice(ADDRESSES.length))] : [t]), ...(allTerm ? [allTerm] : [])].join(' ');
+
+  const records: SPFFlattenRecord[] = [];
+  const single = render(addresses);
+  if (single.length <= maxLength) {
+    records.push({ name: domain, value: single });
+  } else {
+    // Each slot is packed into its own includes, numbered across slots
+    const parts: string[] = [];
+    const includes = addresses.map(slotAddresses => packParts(slotAddresses, maxLength).map(value => {
+      parts.push(value);
+      return `include:_spf${parts.length}.${domain}`;
+    }));
+    records.push({ name: domain, value: render(includes) });
+    parts.forEach((value, i) => records.push({ name: `_spf${i + 1}.${domain}`, value }));
+  }
+
+  const lookupCount = keptLookups + records.length - 1;
+  if (lookupCount > SPF_MAX_DNS_LOOKUPS) {
+    warnings.push(`Flattened record still needs ${lookupCount} DNS lookups (limit ${SPF_MAX_DNS_LOOKUPS}) - remove or consolidate senders`);
+  }
+  for (const record of records) {
+    if (record.value.length > maxLength) {
+      warnings.push(`${record.name} is ${record.value.length} bytes (limit ${maxLength}) - too many kept terms to fit`);
+    }
+  }
+
+  const rootTerms = new Set(parseSPFTerms(records[0].value).map(t => t.raw));
+  const liveRaw = new Set(liveTerms.map(t => t.raw));
+
+  return {
+    domain,
+    liveRecord: live,
+    liveLookups: expansion.lookupCount,
+    records,
+    lookupCount,
+    kept,
+    added: [...rootTerms].filter(t => !liveRaw.has(t)),
+    removed: [...liveRaw].filter(t => !rootTerms.has(t)),
+    warnings,
+    withinLimits: lookupCount <= SPF_MAX_DNS_LOOKUPS && records.every(r => r.value.length <= maxLength),
+  };
+}
+
+/**
+ * Fetch a domain's SPF record and flatten it
+ */
+export async function flattenSPF(domain: string, options: FlattenOptions = {}): Promise<SPFFlattenResult> {
+  const maxLength = options.maxLength ?? SPF_MAX_TXT_STRING;
+  if (maxLength < 64 || maxLength > SPF_MAX_RECORD_LENGTH) {
+    throw new Error(`Maximum record length must be between 64 and ${SPF_MAX_RECORD_LENGTH} bytes`);
+  }
+  setDnsResolver(options.resolver);
+  const txt = await cachedResolveTxt(domain);
+  const live = txt.find(r => r.toLowerCase().startsWith('v=spf1'));
+  if (!live) {
+    throw new Error(`No SPF record found for ${domain}`);
+  }
+  const expansion = await expandSPF(domain, live);
+  return buildFlattened(domain, live, expansion, { maxLength });
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { formatHtml } from './html.js';
+import { createFailingResult } from '../testing/results.js';
+
+describe('formatHtml', () => {
+  const generatedAt = new Date('2026-10-01T00:00:00Z');
+
+  it('renders a self-contained document', () => {
+    const html = formatHtml([createFailingResult()], { toolVersion: '1.2.3', generatedAt });
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html).toContain('<script>');
+    expect(html).not.toMatch(/<(link|script)[^>]+(href|src)=/);
+    expect(html).toContain('generated 2026-10-01T00:00:00.000Z by DNSVet 1.2.3');
+  });
+
+  it('charts the grade distribution', () => {
+    const html = formatHtml([createFailingResult(), createFailingResult({ domain: 'example.org', grade: 'A', score: 95 })], { generatedAt });
+
+    expect(html).toContain('<title>A: 1</title>');
+    expect(html).toContain('<title>C: 1</title>');
+    expect(html).toContain('<title>F: 0</title>');
+  });
+
+  it('lists domains worst first with sortable values', () => {
+    const html = formatHtml([
+      createFailingResult({ domain: 'good.example', grade: 'A', score: 95 }),
+      createFailingResult({ domain: 'bad.example', grade: 'F', score: 10 }),
+    ], { generatedAt });
+
+    expect(html.indexOf('bad.example')).toBeLessThan(html.indexOf('good.example'));
+    expect(html).toContain('<td data-value="10">10</td>');
+  });
+
+  it('includes records, issues and recommendations in the drill-down', () => {
+    const html = formatHtml([createFailingResult()], { generatedAt });
+
+    expect(html).toContain('id="domain-example_com"');
+    expect(html).toContain('<pre>v=spf1 +all</pre>');
+    expect(html).toContain('default._domainkey (1024-bit rsa)');
+    expect(html).toContain('data-severity="critical" data-check="SPF"');
+    expect(html).toContain('SPF-PLUS-ALL');
+    expect(html).toContain('<li>SPFを-allに変更してください</li>');
+    expect(html).toContain('<option value="DKIM">DKIM</option>');
+  });
+
+  it('escapes record contents', () => {
+    const html = formatHtml([createFailingResult({
+      dmarc: { found: true, record: 'v=DMARC1; p=none; rua=mailto:<script>alert(1)</script>', issues: [] },
+    })], { generatedAt });
+
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Self-contained HTML report
+ *
+ * A single file with inline CSS and script (no external assets) so it can be
+ * mailed or attached to a ticket: grade distribution chart, sortable domain
+ * table, per-domain drill-down and severity/check filters.
+ */
+
+import type { CheckStatus, DomainResult, Grade, Issue, Severity } from '../types.js';
+import { collectAllIssues, summarizeChecks } from '../output.js';
+
+const GRADES: Grade[] = ['A', 'B', 'C', 'D', 'F'];
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+const GRADE_COLORS: Record<Grade, string> = {
+  A: '#1a7f37',
+  B: '#4c9a2a',
+  C: '#bf8700',
+  D: '#d1570d',
+  F: '#cf222e',
+};
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pass: 'Pass',
+  warn: 'Warning',
+  fail: 'Fail',
+  info: 'Skipped',
+  error: 'Error',
+};
+
+export interface HtmlOptions {
+  toolVersion?: string;
+  title?: string;
+  generatedAt?: Date;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function domainAnchor(domain: string): string {
+  return `domain-${domain.replace(/[^a-z0-9-]/gi, '_')}`;
+}
+
+function severityCounts(result: DomainResult): Record<Severity, number> {
+  const counts: Record<Severity, number> = { critical: 0, high: 0, medium: 0, low: 0, info: 0 };
+  for (const { issue } of collectAllIssues(result)) {
+    counts[issue.severity]++;
+  }
+  return counts;
+}
+
+/**
+ * Grade distribution as an inline SVG bar chart
+ */
+function gradeChart(results: DomainResult[]): string {
+  const counts: Record<Grade, number> = { A: 0, B: 0, C: 0, D: 0, F: 0 };
+  for (const r of results) {
+    counts[r.grade]++;
+  }
+  const max = Math.max(1, ...Object.values(counts));
+  const barWidth = 48;
+  const gap = 24;
+  const height = 160;
+  const bars = GRADES.map((grade, i) => {
+    const barHeight = Math.round((counts[grade] / max) * (height - 40));
+    const x = gap + i * (barWidth + gap);
+    const y = height - 20 - barHeight;
+    return [
+      `<rect x="${x}" y="${y}" width="${barWidth}" height="${barHeight}" fill="${GRADE_COLORS[grade]}" rx="3"><title>${grade}: ${counts[grade]}</title></rect>`,
+      `<text x="${x + barWidth / 2}" y="${y - 4}" text-anchor="middle">${counts[grade]}</text>`,
+      `<text x="${x + barWidth / 2}" y="${height - 4}" text-anchor="middle" font-weight="bold">${grade}</text>`,
+    ].join('');
+  }).join('\n    ');
+  const width = gap + GRADES.length * (barWidth + gap);
+  return `<svg class="chart" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" role="img" aria-label="Grade distribution">
+    ${bars}
+  </svg>`;
+}
+
+function issueItem(check: string, issue: Issue): string {
+  const recommendation = issue.recommendation
+    ? `<div class="rec">→ ${escapeHtml(issue.recommendation)}</div>`
+    : '';
+  const record = issue.evidence?.record
+    ? `<code>${escapeHtml(issue.evidence.record)}</code>`
+    : '';
+  return `<li class="issue" data-severity="${issue.severity}" data-check="${escapeHtml(check)}">`
+    + `<span class="sev sev-${issue.severity}">${issue.severity}</span> ${escapeHtml(issue.message)} `
+    + `<span class="code">${escapeHtml(issue.code)}</span>${record}${recommendation}</li>`;
+}
+
+function domainTableRow(result: DomainResult): string {
+  const counts = severityCounts(result);
+  const cells = SEVERITIES.slice(0, 4).map(s =>
+    `<td data-value="${counts[s]}" class="${counts[s] > 0 ? `sev-${s}` : 'zero'}">${counts[s]}</td>`
+  ).join('');
+  return `<tr data-anchor="${domainAnchor(result.domain)}">`
+    + `<td data-value="${escapeHtml(result.domain)}"><a href="#${domainAnchor(result.domain)}">${escapeHtml(result.domain)}</a></td>`
+    + `<td data-value="${GRADES.indexOf(result.grade)}"><span class="grade grade-${result.grade}">${result.grade}</span></td>`
+    + `<td data-value="${result.score}">${result.score}</td>`
+    + cells
+    + `</tr>`;
+}
+
+function domainDetails(result: DomainResult): string {
+  const sections = summarizeChecks(result).map(summary => {
+    const records = summary.records.length > 0
+      ? `<pre>${summary.records.map(escapeHtml).join('\n')}</pre>`
+      : '';
+    const issues = summary.issues.length > 0
+      ? `<ul class="issues">${summary.issues.map(i => issueItem(summary.check, i)).join('')}</ul>`
+      : '';
+    return `<section class="check">
+        <h4>${escapeHtml(summary.check)} <span class="status status-${summary.status}">${STATUS_LABELS[summary.status]}</span></h4>
+        ${records}${issues}
+      </section>`;
+  }).join('\n      ');
+
+  const recommendations = result.recommendations.length > 0
+    ? `<h4>Recommendations</h4><ol>${result.recommendations.map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ol>`
+    : '';
+  const error = result.error ? `<p class="error">Error: ${escapeHtml(result.error)}</p>` : '';
+
+  return `<details class="domain" id="${domainAnchor(result.domain)}">
+      <summary><span class="grade grade-${result.grade}">${result.grade}</span> ${escapeHtml(result.domain)} <span class="muted">${result.score}/100</span></summary>
+      ${error}
+      ${sections}
+      ${recommendations}
+    </details>`;
+}
+
+const STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; }
+  h1 { margin-bottom: 0; }
+  .muted { color: #656d76; font-weight: normal; }
+  .chart text { font-size: 12px; fill: #1f2328; }
+  .filters { margin: 1rem 0; display: flex; gap: 1rem; align-items: center; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #d0d7de; padding: .4rem .6rem; text-align: left; }
+  th { cursor: pointer; user-select: none; background: #f6f8fa; }
+  th[aria-sort="ascending"]::after { content: " ▲"; }
+  th[aria-sort="descending"]::after { content: " ▼"; }
+  td.zero { color: #8c959f; }
+  .grade { display: inline-block; width: 1.6em; text-align: center; border-radius: 3px; color: #fff; font-weight: bold; }
+  ${GRADES.map(g => `.grade-${g} { background: ${GRADE_COLORS[g]}; }`).join('\n  ')}
+  .sev { display: inline-block; min-width: 4.5em; font-size: .8em; text-transform: uppercase; font-weight: bold; }
+  .sev-critical { color: #a40e26; } .sev-high { color: #cf222e; } .sev-medium { color: #bf8700; }
+  .sev-low { color: #0969da; } .sev-info { color: #656d76; }
+  .status { font-size: .75em; padding: .1em .5em; border-radius: 1em; border: 1px solid; }
+  .status-pass { color: #1a7f37; } .status-warn { color: #9a6700; } .status-fail { color: #cf222e; } .status-info, .status-error { color: #656d76; }
+  details.domain { border: 1px solid #d0d7de; border-radius: 6px; margin: .5rem 0; padding: .5rem 1rem; }
+  details.domain summary { cursor: pointer; font-weight: bold; }
+  .check h4 { margin: .8rem 0 .3rem; }
+  pre { background: #f6f8fa; padding: .5rem; overflow-x: auto; white-space: pre-wrap; word-break: break-all; margin: 0; }
+  ul.issues { list-style: none; padding-left: 0; margin: .3rem 0; }
+  .issue { margin: .2rem 0; }
+  .issue code { display: block; margin-left: 5em; color: #656d76; }
+  .code { color: #656d76; font-size: .85em; }
+  .rec { margin-left: 5em; color: #656d76; }
+  .error { color: #cf222e; }
+  .hidden { display: none; }
+`;
+
+// Sorting and filtering; kept dependency-free so the report works offline
+const SCRIPT = `
+  (function () {
+    var table = document.getElementById('domains');
+    var headers = table.querySelectorAll('th');
+    headers.forEach(function (th, column) {
+      th.addEventListener('click', function () {
+        var ascending = th.getAttribute('aria-sort') !== 'ascending';
+        headers.forEach(function (h) { h.removeAttribute('aria-sort'); });
+        th.setAttribute('aria-sort', ascending ? 'ascending' : 'descending');
+        var numeric = th.dataset.type === 'number';
+        var rows = Array.prototype.slice.call(table.tBodies[0].rows);
+        rows.sort(function (a, b) {
+          var x = a.cells[column].dataset.value, y = b.cells[column].dataset.value;
+          var order = numeric ? Number(x) - Number(y) : x.localeCompare(y);
+          return ascending ? order : -order;
+        });
+        rows.forEach(function (row) { table.tBodies[0].appendChild(row); });
+      });
+    });
+
+    var severities = ${JSON.stringify(SEVERITIES)};
+    var severitySelect = document.getElementById('filter-severity');
+    var checkSelect = document.getElementById('filter-check');
+    function applyFilters() {
+      var minimum = severitySelect.value ? severities.indexOf(severitySelect.value) : severities.length - 1;
+      var check = checkSelect.value;
+      var active = severitySelect.value !== '' || check !== '';
+      document.querySelectorAll('.issue').forEach(function (li) {
+        var match = severities.indexOf(li.dataset.severity) <= minimum && (!check || li.dataset.check === check);
+        li.classList.toggle('hidden', !match);
+      });
+      document.querySelectorAll('details.domain').forEach(function (details) {
+        var visible = !active || details.querySelector('.issue:not(.hidden)') !== null;
+        details.classList.toggle('hidden', !visible);
+        var row = document.querySelector('tr[data-anchor="' + details.id + '"]');
+        if (row) row.classList.toggle('hidden', !visible);
+      });
+    }
+    severitySelect.addEventListener('change', applyFilters);
+    checkSelect.addEventListener('change', applyFilters);
+  })();
+`;
+
+/**
+ * Format scan results as a self-contained HTML document
+ */
+export function formatHtml(results: DomainResult[], options: HtmlOptions = {}): string {
+  const title = options.title ?? 'DNSVet Report';
+  const generatedAt = (options.generatedAt ?? new Date()).toISOString();
+  const version = options.toolVersion ? ` ${escapeHtml(options.toolVersion)}` : '';
+  const sorted = [...results].sort((a, b) => a.score - b.score || a.domain.localeCompare(b.domain));
+  const checks = [...new Set(results.flatMap(r => collectAllIssues(r).map(i => i.check)))];
+  const average = results.length > 0 ? Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length) : 0;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLE}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="muted">${results.length} domain(s) · average score ${average}/100 · generated ${generatedAt} by DNSVet${version}</p>
+
+  <h2>Grade Distribution</h2>
+  ${gradeChart(results)}
+
+  <h2>Domains</h2>
+  <div class="filters">
+    <label>Severity
+      <select id="filter-severity">
+        <option value="">All</option>
+        ${SEVERITIES.map(s => `<option value="${s}">${s} and above</option>`).join('\n        ')}
+      </select>
+    </label>
+    <label>Check
+      <select id="filter-check">
+        <option value="">All</option>
+        ${checks.map(c => `<option value="${escapeHtml(c)}">${escapeHtml(c)}</option>`).join('\n        ')}
+      </select>
+    </label>
+  </div>
+  <table id="domains">
+    <thead>
+      <tr>
+        <th data-type="text">Domain</th>
+        <th data-type="number">Grade</th>
+        <th data-type="number" aria-sort="ascending">Score</th>
+        ${SEVERITIES.slice(0, 4).map(s => `<th data-type="number">${s[0].toUpperCase()}${s.slice(1)}</th>`).join('\n        ')}
+      </tr>
+    </thead>
+    <tbody>
+        ${sorted.map(domainTableRow).join('\n        ')}
+    </tbody>
+  </table>
+
+  <h2>Details</h2>
+  ${sorted.map(domainDetails).join('\n  ')}
+
+  <script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,5 @@
+export { formatSarif, toSarif } from './sarif.js';
+export type { SarifLog, SarifOptions } from './sarif.js';
+export { formatHtml } from './html.js';
+export type { HtmlOptions } from './html.js';
+export { formatMarkdown, formatMarkdownResult, formatDmarcReadinessMarkdown } from './markdown.js';
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { formatMarkdown, formatMarkdownResult, formatDmarcReadinessMarkdown } from './markdown.js';
+import type { DmarcReadinessPlan } from '../types.js';
+import { createFailingResult } from '../testing/results.js';
+
+describe('formatMarkdownResult', () => {
+  it('renders the header grade and a check table', () => {
+    const md = formatMarkdownResult(createFailingResult());
+
+    expect(md).toContain('## DNSVet: example.com - Grade C (60/100)');
+    expect(md).toContain('| Check | Status | Records |');
+    expect(md).toContain('| SPF | Fail | `v=spf1 +all` |');
+    expect(md).toContain('| DKIM | Warning | `default._domainkey (1024-bit rsa)` |');
+    expect(md).toContain('| DMARC | Warning | Not found |');
+    expect(md).toContain('1. SPFを-allに変更してください');
+  });
+
+  it('collapses issues, most severe first', () => {
+    const md = formatMarkdownResult(createFailingResult());
+
+    expect(md).toContain('<details>\n<summary>Issues (2)</summary>');
+    expect(md.indexOf('SPF-PLUS-ALL')).toBeLessThan(md.indexOf('DKIM-RSA-1024'));
+    expect(md).toContain('| Critical | SPF | `SPF-PLUS-ALL` | SPF uses +all (pass all) - effectively no protection | Change to -all (hardfail) for maximum protection |');
+  });
+
+  it('escapes table cells', () => {
+    const md = formatMarkdownResult(createFailingResult({
+      dmarc: {
+        found: true,
+        record: 'v=DMARC1; p=none|bad',
+        issues: [{ code: 'DMARC-SYNTAX', check: 'dmarc', severity: 'low', message: 'Unexpected "|" in\nrecord' }],
+      },
+    }));
+
+    expect(md).toContain('`v=DMARC1; p=none\\|bad`');
+    expect(md).toContain('Unexpected "\\|" in record');
+  });
+
+  it('uses no ANSI escapes or emoji', () => {
+    const md = formatMarkdownResult(createFailingResult());
+
+    expect(md).not.toContain('\x1b[');
+    expect(md).not.toMatch(/\p{Extended_Pictographic}/u);
+  });
+});
+
+describe('formatMarkdown', () => {
+  it('renders summary tables and a section per domain', () => {
+    const md = formatMarkdown([
+      createFailingResult({ domain: 'good.example', grade: 'A', score: 95, spf: { found: true, issues: [] } }),
+      createFailingResult({ domain: 'bad.example', grade: 'F', score: 10 }),
+    ]);
+
+    expect(md).toContain('## DNSVet Scan Summary');
+    expect(md).toContain('**2** domain(s), average score **53/100**');
+    expect(md).toContain('| A | B | C | D | F |\n| --- | --- | --- | --- | --- |\n| 1 | 0 | 0 | 0 | 1 |');
+    expect(md).toContain('| bad.example | F | 10 | 1 | 0 | 1 | 0 |');
+    expect(md.indexOf('<b>bad.example</b>')).toBeLessThan(md.indexOf('<b>good.example</b>'));
+  });
+
+  it('handles an empty scan', () => {
+    expect(formatMarkdown([])).toContain('**0** domain(s)');
+  });
+});
+
+describe('formatDmarcReadinessMarkdown', () => {
+  const plan: DmarcReadinessPlan = {
+    domain: 'example.com',
+    name: '_dmarc.example.com',
+    record: 'v=DMARC1; p=none; rua=mailto:d@example.com',
+    next: 'quarantine-partial',
+    ready: false,
+    stages: [
+      { id: 'monitor', title: 'Monitor (p=none)', record: 'v=DMARC1; p=none; rua=mailto:d@example.com', status: 'complete', blockers: [] },
+      { id: 'quarantine-partial', title: 'Quarantine 25% of failing mail', record: 'v=DMARC1; p=quarantine; pct=25; rua=mailto:d@example.com', status: 'next', blockers: [{ check: 'spf', code: 'SPF-PLUS-ALL', message: 'SPF +all authorizes every host, so spoofed mail passes DMARC' }] },
+      { id: 'quarantine', title: 'Quarantine all failing mail', record: 'v=DMARC1; p=quarantine; rua=mailto:d@example.com', status: 'pending', blockers: [] },
+      { id: 'reject', title: 'Reject failing mail', record: 'v=DMARC1; p=reject; rua=mailto:d@example.com', status: 'pending', blockers: [] },
+    ],
+    notes: ['Stay at each stage until aggregate reports show no legitimate source failing DMARC (dnsvet dmarc-reports)'],
+  };
+
+  it('renders an overview and a stage table per domain', () => {
+    const md = formatDmarcReadinessMarkdown([plan]);
+
+    expect(md).toContain('| example.com | quarantine-partial | No | 1 |');
+    expect(md).toContain('### example.com');
+    expect(md).toContain('| Quarantine 25% of failing mail | Next | `v=DMARC1; p=quarantine; pct=25; rua=mailto:d@example.com` | SPF +all authorizes every host, so spoofed mail passes DMARC |');
+    expect(md).toContain('- Stay at each stage');
+  });
+});
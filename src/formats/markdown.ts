@@ -0,0 +1,212 @@
+/**
+ * GitHub-flavored Markdown output
+ *
+ * Plain Markdown (no ANSI colors or emoji) for pull-request comments and
+ * job summaries. Issue details are collapsed with <details> blocks.
+ */
+
+import type { CheckStatus, DmarcReadinessPlan, DmarcRolloutStage, DomainResult, Grade, Severity } from '../types.js';
+import { collectAllIssues, summarizeChecks } from '../output.js';
+
+const GRADES: Grade[] = ['A', 'B', 'C', 'D', 'F'];
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pass: 'Pass',
+  warn: 'Warning',
+  fail: 'Fail',
+  info: 'Skipped',
+  error: 'Error',
+};
+
+const STAGE_LABELS: Record<DmarcRolloutStage['status'], string> = {
+  complete: 'Done',
+  next: 'Next',
+  pending: 'Pending',
+};
+
+/**
+ * Escape text for a table cell: pipes split cells and newlines end the row
+ */
+function cell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Inline code span for a table cell. Backslash escapes are literal inside
+ * code spans; only the pipe escape is honored there (GFM tables).
+ */
+function code(value: string): string {
+  const fence = value.includes('`') ? '`` ' : '`';
+  const text = value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  return `${fence}${text}${[...fence].reverse().join('')}`;
+}
+
+function table(headers: string[], rows: string[][]): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ];
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function severityCounts(result: DomainResult): Record<Severity, number> {
+  const counts: Record<Severity, number> = { critical: 0, high: 0, medium: 0, low: 0, info: 0 };
+  for (const { issue } of collectAllIssues(result)) {
+    counts[issue.severity]++;
+  }
+  return counts;
+}
+
+/**
+ * Check table, collapsible issues and recommendations for one domain
+ */
+function domainBody(result: DomainResult): string[] {
+  const lines: string[] = [];
+
+  if (result.error) {
+    lines.push(`> **Error:** ${result.error}`, '');
+  }
+
+  lines.push(...table(
+    ['Check', 'Status', 'Records'],
+    summarizeChecks(result).map(summary => [
+      summary.check,
+      STATUS_LABELS[summary.status],
+      summary.records.map(code).join('<br>') || (summary.found ? '' : 'Not found'),
+    ])
+  ));
+  lines.push('');
+
+  const issues = collectAllIssues(result)
+    .sort((a, b) => SEVERITIES.indexOf(a.issue.severity) - SEVERITIES.indexOf(b.issue.severity));
+  if (issues.length > 0) {
+    lines.push('<details>');
+    lines.push(`<summary>Issues (${issues.length})</summary>`);
+    lines.push('');
+    lines.push(...table(
+      ['Severity', 'Check', 'Code', 'Issue', 'Recommendation'],
+      issues.map(({ check, issue }) => [
+        capitalize(issue.severity),
+        check,
+        code(issue.code),
+        cell(issue.message),
+        cell(issue.recommendation ?? ''),
+      ])
+    ));
+    lines.push('');
+    lines.push('</details>');
+    lines.push('');
+  }
+
+  if (result.recommendations.length > 0) {
+    lines.push('**Recommendations**');
+    lines.push('');
+    result.recommendations.forEach((rec, i) => lines.push(`${i + 1}. ${rec}`));
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Format a single domain result as Markdown
+ */
+export function formatMarkdownResult(result: DomainResult): string {
+  const lines: string[] = [];
+  lines.push(`## DNSVet: ${result.domain} - Grade ${result.grade} (${result.score}/100)`);
+  lines.push('');
+  lines.push(...domainBody(result));
+  return lines.join('\n');
+}
+
+/**
+ * Format scan results as Markdown: summary tables plus a collapsible
+ * section per domain, worst first
+ */
+export function formatMarkdown(results: DomainResult[]): string {
+  const lines: string[] = [];
+  const grades: Record<Grade, number> = { A: 0, B: 0, C: 0, D: 0, F: 0 };
+  for (const r of results) {
+    grades[r.grade]++;
+  }
+  const average = results.length > 0 ? Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length) : 0;
+  const sorted = [...results].sort((a, b) => a.score - b.score || a.domain.localeCompare(b.domain));
+
+  lines.push('## DNSVet Scan Summary');
+  lines.push('');
+  lines.push(`**${results.length}** domain(s), average score **${average}/100**`);
+  lines.push('');
+  lines.push(...table(GRADES, [GRADES.map(g => String(grades[g]))]));
+  lines.push('');
+
+  if (sorted.length > 0) {
+    lines.push(...table(
+      ['Domain', 'Grade', 'Score', 'Critical', 'High', 'Medium', 'Low'],
+      sorted.map(r => {
+        const counts = severityCounts(r);
+        return [cell(r.domain), r.grade, String(r.score), ...SEVERITIES.slice(0, 4).map(s => String(counts[s]))];
+      })
+    ));
+    lines.push('');
+  }
+
+  for (const result of sorted) {
+    lines.push('<details>');
+    lines.push(`<summary><b>${result.domain}</b> - Grade ${result.grade} (${result.score}/100)</summary>`);
+    lines.push('');
+    lines.push(...domainBody(result));
+    lines.push('</details>');
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format DMARC rollout plans as Markdown: an overview table, then each
+ * domain's stages with the record to publish and its blockers
+ */
+export function formatDmarcReadinessMarkdown(plans: DmarcReadinessPlan[]): string {
+  const lines: string[] = [];
+
+  lines.push('## DMARC Enforcement Plan');
+  lines.push('');
+  lines.push(...table(
+    ['Domain', 'Next stage', 'Ready', 'Blockers'],
+    plans.map(plan => {
+      const next = plan.stages.find(stage => stage.id === plan.next);
+      return [cell(plan.domain), plan.next ?? 'Enforced', plan.ready ? 'Yes' : 'No', String(next?.blockers.length ?? 0)];
+    })
+  ));
+  lines.push('');
+
+  for (const plan of plans) {
+    lines.push(`### ${plan.domain}`);
+    lines.push('');
+    lines.push(`Current: ${plan.record ? code(plan.record) : 'no DMARC record'}`);
+    lines.push('');
+    lines.push(...table(
+      ['Stage', 'Status', `Record (${code(plan.name)} TXT)`, 'Blockers'],
+      plan.stages.map(stage => [
+        cell(stage.title),
+        STAGE_LABELS[stage.status],
+        code(stage.record),
+        stage.blockers.map(blocker => cell(blocker.message)).join('<br>'),
+      ])
+    ));
+    lines.push('');
+    for (const note of plan.notes) {
+      lines.push(`- ${note}`);
+    }
+    if (plan.notes.length > 0) {
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { formatSarif, toSarif } from './sarif.js';
+import type { DomainResult } from '../types.js';
+import { createFailingResult } from '../testing/results.js';
+
+const createMockResult = (overrides: Partial<DomainResult> = {}): DomainResult => createFailingResult({
+  dmarc: {
+    found: true,
+    policy: 'none',
+    issues: [
+      { code: 'DMARC-P-NONE', check: 'dmarc', severity: 'high', message: 'DMARC policy is "none" - no enforcement', evidence: { tag: 'p', value: 'none' } }
+    ]
+  },
+  mx: { found: true, records: [], issues: [{ code: 'MX-PROVIDER-DETECTED', check: 'mx', severity: 'info', message: 'Email provider detected: Google Workspace' }] },
+  recommendations: [],
+  ...overrides
+});
+
+describe('toSarif', () => {
+  it('emits a SARIF 2.1.0 log with tool metadata', () => {
+    const log = toSarif([createMockResult()], { toolVersion: '1.2.3' });
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.$schema).toContain('sarif-2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver.name).toBe('DNSVet');
+    expect(log.runs[0].tool.driver.version).toBe('1.2.3');
+  });
+
+  it('maps every issue to a result', () => {
+    const log = toSarif([createMockResult()]);
+    expect(log.runs[0].results).toHaveLength(4);
+  });
+
+  it('maps severity to SARIF levels', () => {
+    const log = toSarif([createMockResult()]);
+    const levels = log.runs[0].results.map(r => [r.properties.check, r.level]);
+
+    expect(levels).toContainEqual(['spf', 'error']);
+    expect(levels).toContainEqual(['dmarc', 'error']);
+    expect(levels).toContainEqual(['dkim', 'warning']);
+    expect(levels).toContainEqual(['mx', 'note']);
+  });
+
+  it('uses the record name as location', () => {
+    const log = toSarif([createMockResult()]);
+    const dmarc = log.runs[0].results.find(r => r.properties.check === 'dmarc');
+
+    expect(dmarc?.locations[0].physicalLocation.artifactLocation.uri).toBe('_dmarc.example.com');
+    expect(dmarc?.locations[0].logicalLocations[0].fullyQualifiedName).toBe('example.com/dmarc');
+  });
+
+  it('uses issue codes as rule IDs', () => {
+    const log = toSarif([createMockResult()]);
+    const ids = log.runs[0].tool.driver.rules.map(r => r.id);
+
+    expect(ids).toEqual(['SPF-PLUS-ALL', 'DKIM-RSA-1024', 'DMARC-P-NONE', 'MX-PROVIDER-DETECTED']);
+  });
+
+  it('prefers the evidence name as location', () => {
+    const log = toSarif([createMockResult()]);
+    const dkim = log.runs[0].results.find(r => r.ruleId === 'DKIM-RSA-1024');
+
+    expect(dkim?.locations[0].physicalLocation.artifactLocation.uri).toBe('default._domainkey.example.com');
+    expect(dkim?.properties.evidence?.name).toBe('default._domainkey.example.com');
+  });
+
+  it('deduplicates rules across domains', () => {
+    const log = toSarif([
+      createMockResult({ domain: 'a.com' }),
+      createMockResult({ domain: 'b.com' }),
+    ]);
+
+    expect(log.runs[0].results).toHaveLength(8);
+    expect(log.runs[0].tool.driver.rules).toHaveLength(4);
+    for (const result of log.runs[0].results) {
+      expect(log.runs[0].tool.driver.rules[result.ruleIndex].id).toBe(result.ruleId);
+    }
+  });
+
+  it('sets security-severity on rules', () => {
+    const log = toSarif([createMockResult()]);
+    const spfRule = log.runs[0].tool.driver.rules.find(r => r.properties.check === 'spf');
+
+    expect(spfRule?.properties['security-severity']).toBe('9.5');
+  });
+
+  it('gives distinct fingerprints per domain', () => {
+    const log = toSarif([
+      createMockResult({ domain: 'a.com' }),
+      createMockResult({ domain: 'b.com' }),
+    ]);
+    const fingerprints = new Set(log.runs[0].results.map(r => r.partialFingerprints['dnsvetFinding/v1']));
+
+    expect(fingerprints.size).toBe(8);
+  });
+
+  it('reports domain errors as notifications', () => {
+    const log = toSarif([createMockResult({ error: 'SPF: timed out' })]);
+
+    expect(log.runs[0].invocations?.[0].toolExecutionNotifications[0].message.text).toContain('timed out');
+  });
+});
+
+describe('formatSarif', () => {
+  it('returns valid JSON', () => {
+    const output = formatSarif([createMockResult()]);
+    expect(() => JSON.parse(output)).not.toThrow();
+  });
+
+  it('handles empty results', () => {
+    const log = JSON.parse(formatSarif([]));
+    expect(log.runs[0].results).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * SARIF 2.1.0 output
+ *
+ * Maps every DNSVet issue to a SARIF result so findings can be uploaded to
+ * GitHub Code Scanning or any SARIF-aware SIEM.
+ */
+
+import crypto from 'node:crypto';
+import type { CheckName, DomainResult, Issue, IssueEvidence, Severity } from '../types.js';
+import { collectAllIssues } from '../output.js';
+import { DNS_SUBDOMAIN } from '../constants.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_VERSION = '2.1.0';
+const TOOL_NAME = 'DNSVet';
+const TOOL_URI = 'https://github.com/taku-tez/DNSVet';
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+// SARIF result levels by DNSVet severity
+const SEVERITY_LEVELS: Record<Severity, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note',
+};
+
+// GitHub Code Scanning reads a CVSS-like score from rule properties
+const SECURITY_SEVERITY: Record<Severity, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.0',
+  low: '2.0',
+  info: '0.0',
+};
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  help?: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    check: CheckName;
+    severity: Severity;
+    'security-severity': string;
+    tags: string[];
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string };
+    };
+    logicalLocations: Array<{
+      name: string;
+      fullyQualifiedName: string;
+      kind: string;
+    }>;
+  }>;
+  partialFingerprints: Record<string, string>;
+  properties: {
+    domain: string;
+    check: CheckName;
+    severity: Severity;
+    recommendation?: string;
+    evidence?: IssueEvidence;
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version?: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    results: SarifResult[];
+    invocations?: Array<{
+      executionSuccessful: boolean;
+      toolExecutionNotifications: Array<{ level: SarifLevel; message: { text: string } }>;
+    }>;
+  }>;
+}
+
+export interface SarifOptions {
+  toolVersion?: string;
+}
+
+/**
+ * DNS name a finding is attached to, used as the SARIF location.
+ * Prefers the name recorded in the issue evidence.
+ */
+function locationFor(issue: Issue, domain: string): string {
+  if (issue.evidence?.name) {
+    return issue.evidence.name;
+  }
+  switch (issue.check) {
+    case 'dkim':
+      return `${DNS_SUBDOMAIN.DKIM}.${domain}`;
+    case 'dmarc':
+      return `${DNS_SUBDOMAIN.DMARC}.${domain}`;
+    case 'bimi':
+      return `_bimi.${domain}`;
+    case 'mta-sts':
+      return `${DNS_SUBDOMAIN.MTA_STS}.${domain}`;
+    case 'tls-rpt':
+      return `${DNS_SUBDOMAIN.TLS_RPT}.${domain}`;
+    default:
+      return domain;
+  }
+}
+
+function fingerprint(...parts: string[]): string {
+  return crypto.createHash('sha256').update(parts.join('\0')).digest('hex').slice(0, 32);
+}
+
+/**
+ * Build a SARIF log from scan results
+ */
+export function toSarif(results: DomainResult[], options: SarifOptions = {}): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+  const sarifResults: SarifResult[] = [];
+  const notifications: Array<{ level: SarifLevel; message: { text: string } }> = [];
+
+  for (const result of results) {
+    if (result.error) {
+      notifications.push({ level: 'warning', message: { text: `${result.domain}: ${result.error}` } });
+    }
+
+    for (const { issue } of collectAllIssues(result)) {
+      const ruleId = issue.code;
+      let index = ruleIndex.get(ruleId);
+      if (index === undefined) {
+        index = rules.length;
+        ruleIndex.set(ruleId, index);
+        rules.push({
+          id: ruleId,
+          name: ruleId.toLowerCase(),
+          shortDescription: { text: issue.message },
+          ...(issue.recommendation ? { help: { text: issue.recommendation } } : {}),
+          defaultConfiguration: { level: SEVERITY_LEVELS[issue.severity] },
+          properties: {
+            check: issue.check,
+            severity: issue.severity,
+            'security-severity': SECURITY_SEVERITY[issue.severity],
+            tags: ['security', 'dns', issue.check],
+          },
+        });
+      }
+
+      const location = locationFor(issue, result.domain);
+      sarifResults.push({
+        ruleId,
+        ruleIndex: index,
+        level: SEVERITY_LEVELS[issue.severity],
+        message: {
+          text: issue.recommendation ? `${issue.message}. ${issue.recommendation}` : issue.message,
+        },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: location },
+          },
+          logicalLocations: [{
+            name: location,
+            fullyQualifiedName: `${result.domain}/${issue.check}`,
+            kind: 'resource',
+          }],
+        }],
+        partialFingerprints: {
+          'dnsvetFinding/v1': fingerprint(result.domain, ruleId, location, issue.evidence?.value ?? ''),
+        },
+        properties: {
+          domain: result.domain,
+          check: issue.check,
+          severity: issue.severity,
+          ...(issue.recommendation ? { recommendation: issue.recommendation } : {}),
+          ...(issue.evidence ? { evidence: issue.evidence } : {}),
+        },
+      });
+    }
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          ...(options.toolVersion ? { version: options.toolVersion } : {}),
+          informationUri: TOOL_URI,
+          rules,
+        },
+      },
+      results: sarifResults,
+      ...(notifications.length > 0
+        ? { invocations: [{ executionSuccessful: true, toolExecutionNotifications: notifications }] }
+        : {}),
+    }],
+  };
+}
+
+/**
+ * Format scan results as a SARIF 2.1.0 JSON document
+ */
+export function formatSarif(results: DomainResult[], options: SarifOptions = {}): string {
+  return JSON.stringify(toSarif(results, options), null, 2);
+}
@@ -2,8 +2,8 @@
  * DNSVet - Email security configuration scanner
  */
 
-export { analyzeDomain, analyzeMultiple } from './core/index.js';
-export { checkSPF, checkDKIM, checkDMARC, checkMX, checkBIMI, checkMTASTS, checkTLSRPT, checkARCReadiness, checkDNSSEC, checkWhois } from './checks/index.js';
+export { analyzeDomain, analyzeMultiple, diffResults, parseResults, evaluatePolicy, loadPolicy, parsePolicy, saveRun, loadRuns, domainHistory, portfolioTrend, dkimRotation, flattenSPF, evaluateSPF, parseAggregateReport, analyzeAggregateReports, assessDmarcReadiness, analyzeMessage } from './core/index.js';
+export { checkSPF, checkDKIM, checkDMARC, checkMX, checkBIMI, checkMTASTS, checkTLSRPT, checkARCReadiness, checkDNSSEC, checkDANE, checkCAA, checkWhois } from './checks/index.js';
 export { 
   AWSSource, 
   GCPSource, 
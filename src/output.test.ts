@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { formatResult, formatSummary } from './output.js';
-import type { DomainResult } from './types.js';
+import { formatResult, formatSummary, formatDiff, formatPolicyReport, formatHistory, formatTrend, formatDkimRotation, formatFlatten, formatSPFEvaluation, formatDmarcReports, formatDmarcReadiness, formatMessageAnalysis, summarizeChecks } from './output.js';
+import { diffResults } from './core/diff.js';
+import type { DmarcReadinessPlan, DmarcReportAnalysis, DomainResult, MessageAnalysis, SPFNode } from './types.js';
 
 const createMockResult = (overrides: Partial<DomainResult> = {}): DomainResult => ({
   domain: 'example.com',
@@ -69,6 +70,25 @@ describe('formatResult', () => {
     expect(output).toContain('2048-bit');
   });
 
+  it('shows how DKIM selectors were discovered', () => {
+    const result = createMockResult({
+      dkim: {
+        found: true,
+        selectors: [
+          { selector: 's1', found: true, keyType: 'rsa', keyLength: 2048, source: 'provider', sourceDetail: 'SendGrid (SPF include:sendgrid.net)' },
+          { selector: '202609', found: true, keyType: 'rsa', keyLength: 2048, source: 'pattern' },
+        ],
+        discovery: { probed: 80, domainkeyExists: true, wildcard: false, providers: ['SendGrid'] },
+        issues: []
+      }
+    });
+    const output = formatResult(result, true);
+
+    expect(output).toContain('via SendGrid (SPF include:sendgrid.net)');
+    expect(output).toContain('via date/sequence pattern');
+    expect(output).toContain('Probed 80 selectors (providers: SendGrid)');
+  });
+
   it('shows DMARC policy', () => {
     const result = createMockResult();
     const output = formatResult(result);
@@ -77,6 +97,47 @@ describe('formatResult', () => {
     expect(output).toContain('p=reject');
   });
 
+  it('shows the policy a subdomain inherits', () => {
+    const result = createMockResult({
+      domain: 'mail.example.com',
+      dmarc: {
+        found: true,
+        record: 'v=DMARC1; p=reject; sp=quarantine',
+        policy: 'reject',
+        subdomainPolicy: 'quarantine',
+        policyDomain: 'example.com',
+        inherited: true,
+        domainExists: true,
+        effectivePolicy: 'quarantine',
+        effectivePolicyTag: 'sp',
+        issues: []
+      }
+    });
+    const output = formatResult(result);
+
+    expect(output).toContain('Inherited from _dmarc.example.com');
+    expect(output).toContain('Policy: sp=quarantine');
+  });
+
+  it('shows DMARCbis np= and test mode', () => {
+    const result = createMockResult({
+      dmarc: {
+        found: true,
+        record: 'v=DMARC1; p=reject; np=reject; t=y',
+        policy: 'reject',
+        nonExistentPolicy: 'reject',
+        nonExistentSubdomainPolicy: 'reject',
+        testing: true,
+        spec: 'dmarcbis',
+        issues: []
+      }
+    });
+    const output = formatResult(result);
+
+    expect(output).toContain('Non-existent subdomains: np=reject');
+    expect(output).toContain('Testing: t=y');
+  });
+
   it('shows MX records', () => {
     const result = createMockResult();
     const output = formatResult(result);
@@ -123,6 +184,49 @@ describe('formatResult', () => {
     expect(output).toContain('VMC');
   });
 
+  it('shows whether the BIMI logo is SVG Tiny PS', () => {
+    const result = createMockResult({
+      bimi: {
+        found: true,
+        logoUrl: 'https://example.com/logo.svg',
+        logo: { contentType: 'image/svg+xml', size: 2048, title: 'Example', baseProfile: 'tiny', svgTinyPs: false },
+        issues: []
+      }
+    });
+    const output = formatResult(result);
+
+    expect(output).toContain('Not valid SVG Tiny PS');
+    expect(output).toContain('"Example", 2.0 KB');
+  });
+
+  it('shows the BIMI mark certificate type, expiry and logo match', () => {
+    const result = createMockResult({
+      bimi: {
+        found: true,
+        logoUrl: 'https://example.com/logo.svg',
+        certificateUrl: 'https://example.com/vmc.pem',
+        certificate: {
+          type: 'VMC',
+          markType: 'Registered Mark',
+          subject: 'CN=Example Inc.',
+          issuer: 'CN=Example Mark CA',
+          validFrom: '2026-01-01T00:00:00.000Z',
+          validTo: '2027-01-01T00:00:00.000Z',
+          daysToExpiry: 74,
+          sans: ['example.com'],
+          chainLength: 2,
+          chainValid: true,
+          logoMatches: false,
+        },
+        issues: []
+      }
+    });
+    const output = formatResult(result);
+
+    expect(output).toContain('VMC: CN=Example Inc.');
+    expect(output).toContain('Registered Mark, expires in 74 days, logo differs');
+  });
+
   it('shows MTA-STS when present', () => {
     const result = createMockResult({
       mtaSts: {
@@ -195,6 +299,33 @@ describe('formatResult', () => {
     expect(output).toContain('_spf.google.com');
   });
 
+  it('verbose mode shows the SPF lookup tree', () => {
+    const node = (term: string, lookups: number, children: SPFNode[] = [], ip4: string[] = []): SPFNode => ({
+      type: 'include', qualifier: '+', target: term.split(':')[1], term, depth: 0, lookups, voidLookups: 0, ip4, ip6: [], children,
+    });
+    const result = createMockResult({
+      spf: {
+        found: true,
+        record: 'v=spf1 include:_spf.google.com include:gone.example -all',
+        voidLookupCount: 1,
+        tree: [
+          node('include:_spf.google.com', 2, [node('include:_netblocks.google.com', 1, [], ['35.190.247.0/24'])]),
+          { ...node('include:gone.example', 1), voidLookups: 1, error: 'no SPF record' },
+        ],
+        ip4: ['35.190.247.0/24'],
+        issues: [],
+      },
+    });
+
+    const output = formatResult(result, true);
+
+    expect(output).toContain('Lookup tree (void lookups: 1/2)');
+    expect(output).toContain('├─ include:_spf.google.com');
+    expect(output).toContain('│  └─ include:_netblocks.google.com');
+    expect(output).toMatch(/└─ include:gone\.example .*1 lookup, 1 void.*no SPF record/);
+    expect(output).toContain('Authorized: 1 IPv4, 0 IPv6');
+  });
+
   it('handles failing grade correctly', () => {
     const result = createMockResult({
       grade: 'F',
@@ -276,3 +407,295 @@ describe('formatSummary', () => {
     expect(output).toContain('0 domains');
   });
 });
+
+describe('formatDiff', () => {
+  it('shows grade changes, record changes and issues', () => {
+    const before = createMockResult();
+    const after = createMockResult({
+      grade: 'B',
+      score: 82,
+      dmarc: {
+        found: true,
+        policy: 'none',
+        issues: [{ code: 'DMARC-POLICY-NONE', check: 'dmarc', severity: 'high', message: 'DMARC policy is none' }]
+      },
+    });
+
+    const output = formatDiff(diffResults([before], [after, createMockResult({ domain: 'new.example' })]));
+
+    expect(output).toContain('Regressions: 1');
+    expect(output).toMatch(/example\.com.*A.*\(95\).*→.*B.*\(82\)/);
+    expect(output).toContain('DMARC policy: reject → none');
+    expect(output).toContain('New: DMARC policy is none');
+    expect(output).toContain('new.example');
+  });
+
+  it('reports no changes', () => {
+    const output = formatDiff(diffResults([createMockResult()], [createMockResult()]));
+    expect(output).toContain('No changes');
+  });
+});
+
+describe('formatPolicyReport', () => {
+  it('groups violations by domain', () => {
+    const output = formatPolicyReport({
+      passed: false,
+      violations: [
+        { domain: 'example.com', rule: 'min-grade', message: 'Grade C is below the required B' },
+        { domain: 'example.com', rule: 'require', message: 'Requirement not met: dmarc.policy == reject (actual: "none")' },
+      ],
+      suppressed: [],
+      expiredSuppressions: [{ code: 'DKIM-MISSING', domain: 'example.org', expires: '2026-01-31' }],
+    }, '.dnsvet.yml');
+
+    expect(output).toContain('Policy (.dnsvet.yml)');
+    expect(output).toContain('2 violation(s)');
+    expect(output.match(/example\.com/g)).toHaveLength(1);
+    expect(output).toContain('[min-grade]');
+    expect(output).toContain('Suppression of DKIM-MISSING for example.org expired on 2026-01-31');
+  });
+
+  it('reports a passing policy', () => {
+    const output = formatPolicyReport({ passed: true, violations: [], suppressed: [], expiredSuppressions: [] });
+    expect(output).toContain('Passed');
+  });
+});
+
+describe('formatHistory', () => {
+  it('shows score changes and issue lifecycles', () => {
+    const output = formatHistory({
+      domain: 'example.com',
+      points: [
+        { runId: 'r1', timestamp: '2026-10-01T09:30:00.000Z', grade: 'C', score: 65 },
+        { runId: 'r2', timestamp: '2026-10-08T09:30:00.000Z', grade: 'B', score: 80 },
+      ],
+      issues: [
+        { code: 'DMARC-POLICY-NONE', check: 'DMARC', severity: 'high', message: 'DMARC policy is none', firstSeen: '2026-10-01T09:30:00.000Z', lastSeen: '2026-10-01T09:30:00.000Z', resolved: '2026-10-08T09:30:00.000Z' },
+        { code: 'CAA-MISSING', check: 'CAA', severity: 'low', message: 'No CAA records found', firstSeen: '2026-10-01T09:30:00.000Z', lastSeen: '2026-10-08T09:30:00.000Z' },
+      ],
+    });
+
+    expect(output).toContain('History for example.com');
+    expect(output).toContain('2026-10-08 09:30');
+    expect(output).toContain('+15');
+    expect(output).toMatch(/Open issues:[\s\S]*No CAA records found.*since 2026-10-01 09:30/);
+    expect(output).toMatch(/Resolved issues:[\s\S]*DMARC policy is none.*2026-10-01 09:30 → 2026-10-08 09:30/);
+  });
+
+  it('reports a domain without history', () => {
+    expect(formatHistory({ domain: 'example.com', points: [], issues: [] })).toContain('No recorded scans');
+  });
+});
+
+describe('formatTrend', () => {
+  it('shows the average score and grade distribution per run', () => {
+    const output = formatTrend([
+      { runId: 'r1', timestamp: '2026-10-01T09:30:00.000Z', domains: 2, averageScore: 70, grades: { A: 0, B: 1, C: 0, D: 1, F: 0 } },
+      { runId: 'r2', timestamp: '2026-10-08T09:30:00.000Z', domains: 2, averageScore: 64, grades: { A: 0, B: 1, C: 0, D: 0, F: 1 } },
+    ]);
+
+    expect(output).toContain('2 run(s)');
+    expect(output).toContain('avg 64/100');
+    expect(output).toContain('-6');
+  });
+
+  it('explains how to record history', () => {
+    expect(formatTrend([])).toContain('--save-history');
+  });
+});
+
+describe('formatDkimRotation', () => {
+  it('shows key age per selector with stale, retired and lingering revoked selectors', () => {
+    const output = formatDkimRotation({
+      runs: 3,
+      from: '2026-01-01T00:00:00.000Z',
+      to: '2026-10-01T00:00:00.000Z',
+      maxAgeDays: 180,
+      revokedGraceDays: 30,
+      selectors: [
+        { domain: 'example.com', selector: 'old', status: 'retired', firstSeen: '2026-01-01T00:00:00.000Z', lastSeen: '2026-03-01T00:00:00.000Z', rotations: 0 },
+        { domain: 'example.com', selector: 's1', status: 'active', fingerprint: 'q0GVSM3kX1Y6HvkGZxPZ0CqkWbNZr2nW0Yl6RQzwvso=', firstSeen: '2026-01-01T00:00:00.000Z', lastSeen: '2026-10-01T00:00:00.000Z', keySince: '2026-01-01T00:00:00.000Z', ageDays: 273, ageIsMinimum: true, rotations: 0, stale: true },
+        { domain: 'example.com', selector: 'gone', status: 'revoked', firstSeen: '2026-01-01T00:00:00.000Z', lastSeen: '2026-10-01T00:00:00.000Z', keySince: '2026-06-01T00:00:00.000Z', ageDays: 122, rotations: 1, lingering: true },
+      ],
+    });
+
+    expect(output).toContain('old._domainkey retired');
+    expect(output).toContain('s1._domainkey key age ≥ 273 day(s) - not rotated in over 180 days');
+    expect(output).toContain('gone._domainkey revoked for 122 day(s) - remove it');
+    expect(output).toContain('1 stale key(s), 1 lingering revoked selector(s)');
+  });
+});
+
+describe('formatFlatten', () => {
+  it('shows the records, term diff and warnings', () => {
+    const output = formatFlatten({
+      domain: 'example.com',
+      liveRecord: 'v=spf1 include:_spf.google.com -all',
+      liveLookups: 4,
+      records: [{ name: 'example.com', value: 'v=spf1 ip4:172.217.0.0/16 -all' }],
+      lookupCount: 0,
+      kept: [],
+      added: ['ip4:172.217.0.0/16'],
+      removed: ['include:_spf.google.com'],
+      warnings: ['include:_spf.google.com: Google rotates its sending ranges'],
+      withinLimits: true,
+    });
+
+    expect(output).toContain('Lookups: 4 → ✅ 0/10');
+    expect(output).toContain('"v=spf1 ip4:172.217.0.0/16 -all"');
+    expect(output).toContain('- include:_spf.google.com');
+    expect(output).toContain('+ ip4:172.217.0.0/16');
+    expect(output).toContain('Google rotates its sending ranges');
+  });
+});
+
+describe('formatSPFEvaluation', () => {
+  it('shows the result, deciding mechanism and trace', () => {
+    const output = formatSPFEvaluation({
+      domain: 'example.com',
+      ip: '203.0.113.9',
+      sender: 'postmaster@example.com',
+      result: 'fail',
+      mechanism: '-all',
+      matchedDomain: 'example.com',
+      explanation: 'Not authorized',
+      lookups: 1,
+      voidLookups: 0,
+      trace: [
+        { depth: 0, domain: 'example.com', detail: 'v=spf1 include:_spf.vendor.example -all' },
+        { depth: 0, domain: 'example.com', term: 'include:_spf.vendor.example', detail: '_spf.vendor.example returned fail', match: false },
+        { depth: 1, domain: '_spf.vendor.example', detail: 'v=spf1 ip4:198.51.100.0/24 -all' },
+        { depth: 0, domain: 'example.com', term: '-all', detail: 'matches every address', match: true },
+      ],
+    });
+
+    expect(output).toContain('fail');
+    expect(output).toContain('(-all in example.com)');
+    expect(output).toContain('Explanation: Not authorized');
+    expect(output).toContain('Lookups: 1/10');
+    expect(output).toContain('     \x1b[1m_spf.vendor.example');
+  });
+});
+
+describe('formatDmarcReports', () => {
+  const analysis: DmarcReportAnalysis = {
+    domain: 'example.com',
+    policy: 'none',
+    reports: 2,
+    begin: '2026-10-01T00:00:00.000Z',
+    end: '2026-10-02T23:59:59.000Z',
+    messages: 110,
+    passing: 100,
+    dispositions: { none: 110, quarantine: 0, reject: 0 },
+    wouldReject: 10,
+    wouldBreak: 8,
+    reporters: [{ orgName: 'google.com', reports: 2, messages: 110, passing: 100 }],
+    sources: [
+      { sourceIp: '192.0.2.1', messages: 100, passing: 100, spfAligned: 100, dkimAligned: 100, dispositions: { none: 100, quarantine: 0, reject: 0 }, reporters: ['google.com'], spfDomains: [], dkimDomains: [], status: 'aligned' },
+      { sourceIp: '198.51.100.7', messages: 8, passing: 0, spfAligned: 0, dkimAligned: 0, dispositions: { none: 8, quarantine: 0, reject: 0 }, reporters: ['google.com'], spfDomains: ['vendor.example'], dkimDomains: [], status: 'misaligned', reason: 'SPF passes for vendor.example, not example.com', liveSpf: 'fail' },
+      { sourceIp: '203.0.113.66', messages: 2, passing: 0, spfAligned: 0, dkimAligned: 0, dispositions: { none: 2, quarantine: 0, reject: 0 }, reporters: ['google.com'], spfDomains: [], dkimDomains: [], status: 'unauthenticated' },
+    ],
+    selectors: [{ selector: 'old', domain: 'example.com', messages: 5, passing: 0, published: false }],
+  };
+
+  it('summarizes the p=reject impact and lists sources', () => {
+    const output = formatDmarcReports([analysis]);
+
+    expect(output).toContain('DMARC reports for example.com');
+    expect(output).toContain('DMARC pass: 100 (91%)');
+    expect(output).toContain('p=reject would reject 10 message(s); 8 from partially authenticated or misaligned sources');
+    expect(output).toContain('SPF passes for vendor.example, not example.com');
+    expect(output).toContain('live SPF: fail');
+    expect(output).toContain('old (d=example.com)');
+    expect(output).toContain('not published');
+  });
+
+  it('limits the listed sources', () => {
+    expect(formatDmarcReports([analysis], 1)).toContain('... 2 more source(s)');
+  });
+});
+
+describe('formatDmarcReadiness', () => {
+  const plan: DmarcReadinessPlan = {
+    domain: 'example.com',
+    name: '_dmarc.example.com',
+    record: 'v=DMARC1; p=none; rua=mailto:d@example.com',
+    next: 'quarantine-partial',
+    ready: false,
+    stages: [
+      { id: 'monitor', title: 'Monitor (p=none)', record: 'v=DMARC1; p=none; rua=mailto:d@example.com', status: 'complete', blockers: [] },
+      { id: 'quarantine-partial', title: 'Quarantine 25% of failing mail', record: 'v=DMARC1; p=quarantine; pct=25; rua=mailto:d@example.com', status: 'next', blockers: [{ check: 'spf', code: 'SPF-PLUS-ALL', message: 'SPF +all authorizes every host, so spoofed mail passes DMARC' }] },
+      { id: 'quarantine', title: 'Quarantine all failing mail', record: 'v=DMARC1; p=quarantine; rua=mailto:d@example.com', status: 'pending', blockers: [] },
+      { id: 'reject', title: 'Reject failing mail', record: 'v=DMARC1; p=reject; rua=mailto:d@example.com', status: 'pending', blockers: [] },
+    ],
+    notes: ['Stay at each stage until aggregate reports show no legitimate source failing DMARC (dnsvet dmarc-reports)'],
+  };
+
+  it('shows each stage with its record and blockers', () => {
+    const output = formatDmarcReadiness([plan]);
+
+    expect(output).toContain('DMARC rollout for example.com');
+    expect(output).toContain('blocked at quarantine-partial');
+    expect(output).toContain('_dmarc.example.com TXT "v=DMARC1; p=quarantine; pct=25; rua=mailto:d@example.com"');
+    expect(output).toContain('SPF +all authorizes every host');
+    expect(output).not.toContain('TXT "v=DMARC1; p=none');
+    expect(output).toContain('Stay at each stage');
+  });
+});
+
+describe('formatMessageAnalysis', () => {
+  const analysis: MessageAnalysis = {
+    from: 'alerts@example.com',
+    fromDomain: 'example.com',
+    mailFrom: 'bounce@esp.example',
+    subject: 'Quarterly report',
+    ip: '192.0.2.1',
+    helo: 'mail.esp.example',
+    received: [{ from: 'mail.esp.example', ip: '192.0.2.1', by: 'mx.example.net' }],
+    spf: { domain: 'esp.example', ip: '192.0.2.1', sender: 'bounce@esp.example', result: 'pass', mechanism: 'ip4:192.0.2.0/24', matchedDomain: 'esp.example', lookups: 1, voidLookups: 0, trace: [] },
+    dkim: [{ domain: 'esp.example', selector: 's1', algorithm: 'rsa-sha256', canonicalization: 'relaxed/relaxed', headers: ['from'], result: 'fail', reason: 'Body hash did not match' }],
+    dmarc: { result: 'fail', domain: 'example.com', recordDomain: 'example.com', policy: 'reject', adkim: 'r', aspf: 'r', spfAligned: false, dkimAligned: false },
+    arc: { result: 'none', sets: [] },
+    warnings: [],
+  };
+
+  it('shows the DMARC verdict with the SPF and DKIM results behind it', () => {
+    const output = formatMessageAnalysis(analysis);
+
+    expect(output).toContain('Message from alerts@example.com');
+    expect(output).toContain('Last hop: 192.0.2.1 (mail.esp.example)');
+    expect(output).toContain('p=reject from _dmarc.example.com');
+    expect(output).toContain('SPF aligned (esp.example)');
+    expect(output).toContain('Receivers are asked to reject this message');
+    expect(output).toContain('for 192.0.2.1 as bounce@esp.example');
+    expect(output).toContain('d=esp.example s=s1');
+    expect(output).toContain('Body hash did not match');
+    expect(output).not.toContain('cv=');
+  });
+});
+
+describe('summarizeChecks', () => {
+  it('lists each check with its records and status', () => {
+    const summaries = summarizeChecks(createMockResult({
+      spf: {
+        found: true,
+        record: 'v=spf1 +all',
+        issues: [{ code: 'SPF-PLUS-ALL', check: 'spf', severity: 'critical', message: 'SPF uses +all' }]
+      },
+      caa: { found: false, records: [], iodef: [], issues: [{ code: 'CAA-MISSING', check: 'caa', severity: 'low', message: 'No CAA records found' }] },
+      whois: { found: false, skipped: true, issues: [] },
+    }));
+
+    expect(summaries.map(s => [s.check, s.status])).toEqual([
+      ['SPF', 'fail'],
+      ['DKIM', 'pass'],
+      ['DMARC', 'pass'],
+      ['MX', 'pass'],
+      ['CAA', 'warn'],
+      ['WHOIS', 'info'],
+    ]);
+    expect(summaries[0].records).toEqual(['v=spf1 +all']);
+    expect(summaries[1].records).toEqual(['google._domainkey (2048-bit rsa)']);
+    expect(summaries[3].records).toEqual(['10 mail.example.com']);
+  });
+});
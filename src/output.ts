@@ -2,7 +2,32 @@
  * Output formatting for CLI
  */
 
-import type { DomainResult, Grade, Issue, Severity } from './types.js';
+import type {
+  CheckStatus,
+  DKIMRotationReport,
+  DKIMSelector,
+  DmarcReadinessPlan,
+  DmarcReportAnalysis,
+  DmarcSourceStatus,
+  DomainResult,
+  DomainHistory,
+  Grade,
+  Issue,
+  MessageAnalysis,
+  MessageAuthResult,
+  Severity,
+  ResultDiff,
+  RecordChange,
+  PolicyReport,
+  PortfolioTrendPoint,
+  SPFEvalResult,
+  SPFEvaluation,
+  SPFFlattenResult,
+  SPFNode,
+} from './types.js';
+import { describeTLSA } from './checks/dane.js';
+import { describeIssuer } from './checks/caa.js';
+import { quoteTxt } from './core/spf-flatten.js';
 
 const GRADE_COLORS: Record<Grade, string> = {
   'A': '\x1b[32m', // Green
@@ -57,6 +82,13 @@ export function formatResult(result: DomainResult, verbose = false): string {
     if (verbose && result.spf.includes?.length) {
       sectionLines.push(`   ${INFO} Includes: ${result.spf.includes.join(', ')}`);
     }
+    if (verbose && result.spf.tree?.length) {
+      sectionLines.push(`   ${INFO} Lookup tree (void lookups: ${result.spf.voidLookupCount ?? 0}/2):`);
+      sectionLines.push(...formatSPFTree(result.spf.tree, '      '));
+    }
+    if (verbose && (result.spf.ip4?.length || result.spf.ip6?.length)) {
+      sectionLines.push(`   ${INFO} Authorized: ${result.spf.ip4?.length ?? 0} IPv4, ${result.spf.ip6?.length ?? 0} IPv6 address/range(s)`);
+    }
     if (verbose) {
       sectionLines.push(...formatIssues(result.spf.issues));
     }
@@ -68,11 +100,18 @@ export function formatResult(result: DomainResult, verbose = false): string {
     const sectionLines: string[] = [];
     for (const sel of result.dkim.selectors) {
       if (sel.found) {
-        const keyInfo = sel.keyLength ? ` (${sel.keyLength}-bit ${sel.keyType || 'rsa'})` : '';
+        const exponent = sel.publicExponent !== undefined && sel.publicExponent !== 65537 ? `, e=${sel.publicExponent}` : '';
+        const keyInfo = sel.keyLength ? ` (${sel.keyLength}-bit ${sel.keyType || 'rsa'}${exponent}${sel.testing ? ', t=y' : ''})`
+          : sel.keyError ? ` (${sel.keyError})` : '';
         const icon = (sel.keyType === 'ed25519' || (sel.keyLength && sel.keyLength >= 2048)) ? CHECK : WARN;
-        sectionLines.push(`   ${icon} ${sel.selector}._domainkey${keyInfo}`);
+        const source = dkimSourceLabel(sel);
+        sectionLines.push(`   ${icon} ${sel.selector}._domainkey${keyInfo}${source ? `  ${DIM}via ${source}${RESET}` : ''}`);
       }
     }
+    if (verbose && result.dkim.discovery) {
+      const providers = result.dkim.discovery.providers.length > 0 ? ` (providers: ${result.dkim.discovery.providers.join(', ')})` : '';
+      sectionLines.push(`   ${DIM}Probed ${result.dkim.discovery.probed} selectors${providers}${RESET}`);
+    }
     if (verbose) {
       sectionLines.push(...formatIssues(result.dkim.issues));
     }
@@ -85,10 +124,22 @@ export function formatResult(result: DomainResult, verbose = false): string {
     if (result.dmarc.record) {
       sectionLines.push(`   Record: ${truncate(result.dmarc.record, 60)}`);
     }
-    if (result.dmarc.policy) {
-      const icon = result.dmarc.policy === 'reject' ? CHECK :
-                   result.dmarc.policy === 'quarantine' ? WARN : FAIL;
-      sectionLines.push(`   ${icon} Policy: p=${result.dmarc.policy}`);
+    if (result.dmarc.inherited) {
+      const exists = result.dmarc.domainExists === false ? ', domain does not exist' : '';
+      sectionLines.push(`   ${INFO} Inherited from _dmarc.${result.dmarc.policyDomain}${exists}`);
+    }
+    const policyIcon = (value: string) => value === 'reject' ? CHECK :
+                                          value === 'quarantine' ? WARN : FAIL;
+    const policy = result.dmarc.inherited ? result.dmarc.effectivePolicy : result.dmarc.policy;
+    if (policy) {
+      sectionLines.push(`   ${policyIcon(policy)} Policy: ${result.dmarc.inherited ? result.dmarc.effectivePolicyTag : 'p'}=${policy}`);
+    }
+    const nxPolicy = result.dmarc.nonExistentSubdomainPolicy;
+    if (result.dmarc.nonExistentPolicy && nxPolicy) {
+      sectionLines.push(`   ${policyIcon(nxPolicy)} Non-existent subdomains: np=${nxPolicy}`);
+    }
+    if (result.dmarc.testing) {
+      sectionLines.push(`   ${WARN} Testing: t=y (receivers apply a less strict policy)`);
     }
     if (result.dmarc.reportingEnabled !== undefined) {
       const icon = result.dmarc.reportingEnabled ? CHECK : WARN;
@@ -121,12 +172,12 @@ export function formatResult(result: DomainResult, verbose = false): string {
       sectionLines.push(`   ${DIM}... and ${result.mx.records.length - 3} more${RESET}`);
     }
     // Show provider if detected
-    const providerIssue = result.mx.issues.find(i => i.message.includes('provider detected'));
+    const providerIssue = result.mx.issues.find(i => i.code === 'MX-PROVIDER-DETECTED');
     if (providerIssue) {
       sectionLines.push(`   ${INFO} ${providerIssue.message}`);
     }
     if (verbose) {
-      sectionLines.push(...formatIssues(result.mx.issues.filter(i => !i.message.includes('provider detected'))));
+      sectionLines.push(...formatIssues(result.mx.issues.filter(i => i.code !== 'MX-PROVIDER-DETECTED')));
     }
     return sectionLines;
   }, result.mx.issues, result.mx.skipped));
@@ -138,7 +189,23 @@ export function formatResult(result: DomainResult, verbose = false): string {
       if (result.bimi?.logoUrl) {
         sectionLines.push(`   ${CHECK} Logo: ${truncate(result.bimi.logoUrl, 50)}`);
       }
-      if (result.bimi?.certificateUrl) {
+      if (result.bimi?.logo) {
+        const { logo } = result.bimi;
+        const details = [logo.title && `"${logo.title}"`, logo.size !== undefined && `${(logo.size / 1024).toFixed(1)} KB`].filter(Boolean).join(', ');
+        sectionLines.push(`   ${logo.svgTinyPs ? CHECK : WARN} ${logo.svgTinyPs ? 'SVG Tiny PS' : 'Not valid SVG Tiny PS'}${details ? `  ${DIM}${details}${RESET}` : ''}`);
+      }
+      if (result.bimi?.certificate) {
+        const { certificate } = result.bimi;
+        const label = certificate.type ?? 'Mark certificate';
+        const ok = certificate.chainValid && certificate.daysToExpiry >= 0 && certificate.logoMatches !== false;
+        const details = [
+          certificate.markType,
+          certificate.daysToExpiry >= 0 ? `expires in ${certificate.daysToExpiry} days` : 'expired',
+          certificate.logoMatches === true && 'logo matches',
+          certificate.logoMatches === false && 'logo differs',
+        ].filter(Boolean).join(', ');
+        sectionLines.push(`   ${ok ? CHECK : WARN} ${label}: ${truncate(certificate.subject, 50)}  ${DIM}${details}${RESET}`);
+      } else if (result.bimi?.certificateUrl) {
         sectionLines.push(`   ${CHECK} VMC: configured`);
       } else if (result.bimi?.found) {
         sectionLines.push(`   ${WARN} No VMC certificate`);
@@ -233,8 +300,12 @@ export function formatResult(result: DomainResult, verbose = false): string {
     lines.push(formatSection('DNSSEC', result.dnssec.enabled, () => {
       const sectionLines: string[] = [];
       if (result.dnssec?.enabled) {
+        const chain = result.dnssec.chain ?? [];
+        const brokenLink = chain.find(link => !link.secure);
         if (result.dnssec.chainValid) {
-          sectionLines.push(`   ${CHECK} Chain of trust: Valid`);
+          sectionLines.push(`   ${CHECK} Chain of trust: Valid (${chain.map(link => link.zone).join(' → ')})`);
+        } else if (brokenLink) {
+          sectionLines.push(`   ${FAIL} Chain of trust: Broken at ${brokenLink.zone}${brokenLink.error ? ` (${brokenLink.error})` : ''}`);
         } else {
           sectionLines.push(`   ${WARN} Chain of trust: May be incomplete`);
         }
@@ -245,6 +316,13 @@ export function formatResult(result: DomainResult, verbose = false): string {
         if (result.dnssec.dnskey?.found) {
           sectionLines.push(`   ${INFO} DNSKEY: ${result.dnssec.dnskey.kskCount} KSK + ${result.dnssec.dnskey.zskCount} ZSK`);
         }
+        if (verbose && result.dnssec.rrsets && result.dnssec.rrsets.length > 0) {
+          const signatures = result.dnssec.rrsets.map(r => `${r.type} ${r.status}`).join(', ');
+          sectionLines.push(`   ${INFO} Signatures: ${signatures}`);
+        }
+        if (result.dnssec.authenticated) {
+          sectionLines.push(`   ${CHECK} Resolver validated (AD bit set)`);
+        }
       }
       if (verbose) {
         sectionLines.push(...formatIssues(result.dnssec?.issues || []));
@@ -253,6 +331,60 @@ export function formatResult(result: DomainResult, verbose = false): string {
     }, result.dnssec?.issues, result.dnssec?.skipped));
   }
 
+  // DANE (optional)
+  if (result.dane) {
+    lines.push(formatSection('DANE', result.dane.found, () => {
+      const sectionLines: string[] = [];
+      for (const host of result.dane?.hosts ?? []) {
+        if (!host.found) {
+          sectionLines.push(`   ${WARN} ${host.host}: No TLSA records`);
+          continue;
+        }
+        const icon = host.usable ? CHECK : FAIL;
+        const status = host.usable ? 'Usable' : host.dnssec ? 'No usable TLSA' : 'Not DNSSEC-validated';
+        sectionLines.push(`   ${icon} ${host.host}: ${status} (${host.records.length} TLSA)`);
+        if (verbose) {
+          for (const record of host.records) {
+            sectionLines.push(`      - ${describeTLSA(record)} ${truncate(record.certificateData, 16)}`);
+          }
+        }
+      }
+      if (verbose) {
+        sectionLines.push(...formatIssues(result.dane?.issues || []));
+      }
+      return sectionLines;
+    }, result.dane?.issues, result.dane?.skipped));
+  }
+
+  // CAA (optional)
+  const caa = result.caa;
+  if (caa) {
+    lines.push(formatSection('CAA', caa.found, () => {
+      const sectionLines: string[] = [];
+      if (caa.name && caa.name !== result.domain) {
+        sectionLines.push(`   ${INFO} Inherited from ${caa.name}`);
+      }
+      if (!caa.issuers) {
+        sectionLines.push(`   ${WARN} Issuers: any CA`);
+      } else if (caa.issuers.length === 0) {
+        sectionLines.push(`   ${CHECK} Issuers: none (issuance forbidden)`);
+      } else {
+        sectionLines.push(`   ${CHECK} Issuers: ${caa.issuers.map(describeIssuer).join(', ')}`);
+      }
+      if (caa.wildcardIssuers && caa.wildcardIssuers !== caa.issuers) {
+        const wildcard = caa.wildcardIssuers.length > 0 ? caa.wildcardIssuers.map(describeIssuer).join(', ') : 'none';
+        sectionLines.push(`   ${INFO} Wildcard issuers: ${wildcard}`);
+      }
+      if (caa.iodef.length > 0) {
+        sectionLines.push(`   ${INFO} iodef: ${caa.iodef.map(url => truncate(url, 50)).join(', ')}`);
+      }
+      if (verbose) {
+        sectionLines.push(...formatIssues(caa.issues));
+      }
+      return sectionLines;
+    }, caa.issues, caa.skipped));
+  }
+
   // WHOIS/Domain Registration (optional)
   if (result.whois && !result.whois.skipped) {
     lines.push(formatSection('WHOIS', result.whois.found, () => {
@@ -300,7 +432,7 @@ export function formatResult(result: DomainResult, verbose = false): string {
         if (issues && issues.length > 0) {
           for (const { check, issue } of issues) {
             const icon = SEVERITY_ICONS[issue.severity];
-            lines.push(`  ${icon} [${check}] ${issue.message}`);
+            lines.push(`  ${icon} [${check}] ${issue.message} ${DIM}(${issue.code})${RESET}`);
             if (issue.recommendation) {
               lines.push(`      → ${issue.recommendation}`);
             }
@@ -333,6 +465,24 @@ export function formatResult(result: DomainResult, verbose = false): string {
   return lines.join('\n');
 }
 
+/**
+ * Render the SPF lookup tree with per-term lookup cost
+ */
+function formatSPFTree(nodes: SPFNode[], prefix: string): string[] {
+  const lines: string[] = [];
+  nodes.forEach((node, i) => {
+    const last = i === nodes.length - 1;
+    const details = [`${node.lookups} lookup${node.lookups === 1 ? '' : 's'}`];
+    if (node.voidLookups > 0) details.push(`${node.voidLookups} void`);
+    if (node.ip4.length > 0) details.push(`${node.ip4.length} IPv4`);
+    if (node.ip6.length > 0) details.push(`${node.ip6.length} IPv6`);
+    const error = node.error ? ` ${WARN} ${node.error}` : '';
+    lines.push(`${prefix}${last ? '└─' : '├─'} ${node.term} ${DIM}[${details.join(', ')}]${RESET}${error}`);
+    lines.push(...formatSPFTree(node.children, prefix + (last ? '   ' : '│  ')));
+  });
+  return lines;
+}
+
 /**
  * Format issues for inline display
  */
@@ -352,7 +502,7 @@ function formatIssues(issues: Issue[]): string[] {
   return lines;
 }
 
-interface CheckIssue {
+export interface CheckIssue {
   check: string;
   issue: Issue;
 }
@@ -360,7 +510,7 @@ interface CheckIssue {
 /**
  * Collect all issues from all checks
  */
-function collectAllIssues(result: DomainResult): CheckIssue[] {
+export function collectAllIssues(result: DomainResult): CheckIssue[] {
   const issues: CheckIssue[] = [];
   
   for (const issue of result.spf.issues) {
@@ -400,6 +550,16 @@ function collectAllIssues(result: DomainResult): CheckIssue[] {
       issues.push({ check: 'DNSSEC', issue });
     }
   }
+  if (result.dane) {
+    for (const issue of result.dane.issues) {
+      issues.push({ check: 'DANE', issue });
+    }
+  }
+  if (result.caa) {
+    for (const issue of result.caa.issues) {
+      issues.push({ check: 'CAA', issue });
+    }
+  }
   if (result.whois) {
     for (const issue of result.whois.issues) {
       issues.push({ check: 'WHOIS', issue });
@@ -409,6 +569,91 @@ function collectAllIssues(result: DomainResult): CheckIssue[] {
   return issues;
 }
 
+export interface CheckSummary {
+  check: string;
+  found: boolean;
+  skipped: boolean;
+  status: CheckStatus;
+  records: string[]; // Records (or key facts) the check looked at, one per line
+  issues: Issue[];
+}
+
+/**
+ * Overall status of a check from its most severe issue
+ */
+function checkStatus(found: boolean, skipped: boolean | undefined, issues: Issue[]): CheckStatus {
+  if (skipped) return 'info';
+  if (issues.some(i => i.severity === 'critical' || i.severity === 'high')) return 'fail';
+  if (!found || issues.some(i => i.severity === 'medium')) return 'warn';
+  return 'pass';
+}
+
+/**
+ * Per-check summary (status, records, issues) for report formats
+ */
+export function summarizeChecks(result: DomainResult): CheckSummary[] {
+  const summaries: CheckSummary[] = [];
+  const add = (check: string, found: boolean, skipped: boolean | undefined, records: (string | undefined)[], issues: Issue[]) => {
+    summaries.push({
+      check,
+      found,
+      skipped: skipped ?? false,
+      status: checkStatus(found, skipped, issues),
+      records: records.filter((r): r is string => !!r),
+      issues,
+    });
+  };
+
+  add('SPF', result.spf.found, result.spf.skipped, [result.spf.record], result.spf.issues);
+  add('DKIM', result.dkim.found, result.dkim.skipped, result.dkim.selectors
+    .filter(s => s.found)
+    .map(s => `${s.selector}._domainkey${s.keyLength ? ` (${s.keyLength}-bit ${s.keyType || 'rsa'})` : ''}`), result.dkim.issues);
+  add('DMARC', result.dmarc.found, result.dmarc.skipped, [result.dmarc.record], result.dmarc.issues);
+  add('MX', result.mx.found, result.mx.skipped, result.mx.records.map(r => `${r.priority} ${r.exchange}`), result.mx.issues);
+  if (result.bimi) {
+    add('BIMI', result.bimi.found, result.bimi.skipped, [result.bimi.record], result.bimi.issues);
+  }
+  if (result.mtaSts) {
+    const mode = result.mtaSts.policy?.mode;
+    add('MTA-STS', result.mtaSts.found, result.mtaSts.skipped, [result.mtaSts.dnsRecord, mode && `mode: ${mode}`], result.mtaSts.issues);
+  }
+  if (result.tlsRpt) {
+    add('TLS-RPT', result.tlsRpt.found, result.tlsRpt.skipped, [result.tlsRpt.record], result.tlsRpt.issues);
+  }
+  if (result.arc) {
+    add('ARC', result.arc.ready, result.arc.skipped, [
+      `can sign: ${result.arc.canSign ? 'yes' : 'no'}`,
+      `can validate: ${result.arc.canValidate ? 'yes' : 'no'}`,
+    ], result.arc.issues);
+  }
+  if (result.dnssec) {
+    const dnssec = result.dnssec;
+    add('DNSSEC', dnssec.enabled, dnssec.skipped, [
+      ...(dnssec.ds?.records ?? []).map(ds => `DS ${ds.keyTag} ${ds.algorithm} ${ds.digestType} (${ds.algorithmName}, ${ds.digestTypeName})`),
+      dnssec.chain && `chain of trust: ${dnssec.chainValid ? 'valid' : 'broken'} (${dnssec.chain.map(link => link.zone).join(' → ')})`,
+    ], dnssec.issues);
+  }
+  if (result.dane) {
+    add('DANE', result.dane.found, result.dane.skipped, result.dane.hosts.flatMap(host =>
+      host.records.length > 0
+        ? host.records.map(r => `${host.name} ${describeTLSA(r)}`)
+        : [`${host.name}: no TLSA records`]
+    ), result.dane.issues);
+  }
+  if (result.caa) {
+    add('CAA', result.caa.found, result.caa.skipped, result.caa.records.map(r => `${r.flags} ${r.tag} "${r.value}"`), result.caa.issues);
+  }
+  if (result.whois) {
+    const whois = result.whois;
+    add('WHOIS', whois.found, whois.skipped, [
+      whois.registrar && `registrar: ${whois.registrar}`,
+      whois.expiryDate && `expires: ${whois.expiryDate.split('T')[0]}`,
+    ], whois.issues);
+  }
+
+  return summaries;
+}
+
 /**
  * Group array items by key
  */
@@ -423,6 +668,24 @@ function groupBy<T, K>(items: T[], keyFn: (item: T) => K): Map<K, T[]> {
   return map;
 }
 
+/**
+ * How a DKIM selector was found, for the DKIM section
+ */
+function dkimSourceLabel(sel: DKIMSelector): string | undefined {
+  if (sel.wildcard && sel.selector === '*') return 'wildcard record';
+  const label = (() => {
+    switch (sel.source) {
+      case 'header': return sel.sourceDetail;
+      case 'configured': return 'configured selector';
+      case 'provider': return sel.sourceDetail;
+      case 'common': return 'common selector';
+      case 'pattern': return 'date/sequence pattern';
+      default: return undefined;
+    }
+  })();
+  return sel.wildcard ? `${label ?? 'selector'}, matches wildcard record` : label;
+}
+
 function formatSection(
   name: string, 
   found: boolean, 
@@ -509,6 +772,509 @@ export function formatSummary(results: DomainResult[]): string {
   return lines.join('\n');
 }
 
+const RECORD_FIELD_LABELS: Record<RecordChange['field'], string> = {
+  'spf.record': 'SPF record',
+  'dmarc.policy': 'DMARC policy',
+  'dkim.selectors': 'DKIM selectors',
+  'mta-sts.mode': 'MTA-STS mode',
+};
+
+/**
+ * Format a baseline comparison
+ */
+export function formatDiff(diff: ResultDiff): string {
+  const lines: string[] = [];
+
+  lines.push('');
+  lines.push(`${BOLD}🔍 Changes since baseline${RESET}`);
+  lines.push(`   Changed: ${diff.changed.length}  Regressions: ${diff.regressions}  Unchanged: ${diff.unchanged}  Added: ${diff.added.length}  Removed: ${diff.removed.length}`);
+  lines.push('');
+
+  if (diff.added.length > 0) {
+    lines.push(`${BOLD}➕ Added domains:${RESET}`);
+    for (const r of diff.added) {
+      lines.push(`   ${GRADE_COLORS[r.grade]}${r.grade}${RESET} ${r.domain} (${r.score}/100)`);
+    }
+    lines.push('');
+  }
+
+  if (diff.removed.length > 0) {
+    lines.push(`${BOLD}➖ Removed domains:${RESET}`);
+    for (const r of diff.removed) {
+      lines.push(`   ${r.domain}`);
+    }
+    lines.push('');
+  }
+
+  for (const d of diff.changed) {
+    const delta = d.after.score - d.before.score;
+    const deltaText = delta > 0 ? `+${delta}` : `${delta}`;
+    const icon = d.regression ? FAIL : delta > 0 || d.resolvedIssues.length > 0 ? CHECK : INFO;
+    lines.push(`${icon} ${BOLD}${d.domain}${RESET}  ${GRADE_COLORS[d.before.grade]}${d.before.grade}${RESET} (${d.before.score}) → ${GRADE_COLORS[d.after.grade]}${d.after.grade}${RESET} (${d.after.score})  ${DIM}${deltaText}${RESET}`);
+    for (const change of d.recordChanges) {
+      lines.push(`   🔄 ${RECORD_FIELD_LABELS[change.field]}: ${truncate(change.before ?? '(none)', 40)} → ${truncate(change.after ?? '(none)', 40)}`);
+    }
+    for (const issue of d.newIssues) {
+      lines.push(`   ${SEVERITY_ICONS[issue.severity]} New: ${issue.message} ${DIM}(${issue.code})${RESET}`);
+    }
+    for (const issue of d.resolvedIssues) {
+      lines.push(`   ${CHECK} Resolved: ${issue.message} ${DIM}(${issue.code})${RESET}`);
+    }
+    lines.push('');
+  }
+
+  if (diff.changed.length === 0 && diff.added.length === 0 && diff.removed.length === 0) {
+    lines.push(`   ${CHECK} No changes`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a policy evaluation report
+ */
+export function formatPolicyReport(report: PolicyReport, source?: string): string {
+  const lines: string[] = [];
+  const title = source ? `Policy (${source})` : 'Policy';
+
+  lines.push('');
+  if (report.passed) {
+    lines.push(`${BOLD}📋 ${title}${RESET}   ${CHECK} Passed`);
+  } else {
+    lines.push(`${BOLD}📋 ${title}${RESET}   ${FAIL} ${report.violations.length} violation(s)`);
+  }
+
+  const byDomain = groupBy(report.violations, v => v.domain);
+  for (const [domain, violations] of byDomain) {
+    lines.push(`   ${BOLD}${domain}${RESET}`);
+    for (const violation of violations) {
+      lines.push(`      ${FAIL} ${violation.message} ${DIM}[${violation.rule}]${RESET}`);
+    }
+  }
+
+  if (report.suppressed.length > 0) {
+    lines.push(`   ${INFO} ${report.suppressed.length} issue(s) suppressed by policy`);
+  }
+  for (const suppression of report.expiredSuppressions) {
+    const scope = suppression.domain ? ` for ${suppression.domain}` : '';
+    lines.push(`   ${WARN} Suppression of ${suppression.code}${scope} expired on ${suppression.expires}`);
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Short display form of an ISO timestamp, e.g. "2026-10-19 09:30"
+ */
+function formatTimestamp(timestamp: string): string {
+  return timestamp.slice(0, 16).replace('T', ' ');
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+/**
+ * Format a domain's grade/score history and issue lifecycles
+ */
+export function formatHistory(history: DomainHistory): string {
+  const lines: string[] = [];
+
+  lines.push('');
+  lines.push(`${BOLD}📈 History for ${history.domain}${RESET}   ${DIM}${history.points.length} run(s)${RESET}`);
+  lines.push('');
+
+  if (history.points.length === 0) {
+    lines.push(`   ${INFO} No recorded scans for this domain`);
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  let previous: number | undefined;
+  for (const point of history.points) {
+    const delta = previous === undefined ? '' : `  ${DIM}${formatDelta(point.score - previous)}${RESET}`;
+    lines.push(`   ${formatTimestamp(point.timestamp)}  ${GRADE_COLORS[point.grade]}${point.grade}${RESET} (${point.score}/100)${delta}`);
+    previous = point.score;
+  }
+  lines.push('');
+
+  const open = history.issues.filter(i => !i.resolved);
+  const resolved = history.issues.filter(i => i.resolved);
+
+  if (open.length > 0) {
+    lines.push(`${BOLD}Open issues:${RESET}`);
+    for (const issue of open) {
+      lines.push(`   ${SEVERITY_ICONS[issue.severity]} ${issue.message} ${DIM}(${issue.code}, since ${formatTimestamp(issue.firstSeen)})${RESET}`);
+    }
+    lines.push('');
+  }
+
+  if (resolved.length > 0) {
+    lines.push(`${BOLD}Resolved issues:${RESET}`);
+    for (const issue of resolved) {
+      lines.push(`   ${CHECK} ${issue.message} ${DIM}(${issue.code}, ${formatTimestamp(issue.firstSeen)} → ${formatTimestamp(issue.resolved ?? '')})${RESET}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the portfolio-wide trend across runs
+ */
+export function formatTrend(trend: PortfolioTrendPoint[]): string {
+  const lines: string[] = [];
+
+  lines.push('');
+  lines.push(`${BOLD}📈 Portfolio trend${RESET}   ${DIM}${trend.length} run(s)${RESET}`);
+  lines.push('');
+
+  if (trend.length === 0) {
+    lines.push(`   ${INFO} No recorded scans (use --save-history with check or scan)`);
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  let previous: number | undefined;
+  for (const point of trend) {
+    const grades = (Object.keys(point.grades) as Grade[])
+      .map(g => `${GRADE_COLORS[g]}${g}${RESET}:${point.grades[g]}`)
+      .join(' ');
+    const delta = previous === undefined ? '' : `  ${DIM}${formatDelta(point.averageScore - previous)}${RESET}`;
+    lines.push(`   ${formatTimestamp(point.timestamp)}  ${point.domains} domain(s)  avg ${point.averageScore}/100${delta}  ${grades}`);
+    previous = point.averageScore;
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the DKIM key rotation report, one line per selector grouped by domain
+ */
+export function formatDkimRotation(report: DKIMRotationReport): string {
+  const lines: string[] = [];
+
+  lines.push('');
+  lines.push(`${BOLD}🔑 DKIM key rotation${RESET}   ${DIM}${report.runs} run(s)${report.from ? `, ${formatTimestamp(report.from)} → ${formatTimestamp(report.to ?? report.from)}` : ''}${RESET}`);
+  lines.push('');
+
+  if (report.selectors.length === 0) {
+    lines.push(`   ${INFO} No recorded DKIM selectors (use --save-history with check or scan)`);
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  let domain: string | undefined;
+  for (const rotation of report.selectors) {
+    if (rotation.domain !== domain) {
+      if (domain !== undefined) lines.push('');
+      domain = rotation.domain;
+      lines.push(`${BOLD}${domain}${RESET}`);
+    }
+    const age = rotation.ageDays === undefined ? '' : `${rotation.ageIsMinimum ? '≥ ' : ''}${rotation.ageDays} day(s)`;
+    const rotations = rotation.rotations > 0 ? `, rotated ${rotation.rotations}×` : '';
+    const name = `${rotation.selector}._domainkey`;
+    switch (rotation.status) {
+      case 'retired':
+        lines.push(`   ${INFO} ${name} retired ${DIM}(last seen ${formatTimestamp(rotation.lastSeen)}${rotations})${RESET}`);
+        break;
+      case 'revoked':
+        lines.push(`   ${rotation.lingering ? WARN : INFO} ${name} revoked for ${age}${rotation.lingering ? ` - remove it (grace period ${report.revokedGraceDays} days)` : ''}`);
+        break;
+      default: {
+        const label = rotation.status === 'new' ? ' new,' : '';
+        const stale = rotation.stale ? ` - not rotated in over ${report.maxAgeDays} days` : '';
+        lines.push(`   ${rotation.stale ? WARN : CHECK} ${name}${label} key age ${age}${stale} ${DIM}(${rotation.fingerprint?.slice(0, 12) ?? 'undecodable key'}${rotations})${RESET}`);
+      }
+    }
+  }
+  lines.push('');
+
+  const stale = report.selectors.filter(r => r.stale).length;
+  const lingering = report.selectors.filter(r => r.lingering).length;
+  lines.push(`${stale} stale key(s), ${lingering} lingering revoked selector(s)`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a flattened SPF record set with its diff against the live record
+ */
+export function formatFlatten(result: SPFFlattenResult): string {
+  const lines: string[] = [];
+  const icon = result.withinLimits ? CHECK : FAIL;
+
+  lines.push('');
+  lines.push(`${BOLD}🧩 Flattened SPF for ${result.domain}${RESET}`);
+  lines.push(`   Lookups: ${result.liveLookups} → ${icon} ${result.lookupCount}/10   Records: ${result.records.length}`);
+  lines.push('');
+
+  lines.push(`${BOLD}Live record:${RESET}`);
+  lines.push(`   ${result.liveRecord}`);
+  lines.push('');
+
+  lines.push(`${BOLD}Flattened TXT records:${RESET}`);
+  for (const record of result.records) {
+    lines.push(`   ${record.name}  ${DIM}(${record.value.length} bytes)${RESET}`);
+    lines.push(`      ${quoteTxt(record.value)}`);
+  }
+  lines.push('');
+
+  if (result.removed.length > 0 || result.added.length > 0) {
+    lines.push(`${BOLD}Changes:${RESET}`);
+    for (const term of result.removed) {
+      lines.push(`   \x1b[31m- ${term}${RESET}`);
+    }
+    for (const term of result.added) {
+      lines.push(`   \x1b[32m+ ${term}${RESET}`);
+    }
+    lines.push('');
+  }
+
+  if (result.warnings.length > 0) {
+    lines.push(`${BOLD}Warnings:${RESET}`);
+    for (const warning of result.warnings) {
+      lines.push(`   ${WARN} ${warning}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+const SPF_RESULT_ICONS: Record<SPFEvalResult, string> = {
+  pass: CHECK,
+  fail: FAIL,
+  softfail: WARN,
+  neutral: INFO,
+  none: INFO,
+  permerror: FAIL,
+  temperror: WARN,
+};
+
+/**
+ * Format an SPF evaluation with its trace
+ */
+export function formatSPFEvaluation(evaluation: SPFEvaluation): string {
+  const lines: string[] = [];
+
+  lines.push('');
+  lines.push(`${BOLD}🧪 SPF test: ${evaluation.ip} for ${evaluation.domain}${RESET}`);
+  const matched = evaluation.mechanism ? `  ${DIM}(${evaluation.mechanism} in ${evaluation.matchedDomain})${RESET}` : '';
+  lines.push(`   Result: ${SPF_RESULT_ICONS[evaluation.result]} ${BOLD}${evaluation.result}${RESET}${matched}`);
+  lines.push(`   Sender: ${evaluation.sender}${evaluation.helo ? `   HELO: ${evaluation.helo}` : ''}`);
+  lines.push(`   Lookups: ${evaluation.lookups}/10   Void lookups: ${evaluation.voidLookups}/2`);
+  if (evaluation.error) {
+    lines.push(`   Error: ${evaluation.error}`);
+  }
+  if (evaluation.explanation) {
+    lines.push(`   Explanation: ${evaluation.explanation}`);
+  }
+  lines.push('');
+
+  lines.push(`${BOLD}Trace:${RESET}`);
+  for (const step of evaluation.trace) {
+    const indent = '   ' + '  '.repeat(step.depth);
+    if (step.term === undefined) {
+      lines.push(`${indent}${BOLD}${step.domain}${RESET}: ${step.detail}`);
+    } else {
+      const icon = step.match ? CHECK : step.match === false ? '·' : '→';
+      lines.push(`${indent}  ${icon} ${step.term}  ${DIM}${step.detail}${RESET}`);
+    }
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+const AUTH_RESULT_ICONS: Record<MessageAuthResult, string> = {
+  pass: CHECK,
+  fail: FAIL,
+  neutral: INFO,
+  none: INFO,
+  permerror: FAIL,
+  temperror: WARN,
+};
+
+/**
+ * Format a message authentication analysis
+ */
+export function formatMessageAnalysis(analysis: MessageAnalysis): string {
+  const lines: string[] = [];
+  const { dmarc, spf, arc } = analysis;
+
+  lines.push('');
+  lines.push(`${BOLD}✉️  Message from ${analysis.from ?? '(no From)'}${RESET}`);
+  if (analysis.subject) lines.push(`   Subject: ${analysis.subject}`);
+  if (analysis.date) lines.push(`   Date: ${analysis.date}`);
+  const envelope = analysis.mailFrom === undefined ? 'unknown' : analysis.mailFrom || '<> (bounce)';
+  lines.push(`   Return-Path: ${envelope}`);
+  lines.push(`   Last hop: ${analysis.ip ? `${analysis.ip}${analysis.helo ? ` (${analysis.helo})` : ''}` : 'unknown'}`);
+  lines.push('');
+
+  const dmarcIcon = dmarc.result === 'pass' ? CHECK : dmarc.result === 'fail' ? FAIL : INFO;
+  const policy = dmarc.policy ? `  ${DIM}${dmarc.policyTag ?? 'p'}=${dmarc.policy} from _dmarc.${dmarc.recordDomain}${RESET}` : '';
+  lines.push(`${BOLD}DMARC:${RESET} ${dmarcIcon} ${BOLD}${dmarc.result}${RESET}${policy}`);
+  if (dmarc.result === 'none') {
+    lines.push(`   ${INFO} No DMARC record for ${dmarc.domain ?? 'the From domain'}`);
+  } else {
+    const spfDomain = spf ? ` (${spf.domain})` : '';
+    lines.push(`   ${dmarc.spfAligned ? CHECK : FAIL} SPF aligned${spfDomain}  ${DIM}aspf=${dmarc.aspf}${RESET}`);
+    const dkimDomain = dmarc.alignedDkimDomain ? ` (d=${dmarc.alignedDkimDomain})` : '';
+    lines.push(`   ${dmarc.dkimAligned ? CHECK : FAIL} DKIM aligned${dkimDomain}  ${DIM}adkim=${dmarc.adkim}${RESET}`);
+    if (dmarc.result === 'fail' && dmarc.policy && dmarc.policy !== 'none') {
+      lines.push(`   ${WARN} Receivers are asked to ${dmarc.policy} this message`);
+    }
+  }
+  lines.push('');
+
+  if (spf) {
+    const matched = spf.mechanism ? `  ${DIM}(${spf.mechanism} in ${spf.matchedDomain})${RESET}` : '';
+    lines.push(`${BOLD}SPF:${RESET} ${SPF_RESULT_ICONS[spf.result]} ${BOLD}${spf.result}${RESET} for ${spf.ip} as ${spf.sender}${matched}`);
+    if (spf.error) lines.push(`   ${DIM}${spf.error}${RESET}`);
+  } else {
+    lines.push(`${BOLD}SPF:${RESET} ${INFO} not evaluated`);
+  }
+  lines.push('');
+
+  lines.push(`${BOLD}DKIM:${RESET}${analysis.dkim.length === 0 ? ` ${INFO} no signatures` : ''}`);
+  for (const sig of analysis.dkim) {
+    const testing = sig.testing ? `  ${DIM}(key in testing mode, t=y)${RESET}` : '';
+    lines.push(`   ${AUTH_RESULT_ICONS[sig.result]} ${sig.result}  d=${sig.domain} s=${sig.selector}  ${DIM}${sig.algorithm}, c=${sig.canonicalization}${RESET}${testing}`);
+    if (sig.reason) lines.push(`      ${DIM}${sig.reason}${RESET}`);
+  }
+  lines.push('');
+
+  if (arc.result !== 'none') {
+    lines.push(`${BOLD}ARC:${RESET} ${arc.result === 'pass' ? CHECK : FAIL} ${BOLD}${arc.result}${RESET}${arc.reason ? `  ${DIM}${arc.reason}${RESET}` : ''}`);
+    for (const set of arc.sets) {
+      lines.push(`   ${set.instance}. ${set.domain ?? '?'}  cv=${set.chainValidation ?? '?'}  seal ${AUTH_RESULT_ICONS[set.seal]}  message signature ${AUTH_RESULT_ICONS[set.messageSignature?.result ?? 'none']}`);
+      if (set.authenticationResults) lines.push(`      ${DIM}${truncate(set.authenticationResults, 100)}${RESET}`);
+    }
+    lines.push('');
+  }
+
+  for (const warning of analysis.warnings) {
+    lines.push(`${WARN} ${warning}`);
+  }
+  if (analysis.warnings.length > 0) lines.push('');
+
+  return lines.join('\n');
+}
+
+const SOURCE_STATUS_ICONS: Record<DmarcSourceStatus, string> = {
+  aligned: CHECK,
+  partial: WARN,
+  misaligned: WARN,
+  unauthenticated: FAIL,
+};
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : '-';
+}
+
+/**
+ * Format DMARC aggregate report analyses, one section per domain.
+ * `top` limits the sources listed per domain.
+ */
+export function formatDmarcReports(analyses: DmarcReportAnalysis[], top = 20): string {
+  const lines: string[] = [];
+
+  if (analyses.length === 0) {
+    lines.push('');
+    lines.push(`   ${INFO} No DMARC aggregate reports found`);
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  for (const analysis of analyses) {
+    lines.push('');
+    lines.push(`${BOLD}📨 DMARC reports for ${analysis.domain}${RESET}   ${DIM}${analysis.reports} report(s), ${analysis.begin.slice(0, 10)} → ${analysis.end.slice(0, 10)}${RESET}`);
+    lines.push(`   Policy: p=${analysis.policy}   Messages: ${analysis.messages}   DMARC pass: ${analysis.passing} (${percent(analysis.passing, analysis.messages)})`);
+    lines.push(`   Dispositions: none ${analysis.dispositions.none}, quarantine ${analysis.dispositions.quarantine}, reject ${analysis.dispositions.reject}`);
+    if (analysis.wouldReject === 0) {
+      lines.push(`   ${CHECK} p=reject would not reject any reported message`);
+    } else {
+      const icon = analysis.wouldBreak > 0 ? WARN : INFO;
+      lines.push(`   ${icon} p=reject would reject ${analysis.wouldReject} message(s); ${analysis.wouldBreak} from partially authenticated or misaligned sources`);
+    }
+    lines.push('');
+
+    lines.push(`${BOLD}Sources:${RESET}`);
+    for (const source of analysis.sources.slice(0, top)) {
+      const live = source.liveSpf ? `  ${DIM}live SPF: ${source.liveSpf}${RESET}` : '';
+      lines.push(`   ${SOURCE_STATUS_ICONS[source.status]} ${source.sourceIp.padEnd(39)} ${String(source.messages).padStart(7)} msg(s)  ${percent(source.passing, source.messages).padStart(4)} pass${live}`);
+      if (source.reason) {
+        lines.push(`      ${DIM}${source.reason}${RESET}`);
+      }
+    }
+    if (analysis.sources.length > top) {
+      lines.push(`   ${DIM}... ${analysis.sources.length - top} more source(s)${RESET}`);
+    }
+    lines.push('');
+
+    lines.push(`${BOLD}Reporters:${RESET}`);
+    for (const reporter of analysis.reporters) {
+      lines.push(`   ${reporter.orgName}  ${DIM}${reporter.reports} report(s), ${reporter.messages} msg(s), ${percent(reporter.passing, reporter.messages)} pass${RESET}`);
+    }
+    lines.push('');
+
+    if (analysis.selectors.length > 0) {
+      lines.push(`${BOLD}DKIM selectors:${RESET}`);
+      for (const selector of analysis.selectors) {
+        const icon = selector.published === false ? FAIL : selector.passing === selector.messages ? CHECK : WARN;
+        const published = selector.published === undefined ? '' : selector.published ? '  published' : '  not published';
+        lines.push(`   ${icon} ${selector.selector} (d=${selector.domain})  ${DIM}${selector.messages} msg(s), ${percent(selector.passing, selector.messages)} pass${published}${RESET}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format DMARC rollout plans: each stage with its record and blockers
+ */
+export function formatDmarcReadiness(plans: DmarcReadinessPlan[]): string {
+  const lines: string[] = [];
+
+  for (const plan of plans) {
+    const status = !plan.next ? `${CHECK} p=reject enforced` : plan.ready ? `${CHECK} ready for ${plan.next}` : `${WARN} blocked at ${plan.next}`;
+    lines.push('');
+    lines.push(`${BOLD}🛡️  DMARC rollout for ${plan.domain}${RESET}   ${status}`);
+    lines.push(`   Current: ${plan.record ? `${DIM}${plan.record}${RESET}` : 'no DMARC record'}`);
+    lines.push('');
+
+    plan.stages.forEach((stage, i) => {
+      const icon = stage.status === 'complete' ? CHECK : stage.blockers.length > 0 ? FAIL : stage.status === 'next' ? '➡️' : '⏳';
+      const label = stage.status === 'next' ? `${BOLD}${stage.title}${RESET}  ${DIM}(next)${RESET}` : stage.title;
+      lines.push(`   ${icon} ${i + 1}. ${label}`);
+      if (stage.status !== 'complete') {
+        lines.push(`      ${DIM}${plan.name} TXT ${quoteTxt(stage.record)}${RESET}`);
+      }
+      for (const blocker of stage.blockers) {
+        lines.push(`      ${WARN} ${blocker.message}`);
+      }
+    });
+
+    if (plan.notes.length > 0) {
+      lines.push('');
+      for (const note of plan.notes) {
+        lines.push(`   ${INFO} ${note}`);
+      }
+    }
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
 function truncate(str: string, maxLen: number): string {
   if (str.length <= maxLen) return str;
   return str.slice(0, maxLen - 3) + '...';
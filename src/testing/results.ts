@@ -0,0 +1,55 @@
+/**
+ * DomainResult fixtures shared by the tests
+ */
+
+import type { DomainResult } from '../types.js';
+
+/**
+ * A result with SPF, DKIM, DMARC and MX found and no issues. Tests override
+ * the fields they exercise.
+ */
+export function createResult(domain = 'example.com', overrides: Partial<DomainResult> = {}): DomainResult {
+  return {
+    domain,
+    grade: 'B',
+    score: 80,
+    timestamp: '2026-10-01T00:00:00Z',
+    spf: { found: true, record: 'v=spf1 -all', mechanism: '-all', issues: [] },
+    dkim: { found: true, selectors: [], issues: [] },
+    dmarc: { found: true, policy: 'quarantine', issues: [] },
+    mx: { found: true, records: [], issues: [] },
+    recommendations: [],
+    ...overrides,
+  };
+}
+
+/**
+ * A grade C result with an SPF +all, a 1024-bit DKIM key and no DMARC, for the
+ * report formats
+ */
+export function createFailingResult(overrides: Partial<DomainResult> = {}): DomainResult {
+  return createResult('example.com', {
+    grade: 'C',
+    score: 60,
+    timestamp: '2026-02-05T10:00:00Z',
+    spf: {
+      found: true,
+      record: 'v=spf1 +all',
+      mechanism: '+all',
+      issues: [
+        { code: 'SPF-PLUS-ALL', check: 'spf', severity: 'critical', message: 'SPF uses +all (pass all) - effectively no protection', recommendation: 'Change to -all (hardfail) for maximum protection' }
+      ]
+    },
+    dkim: {
+      found: true,
+      selectors: [{ selector: 'default', found: true, keyType: 'rsa', keyLength: 1024 }],
+      issues: [
+        { code: 'DKIM-RSA-1024', check: 'dkim', severity: 'medium', message: 'DKIM selector "default" uses 1024-bit RSA key', evidence: { name: 'default._domainkey.example.com' } }
+      ]
+    },
+    dmarc: { found: false, issues: [] },
+    mx: { found: true, records: [{ exchange: 'mx.example.com', priority: 10 }], issues: [] },
+    recommendations: ['SPFを-allに変更してください'],
+    ...overrides,
+  });
+}
@@ -7,10 +7,91 @@ export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
 export type Grade = 'A' | 'B' | 'C' | 'D' | 'F';
 export type CheckStatus = 'pass' | 'warn' | 'fail' | 'info' | 'error';
 
+export type CheckName = 'spf' | 'dkim' | 'dmarc' | 'mx' | 'bimi' | 'mta-sts' | 'tls-rpt' | 'arc' | 'dnssec' | 'dane' | 'caa' | 'whois';
+
+/**
+ * Structured data an issue was derived from
+ */
+export interface IssueEvidence {
+  name?: string;   // DNS name (or host) that was queried, e.g. _dmarc.example.com
+  record?: string; // Record or policy text the issue was found in
+  tag?: string;    // Offending tag, mechanism or field
+  value?: string;  // Offending value
+}
+
 export interface Issue {
+  code: string;    // Stable machine-readable identifier, e.g. SPF-PLUS-ALL
+  check: CheckName;
   severity: Severity;
   message: string;
   recommendation?: string;
+  evidence?: IssueEvidence;
+}
+
+export type SPFNodeType = 'include' | 'redirect' | 'a' | 'mx' | 'ptr' | 'exists';
+
+/**
+ * A term of an SPF record that costs a DNS lookup, with its evaluated subtree
+ */
+export interface SPFNode {
+  type: SPFNodeType;
+  qualifier: '+' | '-' | '~' | '?';
+  target: string;       // Domain the term refers to (after defaulting to the current domain)
+  term: string;         // Term as written, e.g. "include:_spf.google.com"
+  depth: number;        // 0 for terms of the domain's own record
+  lookups: number;      // DNS lookups charged to this term, including its subtree
+  voidLookups: number;  // Lookups that returned no records, including its subtree
+  record?: string;      // SPF record of an include/redirect target
+  ip4: string[];        // Addresses the term authorizes directly (a/mx results, ip4 terms of an included record)
+  ip6: string[];
+  children: SPFNode[];
+  error?: string;       // Why the term could not be expanded
+}
+
+export interface SPFFlattenRecord {
+  name: string;  // Owner name (the domain, or _spfN.<domain> for split parts)
+  value: string; // TXT value
+}
+
+export interface SPFFlattenResult {
+  domain: string;
+  liveRecord: string;
+  liveLookups: number;
+  records: SPFFlattenRecord[]; // Root record first, then the parts it includes
+  lookupCount: number;         // Lookups the flattened record set needs
+  kept: string[];              // Live terms that could not be flattened
+  added: string[];             // Root record terms not in the live record
+  removed: string[];           // Live terms replaced by addresses
+  warnings: string[];
+  withinLimits: boolean;       // Lookup and record length limits are met
+}
+
+export type SPFEvalResult = 'pass' | 'fail' | 'softfail' | 'neutral' | 'none' | 'permerror' | 'temperror';
+
+/**
+ * One step of an SPF evaluation: a record fetched or a term evaluated
+ */
+export interface SPFEvalStep {
+  depth: number;    // 0 for the domain's own record, +1 per include/redirect
+  domain: string;   // Domain whose record is being evaluated
+  term?: string;    // Term as written; absent for the record itself
+  detail: string;   // The record, or what the term did
+  match?: boolean;
+}
+
+export interface SPFEvaluation {
+  domain: string;
+  ip: string;
+  sender: string;         // MAIL FROM identity (postmaster@<domain> when not given)
+  helo?: string;
+  result: SPFEvalResult;
+  mechanism?: string;     // Term that decided the result
+  matchedDomain?: string; // Domain whose record holds that term
+  explanation?: string;   // exp= text for a fail result
+  error?: string;         // Why the result is permerror/temperror/none
+  lookups: number;
+  voidLookups: number;
+  trace: SPFEvalStep[];
 }
 
 export interface SPFResult {
@@ -19,25 +100,54 @@ export interface SPFResult {
   record?: string;
   mechanism?: string; // -all, ~all, ?all, +all
   lookupCount?: number;
+  voidLookupCount?: number;
   includes?: string[];
+  tree?: SPFNode[];   // Lookup-costing terms of the record, expanded recursively
+  ip4?: string[];     // Union of IPv4 addresses/CIDRs the record authorizes
+  ip6?: string[];     // Union of IPv6 addresses/CIDRs the record authorizes
   issues: Issue[];
 }
 
+// How a probed DKIM selector was chosen
+export type DKIMSelectorSource = 'header' | 'configured' | 'provider' | 'common' | 'pattern';
+
 export interface DKIMSelector {
   selector: string;
   found: boolean;
   keyType?: string;
-  keyLength?: number;
+  keyLength?: number;       // Exact RSA modulus bits, 256 for Ed25519, 0 when revoked
+  publicExponent?: number;  // RSA only
+  keyFingerprint?: string;  // Base64 SHA-256 of the SubjectPublicKeyInfo
+  keyError?: string;        // Why p= could not be decoded
+  testing?: boolean;        // t=y
+  hashAlgorithms?: string[]; // h=
+  serviceTypes?: string[];  // s=
+  granularity?: string;     // g= (RFC 4871)
   record?: string;
+  source?: DKIMSelectorSource;
+  sourceDetail?: string; // e.g. "Google Workspace (MX aspmx.l.google.com)"
+  wildcard?: boolean;    // Key is the _domainkey wildcard record, not a selector of its own
+}
+
+export interface DKIMDiscovery {
+  probed: number;            // Selectors queried
+  domainkeyExists?: boolean; // false when _domainkey.<domain> is NXDOMAIN, so no selector exists
+  wildcard?: boolean;        // A random selector returned a key
+  providers: string[];       // Inferred from MX and SPF includes
 }
 
 export interface DKIMResult {
   found: boolean;
   skipped?: boolean;
   selectors: DKIMSelector[];
+  probedSelectors?: string[]; // Selectors whose lookup completed, found or not
+  discovery?: DKIMDiscovery;
   issues: Issue[];
 }
 
+// DMARC specification to check against: RFC 7489, or DMARCbis (np/psd/t tags, tree walk)
+export type DMARCSpec = 'rfc7489' | 'dmarcbis';
+
 export interface DMARCResult {
   found: boolean;
   skipped?: boolean;
@@ -48,6 +158,19 @@ export interface DMARCResult {
   rua?: string[];
   ruf?: string[];
   pct?: number;
+  adkim?: 'r' | 's';
+  aspf?: 'r' | 's';
+  nonExistentPolicy?: 'none' | 'quarantine' | 'reject'; // np=
+  psd?: 'y' | 'n' | 'u';         // psd= (DMARCbis)
+  testing?: boolean;             // t=y (DMARCbis)
+  spec?: DMARCSpec;
+  policyDomain?: string;         // Domain whose _dmarc record applies
+  organizationalDomain?: string; // PSL public suffix plus one label, or set by psd=
+  inherited?: boolean;           // Record found at an ancestor of the checked domain
+  domainExists?: boolean;        // Checked for inherited records: false when there is no A, AAAA or MX
+  effectivePolicy?: 'none' | 'quarantine' | 'reject';
+  effectivePolicyTag?: 'p' | 'sp' | 'np'; // Tag the effective policy came from
+  nonExistentSubdomainPolicy?: 'none' | 'quarantine' | 'reject'; // Applied to mail from non-existent subdomains
   issues: Issue[];
 }
 
@@ -70,9 +193,38 @@ export interface BIMIResult {
   version?: string;
   logoUrl?: string;
   certificateUrl?: string;
+  logo?: BIMILogo;
+  certificate?: BIMICertificate;
   issues: Issue[];
 }
 
+export type BIMIMarkCertificateType = 'VMC' | 'CMC';
+
+export interface BIMICertificate {
+  type?: BIMIMarkCertificateType;
+  markType?: string;       // Subject markType, e.g. "Registered Mark" or "Prior Use Mark"
+  subject: string;
+  issuer: string;
+  validFrom: string;       // ISO 8601
+  validTo: string;
+  daysToExpiry: number;    // Negative once expired
+  sans: string[];          // DNS subjectAltNames
+  chainLength: number;     // Certificates in the PEM, leaf first
+  chainValid: boolean;     // Each certificate is signed by the next, up to a trust anchor
+  logoSha256?: string;     // Hex SHA-256 of the embedded logotype SVG
+  logoMatches?: boolean;   // Embedded logotype equals the l= SVG
+}
+
+export interface BIMILogo {
+  contentType?: string;
+  size?: number;        // Bytes
+  title?: string;       // <title> of the SVG
+  baseProfile?: string;
+  viewBox?: string;
+  svgTinyPs: boolean;   // No SVG Tiny PS violations
+  sha256?: string;      // Hex SHA-256 of the logo as served
+}
+
 export interface MTASTSResult {
   found: boolean;
   skipped?: boolean;
@@ -130,9 +282,37 @@ export interface DNSKEYRecord {
   algorithm: number;
   algorithmName: string;
   keyType: 'KSK' | 'ZSK' | 'unknown';
+  keyTag: number;
   publicKey: string;
 }
 
+export interface RRSIGRecord {
+  typeCovered: string;
+  algorithm: number;
+  algorithmName: string;
+  keyTag: number;
+  signerName: string;
+  inception: string;  // ISO 8601
+  expiration: string; // ISO 8601
+}
+
+export interface RRSetValidation {
+  type: string; // RR type name (DNSKEY, TXT, MX, DS)
+  status: 'valid' | 'unsigned' | 'invalid' | 'expired' | 'not-yet-valid' | 'no-key' | 'unsupported';
+  keyTag?: number;     // Key of the signature the status refers to
+  algorithm?: number;
+  inception?: string;  // ISO 8601
+  expiration?: string; // ISO 8601
+}
+
+export interface DNSSECChainLink {
+  zone: string;         // '.' for the root
+  dsMatched: boolean;   // A DS record (or root trust anchor) matches a DNSKEY
+  dnskeyValid: boolean; // DNSKEY RRset is signed by a DS-matched key
+  secure: boolean;
+  error?: string;
+}
+
 export interface DNSSECResult {
   enabled: boolean;
   skipped?: boolean;
@@ -146,10 +326,60 @@ export interface DNSSECResult {
     kskCount: number;
     zskCount: number;
   };
+  rrsig?: {
+    found: boolean;
+    records: RRSIGRecord[];
+  };
+  authenticated?: boolean; // Resolver set the AD bit
+  rrsets?: RRSetValidation[]; // Signature validation of the domain's RRsets
+  chain?: DNSSECChainLink[];  // Domain first, root last
   chainValid?: boolean;
   issues: Issue[];
 }
 
+export interface TLSARecord {
+  usage: number;         // 0 PKIX-TA, 1 PKIX-EE, 2 DANE-TA, 3 DANE-EE
+  selector: number;      // 0 full certificate, 1 SubjectPublicKeyInfo
+  matchingType: number;  // 0 exact, 1 SHA-256, 2 SHA-512
+  certificateData: string;
+  usable: boolean;       // Valid for SMTP per RFC 7672
+}
+
+export interface DANEHostResult {
+  host: string;      // MX exchange
+  name: string;      // TLSA owner (_25._tcp.<host>)
+  found: boolean;
+  dnssec: boolean;   // Resolver validated the TLSA records (AD bit); without TLSA, the host's address
+  usable: boolean;   // At least one usable TLSA record under DNSSEC
+  records: TLSARecord[];
+  error?: string;
+}
+
+export interface DANEResult {
+  found: boolean;
+  skipped?: boolean;
+  hosts: DANEHostResult[];
+  issues: Issue[];
+}
+
+export interface CAARecord {
+  flags: number;
+  critical: boolean; // Issuer Critical flag (bit 7)
+  tag: string;
+  value: string;
+}
+
+export interface CAAResult {
+  found: boolean;
+  skipped?: boolean;
+  name?: string;              // Owner of the relevant RRset (the domain or a parent)
+  records: CAARecord[];
+  issuers?: string[];         // CAs allowed to issue; undefined when any CA may issue
+  wildcardIssuers?: string[]; // Same for wildcard certificates (issuewild, else issue)
+  iodef: string[];
+  issues: Issue[];
+}
+
 export interface WhoisResult {
   found: boolean;
   skipped?: boolean;
@@ -178,6 +408,8 @@ export interface DomainResult {
   tlsRpt?: TLSRPTResult;
   arc?: ARCReadinessResult;
   dnssec?: DNSSECResult;
+  dane?: DANEResult;
+  caa?: CAAResult;
   whois?: WhoisResult;
   recommendations: string[];
   error?: string;
@@ -193,6 +425,8 @@ export interface CheckOptions {
   tlsRpt?: boolean;
   arc?: boolean;
   dnssec?: boolean;
+  dane?: boolean;
+  caa?: boolean;
   whois?: boolean;
 }
 
@@ -210,13 +444,340 @@ export interface ScanOptions {
   json?: boolean;
   verbose?: boolean;
   dkimSelectors?: string[];
+  dkimDiscovery?: boolean;     // Infer selectors beyond dkimSelectors (default true, false for analyzeMultiple)
+  dkimSampleHeaders?: string;  // Message headers to harvest DKIM-Signature selectors from
+  bimiTrustAnchors?: string;   // PEM roots to validate BIMI mark certificates against
   timeout?: number;
   concurrency?: number;
   verifyTlsRptEndpoints?: boolean;
+  dmarcSpec?: DMARCSpec;
   checks?: CheckOptions;
   resolver?: string;
 }
 
+export type RecordField = 'spf.record' | 'dmarc.policy' | 'dkim.selectors' | 'mta-sts.mode';
+
+export interface RecordChange {
+  field: RecordField;
+  before?: string;
+  after?: string;
+}
+
+export interface DomainDiff {
+  domain: string;
+  before: { grade: Grade; score: number };
+  after: { grade: Grade; score: number };
+  newIssues: Issue[];
+  resolvedIssues: Issue[];
+  recordChanges: RecordChange[];
+  regression: boolean; // Grade or score dropped, or a new critical/high issue
+}
+
+export interface ResultDiff {
+  added: DomainResult[];
+  removed: DomainResult[];
+  changed: DomainDiff[]; // Domains present in both sets with any difference
+  unchanged: number;
+  regressions: number;
+}
+
+export interface HistoryRunInfo {
+  id: string;
+  timestamp: string;
+  domains: number;
+}
+
+export interface HistoryRun extends HistoryRunInfo {
+  results: DomainResult[];
+}
+
+export interface DomainHistoryPoint {
+  runId: string;
+  timestamp: string;
+  grade: Grade;
+  score: number;
+}
+
+export interface IssueLifecycle {
+  code: string;
+  check: string;
+  severity: Severity;
+  message: string;
+  firstSeen: string;  // Timestamp of the first run that reported the issue
+  lastSeen: string;   // Timestamp of the last run that reported the issue
+  resolved?: string;  // Timestamp of the first run without it; unset while open
+}
+
+export interface DomainHistory {
+  domain: string;
+  points: DomainHistoryPoint[];
+  issues: IssueLifecycle[];
+}
+
+export type DKIMRotationStatus = 'active' | 'new' | 'retired' | 'revoked';
+
+export interface DKIMKeyRotation {
+  domain: string;
+  selector: string;
+  status: DKIMRotationStatus;
+  fingerprint?: string;    // Current key; unset when revoked or retired
+  firstSeen: string;       // First run that published the selector
+  lastSeen: string;        // Last run that published the selector (retired: the latest run probed it without finding it)
+  keySince?: string;       // First run that published the current key (or the revocation)
+  ageDays?: number;        // Days from keySince to the last run
+  ageIsMinimum?: boolean;  // keySince is the domain's first recorded run, so the key may be older
+  rotations: number;       // Key changes observed
+  stale?: boolean;         // Active key older than the maximum age
+  lingering?: boolean;     // Revoked for longer than the grace period
+}
+
+export interface DKIMRotationReport {
+  runs: number;
+  from?: string;           // First and last run considered
+  to?: string;
+  maxAgeDays: number;
+  revokedGraceDays: number;
+  selectors: DKIMKeyRotation[];
+}
+
+export interface PortfolioTrendPoint {
+  runId: string;
+  timestamp: string;
+  domains: number;
+  averageScore: number;
+  grades: Record<Grade, number>;
+}
+
+export interface PolicyRules {
+  minGrade?: Grade;
+  minScore?: number;
+  failOn?: Severity;   // Fail on any issue at or above this severity
+  forbid?: string[];   // Issue codes; a trailing * matches a prefix (e.g. "DNSSEC-*")
+  require?: string[];  // Expressions such as "dmarc.policy == reject"
+}
+
+export interface PolicySuppression {
+  code: string;        // Issue code; a trailing * matches a prefix
+  domain?: string;     // Exact domain or "*.example.com"; all domains when omitted
+  expires?: string;    // YYYY-MM-DD; the suppression stops applying after this date
+  reason?: string;
+}
+
+export interface Policy extends PolicyRules {
+  domains?: Record<string, PolicyRules>; // Per-domain overrides ("*.example.com" allowed)
+  suppress?: PolicySuppression[];
+}
+
+export type PolicyRule = 'min-grade' | 'min-score' | 'fail-on' | 'forbid' | 'require';
+
+export interface PolicyViolation {
+  domain: string;
+  rule: PolicyRule;
+  message: string;
+  issue?: Issue;
+}
+
+export interface PolicyReport {
+  passed: boolean;
+  violations: PolicyViolation[];
+  suppressed: Array<{ domain: string; issue: Issue; suppression: PolicySuppression }>;
+  expiredSuppressions: PolicySuppression[];
+}
+
+export type DmarcDisposition = 'none' | 'quarantine' | 'reject';
+
+/**
+ * A DKIM or SPF result from a report row's auth_results
+ */
+export interface DmarcAuthResult {
+  domain: string;
+  selector?: string; // DKIM only
+  scope?: string;    // SPF only: mfrom or helo
+  result: string;    // pass, fail, softfail, neutral, none, temperror, permerror, policy
+}
+
+export interface DmarcReportRow {
+  sourceIp: string;
+  count: number;
+  disposition: DmarcDisposition;
+  dkimAligned: boolean; // policy_evaluated dkim=pass
+  spfAligned: boolean;  // policy_evaluated spf=pass
+  headerFrom: string;
+  envelopeFrom?: string;
+  dkim: DmarcAuthResult[];
+  spf: DmarcAuthResult[];
+}
+
+/**
+ * A DMARC aggregate (RUA) report (RFC 7489 Appendix C)
+ */
+export interface DmarcAggregateReport {
+  file?: string;
+  orgName: string;
+  email?: string;
+  reportId: string;
+  begin: string; // ISO timestamps of the reporting period
+  end: string;
+  domain: string;
+  policy: DmarcDisposition;
+  subdomainPolicy?: DmarcDisposition;
+  pct?: number;
+  rows: DmarcReportRow[];
+}
+
+/**
+ * aligned: every message passes DMARC
+ * partial: some messages fail (forwarding, intermittent signing)
+ * misaligned: SPF or DKIM passes, but not for the From domain - breaks at p=reject
+ * unauthenticated: nothing passes - spoofing or an unknown sender
+ */
+export type DmarcSourceStatus = 'aligned' | 'partial' | 'misaligned' | 'unauthenticated';
+
+export interface DmarcSourceSummary {
+  sourceIp: string;
+  messages: number;
+  passing: number;         // Messages with aligned SPF or DKIM
+  spfAligned: number;
+  dkimAligned: number;
+  dispositions: Record<DmarcDisposition, number>;
+  reporters: string[];
+  spfDomains: string[];    // Envelope domains that passed SPF
+  dkimDomains: string[];   // d= of DKIM signatures that passed
+  status: DmarcSourceStatus;
+  reason?: string;         // Why failing messages fail DMARC
+  liveSpf?: SPFEvalResult; // Live SPF result for this IP, when cross-referenced
+}
+
+export interface DmarcReporterSummary {
+  orgName: string;
+  reports: number;
+  messages: number;
+  passing: number;
+}
+
+export interface DmarcSelectorSummary {
+  selector: string;
+  domain: string;      // d= of the signatures using it
+  messages: number;
+  passing: number;
+  published?: boolean; // Key found in DNS, when cross-referenced
+}
+
+export interface DmarcReportAnalysis {
+  domain: string;
+  policy: DmarcDisposition;      // p= of the most recent report
+  reports: number;
+  begin: string;
+  end: string;
+  messages: number;
+  passing: number;
+  dispositions: Record<DmarcDisposition, number>;
+  wouldReject: number;           // Messages failing DMARC, rejected at p=reject
+  wouldBreak: number;            // Of those, messages from partial/misaligned sources
+  reporters: DmarcReporterSummary[];
+  sources: DmarcSourceSummary[]; // Most messages first
+  selectors: DmarcSelectorSummary[];
+}
+
+export type DmarcStageId = 'monitor' | 'quarantine-partial' | 'quarantine' | 'reject';
+
+export interface DmarcBlocker {
+  check: 'spf' | 'dkim' | 'dmarc';
+  code?: string;       // Issue code the blocker was derived from
+  message: string;
+}
+
+export interface DmarcRolloutStage {
+  id: DmarcStageId;
+  title: string;
+  record: string;      // TXT value to publish at _dmarc.<domain>
+  status: 'complete' | 'next' | 'pending';
+  blockers: DmarcBlocker[]; // To resolve before publishing this stage
+}
+
+export interface DmarcReadinessPlan {
+  domain: string;
+  name: string;        // _dmarc.<domain>
+  record?: string;     // Currently published record
+  next?: DmarcStageId; // Undefined once p=reject is fully enforced
+  ready: boolean;      // The next stage has no blockers
+  stages: DmarcRolloutStage[];
+  notes: string[];
+}
+
+// RFC 8601 result values for DKIM and ARC verification
+export type MessageAuthResult = 'pass' | 'fail' | 'neutral' | 'none' | 'temperror' | 'permerror';
+
+/**
+ * A verified DKIM-Signature or ARC-Message-Signature
+ */
+export interface MessageSignature {
+  domain: string;           // d=
+  selector: string;         // s=
+  algorithm: string;        // a=
+  canonicalization: string; // c= as header/body
+  headers: string[];        // h=
+  bodyLength?: number;      // l=
+  instance?: number;        // i= of an ARC-Message-Signature
+  result: MessageAuthResult;
+  reason?: string;          // Why the result is not pass
+  testing?: boolean;        // Key has t=y
+}
+
+export interface ArcSetResult {
+  instance: number;
+  chainValidation?: string;   // cv= of the ARC-Seal
+  domain?: string;            // d= of the ARC-Seal
+  selector?: string;
+  seal: MessageAuthResult;
+  sealReason?: string;
+  messageSignature?: MessageSignature;
+  authenticationResults?: string; // ARC-Authentication-Results after i=
+}
+
+export interface ArcChainResult {
+  result: 'pass' | 'fail' | 'none';
+  reason?: string;
+  sets: ArcSetResult[]; // Oldest (i=1) first
+}
+
+export interface MessageDmarcResult {
+  result: 'pass' | 'fail' | 'none';
+  domain?: string;       // RFC5322.From domain
+  recordDomain?: string; // Domain the DMARC record was found at
+  record?: string;
+  policy?: 'none' | 'quarantine' | 'reject'; // Effective policy for the From domain
+  policyTag?: 'p' | 'sp' | 'np';
+  adkim: 'r' | 's';
+  aspf: 'r' | 's';
+  spfAligned: boolean;
+  dkimAligned: boolean;
+  alignedDkimDomain?: string; // d= of the passing aligned signature
+}
+
+export interface ReceivedHop {
+  from?: string; // Name the sending host gave (HELO/EHLO)
+  ip?: string;   // Connecting address recorded by the receiving host
+  by?: string;
+}
+
+export interface MessageAnalysis {
+  from?: string;           // RFC5322.From address
+  fromDomain?: string;
+  mailFrom?: string;       // Return-Path (RFC5321.MailFrom); empty for bounces
+  subject?: string;
+  messageId?: string;
+  date?: string;
+  ip?: string;             // Last-hop public address from Received
+  helo?: string;
+  received: ReceivedHop[]; // Topmost (last hop) first
+  spf?: SPFEvaluation;
+  dkim: MessageSignature[];
+  dmarc: MessageDmarcResult;
+  arc: ArcChainResult;
+  warnings: string[];
+}
+
 export interface CloudSource {
   name: string;
   getDomains(): Promise<string[]>;
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import zlib from 'node:zlib';
+import { extractFiles, unzip } from './archive.js';
+import { DMARC_REPORT_MAX_BYTES } from '../constants.js';
+
+/**
+ * Build a zip archive of stored or deflated entries
+ */
+function buildZip(files: Array<{ name: string; data: string; deflate: boolean }>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const raw = Buffer.from(file.data);
+    const body = file.deflate ? zlib.deflateRawSync(raw) : raw;
+    const name = Buffer.from(file.name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, body);
+    centrals.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('unzip', () => {
+  it('reads stored and deflated entries', () => {
+    const zip = buildZip([
+      { name: 'a.xml', data: '<a/>', deflate: true },
+      { name: 'b.xml', data: '<b/>', deflate: false },
+    ]);
+
+    expect(unzip(zip).map(e => [e.name, e.data.toString()])).toEqual([
+      ['a.xml', '<a/>'],
+      ['b.xml', '<b/>'],
+    ]);
+  });
+
+  it('rejects data without a central directory', () => {
+    expect(() => unzip(Buffer.from('PK\x03\x04 truncated'))).toThrow(/no end of central directory/);
+  });
+
+  it('rejects entries that point past the end of the archive', () => {
+    const zip = buildZip([{ name: 'a.xml', data: '<a/>', deflate: false }]);
+    const pastEnd = Buffer.from(zip);
+    pastEnd.writeUInt32LE(zip.length, zip.length - 22 - 46 - 5 + 42);
+    const truncated = Buffer.from(zip);
+    truncated.writeUInt32LE(1000, truncated.length - 22 - 46 - 5 + 20);
+
+    expect(() => unzip(pastEnd)).toThrow('Invalid zip archive: corrupt entry a.xml');
+    expect(() => unzip(truncated)).toThrow('Invalid zip archive: corrupt entry a.xml');
+  });
+
+  it('caps the size of each entry and of the whole archive', () => {
+    const zip = buildZip([
+      { name: 'a.xml', data: 'a'.repeat(600), deflate: true },
+      { name: 'b.xml', data: 'b'.repeat(600), deflate: true },
+    ]);
+
+    expect(() => unzip(zip, { maxEntryBytes: 500 })).toThrow('a.xml expands to more than 500 bytes');
+    expect(() => unzip(zip, { maxTotalBytes: 1000 })).toThrow('Zip archive expands to more than 1000 bytes');
+    expect(unzip(zip, { maxEntryBytes: 600, maxTotalBytes: 1200 })).toHaveLength(2);
+  });
+});
+
+describe('extractFiles', () => {
+  it('decompresses gzip', () => {
+    const files = extractFiles('report.xml.gz', zlib.gzipSync('<feedback/>'));
+
+    expect(files).toEqual([{ name: 'report.xml', data: Buffer.from('<feedback/>') }]);
+  });
+
+  it('rejects a gzip bomb', () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(DMARC_REPORT_MAX_BYTES + 1));
+
+    expect(bomb.length).toBeLessThan(100 * 1024);
+    expect(() => extractFiles('report.xml.gz', bomb)).toThrow(`report.xml.gz expands to more than ${DMARC_REPORT_MAX_BYTES} bytes`);
+  });
+
+  it('lists zip entries under the archive name', () => {
+    const files = extractFiles('report.zip', buildZip([{ name: 'report.xml', data: '<feedback/>', deflate: true }]));
+
+    expect(files.map(f => f.name)).toEqual(['report.zip:report.xml']);
+  });
+
+  it('passes other files through', () => {
+    expect(extractFiles('report.xml', Buffer.from('<feedback/>'))[0].data.toString()).toBe('<feedback/>');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Compressed report attachments: gzip and zip (stored/deflate entries)
+ */
+
+import zlib from 'node:zlib';
+import { DMARC_REPORT_ARCHIVE_MAX_BYTES, DMARC_REPORT_MAX_BYTES } from '../constants.js';
+
+export interface ArchiveEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ArchiveLimits {
+  maxEntryBytes?: number; // Largest decompressed file
+  maxTotalBytes?: number; // Total decompressed size of one archive
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIR = 0x06054b50;
+
+export function isGzip(data: Buffer): boolean {
+  return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+export function isZip(data: Buffer): boolean {
+  return data.length >= 4 && data.readUInt32LE(0) === ZIP_LOCAL_HEADER;
+}
+
+/**
+ * Decompress with an output limit, so a small bomb cannot exhaust memory.
+ * Returns undefined when the output would exceed the limit.
+ */
+function inflate(decompress: (options: zlib.ZlibOptions) => Buffer, limit: number): Buffer | undefined {
+  try {
+    return decompress({ maxOutputLength: Math.max(1, limit) });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') return undefined;
+    throw err;
+  }
+}
+
+/**
+ * List the files in a zip archive. Only stored and deflated entries are
+ * supported; ZIP64 and encrypted archives are rejected.
+ */
+export function unzip(data: Buffer, limits: ArchiveLimits = {}): ArchiveEntry[] {
+  const maxEntryBytes = limits.maxEntryBytes ?? DMARC_REPORT_MAX_BYTES;
+  const maxTotalBytes = limits.maxTotalBytes ?? DMARC_REPORT_ARCHIVE_MAX_BYTES;
+  let total = 0;
+
+  // The end-of-central-directory record sits within the last 64 KiB (its comment is at most 65535 bytes)
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIR) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Invalid zip archive: no end of central directory');
+  }
+
+  const count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  const entries: ArchiveEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory entry
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error(`ZIP64 archives are not supported: ${name}`);
+    }
+    if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      throw new Error(`Invalid zip archive: corrupt entry ${name}`);
+    }
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    if (start + compressedSize > data.length) {
+      throw new Error(`Invalid zip archive: corrupt entry ${name}`);
+    }
+    const compressed = data.subarray(start, start + compressedSize);
+
+    const limit = Math.min(maxEntryBytes, maxTotalBytes - total);
+    let entry: Buffer | undefined;
+    if (method === 0) {
+      entry = Buffer.from(compressed);
+    } else if (method === 8) {
+      entry = inflate(options => zlib.inflateRawSync(compressed, options), limit);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+    }
+    if (!entry || entry.length > limit) {
+      throw new Error(limit < maxEntryBytes
+        ? `Zip archive expands to more than ${maxTotalBytes} bytes`
+        : `${name} expands to more than ${maxEntryBytes} bytes`);
+    }
+    total += entry.length;
+    entries.push({ name, data: entry });
+  }
+
+  return entries;
+}
+
+/**
+ * Expand a file's contents: gzip is decompressed, zip entries are listed,
+ * anything else is returned as-is under the given name
+ */
+export function extractFiles(name: string, data: Buffer, limits: ArchiveLimits = {}): ArchiveEntry[] {
+  if (isGzip(data)) {
+    const limit = limits.maxEntryBytes ?? DMARC_REPORT_MAX_BYTES;
+    const expanded = inflate(options => zlib.gunzipSync(data, options), limit);
+    if (!expanded) {
+      throw new Error(`${name} expands to more than ${limit} bytes`);
+    }
+    return [{ name: name.replace(/\.gz$/i, ''), data: expanded }];
+  }
+  if (isZip(data)) {
+    return unzip(data, limits).map(entry => ({ name: `${name}:${entry.name}`, data: entry.data }));
+  }
+  return [{ name, data }];
+}
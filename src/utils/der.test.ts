@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { DER_TAG, decodeOid, derContextChild, parseDer, parseDerSequence } from './der.js';
+
+describe('parseDer', () => {
+  it('parses nested constructed values', () => {
+    // SEQUENCE { INTEGER 5, [3] { OCTET STRING 'ab' } }
+    const node = parseDer(Buffer.from('3009020105a30404026162', 'hex'));
+
+    expect(node).toMatchObject({ tag: DER_TAG.SEQUENCE, tagClass: 'universal', constructed: true });
+    expect(node.children[0]).toMatchObject({ tag: DER_TAG.INTEGER, content: Buffer.from([5]) });
+    expect(derContextChild(node, 3)?.children[0].content.toString()).toBe('ab');
+    expect(derContextChild(node, 0)).toBeUndefined();
+  });
+
+  it('reads long-form lengths', () => {
+    const content = Buffer.alloc(200, 0x61);
+    const node = parseDer(Buffer.concat([Buffer.from([0x04, 0x81, 200]), content]));
+
+    expect(node.content.equals(content)).toBe(true);
+  });
+
+  it('rejects truncated and trailing data', () => {
+    expect(() => parseDer(Buffer.from('3005020105', 'hex'))).toThrow('content runs past the end');
+    expect(() => parseDer(Buffer.from('02010500', 'hex'))).toThrow('trailing data');
+    expect(() => parseDer(Buffer.from('30', 'hex'))).toThrow('truncated header');
+  });
+});
+
+describe('parseDerSequence', () => {
+  it('parses consecutive values', () => {
+    expect(parseDerSequence(Buffer.from('020101020102', 'hex')).map(node => node.content[0])).toEqual([1, 2]);
+    expect(parseDerSequence(Buffer.alloc(0))).toEqual([]);
+  });
+});
+
+describe('decodeOid', () => {
+  it('decodes dotted OIDs with multi-byte arcs', () => {
+    expect(decodeOid(Buffer.from('2b0601050507031f', 'hex'))).toBe('1.3.6.1.5.5.7.3.31');
+    expect(decodeOid(Buffer.from('608648016503040201', 'hex'))).toBe('2.16.840.1.101.3.4.2.1');
+  });
+});
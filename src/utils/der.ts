@@ -0,0 +1,109 @@
+/**
+ * Minimal DER reader for the X.509 extensions node:crypto does not expose
+ * (RFC 3709 logotypes, BIMI subject attributes)
+ *
+ * Definite lengths only, as DER requires. Tag numbers above 30 (multi-byte
+ * tags) are not supported.
+ */
+
+export interface DerNode {
+  tag: number;           // Tag number within its class
+  tagClass: 'universal' | 'application' | 'context' | 'private';
+  constructed: boolean;
+  content: Buffer;
+  children: DerNode[];   // Parsed content of constructed nodes
+}
+
+const CLASSES: DerNode['tagClass'][] = ['universal', 'application', 'context', 'private'];
+
+// Universal tags used by callers
+export const DER_TAG = {
+  BOOLEAN: 1,
+  INTEGER: 2,
+  OCTET_STRING: 4,
+  OID: 6,
+  UTF8_STRING: 12,
+  SEQUENCE: 16,
+  SET: 17,
+  PRINTABLE_STRING: 19,
+  IA5_STRING: 22,
+} as const;
+
+function readNode(data: Buffer, offset: number): { node: DerNode; end: number } {
+  if (offset + 2 > data.length) throw new Error('Invalid DER: truncated header');
+  const first = data[offset];
+  const tag = first & 0x1f;
+  if (tag === 0x1f) throw new Error('Invalid DER: multi-byte tags are not supported');
+
+  let length = data[offset + 1];
+  let pos = offset + 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    if (bytes === 0 || bytes > 4) throw new Error('Invalid DER: unsupported length encoding');
+    if (pos + bytes > data.length) throw new Error('Invalid DER: truncated length');
+    length = data.readUIntBE(pos, bytes);
+    pos += bytes;
+  }
+  const end = pos + length;
+  if (end > data.length) throw new Error('Invalid DER: content runs past the end');
+
+  const node: DerNode = {
+    tag,
+    tagClass: CLASSES[first >> 6],
+    constructed: (first & 0x20) !== 0,
+    content: data.subarray(pos, end),
+    children: [],
+  };
+  if (node.constructed) {
+    node.children = parseDerSequence(node.content);
+  }
+  return { node, end };
+}
+
+/**
+ * Parse one DER value filling the whole buffer
+ */
+export function parseDer(data: Buffer): DerNode {
+  const { node, end } = readNode(data, 0);
+  if (end !== data.length) throw new Error('Invalid DER: trailing data');
+  return node;
+}
+
+/**
+ * Parse consecutive DER values, e.g. the content of a SEQUENCE
+ */
+export function parseDerSequence(data: Buffer): DerNode[] {
+  const nodes: DerNode[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const { node, end } = readNode(data, offset);
+    nodes.push(node);
+    offset = end;
+  }
+  return nodes;
+}
+
+/**
+ * Dotted form of an OBJECT IDENTIFIER's content
+ */
+export function decodeOid(content: Buffer): string {
+  const arcs: number[] = [];
+  let value = 0;
+  for (const byte of content) {
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) {
+      arcs.push(value);
+      value = 0;
+    }
+  }
+  if (arcs.length === 0) return '';
+  const first = Math.min(Math.floor(arcs[0] / 40), 2);
+  return [first, arcs[0] - first * 40, ...arcs.slice(1)].join('.');
+}
+
+/**
+ * Context-specific child with the given tag number, e.g. [3] extensions
+ */
+export function derContextChild(node: DerNode | undefined, tag: number): DerNode | undefined {
+  return node?.children.find(child => child.tagClass === 'context' && child.tag === tag);
+}
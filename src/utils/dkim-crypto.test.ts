@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'node:crypto';
+import { parseEmail } from './email.js';
+import {
+  canonicalizeBody,
+  canonicalizeHeader,
+  computeBodyHash,
+  parseDkimPublicKey,
+  parseSignatureTags,
+  selectSignedHeaders,
+  withoutSignatureValue,
+} from './dkim-crypto.js';
+
+// RFC 6376 §3.4.6 example
+const EXAMPLE = parseEmail('A: X\r\nB : Y\t\r\n\tZ  \r\n\r\n C \r\nD \t E\r\n\r\n\r\n');
+
+describe('canonicalization', () => {
+  it('relaxes header fields', () => {
+    expect(EXAMPLE.headers.map(h => canonicalizeHeader(h, 'relaxed')).join('')).toBe('a:X\r\nb:Y Z\r\n');
+  });
+
+  it('keeps header fields as received in simple mode', () => {
+    expect(EXAMPLE.headers.map(h => canonicalizeHeader(h, 'simple')).join('')).toBe('A: X\r\nB : Y\t\r\n\tZ  \r\n');
+  });
+
+  it('canonicalizes the body', () => {
+    expect(canonicalizeBody(EXAMPLE.body, 'relaxed')).toBe(' C\r\nD E\r\n');
+    expect(canonicalizeBody(EXAMPLE.body, 'simple')).toBe(' C \r\nD \t E\r\n');
+  });
+
+  it('treats empty bodies per mode', () => {
+    expect(canonicalizeBody('', 'simple')).toBe('\r\n');
+    expect(canonicalizeBody('\r\n\r\n', 'relaxed')).toBe('');
+    // Well-known hash of a single CRLF
+    expect(computeBodyHash('', 'simple', 'sha256')).toBe('frcCV1k9oG9oKj3dpUqdJg1PxRT2RSN/XKdLCPjaYaY=');
+  });
+
+  it('limits the body hash to l= octets', () => {
+    expect(computeBodyHash('Hello\r\nWorld\r\n', 'simple', 'sha256', 7))
+      .toBe(crypto.createHash('sha256').update('Hello\r\n').digest('base64'));
+  });
+});
+
+describe('signature fields', () => {
+  it('removes folding whitespace from b=, bh= and h=', () => {
+    const tags = parseSignatureTags('v=1; h=from :\r\n to; bh=ab\r\n cd=; b=ef\r\n gh');
+
+    expect(tags.get('h')).toBe('from:to');
+    expect(tags.get('bh')).toBe('abcd=');
+    expect(tags.get('b')).toBe('efgh');
+  });
+
+  it('empties b= without touching bh=', () => {
+    const field = { name: 'DKIM-Signature', value: '', raw: 'DKIM-Signature: v=1; bh=abc=; b=sig\r\n value; d=example.com' };
+
+    expect(withoutSignatureValue(field).raw).toBe('DKIM-Signature: v=1; bh=abc=; b=; d=example.com');
+  });
+
+  it('selects repeated fields bottom-up and skips missing ones', () => {
+    const message = parseEmail('Received: 1\r\nReceived: 2\r\nFrom: a@example.com\r\n\r\n');
+
+    expect(selectSignedHeaders(message.headers, ['received', 'from', 'subject', 'received']).map(h => h.raw))
+      .toEqual(['Received: 2', 'From: a@example.com', 'Received: 1']);
+  });
+});
+
+describe('parseDkimPublicKey', () => {
+  it('reads RSA and Ed25519 keys with their flags', () => {
+    const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 }).publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+    const ed = Buffer.from(crypto.generateKeyPairSync('ed25519').publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('base64');
+
+    expect(parseDkimPublicKey(`v=DKIM1; k=rsa; h=sha256; t=y; p=${rsa}`)).toMatchObject({ keyType: 'rsa', hashes: ['sha256'], testing: true, revoked: false });
+    expect(parseDkimPublicKey(`v=DKIM1; k=ed25519; p=${ed}`).key?.asymmetricKeyType).toBe('ed25519');
+  });
+
+  it('reports revoked and malformed keys', () => {
+    const revoked = parseDkimPublicKey('v=DKIM1; p=');
+    expect(revoked.revoked).toBe(true);
+    expect(revoked.key).toBeUndefined();
+    expect(parseDkimPublicKey('v=DKIM1; k=ed25519; p=AAAA').error).toBe('Ed25519 key is 3 bytes, expected 32');
+    expect(parseDkimPublicKey('v=DKIM1; p=bm90IGEga2V5').error).toBe('Public key (p=) is not a valid key');
+  });
+
+  it('rejects p= values that are not base64 and reads s= and g=', () => {
+    expect(parseDkimPublicKey('v=DKIM1; p=AB$CD').error).toBe('Public key (p=) is not valid base64');
+    expect(parseDkimPublicKey('v=DKIM1; p=A').error).toBe('Public key (p=) is not valid base64');
+    expect(parseDkimPublicKey('v=DKIM1; s=email:*; g=user; p=')).toMatchObject({ services: ['email', '*'], granularity: 'user', revoked: true });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * DKIM cryptographic primitives
+ *
+ * Canonicalization (RFC 6376 §3.4), body hashes, the signed header data
+ * (RFC 6376 §3.7) and signature verification with node:crypto for
+ * rsa-sha256, rsa-sha1 and ed25519-sha256 (RFC 8463). ARC signatures
+ * (RFC 8617) use the same primitives.
+ */
+
+import crypto from 'node:crypto';
+import type { HeaderField } from './email.js';
+import { parseRecordTags } from './parser.js';
+
+export type DkimCanonicalization = 'simple' | 'relaxed';
+
+interface AlgorithmParams {
+  hash: 'sha256' | 'sha1';
+  key: 'rsa' | 'ed25519';
+}
+
+const ALGORITHMS: Record<string, AlgorithmParams> = {
+  'rsa-sha256': { hash: 'sha256', key: 'rsa' },
+  'rsa-sha1': { hash: 'sha1', key: 'rsa' },
+  'ed25519-sha256': { hash: 'sha256', key: 'ed25519' },
+};
+
+export interface DkimPublicKey {
+  keyType: string;     // k= (rsa when absent)
+  key?: crypto.KeyObject;
+  revoked: boolean;    // p= is empty
+  hashes?: string[];   // h= acceptable hash algorithms
+  services?: string[]; // s= service types (all when absent)
+  granularity?: string; // g= (RFC 4871, removed by RFC 6376)
+  testing: boolean;    // t=y
+  error?: string;      // Why the key could not be used
+}
+
+/**
+ * Hash and key type of a signature algorithm (a= tag), undefined when unsupported
+ */
+export function dkimAlgorithm(algorithm: string): AlgorithmParams | undefined {
+  return ALGORITHMS[algorithm.toLowerCase()];
+}
+
+/**
+ * Tags of a DKIM-Signature, ARC-Message-Signature or ARC-Seal value.
+ * Whitespace inside b=, bh= and h= is folding and is removed.
+ */
+export function parseSignatureTags(value: string): Map<string, string> {
+  const tags = parseRecordTags(value.replace(/\r\n/g, ''));
+  for (const tag of ['b', 'bh', 'h']) {
+    const tagValue = tags.get(tag);
+    if (tagValue !== undefined) tags.set(tag, tagValue.replace(/\s+/g, ''));
+  }
+  return tags;
+}
+
+/**
+ * Canonicalize one header field, including its terminating CRLF
+ */
+export function canonicalizeHeader(field: HeaderField, mode: DkimCanonicalization): string {
+  if (mode === 'simple') {
+    return `${field.raw}\r\n`;
+  }
+  const colon = field.raw.indexOf(':');
+  const name = field.raw.slice(0, colon).trim().toLowerCase();
+  const value = field.raw.slice(colon + 1).replace(/\r\n/g, '').replace(/[ \t]+/g, ' ').trim();
+  return `${name}:${value}\r\n`;
+}
+
+/**
+ * Canonicalize a message body (CRLF line endings)
+ */
+export function canonicalizeBody(body: string, mode: DkimCanonicalization): string {
+  let canonical = body;
+  if (mode === 'relaxed') {
+    canonical = canonical.split('\r\n').map(line => line.replace(/[ \t]+/g, ' ').replace(/ $/, '')).join('\r\n');
+  }
+  // Trailing empty lines are ignored; a non-empty body ends with CRLF
+  canonical = canonical.replace(/(\r\n)*$/, '');
+  if (canonical.length > 0) return `${canonical}\r\n`;
+  // An empty body is a single CRLF in simple mode and empty in relaxed mode
+  return mode === 'simple' ? '\r\n' : '';
+}
+
+/**
+ * Base64 body hash (bh=), over the first `length` octets when l= is given
+ */
+export function computeBodyHash(body: string, mode: DkimCanonicalization, hash: string, length?: number): string {
+  let canonical = Buffer.from(canonicalizeBody(body, mode), 'latin1');
+  if (length !== undefined) canonical = canonical.subarray(0, length);
+  return crypto.createHash(hash).update(canonical).digest('base64');
+}
+
+/**
+ * The signature field with the b= value removed, as it was when signed
+ */
+export function withoutSignatureValue(field: HeaderField): HeaderField {
+  const colon = field.raw.indexOf(':');
+  const value = field.raw.slice(colon + 1).replace(/((?:^|;)\s*b\s*=)[^;]*/, '$1');
+  return { ...field, raw: field.raw.slice(0, colon + 1) + value };
+}
+
+/**
+ * Header fields named by h=, in order. Each name takes the last instance
+ * not yet used (bottom-up); a name with no instance left signs nothing.
+ */
+export function selectSignedHeaders(headers: HeaderField[], names: string[]): HeaderField[] {
+  const remaining = new Map<string, HeaderField[]>();
+  for (const header of headers) {
+    const key = header.name.toLowerCase();
+    remaining.set(key, [...(remaining.get(key) ?? []), header]);
+  }
+  const selected: HeaderField[] = [];
+  for (const name of names) {
+    const field = remaining.get(name.trim().toLowerCase())?.pop();
+    if (field) selected.push(field);
+  }
+  return selected;
+}
+
+/**
+ * Data covered by the signature: the canonicalized fields, then the
+ * signature field itself with an empty b= and no trailing CRLF
+ */
+export function signedHeaderData(fields: HeaderField[], signature: HeaderField, mode: DkimCanonicalization): Buffer {
+  const text = fields.map(field => canonicalizeHeader(field, mode)).join('')
+    + canonicalizeHeader(withoutSignatureValue(signature), mode).replace(/\r\n$/, '');
+  return Buffer.from(text, 'latin1');
+}
+
+/**
+ * Base64 SHA-256 of a key's SubjectPublicKeyInfo, the same for SPKI and bare
+ * RSAPublicKey encodings of one key
+ */
+export function keyFingerprint(key: crypto.KeyObject): string {
+  return crypto.createHash('sha256').update(key.export({ format: 'der', type: 'spki' })).digest('base64');
+}
+
+/**
+ * Parse a DKIM key record (RFC 6376 §3.6.1) into a verification key
+ */
+export function parseDkimPublicKey(record: string): DkimPublicKey {
+  const tags = parseRecordTags(record);
+  const keyType = (tags.get('k') ?? 'rsa').toLowerCase();
+  const publicKey = (tags.get('p') ?? '').replace(/\s+/g, '');
+  const flags = (tags.get('t') ?? '').toLowerCase().split(':').map(flag => flag.trim());
+  const result: DkimPublicKey = {
+    keyType,
+    revoked: tags.has('p') && publicKey === '',
+    hashes: tags.get('h')?.toLowerCase().split(':').map(hash => hash.trim()).filter(Boolean),
+    services: tags.get('s')?.toLowerCase().split(':').map(service => service.trim()).filter(Boolean),
+    granularity: tags.get('g'),
+    testing: flags.includes('y'),
+  };
+
+  if (!tags.has('p')) {
+    return { ...result, error: 'Key record has no p= tag' };
+  }
+  if (result.revoked) {
+    return result;
+  }
+
+  // Buffer.from() silently skips invalid characters, so check the encoding first
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(publicKey) || publicKey.length % 4 === 1) {
+    return { ...result, error: 'Public key (p=) is not valid base64' };
+  }
+  const der = Buffer.from(publicKey, 'base64');
+  try {
+    if (keyType === 'ed25519') {
+      if (der.length !== 32) {
+        return { ...result, error: `Ed25519 key is ${der.length} bytes, expected 32` };
+      }
+      result.key = crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: der.toString('base64url') }, format: 'jwk' });
+    } else if (keyType === 'rsa') {
+      // p= is a SubjectPublicKeyInfo; some publishers use a bare RSAPublicKey
+      try {
+        result.key = crypto.createPublicKey({ key: der, format: 'der', type: 'spki' });
+      } catch {
+        result.key = crypto.createPublicKey({ key: der, format: 'der', type: 'pkcs1' });
+      }
+    } else {
+      return { ...result, error: `Unsupported key type k=${keyType}` };
+    }
+  } catch {
+    return { ...result, error: 'Public key (p=) is not a valid key' };
+  }
+  return result;
+}
+
+/**
+ * Verify a signature over the signed header data. Ed25519 signs the
+ * SHA-256 digest of the data (RFC 8463 §3).
+ */
+export function verifyDkimSignature(algorithm: string, key: crypto.KeyObject, data: Buffer, signature: Buffer): boolean {
+  const params = dkimAlgorithm(algorithm);
+  if (!params) return false;
+  try {
+    if (params.key === 'ed25519') {
+      return crypto.verify(null, crypto.createHash('sha256').update(data).digest(), key, signature);
+    }
+    return crypto.verify(params.hash, data, key, signature);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import dgram from 'node:dgram';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import {
+  buildQuery,
+  encodeMessage,
+  encodeName,
+  parseMessage,
+  queryDns,
+  recordsOfType,
+  rrTypeName,
+  rcodeName,
+  RRTYPE,
+} from './dns-wire.js';
+import type { DnsMessage, DnsRecord } from './dns-wire.js';
+
+const DS_RDATA = Buffer.from('094b0d02' + '32996839a6d808afe3eb4a795a0e6a7a39a76fc52ff228b22b76f6d63826f2b9', 'hex');
+const DNSKEY_RDATA = Buffer.concat([
+  Buffer.from([0x01, 0x01, 0x03, 0x0d]),
+  Buffer.from('oJMRESz5E4gYzS/q6XDrvU1qMPYIjCWzJaOau8XNEZeqCYKD5ar0IRd8KqXXFJkqmVfRvMGPmM1x8fGAa2XhSA==', 'base64'),
+]);
+
+function rrsigRdata(typeCovered: number, signer: string): Buffer {
+  const fixed = Buffer.alloc(18);
+  fixed.writeUInt16BE(typeCovered, 0);
+  fixed[2] = 13; // algorithm
+  fixed[3] = 2;  // labels
+  fixed.writeUInt32BE(3600, 4);
+  fixed.writeUInt32BE(1767225600, 8);  // 2026-01-01
+  fixed.writeUInt32BE(1764547200, 12); // 2025-12-01
+  fixed.writeUInt16BE(2371, 16);
+  return Buffer.concat([fixed, encodeName(signer), Buffer.from('c2lnbmF0dXJl', 'base64')]);
+}
+
+function answer(name: string, type: number, rdata: Buffer): DnsRecord {
+  return { name, type, class: 1, ttl: 300, rdata };
+}
+
+function reply(query: Buffer, answers: DnsRecord[], overrides: Partial<DnsMessage> = {}): Buffer {
+  const parsed = parseMessage(query);
+  return encodeMessage({
+    id: parsed.id,
+    flags: { qr: true, aa: false, tc: false, rd: true, ra: true, ad: false, cd: false },
+    rcode: 0,
+    questions: parsed.questions,
+    answers,
+    authorities: [],
+    additionals: [],
+    edns: { udpSize: 1232, dnssecOk: true },
+    ...overrides,
+  });
+}
+
+describe('DNS wire format', () => {
+  it('builds a query with EDNS0 and the DO bit', () => {
+    const query = parseMessage(buildQuery('example.com', RRTYPE.DNSKEY, { id: 42 }));
+
+    expect(query.id).toBe(42);
+    expect(query.flags.rd).toBe(true);
+    expect(query.questions).toEqual([{ name: 'example.com', type: RRTYPE.DNSKEY, class: 1 }]);
+    expect(query.edns).toEqual({ udpSize: 1232, dnssecOk: true });
+  });
+
+  it('can clear the DO bit', () => {
+    const query = parseMessage(buildQuery('example.com', RRTYPE.A, { dnssecOk: false }));
+    expect(query.edns?.dnssecOk).toBe(false);
+  });
+
+  it('parses DS, DNSKEY and RRSIG records', () => {
+    const msg = parseMessage(reply(buildQuery('example.com', RRTYPE.DNSKEY), [
+      answer('example.com', RRTYPE.DS, DS_RDATA),
+      answer('example.com', RRTYPE.DNSKEY, DNSKEY_RDATA),
+      answer('example.com', RRTYPE.RRSIG, rrsigRdata(RRTYPE.DNSKEY, 'example.com')),
+    ]));
+
+    expect(recordsOfType(msg.answers, 'DS')[0]).toEqual({
+      type: 'DS',
+      keyTag: 2379,
+      algorithm: 13,
+      digestType: 2,
+      digest: '32996839A6D808AFE3EB4A795A0E6A7A39A76FC52FF228B22B76F6D63826F2B9',
+    });
+    expect(recordsOfType(msg.answers, 'DNSKEY')[0]).toMatchObject({ flags: 257, protocol: 3, algorithm: 13 });
+    expect(recordsOfType(msg.answers, 'DNSKEY')[0].publicKey).toMatch(/^oJMRESz5/);
+
+    const rrsig = recordsOfType(msg.answers, 'RRSIG')[0];
+    expect(rrsig).toMatchObject({ typeCovered: RRTYPE.DNSKEY, algorithm: 13, keyTag: 2371, signerName: 'example.com' });
+    expect(rrsig.signature).toBe('c2lnbmF0dXJl');
+  });
+
+  it('decodes NSEC and NSEC3 type bitmaps', () => {
+    // Window 0: A(1), MX(15), RRSIG(46); window 1: CAA(257)
+    const bitmap = Buffer.from([0x00, 0x06, 0x40, 0x01, 0x00, 0x00, 0x00, 0x02, 0x01, 0x01, 0x40]);
+    const nsec = Buffer.concat([encodeName('b.example.com'), bitmap]);
+    const nsec3 = Buffer.concat([
+      Buffer.from([1, 0, 0, 10, 2, 0xab, 0xcd, 5]),
+      Buffer.from([0x00, 0x00, 0x00, 0x00, 0x01]),
+      bitmap,
+    ]);
+
+    const msg = parseMessage(reply(buildQuery('a.example.com', RRTYPE.DS), [], {
+      rcode: 3,
+      authorities: [
+        answer('a.example.com', RRTYPE.NSEC, nsec),
+        answer('xyz.example.com', RRTYPE.NSEC3, nsec3),
+      ],
+    }));
+
+    expect(rcodeName(msg.rcode)).toBe('NXDOMAIN');
+    expect(recordsOfType(msg.authorities, 'NSEC')[0]).toEqual({
+      type: 'NSEC',
+      nextDomain: 'b.example.com',
+      types: [1, 15, 46, 257],
+    });
+    expect(recordsOfType(msg.authorities, 'NSEC3')[0]).toEqual({
+      type: 'NSEC3',
+      hashAlgorithm: 1,
+      flags: 0,
+      iterations: 10,
+      salt: 'abcd',
+      nextHashedOwner: '00000001',
+      types: [1, 15, 46, 257],
+    });
+  });
+
+  it('follows compression pointers and expands embedded names in rdata', () => {
+    // Hand-built response: MX answer whose owner and exchange use pointers
+    const header = Buffer.from([0x12, 0x34, 0x81, 0x80, 0, 1, 0, 1, 0, 0, 0, 0]);
+    const question = Buffer.concat([encodeName('example.com'), Buffer.from([0, 15, 0, 1])]);
+    const mxRdata = Buffer.from([0, 10, 4, 0x6d, 0x61, 0x69, 0x6c, 0xc0, 12]); // 10 mail.<ptr example.com>
+    const record = Buffer.concat([
+      Buffer.from([0xc0, 12, 0, 15, 0, 1, 0, 0, 1, 0x2c, 0, mxRdata.length]),
+      mxRdata,
+    ]);
+
+    const msg = parseMessage(Buffer.concat([header, question, record]));
+
+    expect(msg.answers[0].name).toBe('example.com');
+    expect(recordsOfType(msg.answers, 'MX')[0]).toEqual({ type: 'MX', priority: 10, exchange: 'mail.example.com' });
+    expect(msg.answers[0].rdata).toEqual(Buffer.concat([Buffer.from([0, 10]), encodeName('mail.example.com')]));
+  });
+
+  it('rejects compression loops', () => {
+    const header = Buffer.from([0, 1, 0x81, 0x80, 0, 1, 0, 0, 0, 0, 0, 0]);
+    expect(() => parseMessage(Buffer.concat([header, Buffer.from([0xc0, 12])]))).toThrow(/compression loop/);
+  });
+
+  it('parses TLSA records', () => {
+    const rdata = Buffer.concat([Buffer.from([3, 1, 1]), Buffer.alloc(32, 0xab)]);
+    const msg = parseMessage(reply(buildQuery('_25._tcp.mx.example.com', RRTYPE.TLSA), [
+      answer('_25._tcp.mx.example.com', RRTYPE.TLSA, rdata),
+    ]));
+
+    expect(recordsOfType(msg.answers, 'TLSA')[0]).toEqual({
+      type: 'TLSA',
+      usage: 3,
+      selector: 1,
+      matchingType: 1,
+      certificateData: 'ab'.repeat(32),
+    });
+  });
+
+  it('formats AAAA addresses', () => {
+    const rdata = Buffer.from('20010db8000000000000000000000001', 'hex');
+    const msg = parseMessage(reply(buildQuery('example.com', RRTYPE.AAAA), [answer('example.com', RRTYPE.AAAA, rdata)]));
+    expect(recordsOfType(msg.answers, 'AAAA')[0].address).toBe('2001:db8::1');
+  });
+
+  it('names RR types', () => {
+    expect(rrTypeName(48)).toBe('DNSKEY');
+    expect(rrTypeName(65280)).toBe('TYPE65280');
+  });
+});
+
+describe('queryDns against a local stub server', () => {
+  let udp: dgram.Socket;
+  let tcp: net.Server;
+  let port: number;
+  let udpHandler: (query: Buffer) => Buffer | null;
+  let tcpHandler: (query: Buffer) => Buffer;
+
+  beforeEach(async () => {
+    udpHandler = () => null;
+    tcpHandler = (query) => reply(query, []);
+
+    udp = dgram.createSocket('udp4');
+    udp.on('message', (msg, rinfo) => {
+      const response = udpHandler(msg);
+      if (response) udp.send(response, rinfo.port, rinfo.address);
+    });
+    await new Promise<void>(resolve => udp.bind(0, '127.0.0.1', resolve));
+    port = (udp.address() as AddressInfo).port;
+
+    tcp = net.createServer((socket) => {
+      socket.on('data', (data) => {
+        const response = tcpHandler(data.subarray(2, 2 + data.readUInt16BE(0)));
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(response.length, 0);
+        socket.end(Buffer.concat([length, response]));
+      });
+    });
+    await new Promise<void>(resolve => tcp.listen(port, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    udp.close();
+    await new Promise(resolve => tcp.close(resolve));
+  });
+
+  it('queries over UDP and reports the AD bit', async () => {
+    udpHandler = (query) => reply(query, [answer('example.com', RRTYPE.DS, DS_RDATA)], {
+      flags: { qr: true, aa: false, tc: false, rd: true, ra: true, ad: true, cd: false },
+    });
+
+    const msg = await queryDns('example.com', RRTYPE.DS, { server: '127.0.0.1', port });
+
+    expect(msg.flags.ad).toBe(true);
+    expect(recordsOfType(msg.answers, 'DS')).toHaveLength(1);
+  });
+
+  it('falls back to TCP when the UDP response is truncated', async () => {
+    udpHandler = (query) => reply(query, [], {
+      flags: { qr: true, aa: false, tc: true, rd: true, ra: true, ad: false, cd: false },
+    });
+    tcpHandler = (query) => reply(query, [answer('example.com', RRTYPE.DNSKEY, DNSKEY_RDATA)]);
+
+    const msg = await queryDns('example.com', RRTYPE.DNSKEY, { server: '127.0.0.1', port });
+
+    expect(msg.flags.tc).toBe(false);
+    expect(recordsOfType(msg.answers, 'DNSKEY')).toHaveLength(1);
+  });
+
+  it('can query over TCP directly', async () => {
+    tcpHandler = (query) => reply(query, [answer('example.com', RRTYPE.DS, DS_RDATA)]);
+
+    const msg = await queryDns('example.com', RRTYPE.DS, { server: '127.0.0.1', port, tcp: true });
+
+    expect(recordsOfType(msg.answers, 'DS')).toHaveLength(1);
+  });
+
+  it('returns non-NOERROR responses to the caller', async () => {
+    udpHandler = (query) => reply(query, [], { rcode: 2 });
+
+    const msg = await queryDns('example.com', RRTYPE.DS, { server: '127.0.0.1', port });
+
+    expect(rcodeName(msg.rcode)).toBe('SERVFAIL');
+  });
+
+  it('times out when the server does not answer', async () => {
+    await expect(queryDns('example.com', RRTYPE.DS, { server: '127.0.0.1', port, timeout: 100 }))
+      .rejects.toThrow(/timed out/);
+  });
+});
@@ -0,0 +1,697 @@
+/**
+ * DNS wire-protocol client
+ *
+ * Minimal in-process resolver client (RFC 1035) used where node:dns cannot
+ * help: DNSSEC record types (DS, DNSKEY, RRSIG, NSEC, NSEC3), the AD bit and
+ * EDNS0 with the DO bit (RFC 6891 / RFC 3225). Queries go over UDP and are
+ * retried over TCP when the response is truncated.
+ */
+
+import crypto from 'node:crypto';
+import dgram from 'node:dgram';
+import net from 'node:net';
+import { DEFAULT_DNS_TIMEOUT_MS, DNS_EDNS_UDP_SIZE } from '../constants.js';
+
+// Resource record types
+export const RRTYPE = {
+  A: 1,
+  NS: 2,
+  CNAME: 5,
+  SOA: 6,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28,
+  OPT: 41,
+  DS: 43,
+  RRSIG: 46,
+  NSEC: 47,
+  DNSKEY: 48,
+  NSEC3: 50,
+  NSEC3PARAM: 51,
+  TLSA: 52,
+  CAA: 257,
+} as const;
+
+export type RRTypeName = keyof typeof RRTYPE;
+
+// Response codes
+export const RCODE: Record<number, string> = {
+  0: 'NOERROR',
+  1: 'FORMERR',
+  2: 'SERVFAIL',
+  3: 'NXDOMAIN',
+  4: 'NOTIMP',
+  5: 'REFUSED',
+};
+
+const CLASS_IN = 1;
+const EDNS_DO_BIT = 0x8000;
+const MAX_POINTER_JUMPS = 64;
+
+export interface DSData {
+  type: 'DS';
+  keyTag: number;
+  algorithm: number;
+  digestType: number;
+  digest: string; // hex, uppercase
+}
+
+export interface DNSKEYData {
+  type: 'DNSKEY';
+  flags: number;
+  protocol: number;
+  algorithm: number;
+  publicKey: string; // base64
+}
+
+export interface RRSIGData {
+  type: 'RRSIG';
+  typeCovered: number;
+  algorithm: number;
+  labels: number;
+  originalTtl: number;
+  expiration: number; // seconds since epoch
+  inception: number;  // seconds since epoch
+  keyTag: number;
+  signerName: string;
+  signature: string; // base64
+}
+
+export interface NSECData {
+  type: 'NSEC';
+  nextDomain: string;
+  types: number[];
+}
+
+export interface NSEC3Data {
+  type: 'NSEC3';
+  hashAlgorithm: number;
+  flags: number;
+  iterations: number;
+  salt: string; // hex, empty when no salt
+  nextHashedOwner: string; // base32hex, lowercase
+  types: number[];
+}
+
+export interface TLSAData {
+  type: 'TLSA';
+  usage: number;
+  selector: number;
+  matchingType: number;
+  certificateData: string; // hex, lowercase
+}
+
+export interface AddressData {
+  type: 'A' | 'AAAA';
+  address: string;
+}
+
+export interface NameData {
+  type: 'NS' | 'CNAME';
+  target: string;
+}
+
+export interface MXData {
+  type: 'MX';
+  priority: number;
+  exchange: string;
+}
+
+export interface TXTData {
+  type: 'TXT';
+  strings: string[];
+}
+
+export type RecordData =
+  | DSData
+  | DNSKEYData
+  | RRSIGData
+  | NSECData
+  | NSEC3Data
+  | TLSAData
+  | AddressData
+  | NameData
+  | MXData
+  | TXTData;
+
+export interface DnsRecord {
+  name: string;
+  type: number;
+  class: number;
+  ttl: number;
+  /** RDATA with any embedded names expanded (no compression pointers) */
+  rdata: Buffer;
+  /** Parsed RDATA for supported types */
+  data?: RecordData;
+}
+
+export interface DnsQuestion {
+  name: string;
+  type: number;
+  class: number;
+}
+
+export interface DnsFlags {
+  qr: boolean;
+  aa: boolean;
+  tc: boolean;
+  rd: boolean;
+  ra: boolean;
+  ad: boolean;
+  cd: boolean;
+}
+
+export interface DnsMessage {
+  id: number;
+  flags: DnsFlags;
+  rcode: number;
+  questions: DnsQuestion[];
+  answers: DnsRecord[];
+  authorities: DnsRecord[];
+  additionals: DnsRecord[];
+  edns?: {
+    udpSize: number;
+    dnssecOk: boolean;
+  };
+}
+
+export interface DnsQueryOptions {
+  server?: string;       // Resolver IP (default 8.8.8.8)
+  port?: number;         // Resolver port (default 53)
+  timeout?: number;      // Per-transport timeout in ms
+  dnssecOk?: boolean;    // Set the EDNS0 DO bit (default true)
+  checkingDisabled?: boolean; // Set the CD bit
+  tcp?: boolean;         // Skip UDP and query over TCP
+}
+
+// ============================================
+// Encoding
+// ============================================
+
+/**
+ * Encode a domain name in uncompressed wire format
+ */
+export function encodeName(name: string): Buffer {
+  const labels = name.replace(/\.$/, '').split('.').filter(l => l.length > 0);
+  const parts: Buffer[] = [];
+  for (const label of labels) {
+    const bytes = Buffer.from(label, 'ascii');
+    if (bytes.length > 63) {
+      throw new Error(`DNS label too long: ${label}`);
+    }
+    parts.push(Buffer.from([bytes.length]), bytes);
+  }
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+}
+
+function encodeRecord(record: Omit<DnsRecord, 'data'>): Buffer {
+  const header = Buffer.alloc(10);
+  header.writeUInt16BE(record.type, 0);
+  header.writeUInt16BE(record.class, 2);
+  header.writeUInt32BE(record.ttl >>> 0, 4);
+  header.writeUInt16BE(record.rdata.length, 8);
+  return Buffer.concat([encodeName(record.name), header, record.rdata]);
+}
+
+/**
+ * Encode a DNS message (no name compression)
+ */
+export function encodeMessage(message: Omit<DnsMessage, 'edns'> & { edns?: DnsMessage['edns'] }): Buffer {
+  const { flags } = message;
+  let flagBits = (message.rcode & 0x0f);
+  if (flags.qr) flagBits |= 0x8000;
+  if (flags.aa) flagBits |= 0x0400;
+  if (flags.tc) flagBits |= 0x0200;
+  if (flags.rd) flagBits |= 0x0100;
+  if (flags.ra) flagBits |= 0x0080;
+  if (flags.ad) flagBits |= 0x0020;
+  if (flags.cd) flagBits |= 0x0010;
+
+  const additionals = [...message.additionals];
+  if (message.edns) {
+    additionals.push({
+      name: '',
+      type: RRTYPE.OPT,
+      class: message.edns.udpSize,
+      ttl: message.edns.dnssecOk ? EDNS_DO_BIT : 0,
+      rdata: Buffer.alloc(0),
+    });
+  }
+
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(message.id, 0);
+  header.writeUInt16BE(flagBits, 2);
+  header.writeUInt16BE(message.questions.length, 4);
+  header.writeUInt16BE(message.answers.length, 6);
+  header.writeUInt16BE(message.authorities.length, 8);
+  header.writeUInt16BE(additionals.length, 10);
+
+  const questions = message.questions.map(q => {
+    const tail = Buffer.alloc(4);
+    tail.writeUInt16BE(q.type, 0);
+    tail.writeUInt16BE(q.class, 2);
+    return Buffer.concat([encodeName(q.name), tail]);
+  });
+
+  return Buffer.concat([
+    header,
+    ...questions,
+    ...message.answers.map(encodeRecord),
+    ...message.authorities.map(encodeRecord),
+    ...additionals.map(encodeRecord),
+  ]);
+}
+
+/**
+ * Build a recursive query with EDNS0
+ */
+export function buildQuery(
+  name: string,
+  type: number,
+  options: { id?: number; dnssecOk?: boolean; checkingDisabled?: boolean } = {}
+): Buffer {
+  return encodeMessage({
+    id: options.id ?? crypto.randomBytes(2).readUInt16BE(0),
+    flags: { qr: false, aa: false, tc: false, rd: true, ra: false, ad: true, cd: options.checkingDisabled ?? false },
+    rcode: 0,
+    questions: [{ name, type, class: CLASS_IN }],
+    answers: [],
+    authorities: [],
+    additionals: [],
+    edns: { udpSize: DNS_EDNS_UDP_SIZE, dnssecOk: options.dnssecOk ?? true },
+  });
+}
+
+// ============================================
+// Decoding
+// ============================================
+
+/**
+ * Read a (possibly compressed) domain name starting at offset
+ */
+function readName(buf: Buffer, offset: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let pos = offset;
+  let next = -1;
+  let jumps = 0;
+
+  for (;;) {
+    if (pos >= buf.length) {
+      throw new Error('Malformed DNS message: name exceeds buffer');
+    }
+    const len = buf[pos];
+    if ((len & 0xc0) === 0xc0) {
+      if (++jumps > MAX_POINTER_JUMPS) {
+        throw new Error('Malformed DNS message: compression loop');
+      }
+      if (next < 0) next = pos + 2;
+      pos = ((len & 0x3f) << 8) | buf[pos + 1];
+      continue;
+    }
+    if (len === 0) {
+      if (next < 0) next = pos + 1;
+      break;
+    }
+    labels.push(buf.toString('ascii', pos + 1, pos + 1 + len));
+    pos += 1 + len;
+  }
+
+  return { name: labels.join('.'), next };
+}
+
+/**
+ * Decode an RR type bitmap (NSEC/NSEC3)
+ */
+function readTypeBitmap(buf: Buffer, start: number, end: number): number[] {
+  const types: number[] = [];
+  let pos = start;
+  while (pos + 2 <= end) {
+    const window = buf[pos];
+    const length = buf[pos + 1];
+    for (let i = 0; i < length; i++) {
+      const byte = buf[pos + 2 + i];
+      for (let bit = 0; bit < 8; bit++) {
+        if (byte & (0x80 >> bit)) {
+          types.push(window * 256 + i * 8 + bit);
+        }
+      }
+    }
+    pos += 2 + length;
+  }
+  return types;
+}
+
+const BASE32HEX = '0123456789abcdefghijklmnopqrstuv';
+
+function toBase32Hex(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32HEX[(value >>> (bits - 5)) & 0x1f];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    out += BASE32HEX[(value << (5 - bits)) & 0x1f];
+  }
+  return out;
+}
+
+function formatIPv6(bytes: Buffer): string {
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(bytes.readUInt16BE(i).toString(16));
+  }
+
+  // Collapse the longest run of two or more zero groups (RFC 5952)
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < groups.length; i++) {
+    let j = i;
+    while (j < groups.length && groups[j] === '0') j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+  }
+  if (bestStart < 0) {
+    return groups.join(':');
+  }
+  const head = groups.slice(0, bestStart).join(':');
+  const tail = groups.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Parse RDATA for supported types. Returns the parsed data and the RDATA
+ * with embedded names expanded, so it can be used for canonical signing.
+ */
+function parseRdata(buf: Buffer, type: number, start: number, length: number): { data?: RecordData; rdata: Buffer } {
+  const end = start + length;
+  const raw = buf.subarray(start, end);
+
+  switch (type) {
+    case RRTYPE.A:
+      return { data: { type: 'A', address: [...raw].join('.') }, rdata: raw };
+    case RRTYPE.AAAA:
+      return { data: { type: 'AAAA', address: formatIPv6(raw) }, rdata: raw };
+    case RRTYPE.NS:
+    case RRTYPE.CNAME: {
+      const { name } = readName(buf, start);
+      return {
+        data: { type: type === RRTYPE.NS ? 'NS' : 'CNAME', target: name },
+        rdata: encodeName(name),
+      };
+    }
+    case RRTYPE.MX: {
+      const priority = buf.readUInt16BE(start);
+      const { name } = readName(buf, start + 2);
+      return {
+        data: { type: 'MX', priority, exchange: name },
+        rdata: Buffer.concat([raw.subarray(0, 2), encodeName(name)]),
+      };
+    }
+    case RRTYPE.TXT: {
+      const strings: string[] = [];
+      let pos = start;
+      while (pos < end) {
+        const len = buf[pos];
+        strings.push(buf.toString('utf8', pos + 1, pos + 1 + len));
+        pos += 1 + len;
+      }
+      return { data: { type: 'TXT', strings }, rdata: raw };
+    }
+    case RRTYPE.DS:
+      return {
+        data: {
+          type: 'DS',
+          keyTag: buf.readUInt16BE(start),
+          algorithm: buf[start + 2],
+          digestType: buf[start + 3],
+          digest: raw.subarray(4).toString('hex').toUpperCase(),
+        },
+        rdata: raw,
+      };
+    case RRTYPE.DNSKEY:
+      return {
+        data: {
+          type: 'DNSKEY',
+          flags: buf.readUInt16BE(start),
+          protocol: buf[start + 2],
+          algorithm: buf[start + 3],
+          publicKey: raw.subarray(4).toString('base64'),
+        },
+        rdata: raw,
+      };
+    case RRTYPE.RRSIG: {
+      const { name: signerName, next } = readName(buf, start + 18);
+      return {
+        data: {
+          type: 'RRSIG',
+          typeCovered: buf.readUInt16BE(start),
+          algorithm: buf[start + 2],
+          labels: buf[start + 3],
+          originalTtl: buf.readUInt32BE(start + 4),
+          expiration: buf.readUInt32BE(start + 8),
+          inception: buf.readUInt32BE(start + 12),
+          keyTag: buf.readUInt16BE(start + 16),
+          signerName,
+          signature: buf.subarray(next, end).toString('base64'),
+        },
+        rdata: Buffer.concat([raw.subarray(0, 18), encodeName(signerName), buf.subarray(next, end)]),
+      };
+    }
+    case RRTYPE.NSEC: {
+      const { name: nextDomain, next } = readName(buf, start);
+      return {
+        data: { type: 'NSEC', nextDomain, types: readTypeBitmap(buf, next, end) },
+        rdata: Buffer.concat([encodeName(nextDomain), buf.subarray(next, end)]),
+      };
+    }
+    case RRTYPE.NSEC3: {
+      const saltLength = buf[start + 4];
+      const saltEnd = start + 5 + saltLength;
+      const hashLength = buf[saltEnd];
+      const hashEnd = saltEnd + 1 + hashLength;
+      return {
+        data: {
+          type: 'NSEC3',
+          hashAlgorithm: buf[start],
+          flags: buf[start + 1],
+          iterations: buf.readUInt16BE(start + 2),
+          salt: buf.subarray(start + 5, saltEnd).toString('hex'),
+          nextHashedOwner: toBase32Hex(buf.subarray(saltEnd + 1, hashEnd)),
+          types: readTypeBitmap(buf, hashEnd, end),
+        },
+        rdata: raw,
+      };
+    }
+    case RRTYPE.TLSA:
+      return {
+        data: {
+          type: 'TLSA',
+          usage: buf[start],
+          selector: buf[start + 1],
+          matchingType: buf[start + 2],
+          certificateData: raw.subarray(3).toString('hex'),
+        },
+        rdata: raw,
+      };
+    default:
+      return { rdata: raw };
+  }
+}
+
+/**
+ * Decode a DNS message
+ */
+export function parseMessage(buf: Buffer): DnsMessage {
+  if (buf.length < 12) {
+    throw new Error('Malformed DNS message: truncated header');
+  }
+
+  const id = buf.readUInt16BE(0);
+  const flagBits = buf.readUInt16BE(2);
+  const counts = [4, 6, 8, 10].map(o => buf.readUInt16BE(o));
+  let pos = 12;
+
+  const questions: DnsQuestion[] = [];
+  for (let i = 0; i < counts[0]; i++) {
+    const { name, next } = readName(buf, pos);
+    questions.push({ name, type: buf.readUInt16BE(next), class: buf.readUInt16BE(next + 2) });
+    pos = next + 4;
+  }
+
+  const readSection = (count: number): DnsRecord[] => {
+    const records: DnsRecord[] = [];
+    for (let i = 0; i < count; i++) {
+      const { name, next } = readName(buf, pos);
+      if (next + 10 > buf.length) {
+        throw new Error('Malformed DNS message: truncated record');
+      }
+      const type = buf.readUInt16BE(next);
+      const cls = buf.readUInt16BE(next + 2);
+      const ttl = buf.readUInt32BE(next + 4);
+      const rdlength = buf.readUInt16BE(next + 8);
+      const start = next + 10;
+      if (start + rdlength > buf.length) {
+        throw new Error('Malformed DNS message: truncated rdata');
+      }
+      const { data, rdata } = parseRdata(buf, type, start, rdlength);
+      records.push({ name, type, class: cls, ttl, rdata, ...(data ? { data } : {}) });
+      pos = start + rdlength;
+    }
+    return records;
+  };
+
+  const answers = readSection(counts[1]);
+  const authorities = readSection(counts[2]);
+  const allAdditionals = readSection(counts[3]);
+
+  const opt = allAdditionals.find(r => r.type === RRTYPE.OPT);
+  const additionals = allAdditionals.filter(r => r.type !== RRTYPE.OPT);
+  // Extended RCODE lives in the top 8 bits of the OPT TTL
+  const extendedRcode = opt ? (opt.ttl >>> 24) << 4 : 0;
+
+  return {
+    id,
+    flags: {
+      qr: (flagBits & 0x8000) !== 0,
+      aa: (flagBits & 0x0400) !== 0,
+      tc: (flagBits & 0x0200) !== 0,
+      rd: (flagBits & 0x0100) !== 0,
+      ra: (flagBits & 0x0080) !== 0,
+      ad: (flagBits & 0x0020) !== 0,
+      cd: (flagBits & 0x0010) !== 0,
+    },
+    rcode: extendedRcode | (flagBits & 0x000f),
+    questions,
+    answers,
+    authorities,
+    additionals,
+    ...(opt ? { edns: { udpSize: opt.class, dnssecOk: (opt.ttl & EDNS_DO_BIT) !== 0 } } : {}),
+  };
+}
+
+/**
+ * Parsed data of all records of the given type in a section
+ */
+export function recordsOfType<T extends RecordData['type']>(
+  records: DnsRecord[],
+  type: T
+): Array<Extract<RecordData, { type: T }>> {
+  return records
+    .map(r => r.data)
+    .filter((d): d is Extract<RecordData, { type: T }> => d?.type === type);
+}
+
+/**
+ * Name of an RR type number (e.g. 48 -> DNSKEY)
+ */
+export function rrTypeName(type: number): string {
+  const entry = Object.entries(RRTYPE).find(([, value]) => value === type);
+  return entry ? entry[0] : `TYPE${type}`;
+}
+
+/**
+ * Name of a response code (e.g. 2 -> SERVFAIL)
+ */
+export function rcodeName(rcode: number): string {
+  return RCODE[rcode] ?? `RCODE${rcode}`;
+}
+
+// ============================================
+// Transport
+// ============================================
+
+function sendUdp(query: Buffer, server: string, port: number, timeout: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket(net.isIPv6(server) ? 'udp6' : 'udp4');
+    const queryId = query.readUInt16BE(0);
+
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error(`DNS query timed out (${server})`));
+    }, timeout);
+
+    socket.on('message', (msg) => {
+      // Ignore stray datagrams that do not answer our query
+      if (msg.length < 2 || msg.readUInt16BE(0) !== queryId) return;
+      clearTimeout(timer);
+      socket.close();
+      resolve(msg);
+    });
+    socket.on('error', (err) => {
+      clearTimeout(timer);
+      socket.close();
+      reject(err);
+    });
+
+    socket.send(query, port, server);
+  });
+}
+
+function sendTcp(query: Buffer, server: string, port: number, timeout: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: server, port });
+    const chunks: Buffer[] = [];
+    let received = 0;
+
+    socket.setTimeout(timeout, () => {
+      socket.destroy();
+      reject(new Error(`DNS query timed out (${server}, TCP)`));
+    });
+
+    socket.on('connect', () => {
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(query.length, 0);
+      socket.write(Buffer.concat([length, query]));
+    });
+    socket.on('data', (chunk) => {
+      chunks.push(chunk);
+      received += chunk.length;
+      const data = Buffer.concat(chunks, received);
+      if (data.length >= 2 && data.length >= 2 + data.readUInt16BE(0)) {
+        socket.destroy();
+        resolve(data.subarray(2, 2 + data.readUInt16BE(0)));
+      }
+    });
+    socket.on('error', (err) => {
+      socket.destroy();
+      reject(err);
+    });
+    socket.on('close', () => {
+      reject(new Error(`DNS connection closed before a full response (${server}, TCP)`));
+    });
+  });
+}
+
+/**
+ * Query a recursive resolver over UDP, falling back to TCP on truncation.
+ * Resolves with the full response regardless of RCODE; callers decide how
+ * to treat NXDOMAIN/SERVFAIL.
+ */
+export async function queryDns(name: string, type: number, options: DnsQueryOptions = {}): Promise<DnsMessage> {
+  const server = options.server || '8.8.8.8';
+  const port = options.port ?? 53;
+  const timeout = options.timeout ?? DEFAULT_DNS_TIMEOUT_MS;
+  const query = buildQuery(name, type, {
+    dnssecOk: options.dnssecOk,
+    checkingDisabled: options.checkingDisabled,
+  });
+
+  let response = options.tcp ? undefined : parseMessage(await sendUdp(query, server, port, timeout));
+  if (!response || response.flags.tc) {
+    response = parseMessage(await sendTcp(query, server, port, timeout));
+  }
+
+  if (response.id !== query.readUInt16BE(0)) {
+    throw new Error('DNS response ID does not match query');
+  }
+  return response;
+}
@@ -5,6 +5,11 @@ import {
   filterRecordsByPrefix,
   safeResolveTxt,
   safeResolveMx,
+  safeResolveCaa,
+  safeNameExists,
+  safeResolve4,
+  safeResolvePtr,
+  safeResolve6,
   setDnsResolver,
   clearDnsCache,
   cachedResolveTxt,
@@ -143,6 +148,84 @@ describe('DNS utilities', () => {
     });
   });
 
+  describe('safeResolveCaa', () => {
+    it('should normalize records to flags, tag and value', async () => {
+      vi.spyOn(dns.default, 'resolveCaa').mockResolvedValue([
+        { critical: 0, issue: 'letsencrypt.org' },
+        { critical: 128, iodef: 'mailto:security@example.com' },
+      ]);
+
+      const result = await safeResolveCaa('example.com');
+
+      expect(result).toEqual([
+        { flags: 0, tag: 'issue', value: 'letsencrypt.org' },
+        { flags: 128, tag: 'iodef', value: 'mailto:security@example.com' },
+      ]);
+    });
+
+    it('should return empty array on ENODATA', async () => {
+      const error = new Error('ENODATA') as NodeJS.ErrnoException;
+      error.code = 'ENODATA';
+      vi.spyOn(dns.default, 'resolveCaa').mockRejectedValue(error);
+
+      expect(await safeResolveCaa('example.com')).toEqual([]);
+    });
+  });
+
+  describe('safeNameExists', () => {
+    const dnsError = (code: string) => Object.assign(new Error(code), { code });
+
+    it('should treat NODATA as an existing name and NXDOMAIN as missing', async () => {
+      const resolveTxt = vi.spyOn(dns.default, 'resolveTxt');
+
+      resolveTxt.mockRejectedValueOnce(dnsError('ENODATA'));
+      expect(await safeNameExists('_domainkey.example.com')).toBe(true);
+
+      resolveTxt.mockRejectedValueOnce(dnsError('ENOTFOUND'));
+      expect(await safeNameExists('_domainkey.example.com')).toBe(false);
+    });
+
+    it('should throw temporary failures', async () => {
+      vi.spyOn(dns.default, 'resolveTxt').mockRejectedValueOnce(dnsError('ESERVFAIL'));
+
+      await expect(safeNameExists('example.com')).rejects.toThrow('ESERVFAIL');
+    });
+  });
+
+  describe('safeResolve4/safeResolve6', () => {
+    it('should return addresses', async () => {
+      vi.spyOn(dns.default, 'resolve4').mockResolvedValue(['192.0.2.1']);
+      vi.spyOn(dns.default, 'resolve6').mockResolvedValue(['2001:db8::1']);
+
+      expect(await safeResolve4('example.com')).toEqual(['192.0.2.1']);
+      expect(await safeResolve6('example.com')).toEqual(['2001:db8::1']);
+    });
+
+    it('should return empty array on ENOTFOUND', async () => {
+      const error = new Error('ENOTFOUND') as NodeJS.ErrnoException;
+      error.code = 'ENOTFOUND';
+      vi.spyOn(dns.default, 'resolve4').mockRejectedValue(error);
+
+      expect(await safeResolve4('missing.example')).toEqual([]);
+    });
+  });
+
+  describe('safeResolvePtr', () => {
+    it('should return host names', async () => {
+      vi.spyOn(dns.default, 'reverse').mockResolvedValue(['mail.example.com']);
+
+      expect(await safeResolvePtr('192.0.2.1')).toEqual(['mail.example.com']);
+    });
+
+    it('should return empty array on ENOTFOUND', async () => {
+      const error = new Error('ENOTFOUND') as NodeJS.ErrnoException;
+      error.code = 'ENOTFOUND';
+      vi.spyOn(dns.default, 'reverse').mockRejectedValue(error);
+
+      expect(await safeResolvePtr('192.0.2.1')).toEqual([]);
+    });
+  });
+
   describe('setDnsResolver', () => {
     it('should set custom resolver', () => {
       // Just verify it doesn't throw
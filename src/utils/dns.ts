@@ -4,6 +4,8 @@
  */
 
 import dns from 'node:dns/promises';
+import { queryDns } from './dns-wire.js';
+import type { DnsMessage, DnsQueryOptions } from './dns-wire.js';
 
 // Global resolver instance (can be configured)
 let customResolver: string | undefined;
@@ -49,6 +51,20 @@ export async function resolveTxtRecords(domain: string): Promise<string[]> {
   return txtRecords.map(r => r.join(''));
 }
 
+/**
+ * Safe TXT resolution keeping each record's character-strings separate
+ */
+export async function safeResolveTxtStrings(domain: string): Promise<string[][]> {
+  try {
+    return await getResolver().resolveTxt(domain);
+  } catch (err) {
+    if (isDNSNotFoundError(err)) {
+      return [];
+    }
+    throw err;
+  }
+}
+
 /**
  * Filter TXT records by prefix
  */
@@ -82,6 +98,23 @@ export async function safeResolveTxt(domain: string): Promise<string[]> {
   }
 }
 
+/**
+ * Whether a name exists (RFC 8020): false on NXDOMAIN, true when it has
+ * records or is an empty non-terminal (NODATA), e.g. _domainkey.<domain>
+ * when only selectors below it are published
+ */
+export async function safeNameExists(domain: string): Promise<boolean> {
+  try {
+    await getResolver().resolveTxt(domain);
+    return true;
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === 'ENODATA') return true;
+    if (code === 'ENOTFOUND') return false;
+    throw err;
+  }
+}
+
 /**
  * MX record type
  */
@@ -106,6 +139,74 @@ export async function safeResolveMx(domain: string): Promise<MxRecord[]> {
   }
 }
 
+/**
+ * Safe A/AAAA resolution with not-found handling
+ */
+export async function safeResolve4(domain: string): Promise<string[]> {
+  try {
+    return await getResolver().resolve4(domain);
+  } catch (err) {
+    if (isDNSNotFoundError(err)) {
+      return [];
+    }
+    throw err;
+  }
+}
+
+export async function safeResolve6(domain: string): Promise<string[]> {
+  try {
+    return await getResolver().resolve6(domain);
+  } catch (err) {
+    if (isDNSNotFoundError(err)) {
+      return [];
+    }
+    throw err;
+  }
+}
+
+/**
+ * Safe reverse (PTR) resolution with not-found handling
+ */
+export async function safeResolvePtr(ip: string): Promise<string[]> {
+  try {
+    return await getResolver().reverse(ip);
+  } catch (err) {
+    if (isDNSNotFoundError(err)) {
+      return [];
+    }
+    throw err;
+  }
+}
+
+/**
+ * CAA record type (flags plus a single tag/value pair)
+ */
+export interface CaaRecord {
+  flags: number;
+  tag: string;
+  value: string;
+}
+
+/**
+ * Safe CAA resolution with not-found handling.
+ * Node reports each record as { critical, <tag>: value }; normalize to tag/value.
+ */
+export async function safeResolveCaa(domain: string): Promise<CaaRecord[]> {
+  try {
+    const resolver = getResolver();
+    const result = await resolver.resolveCaa(domain);
+    return result.map(record => {
+      const [tag, value] = Object.entries(record).find(([key]) => key !== 'critical') ?? ['', ''];
+      return { flags: record.critical, tag: tag.toLowerCase(), value: String(value) };
+    });
+  } catch (err) {
+    if (isDNSNotFoundError(err)) {
+      return [];
+    }
+    throw err;
+  }
+}
+
 /**
  * Simple in-memory DNS cache for deduplication within a single domain scan.
  * TXT and MX records for the same domain are often queried multiple times
@@ -136,6 +237,14 @@ export async function cachedResolveTxt(domain: string): Promise<string[]> {
   return cachedResolve(`txt:${domain}`, () => safeResolveTxt(domain));
 }
 
+export async function cachedResolveTxtStrings(domain: string): Promise<string[][]> {
+  return cachedResolve(`txt-strings:${domain}`, () => safeResolveTxtStrings(domain));
+}
+
+export async function cachedNameExists(domain: string): Promise<boolean> {
+  return cachedResolve(`exists:${domain}`, () => safeNameExists(domain));
+}
+
 /**
  * Cached MX record resolution
  */
@@ -143,4 +252,35 @@ export async function cachedResolveMx(domain: string): Promise<MxRecord[]> {
   return cachedResolve(`mx:${domain}`, () => safeResolveMx(domain));
 }
 
+/**
+ * Cached A/AAAA record resolution
+ */
+export async function cachedResolveA(domain: string): Promise<string[]> {
+  return cachedResolve(`a:${domain}`, () => safeResolve4(domain));
+}
+
+export async function cachedResolveAaaa(domain: string): Promise<string[]> {
+  return cachedResolve(`aaaa:${domain}`, () => safeResolve6(domain));
+}
+
+export async function cachedResolvePtr(ip: string): Promise<string[]> {
+  return cachedResolve(`ptr:${ip}`, () => safeResolvePtr(ip));
+}
+
+/**
+ * Cached CAA record resolution
+ */
+export async function cachedResolveCaa(domain: string): Promise<CaaRecord[]> {
+  return cachedResolve(`caa:${domain}`, () => safeResolveCaa(domain));
+}
+
+/**
+ * Cached wire-protocol query (DNSSEC record types).
+ * Parent and root zone keys are shared by every domain in a scan.
+ */
+export async function cachedQueryDns(name: string, type: number, options: DnsQueryOptions = {}): Promise<DnsMessage> {
+  const key = `wire:${options.server ?? ''}:${options.checkingDisabled ? 'cd' : ''}:${type}:${name.toLowerCase()}`;
+  return cachedResolve(key, () => queryDns(name, type, options));
+}
+
 export { dns };
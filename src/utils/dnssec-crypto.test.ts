@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'node:crypto';
+import {
+  computeKeyTag,
+  computeDSDigest,
+  dsMatchesKey,
+  signedData,
+  verifyRRSIG,
+  isSupportedAlgorithm,
+  ROOT_TRUST_ANCHORS,
+} from './dnssec-crypto.js';
+import { encodeName, RRTYPE } from './dns-wire.js';
+import type { DnsRecord, DNSKEYData, RRSIGData } from './dns-wire.js';
+
+// Root zone KSK-2017 (key tag 20326)
+const ROOT_KSK: DNSKEYData = {
+  type: 'DNSKEY',
+  flags: 257,
+  protocol: 3,
+  algorithm: 8,
+  publicKey: 'AwEAAaz/tAm8yTn4Mfeh5eyI96WSVexTBAvkMgJzkKTOiW1vkIbzxeF3+/4RgWOq7HrxRixHlFlExOLAJr5emLvN7SWXgnLh4+B5xQlNVz8Og8kvArMtNROxVQuCaSnIDdD5LKyWbRd2n9WGe2R8PzgCmr3EgVLrjyBxWezF0jLHwVN8efS3rCj/EWgvIWgb9tarpVUDK/b58Da+sqqls3eNbuv7pr+eoZG+SrDK6nWeL3c6H5Apxz7LjVc1uTIdsIXxuOLYA4/ilBmSVIzuDWfdRUfhHdY6+cn8HFRm+2hM8AnXGXws9555KrUB5qihylGa8subX2Nn6UwNR1AkUTV74bU=',
+};
+
+function mx(name: string, priority: number, exchange: string): DnsRecord {
+  const rdata = Buffer.concat([Buffer.from([0, priority]), encodeName(exchange)]);
+  return { name, type: RRTYPE.MX, class: 1, ttl: 300, rdata, data: { type: 'MX', priority, exchange } };
+}
+
+function sigFor(algorithm: number, keyTag: number, overrides: Partial<RRSIGData> = {}): RRSIGData {
+  return {
+    type: 'RRSIG',
+    typeCovered: RRTYPE.MX,
+    algorithm,
+    labels: 2,
+    originalTtl: 3600,
+    expiration: 1900000000,
+    inception: 1700000000,
+    keyTag,
+    signerName: 'example.com',
+    signature: '',
+    ...overrides,
+  };
+}
+
+/**
+ * Generate a key pair and its DNSKEY representation
+ */
+function generateKey(algorithm: 8 | 13 | 14 | 15): { key: DNSKEYData; sign: (data: Buffer) => Buffer } {
+  if (algorithm === 8) {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+    const jwk = publicKey.export({ format: 'jwk' });
+    const e = Buffer.from(jwk.e!, 'base64url');
+    const n = Buffer.from(jwk.n!, 'base64url');
+    return {
+      key: { type: 'DNSKEY', flags: 256, protocol: 3, algorithm, publicKey: Buffer.concat([Buffer.from([e.length]), e, n]).toString('base64') },
+      sign: data => crypto.sign('sha256', data, privateKey),
+    };
+  }
+  if (algorithm === 15) {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const x = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url');
+    return {
+      key: { type: 'DNSKEY', flags: 256, protocol: 3, algorithm, publicKey: x.toString('base64') },
+      sign: data => crypto.sign(null, data, privateKey),
+    };
+  }
+  const curve = algorithm === 13 ? 'P-256' : 'P-384';
+  const hash = algorithm === 13 ? 'sha256' : 'sha384';
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: curve });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const raw = Buffer.concat([Buffer.from(jwk.x!, 'base64url'), Buffer.from(jwk.y!, 'base64url')]);
+  return {
+    key: { type: 'DNSKEY', flags: 256, protocol: 3, algorithm, publicKey: raw.toString('base64') },
+    sign: data => crypto.sign(hash, data, { key: privateKey, dsaEncoding: 'ieee-p1363' }),
+  };
+}
+
+describe('DNSSEC crypto', () => {
+  describe('key tags and DS digests', () => {
+    it('computes the root KSK key tag', () => {
+      expect(computeKeyTag(ROOT_KSK)).toBe(20326);
+    });
+
+    it('computes the root KSK DS digest', () => {
+      expect(computeDSDigest('', ROOT_KSK, 2)).toBe(ROOT_TRUST_ANCHORS[0].digest);
+    });
+
+    it('matches the root KSK against the IANA trust anchor', () => {
+      expect(dsMatchesKey('', ROOT_TRUST_ANCHORS[0], ROOT_KSK)).toBe(true);
+      expect(dsMatchesKey('', ROOT_TRUST_ANCHORS[1], ROOT_KSK)).toBe(false);
+    });
+
+    it('returns undefined for unsupported digest types', () => {
+      expect(computeDSDigest('', ROOT_KSK, 3)).toBeUndefined();
+    });
+  });
+
+  describe('signedData', () => {
+    it('lowercases names and sorts the RRset canonically', () => {
+      const sig = sigFor(13, 1234, { signerName: 'Example.COM' });
+      const data = signedData(sig, [
+        mx('Example.COM', 20, 'MX2.Example.com'),
+        mx('example.com', 10, 'mx1.example.com'),
+      ]);
+
+      const fixed = Buffer.alloc(18);
+      fixed.writeUInt16BE(RRTYPE.MX, 0);
+      fixed[2] = 13;
+      fixed[3] = 2;
+      fixed.writeUInt32BE(3600, 4);
+      fixed.writeUInt32BE(1900000000, 8);
+      fixed.writeUInt32BE(1700000000, 12);
+      fixed.writeUInt16BE(1234, 16);
+      const rr = (priority: number, exchange: string) => {
+        const rdata = Buffer.concat([Buffer.from([0, priority]), encodeName(exchange)]);
+        const header = Buffer.from([0, RRTYPE.MX, 0, 1, 0, 0, 0x0e, 0x10, 0, rdata.length]);
+        return Buffer.concat([encodeName('example.com'), header, rdata]);
+      };
+
+      expect(data).toEqual(Buffer.concat([
+        fixed,
+        encodeName('example.com'),
+        rr(10, 'mx1.example.com'),
+        rr(20, 'mx2.example.com'),
+      ]));
+    });
+
+    it('signs wildcard expansions as the wildcard owner', () => {
+      const sig = sigFor(13, 1);
+      const expanded = signedData(sig, [mx('foo.example.com', 10, 'mx.example.com')]);
+      const wildcard = signedData(sig, [mx('*.example.com', 10, 'mx.example.com')]);
+
+      expect(expanded).toEqual(wildcard);
+    });
+  });
+
+  describe('verifyRRSIG', () => {
+    const rrset = [mx('example.com', 10, 'mx.example.com')];
+
+    it.each([
+      [8, 'RSASHA256'],
+      [13, 'ECDSAP256SHA256'],
+      [14, 'ECDSAP384SHA384'],
+      [15, 'ED25519'],
+    ] as const)('verifies algorithm %i (%s)', (algorithm) => {
+      const { key, sign } = generateKey(algorithm);
+      const sig = sigFor(algorithm, computeKeyTag(key));
+      sig.signature = sign(signedData(sig, rrset)).toString('base64');
+
+      expect(verifyRRSIG(sig, rrset, key)).toBe(true);
+    });
+
+    it('rejects a signature over different data', () => {
+      const { key, sign } = generateKey(13);
+      const sig = sigFor(13, computeKeyTag(key));
+      sig.signature = sign(signedData(sig, rrset)).toString('base64');
+
+      expect(verifyRRSIG(sig, [mx('example.com', 10, 'evil.example.net')], key)).toBe(false);
+      expect(verifyRRSIG({ ...sig, expiration: sig.expiration + 1 }, rrset, key)).toBe(false);
+    });
+
+    it('rejects a signature from another key', () => {
+      const signer = generateKey(15);
+      const other = generateKey(15);
+      const sig = sigFor(15, computeKeyTag(signer.key));
+      sig.signature = signer.sign(signedData(sig, rrset)).toString('base64');
+
+      expect(verifyRRSIG(sig, rrset, other.key)).toBe(false);
+    });
+
+    it('returns false for unsupported algorithms', () => {
+      expect(isSupportedAlgorithm(3)).toBe(false);
+      expect(verifyRRSIG(sigFor(3, 1), rrset, { ...ROOT_KSK, algorithm: 3 })).toBe(false);
+    });
+  });
+});
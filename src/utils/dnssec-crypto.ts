@@ -0,0 +1,246 @@
+/**
+ * DNSSEC cryptographic primitives
+ *
+ * Key tags and DS digests (RFC 4034), canonical RRset form (RFC 4034 §6)
+ * and RRSIG verification with node:crypto for RSA (RFC 5702), ECDSA
+ * (RFC 6605) and EdDSA (RFC 8080).
+ */
+
+import crypto from 'node:crypto';
+import { encodeName } from './dns-wire.js';
+import type { DnsRecord, DNSKEYData, DSData, RRSIGData } from './dns-wire.js';
+
+interface AlgorithmParams {
+  hash: string | null; // null for EdDSA (hash is part of the scheme)
+  key: 'RSA' | 'EC' | 'OKP';
+  curve?: 'P-256' | 'P-384' | 'Ed25519' | 'Ed448';
+}
+
+// Signature algorithms we can verify, by DNSSEC algorithm number
+const VERIFY_ALGORITHMS: Record<number, AlgorithmParams> = {
+  5: { hash: 'sha1', key: 'RSA' },
+  7: { hash: 'sha1', key: 'RSA' },
+  8: { hash: 'sha256', key: 'RSA' },
+  10: { hash: 'sha512', key: 'RSA' },
+  13: { hash: 'sha256', key: 'EC', curve: 'P-256' },
+  14: { hash: 'sha384', key: 'EC', curve: 'P-384' },
+  15: { hash: null, key: 'OKP', curve: 'Ed25519' },
+  16: { hash: null, key: 'OKP', curve: 'Ed448' },
+};
+
+// DS digest algorithms by digest type
+const DS_DIGESTS: Record<number, string> = {
+  1: 'sha1',
+  2: 'sha256',
+  4: 'sha384',
+};
+
+/**
+ * Whether signatures with this algorithm can be verified
+ */
+export function isSupportedAlgorithm(algorithm: number): boolean {
+  return algorithm in VERIFY_ALGORITHMS;
+}
+
+/**
+ * Whether DS records with this digest type can be checked
+ */
+export function isSupportedDigestType(digestType: number): boolean {
+  return digestType in DS_DIGESTS;
+}
+
+/**
+ * Wire-format DNSKEY RDATA
+ */
+export function dnskeyRdata(key: DNSKEYData): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(key.flags, 0);
+  header[2] = key.protocol;
+  header[3] = key.algorithm;
+  return Buffer.concat([header, Buffer.from(key.publicKey, 'base64')]);
+}
+
+/**
+ * Key tag of a DNSKEY (RFC 4034 Appendix B)
+ */
+export function computeKeyTag(key: DNSKEYData): number {
+  const rdata = dnskeyRdata(key);
+  let ac = 0;
+  for (let i = 0; i < rdata.length; i++) {
+    ac += (i & 1) ? rdata[i] : rdata[i] << 8;
+  }
+  ac += (ac >> 16) & 0xffff;
+  return ac & 0xffff;
+}
+
+/**
+ * DS digest of a DNSKEY (RFC 4034 §5.1.4), hex uppercase.
+ * Returns undefined for unsupported digest types.
+ */
+export function computeDSDigest(owner: string, key: DNSKEYData, digestType: number): string | undefined {
+  const hash = DS_DIGESTS[digestType];
+  if (!hash) return undefined;
+  return crypto
+    .createHash(hash)
+    .update(Buffer.concat([encodeName(owner.toLowerCase()), dnskeyRdata(key)]))
+    .digest('hex')
+    .toUpperCase();
+}
+
+/**
+ * Whether a DS record refers to the given DNSKEY
+ */
+export function dsMatchesKey(owner: string, ds: DSData, key: DNSKEYData): boolean {
+  if (ds.keyTag !== computeKeyTag(key) || ds.algorithm !== key.algorithm) {
+    return false;
+  }
+  return computeDSDigest(owner, key, ds.digestType) === ds.digest.toUpperCase();
+}
+
+/**
+ * RDATA in canonical form: embedded domain names lowercased (RFC 4034 §6.2)
+ */
+function canonicalRdata(record: DnsRecord): Buffer {
+  const data = record.data;
+  if (data?.type === 'MX') {
+    const priority = Buffer.alloc(2);
+    priority.writeUInt16BE(data.priority, 0);
+    return Buffer.concat([priority, encodeName(data.exchange.toLowerCase())]);
+  }
+  if (data?.type === 'NS' || data?.type === 'CNAME') {
+    return encodeName(data.target.toLowerCase());
+  }
+  if (data?.type === 'DNSKEY') {
+    return dnskeyRdata(data);
+  }
+  return record.rdata;
+}
+
+/**
+ * Owner name as signed: wildcard expansion is undone using the RRSIG
+ * labels field (RFC 4035 §5.3.2)
+ */
+function signedOwner(owner: string, sig: RRSIGData): string {
+  const labels = owner.toLowerCase().split('.').filter(l => l.length > 0);
+  if (sig.labels < labels.length) {
+    return ['*', ...labels.slice(labels.length - sig.labels)].join('.');
+  }
+  return labels.join('.');
+}
+
+/**
+ * Data covered by an RRSIG: RRSIG RDATA without the signature, followed by
+ * the RRset in canonical form and order (RFC 4034 §3.1.8.1)
+ */
+export function signedData(sig: RRSIGData, rrset: DnsRecord[]): Buffer {
+  const fixed = Buffer.alloc(18);
+  fixed.writeUInt16BE(sig.typeCovered, 0);
+  fixed[2] = sig.algorithm;
+  fixed[3] = sig.labels;
+  fixed.writeUInt32BE(sig.originalTtl >>> 0, 4);
+  fixed.writeUInt32BE(sig.expiration >>> 0, 8);
+  fixed.writeUInt32BE(sig.inception >>> 0, 12);
+  fixed.writeUInt16BE(sig.keyTag, 16);
+
+  const rdatas = rrset
+    .map(canonicalRdata)
+    .sort(Buffer.compare)
+    .filter((rdata, i, all) => i === 0 || !rdata.equals(all[i - 1]));
+
+  const records = rdatas.map(rdata => {
+    const owner = encodeName(signedOwner(rrset[0].name, sig));
+    const header = Buffer.alloc(10);
+    header.writeUInt16BE(sig.typeCovered, 0);
+    header.writeUInt16BE(rrset[0].class, 2);
+    header.writeUInt32BE(sig.originalTtl >>> 0, 4);
+    header.writeUInt16BE(rdata.length, 8);
+    return Buffer.concat([owner, header, rdata]);
+  });
+
+  return Buffer.concat([fixed, encodeName(sig.signerName.toLowerCase()), ...records]);
+}
+
+function base64url(bytes: Buffer): string {
+  return bytes.toString('base64url');
+}
+
+function stripLeadingZeros(bytes: Buffer): Buffer {
+  let i = 0;
+  while (i < bytes.length - 1 && bytes[i] === 0) i++;
+  return bytes.subarray(i);
+}
+
+/**
+ * Convert a DNSKEY public key to a node:crypto KeyObject
+ */
+export function dnskeyToKeyObject(key: DNSKEYData): crypto.KeyObject {
+  const params = VERIFY_ALGORITHMS[key.algorithm];
+  if (!params) {
+    throw new Error(`Unsupported DNSSEC algorithm: ${key.algorithm}`);
+  }
+  const raw = Buffer.from(key.publicKey, 'base64');
+
+  if (params.key === 'RSA') {
+    // RFC 3110: exponent length (1 or 3 bytes), exponent, modulus
+    let offset = 1;
+    let expLength = raw[0];
+    if (expLength === 0) {
+      expLength = raw.readUInt16BE(1);
+      offset = 3;
+    }
+    const e = raw.subarray(offset, offset + expLength);
+    const n = raw.subarray(offset + expLength);
+    return crypto.createPublicKey({
+      key: { kty: 'RSA', n: base64url(stripLeadingZeros(n)), e: base64url(stripLeadingZeros(e)) },
+      format: 'jwk',
+    });
+  }
+
+  if (params.key === 'EC') {
+    const half = raw.length / 2;
+    return crypto.createPublicKey({
+      key: { kty: 'EC', crv: params.curve, x: base64url(raw.subarray(0, half)), y: base64url(raw.subarray(half)) },
+      format: 'jwk',
+    });
+  }
+
+  return crypto.createPublicKey({
+    key: { kty: 'OKP', crv: params.curve, x: base64url(raw) },
+    format: 'jwk',
+  });
+}
+
+/**
+ * Verify an RRSIG over an RRset with a DNSKEY.
+ * Only checks the signature; validity windows are up to the caller.
+ */
+export function verifyRRSIG(sig: RRSIGData, rrset: DnsRecord[], key: DNSKEYData): boolean {
+  const params = VERIFY_ALGORITHMS[sig.algorithm];
+  if (!params || key.algorithm !== sig.algorithm || rrset.length === 0) {
+    return false;
+  }
+
+  try {
+    const keyObject = dnskeyToKeyObject(key);
+    const data = signedData(sig, rrset);
+    const signature = Buffer.from(sig.signature, 'base64');
+
+    if (params.key === 'EC') {
+      // DNSSEC ECDSA signatures are raw r||s
+      return crypto.verify(params.hash, data, { key: keyObject, dsaEncoding: 'ieee-p1363' }, signature);
+    }
+    return crypto.verify(params.hash, data, keyObject, signature);
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+}
+
+/**
+ * IANA root zone trust anchors (KSK-2017 and KSK-2024)
+ * https://data.iana.org/root-anchors/root-anchors.xml
+ */
+export const ROOT_TRUST_ANCHORS: DSData[] = [
+  { type: 'DS', keyTag: 20326, algorithm: 8, digestType: 2, digest: 'E06D44B80B8F1D39A95C0B0D7C65D08458E880409BBC683457104237C7F8EC8D' },
+  { type: 'DS', keyTag: 38696, algorithm: 8, digestType: 2, digest: '683D2D0ACB8C9B712A1948B27F741219298D0A450D612C483AF444A4C0FB2B16' },
+];
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { toASCII, isValidDomain } from './domain.js';
+import { toASCII, isValidDomain, organizationalDomain, publicSuffix } from './domain.js';
 
 describe('Domain utilities', () => {
   describe('toASCII', () => {
@@ -59,4 +59,33 @@ describe('Domain utilities', () => {
       expect(isValidDomain('192.168.1.1')).toBe(true);
     });
   });
+
+  describe('publicSuffix', () => {
+    it('should apply the longest matching rule', () => {
+      expect(publicSuffix('mail.example.co.uk')).toBe('co.uk');
+      expect(publicSuffix('example.com')).toBe('com');
+      expect(publicSuffix('user.github.io')).toBe('github.io');
+    });
+
+    it('should apply wildcard and exception rules', () => {
+      expect(publicSuffix('a.b.kawasaki.jp')).toBe('b.kawasaki.jp');
+      expect(publicSuffix('www.city.kawasaki.jp')).toBe('kawasaki.jp');
+    });
+
+    it('should treat unlisted TLDs as public suffixes', () => {
+      expect(publicSuffix('host.example.invalidtld')).toBe('invalidtld');
+    });
+  });
+
+  describe('organizationalDomain', () => {
+    it('should add one label to the public suffix', () => {
+      expect(organizationalDomain('mail.Example.com.')).toBe('example.com');
+      expect(organizationalDomain('example.com')).toBe('example.com');
+      expect(organizationalDomain('a.b.mail.example.co.uk')).toBe('example.co.uk');
+    });
+
+    it('should return a public suffix unchanged', () => {
+      expect(organizationalDomain('co.uk')).toBe('co.uk');
+    });
+  });
 });
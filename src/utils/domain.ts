@@ -3,6 +3,7 @@
  */
 
 import { domainToASCII } from 'node:url';
+import { PSL_RULES } from './psl-data.js';
 
 /**
  * Convert IDN (Internationalized Domain Name) to ASCII (Punycode)
@@ -95,3 +96,45 @@ export function isValidDomain(domain: string): boolean {
   
   return true;
 }
+
+let pslRules: Set<string> | null = null;
+
+function publicSuffixRules(): Set<string> {
+  if (!pslRules) {
+    pslRules = new Set(PSL_RULES.split(/\s+/).filter(Boolean));
+  }
+  return pslRules;
+}
+
+/**
+ * Public suffix of a domain per the Public Suffix List algorithm: the
+ * longest matching rule, wildcards matching one label, exceptions (!)
+ * overriding wildcards, and unlisted TLDs treated as public suffixes.
+ * Uses the bundled snapshot (see psl-data.ts).
+ */
+export function publicSuffix(domain: string): string {
+  const labels = domain.toLowerCase().replace(/\.$/, '').split('.');
+  const rules = publicSuffixRules();
+  let length = 1;
+
+  for (let i = 0; i < labels.length; i++) {
+    const suffix = labels.slice(i).join('.');
+    if (rules.has(`!${suffix}`)) {
+      length = labels.length - i - 1;
+      break;
+    }
+    if (i > 0 && rules.has(`*.${suffix}`)) length = Math.max(length, labels.length - i + 1);
+    if (rules.has(suffix)) length = Math.max(length, labels.length - i);
+  }
+  return labels.slice(-Math.min(length, labels.length)).join('.');
+}
+
+/**
+ * Organizational domain (RFC 7489 §3.2): the public suffix plus one label.
+ * A domain that is itself a public suffix is its own organizational domain.
+ */
+export function organizationalDomain(domain: string): string {
+  const labels = domain.toLowerCase().replace(/\.$/, '').split('.');
+  const suffixLabels = publicSuffix(domain).split('.').length;
+  return labels.slice(-Math.min(suffixLabels + 1, labels.length)).join('.');
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseEmail, headerFields, extractAddress, addressDomain, parseReceived, isInternalAddress } from './email.js';
+
+describe('parseEmail', () => {
+  it('splits folded header fields from the body', () => {
+    const message = parseEmail('From: a@example.com\nSubject: one\n  two\n\nBody\n');
+
+    expect(message.headers).toEqual([
+      { name: 'From', value: 'a@example.com', raw: 'From: a@example.com' },
+      { name: 'Subject', value: 'one  two', raw: 'Subject: one\r\n  two' },
+    ]);
+    expect(message.body).toBe('Body\r\n');
+  });
+
+  it('skips an mbox envelope line and keeps repeated fields in order', () => {
+    const message = parseEmail('From sender@example.com Mon Oct 19 10:00:00 2026\r\nReceived: a\r\nReceived: b\r\n\r\n');
+
+    expect(headerFields(message, 'received').map(h => h.value)).toEqual(['a', 'b']);
+    expect(message.body).toBe('');
+  });
+
+  it('rejects data that is not a message', () => {
+    expect(() => parseEmail('just some text\n\nmore')).toThrow('Not an RFC 5322 message');
+  });
+});
+
+describe('extractAddress', () => {
+  it('prefers the angle-bracketed address', () => {
+    expect(extractAddress('"Alerts (a@b.example)" <alerts@Example.com>')).toBe('alerts@Example.com');
+    expect(extractAddress('user@example.com (User)')).toBe('user@example.com');
+    expect(extractAddress('<>')).toBe('');
+  });
+
+  it('gives the lowercased domain', () => {
+    expect(addressDomain('alerts@Mail.Example.com.')).toBe('mail.example.com');
+    expect(addressDomain('')).toBeUndefined();
+  });
+});
+
+describe('parseReceived', () => {
+  it('extracts the HELO name, connecting address and receiving host', () => {
+    const hop = parseReceived('from mail.example.com (mail.example.com. [192.0.2.1])\r\n by mx.google.com with ESMTPS id x; Mon, 19 Oct 2026 10:00:00 -0700');
+
+    expect(hop).toEqual({ from: 'mail.example.com', ip: '192.0.2.1', by: 'mx.google.com' });
+  });
+
+  it('reads IPv6 literals', () => {
+    expect(parseReceived('from [IPv6:2001:db8::1] (unknown) by mx.example.net').ip).toBe('2001:db8::1');
+  });
+
+  it('handles fields without a from clause', () => {
+    expect(parseReceived('by mx.example.net (Postfix, from userid 0)')).toEqual({ by: 'mx.example.net' });
+  });
+});
+
+describe('isInternalAddress', () => {
+  it('recognizes private and loopback addresses', () => {
+    expect(isInternalAddress('10.1.2.3')).toBe(true);
+    expect(isInternalAddress('::1')).toBe(true);
+    expect(isInternalAddress('fd00::1')).toBe(true);
+    expect(isInternalAddress('192.0.2.1')).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * RFC 5322 message parsing
+ *
+ * Header fields are kept exactly as received (folding included) because
+ * DKIM simple canonicalization signs them byte for byte. The message is
+ * handled as a latin1 string so every octet maps to one character.
+ */
+
+import net from 'node:net';
+import type { ReceivedHop } from '../types.js';
+
+export interface HeaderField {
+  name: string;  // Field name as written
+  value: string; // Unfolded value, leading whitespace removed
+  raw: string;   // Field as received, including folding, without the final CRLF
+}
+
+export interface EmailMessage {
+  headers: HeaderField[];
+  body: string;  // Everything after the empty line, CRLF line endings
+}
+
+/**
+ * Split a message into header fields and body. Bare LF line endings
+ * (messages saved on Unix) are converted to CRLF.
+ */
+export function parseEmail(source: string | Buffer): EmailMessage {
+  const text = (typeof source === 'string' ? source : source.toString('latin1')).replace(/\r?\n/g, '\r\n');
+  const separator = text.indexOf('\r\n\r\n');
+  const head = separator === -1 ? text : text.slice(0, separator);
+  const body = separator === -1 ? '' : text.slice(separator + 4);
+
+  const lines = head.split('\r\n');
+  // mbox files start with a "From sender date" envelope line
+  if (lines[0]?.startsWith('From ')) lines.shift();
+
+  const headers: HeaderField[] = [];
+  for (const line of lines) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].raw += `\r\n${line}`;
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0 || /\s/.test(line.slice(0, colon).trimEnd())) {
+      throw new Error(`Not an RFC 5322 message: invalid header line "${line.slice(0, 40)}"`);
+    }
+    headers.push({ name: line.slice(0, colon).trimEnd(), value: '', raw: line });
+  }
+  if (headers.length === 0) {
+    throw new Error('Not an RFC 5322 message: no header fields');
+  }
+
+  for (const header of headers) {
+    header.value = header.raw.slice(header.raw.indexOf(':') + 1).replace(/\r\n/g, '').trim();
+  }
+  return { headers, body };
+}
+
+/**
+ * Header fields with the given name (case-insensitive), in message order
+ */
+export function headerFields(message: EmailMessage, name: string): HeaderField[] {
+  const lower = name.toLowerCase();
+  return message.headers.filter(header => header.name.toLowerCase() === lower);
+}
+
+/**
+ * The addr-spec of an address field value: the angle-bracketed part when
+ * present, otherwise the first token containing "@". Comments are dropped.
+ */
+export function extractAddress(value: string): string | undefined {
+  const angle = /<([^<>]*)>\s*$/.exec(value) ?? /<([^<>]*)>/.exec(value);
+  if (angle) return angle[1].trim();
+  const token = value.replace(/\([^)]*\)/g, ' ').split(/[\s,]+/).find(part => part.includes('@'));
+  return token?.replace(/^["']|["']$/g, '');
+}
+
+/**
+ * Lowercased domain of an address, without a trailing dot
+ */
+export function addressDomain(address: string | undefined): string | undefined {
+  const at = address?.lastIndexOf('@') ?? -1;
+  if (!address || at === -1) return undefined;
+  const domain = address.slice(at + 1).trim().toLowerCase().replace(/\.$/, '');
+  return domain || undefined;
+}
+
+/**
+ * Sending host, connecting address and receiving host of a Received field
+ * (RFC 5321 §4.4). The address is taken from the "from" clause's comment,
+ * e.g. "from mail.example.com (mail.example.com [192.0.2.1]) by mx.example.net".
+ */
+export function parseReceived(value: string): ReceivedHop {
+  const hop: ReceivedHop = {};
+  const fromClause = /^\s*from\s+(.*?)(?:\s+by\s+|;|$)/is.exec(value)?.[1] ?? '';
+  const helo = /^([^\s()]+)/.exec(fromClause)?.[1];
+  if (helo) hop.from = helo.replace(/^\[|\]$/g, '');
+
+  for (const match of fromClause.matchAll(/\[(?:IPv6:)?([0-9a-fA-F:.]+)\]/g)) {
+    if (net.isIP(match[1])) {
+      hop.ip = match[1];
+      break;
+    }
+  }
+
+  const by = /(?:^|\s)by\s+([^\s;()]+)/i.exec(value)?.[1];
+  if (by) hop.by = by;
+  return hop;
+}
+
+const PRIVATE_NETWORKS = new net.BlockList();
+PRIVATE_NETWORKS.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('::1', 128, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fe80::', 10, 'ipv6');
+
+/**
+ * Whether an address is private, loopback or link-local, i.e. an internal hop
+ */
+export function isInternalAddress(ip: string): boolean {
+  const family = net.isIP(ip);
+  return family !== 0 && PRIVATE_NETWORKS.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
@@ -1,3 +1,10 @@
 export * from './dns.js';
 export * from './parser.js';
 export * from './domain.js';
+export * from './dns-wire.js';
+export * from './dnssec-crypto.js';
+export * from './xml.js';
+export * from './archive.js';
+export * from './email.js';
+export * from './dkim-crypto.js';
+export * from './der.js';
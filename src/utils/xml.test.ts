@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseXml, xmlChild, xmlChildren, xmlText } from './xml.js';
+
+describe('parseXml', () => {
+  it('parses elements, attributes and text', () => {
+    const root = parseXml('<?xml version="1.0"?>\n<!-- report -->\n<a x="1" y=\'2\'><b>one</b><b>two</b><c/></a>');
+
+    expect(root.name).toBe('a');
+    expect(root.attributes).toEqual({ x: '1', y: '2' });
+    expect(xmlChildren(root, 'b').map(b => b.text)).toEqual(['one', 'two']);
+    expect(xmlChild(root, 'c')).toMatchObject({ name: 'c', children: [], text: '' });
+  });
+
+  it('decodes entities and CDATA', () => {
+    const root = parseXml('<a><b>AT&amp;T &lt;x&gt; &#65;&#x42;</b><c><![CDATA[<raw> & text]]></c></a>');
+
+    expect(xmlText(root, 'b')).toBe('AT&T <x> AB');
+    expect(xmlText(root, 'c')).toBe('<raw> & text');
+  });
+
+  it('drops namespace prefixes', () => {
+    const root = parseXml('<dmarc:feedback xmlns:dmarc="urn:x"><dmarc:version>2.0</dmarc:version></dmarc:feedback>');
+
+    expect(root.name).toBe('feedback');
+    expect(xmlText(root, 'version')).toBe('2.0');
+  });
+
+  it('follows child paths', () => {
+    const root = parseXml('<a><b><c> value </c></b></a>');
+
+    expect(xmlText(root, 'b', 'c')).toBe('value');
+    expect(xmlText(root, 'b', 'missing')).toBeUndefined();
+  });
+
+  it('rejects malformed documents', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow(/unexpected <\/a>/);
+    expect(() => parseXml('<a>')).toThrow(/unclosed <a>/);
+    expect(() => parseXml('<a/><b/>')).toThrow(/multiple root elements/);
+    expect(() => parseXml('not xml')).toThrow(/text outside the root element/);
+  });
+});
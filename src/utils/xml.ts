@@ -0,0 +1,135 @@
+/**
+ * Minimal XML parser for machine-generated documents (DMARC reports)
+ *
+ * Handles elements, attributes, text, CDATA, comments, processing
+ * instructions and the predefined/numeric entities. Namespace prefixes
+ * are dropped from element and attribute names. No DTD support.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated text content of this element (not descendants)
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let pos = xml.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const fail = (message: string): never => {
+    const line = xml.slice(0, pos).split('\n').length;
+    throw new Error(`Invalid XML at line ${line}: ${message}`);
+  };
+
+  const skipTo = (terminator: string, what: string): string => {
+    const end = xml.indexOf(terminator, pos);
+    if (end === -1) fail(`unterminated ${what}`);
+    const content = xml.slice(pos, end);
+    pos = end + terminator.length;
+    return content;
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    const text = xml.slice(pos, lt === -1 ? xml.length : lt);
+    if (stack.length > 0) {
+      stack[stack.length - 1].text += decodeEntities(text);
+    } else if (text.trim()) {
+      fail('text outside the root element');
+    }
+    if (lt === -1) break;
+    pos = lt;
+
+    if (xml.startsWith('<!--', pos)) {
+      pos += 4;
+      skipTo('-->', 'comment');
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      pos += 9;
+      const data = skipTo(']]>', 'CDATA section');
+      if (stack.length === 0) fail('CDATA outside the root element');
+      stack[stack.length - 1].text += data;
+    } else if (xml.startsWith('<?', pos)) {
+      pos += 2;
+      skipTo('?>', 'processing instruction');
+    } else if (xml.startsWith('<!', pos)) {
+      pos += 2;
+      skipTo('>', 'declaration');
+    } else if (xml.startsWith('</', pos)) {
+      pos += 2;
+      const name = localName(skipTo('>', 'end tag').trim());
+      const open = stack.pop();
+      if (!open || open.name !== name) fail(`unexpected </${name}>`);
+    } else {
+      pos += 1;
+      const tag = /^([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(xml.slice(pos));
+      if (!tag) fail('malformed start tag');
+      const [whole, name, attrs, selfClosing] = tag!;
+      const element: XmlElement = { name: localName(name), attributes: {}, children: [], text: '' };
+      for (const attr of attrs.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attributes[localName(attr[1])] = decodeEntities(attr[2] ?? attr[3]);
+      }
+      pos += whole.length;
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail('multiple root elements');
+      } else {
+        root = element;
+      }
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) fail(`unclosed <${stack[stack.length - 1].name}>`);
+  if (!root) fail('no root element');
+  return root!;
+}
+
+/**
+ * First child element with the given name
+ */
+export function xmlChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(c => c.name === name);
+}
+
+/**
+ * All child elements with the given name
+ */
+export function xmlChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter(c => c.name === name) ?? [];
+}
+
+/**
+ * Trimmed text of the element at a child path, e.g. xmlText(record, 'row', 'source_ip')
+ */
+export function xmlText(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  const target = path.reduce<XmlElement | undefined>((el, name) => xmlChild(el, name), element);
+  const text = target?.text.trim();
+  return text || undefined;
+}